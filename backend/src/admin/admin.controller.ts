@@ -0,0 +1,154 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { SuperAdminGuard } from '../auth/super-admin.guard';
+import {
+  ConversationDetail,
+  ConversationSummary,
+  ConversationsService,
+} from '../conversations/conversations.service';
+import {
+  AdminActor,
+  AdminImpersonation,
+  AdminService,
+  AdminTenantErrors,
+  AdminTenantSummary,
+} from './admin.service';
+import { StartImpersonationDto } from './dto/start-impersonation.dto';
+import { SubscriptionOverrideDto } from './dto/subscription-override.dto';
+
+@Controller('admin')
+@UseGuards(AuthGuard('supabase'), SuperAdminGuard)
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly conversationsService: ConversationsService,
+  ) {}
+
+  @Get('tenants')
+  async listTenants(
+    @Query('search') search?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<{ tenants: AdminTenantSummary[]; total: number }> {
+    return this.adminService.listTenants({
+      search,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get('tenants/:id/errors')
+  async getTenantErrors(
+    @Param('id') tenantId: string,
+    @Query('limit') limit?: string,
+  ): Promise<AdminTenantErrors> {
+    return this.adminService.getTenantErrors(tenantId, limit ? parseInt(limit, 10) : undefined);
+  }
+
+  @Post('tenants/:id/sync/hostaway')
+  async triggerHostawaySync(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') tenantId: string,
+  ): Promise<{ queued: boolean }> {
+    return this.adminService.triggerHostawaySync(this.getActor(req), tenantId);
+  }
+
+  @Post('tenants/:id/sync/rag')
+  async triggerRagSync(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') tenantId: string,
+    @Body() body: { limit?: number } = {},
+  ): Promise<{ success: boolean; jobId: string | null; message: string }> {
+    return this.adminService.triggerRagSync(this.getActor(req), tenantId, body?.limit);
+  }
+
+  @Put('tenants/:id/subscription-override')
+  async setSubscriptionOverride(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') tenantId: string,
+    @Body() dto: SubscriptionOverrideDto,
+  ): Promise<AdminTenantSummary> {
+    return this.adminService.setSubscriptionOverride(this.getActor(req), tenantId, dto);
+  }
+
+  @Delete('tenants/:id/subscription-override')
+  async clearSubscriptionOverride(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') tenantId: string,
+  ): Promise<AdminTenantSummary> {
+    return this.adminService.clearSubscriptionOverride(this.getActor(req), tenantId);
+  }
+
+  @Post('tenants/:id/impersonations')
+  async startImpersonation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') tenantId: string,
+    @Body() dto: StartImpersonationDto,
+  ): Promise<AdminImpersonation> {
+    return this.adminService.startImpersonation(this.getActor(req), tenantId, dto?.reason);
+  }
+
+  @Delete('impersonations/:id')
+  async endImpersonation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') impersonationId: string,
+  ): Promise<{ ended: boolean }> {
+    await this.adminService.endImpersonation(this.getActor(req), impersonationId);
+    return { ended: true };
+  }
+
+  // Impersonation is read-only: only the inbox list and detail reads are exposed here
+  @Get('impersonations/:id/conversations')
+  async listImpersonatedConversations(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') impersonationId: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+    @Query('status') status?: string,
+    @Query('days') days?: string,
+  ): Promise<{ conversations: ConversationSummary[]; total: number }> {
+    const tenantId = await this.adminService.authorizeImpersonatedRead(
+      this.getActor(req),
+      impersonationId,
+      'impersonation.conversations_listed',
+    );
+    return this.conversationsService.listConversations(tenantId, {
+      limit: limit ? parseInt(limit, 10) : 50,
+      offset: offset ? parseInt(offset, 10) : 0,
+      status: status as 'automated' | 'paused_by_human' | undefined,
+      days: days ? parseInt(days, 10) : 365,
+    });
+  }
+
+  @Get('impersonations/:id/conversations/:conversationId')
+  async getImpersonatedConversation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') impersonationId: string,
+    @Param('conversationId') conversationId: string,
+  ): Promise<ConversationDetail> {
+    const tenantId = await this.adminService.authorizeImpersonatedRead(
+      this.getActor(req),
+      impersonationId,
+      'impersonation.conversation_viewed',
+      { conversationId },
+    );
+    return this.conversationsService.getConversationDetail(tenantId, conversationId);
+  }
+
+  private getActor(req: AuthenticatedRequest): AdminActor {
+    return { userId: req.user.userId, ip: req.ip ?? null };
+  }
+}
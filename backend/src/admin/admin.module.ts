@@ -0,0 +1,24 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+
+import { ConversationsModule } from '../conversations/conversations.module';
+import { DatabaseModule } from '../database/database.module';
+import { IntegrationsModule } from '../integrations/integrations.module';
+import { RagModule } from '../rag/rag.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [
+    PassportModule,
+    DatabaseModule,
+    TenantModule,
+    forwardRef(() => IntegrationsModule),
+    RagModule,
+    ConversationsModule,
+  ],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
@@ -0,0 +1,498 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { isValid, parseISO } from 'date-fns';
+
+import { DatabaseService } from '../database/database.service';
+import { IntegrationsService } from '../integrations/integrations.service';
+import { JobKind, JobStatus } from '../jobs/jobs.service';
+import { RagSyncService } from '../rag/rag-sync.service';
+import { TenantService } from '../tenant/tenant.service';
+import {
+  SUBSCRIPTION_OVERRIDE_STATUSES,
+  SubscriptionOverrideDto,
+} from './dto/subscription-override.dto';
+
+export interface AdminTenantSummary {
+  id: string;
+  name: string;
+  slug: string;
+  contactEmail: string | null;
+  createdAt: Date;
+  subscription: {
+    // Status the platform acts on, after any override
+    effectiveStatus: string;
+    stripeStatus: string;
+    stripeCustomerId: string | null;
+    stripeSubscriptionId: string | null;
+    override: string | null;
+    overrideReason: string | null;
+    overrideUntil: Date | null;
+  };
+  integrations: {
+    hostaway: boolean;
+    twilio: boolean;
+  };
+  sync: {
+    status: string | null;
+    lastSyncAt: Date | null;
+    error: string | null;
+  };
+  memberCount: number;
+  deadJobs: number;
+  // Rejected webhook deliveries in the last 7 days
+  recentWebhookRejections: number;
+}
+
+export interface AdminTenantErrors {
+  webhookRejections: {
+    id: string;
+    source: string;
+    reason: string;
+    event: string | null;
+    remoteIp: string | null;
+    createdAt: Date;
+  }[];
+  jobErrors: {
+    id: string;
+    kind: JobKind;
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+    updatedAt: Date;
+  }[];
+}
+
+export interface AdminImpersonation {
+  id: string;
+  tenantId: string;
+  reason: string;
+  startedAt: Date;
+  expiresAt: Date;
+}
+
+interface AdminTenantRow {
+  id: string;
+  name: string;
+  slug: string;
+  contact_email: string | null;
+  created_at: Date;
+  effective_status: string;
+  subscription_status: string;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  subscription_override: string | null;
+  subscription_override_reason: string | null;
+  subscription_override_until: Date | null;
+  hostaway_connected: boolean;
+  twilio_connected: boolean;
+  hostaway_sync_status: string | null;
+  hostaway_last_sync_at: Date | null;
+  hostaway_sync_error: string | null;
+  member_count: string;
+  dead_jobs: string;
+  recent_webhook_rejections: string;
+}
+
+interface ImpersonationRow {
+  id: string;
+  admin_user_id: string;
+  tenant_id: string;
+  reason: string;
+  started_at: Date;
+  expires_at: Date;
+  ended_at: Date | null;
+}
+
+/** Who performed an admin action and from where, for the admin audit log. */
+export interface AdminActor {
+  userId: string;
+  ip?: string | null;
+}
+
+const IMPERSONATION_MINUTES = 60;
+
+/**
+ * Platform operations across all tenants for super-admins. Every action that changes a tenant or
+ * reads its data is written to the admin audit log.
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly tenantService: TenantService,
+    private readonly integrationsService: IntegrationsService,
+    private readonly ragSyncService: RagSyncService,
+  ) {}
+
+  async listTenants(
+    options: { search?: string; limit?: number; offset?: number } = {},
+  ): Promise<{ tenants: AdminTenantSummary[]; total: number }> {
+    const limit = Math.min(options.limit ?? 50, 200);
+    const offset = options.offset ?? 0;
+    const search = options.search?.trim() ? `%${options.search.trim()}%` : null;
+
+    const countResult = await this.databaseService.runQuery<{ total: string }>(
+      `select count(*) as total
+         from public.tenants t
+        where ($1::text is null or t.name ilike $1 or t.slug ilike $1 or t.contact_email ilike $1)`,
+      [search],
+    );
+
+    const rows = await this.queryTenants(
+      `where ($1::text is null or t.name ilike $1 or t.slug ilike $1 or t.contact_email ilike $1)
+       order by t.created_at desc
+       limit $2 offset $3`,
+      [search, limit, offset],
+    );
+
+    return {
+      tenants: rows.map((row) => this.mapTenant(row)),
+      total: parseInt(countResult.rows[0]?.total ?? '0', 10),
+    };
+  }
+
+  async getTenantErrors(tenantId: string, limit = 50): Promise<AdminTenantErrors> {
+    await this.tenantService.getTenantById(tenantId);
+    const cappedLimit = Math.min(limit, 200);
+
+    const { rows: rejectionRows } = await this.databaseService.runQuery<{
+      id: string;
+      source: string;
+      reason: string;
+      event: string | null;
+      remote_ip: string | null;
+      created_at: Date;
+    }>(
+      `select id, source, reason, event, remote_ip, created_at
+         from public.webhook_rejections
+        where tenant_id = $1
+        order by created_at desc
+        limit $2`,
+      [tenantId, cappedLimit],
+    );
+
+    // Dead jobs and jobs still retrying after a failure
+    const { rows: jobRows } = await this.databaseService.runQuery<{
+      id: string;
+      kind: JobKind;
+      status: JobStatus;
+      attempts: number;
+      max_attempts: number;
+      last_error: string | null;
+      updated_at: Date;
+    }>(
+      `select id, kind, status, attempts, max_attempts, last_error, updated_at
+         from public.jobs
+        where tenant_id = $1
+          and last_error is not null
+          and status <> 'completed'
+        order by updated_at desc
+        limit $2`,
+      [tenantId, cappedLimit],
+    );
+
+    return {
+      webhookRejections: rejectionRows.map((row) => ({
+        id: row.id,
+        source: row.source,
+        reason: row.reason,
+        event: row.event,
+        remoteIp: row.remote_ip,
+        createdAt: row.created_at,
+      })),
+      jobErrors: jobRows.map((row) => ({
+        id: row.id,
+        kind: row.kind,
+        status: row.status,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        lastError: row.last_error,
+        updatedAt: row.updated_at,
+      })),
+    };
+  }
+
+  async triggerHostawaySync(actor: AdminActor, tenantId: string): Promise<{ queued: boolean }> {
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    if (!tenant.encryptedHostawayAccessToken) {
+      throw new BadRequestException('Hostaway integration is not configured for this tenant');
+    }
+
+    await this.integrationsService.enqueueHostawaySync(tenantId, 'admin');
+    await this.recordAudit(actor, tenantId, 'hostaway_sync.triggered');
+    return { queued: true };
+  }
+
+  async triggerRagSync(
+    actor: AdminActor,
+    tenantId: string,
+    limit?: number,
+  ): Promise<{ success: boolean; jobId: string | null; message: string }> {
+    const result = await this.ragSyncService.enqueueSync(tenantId, actor.userId, limit);
+    await this.recordAudit(actor, tenantId, 'rag_sync.triggered', { limit, jobId: result.jobId });
+    return result;
+  }
+
+  async setSubscriptionOverride(
+    actor: AdminActor,
+    tenantId: string,
+    dto: SubscriptionOverrideDto,
+  ): Promise<AdminTenantSummary> {
+    if (!SUBSCRIPTION_OVERRIDE_STATUSES.includes(dto?.status)) {
+      throw new BadRequestException(
+        `status must be one of: ${SUBSCRIPTION_OVERRIDE_STATUSES.join(', ')}`,
+      );
+    }
+
+    const reason = typeof dto.reason === 'string' ? dto.reason.trim() : '';
+    if (!reason) {
+      throw new BadRequestException('reason is required');
+    }
+
+    let until: Date | null = null;
+    if (dto.until) {
+      until = parseISO(dto.until);
+      if (!isValid(until) || until <= new Date()) {
+        throw new BadRequestException('until must be a future ISO date');
+      }
+    }
+
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.tenants
+          set subscription_override = $2,
+              subscription_override_reason = $3,
+              subscription_override_until = $4,
+              updated_at = now()
+        where id = $1`,
+      [tenantId, dto.status, reason, until?.toISOString() ?? null],
+    );
+    if (!rowCount) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    await this.recordAudit(actor, tenantId, 'subscription_override.set', {
+      status: dto.status,
+      reason,
+      until: until?.toISOString() ?? null,
+    });
+
+    return this.getTenant(tenantId);
+  }
+
+  async clearSubscriptionOverride(
+    actor: AdminActor,
+    tenantId: string,
+  ): Promise<AdminTenantSummary> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.tenants
+          set subscription_override = null,
+              subscription_override_reason = null,
+              subscription_override_until = null,
+              updated_at = now()
+        where id = $1`,
+      [tenantId],
+    );
+    if (!rowCount) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    await this.recordAudit(actor, tenantId, 'subscription_override.cleared');
+    return this.getTenant(tenantId);
+  }
+
+  async startImpersonation(
+    actor: AdminActor,
+    tenantId: string,
+    reason: string,
+  ): Promise<AdminImpersonation> {
+    const trimmed = typeof reason === 'string' ? reason.trim() : '';
+    if (!trimmed) {
+      throw new BadRequestException('reason is required');
+    }
+
+    await this.tenantService.getTenantById(tenantId);
+
+    const { rows } = await this.databaseService.runQuery<ImpersonationRow>(
+      `insert into public.admin_impersonations (admin_user_id, tenant_id, reason, expires_at)
+       values ($1, $2, $3, now() + make_interval(mins => $4))
+       returning id, admin_user_id, tenant_id, reason, started_at, expires_at, ended_at`,
+      [actor.userId, tenantId, trimmed, IMPERSONATION_MINUTES],
+    );
+
+    await this.recordAudit(actor, tenantId, 'impersonation.started', {
+      impersonationId: rows[0].id,
+      reason: trimmed,
+    });
+    this.logger.log(`Admin ${actor.userId} started impersonating tenant ${tenantId}`);
+
+    return this.mapImpersonation(rows[0]);
+  }
+
+  async endImpersonation(actor: AdminActor, impersonationId: string): Promise<void> {
+    const session = await this.findImpersonation(actor, impersonationId);
+
+    await this.databaseService.runQuery(
+      `update public.admin_impersonations
+          set ended_at = coalesce(ended_at, now())
+        where id = $1`,
+      [impersonationId],
+    );
+    await this.recordAudit(actor, session.tenant_id, 'impersonation.ended', { impersonationId });
+  }
+
+  /**
+   * Resolves an active impersonation session owned by the caller and audits the read it is about
+   * to be used for. Returns the tenant whose data may be read.
+   */
+  async authorizeImpersonatedRead(
+    actor: AdminActor,
+    impersonationId: string,
+    action: string,
+    details: Record<string, unknown> = {},
+  ): Promise<string> {
+    const session = await this.findImpersonation(actor, impersonationId);
+    if (session.ended_at || new Date(session.expires_at) <= new Date()) {
+      throw new ForbiddenException('Impersonation session has ended; start a new one');
+    }
+
+    await this.recordAudit(actor, session.tenant_id, action, { impersonationId, ...details });
+    return session.tenant_id;
+  }
+
+  private async getTenant(tenantId: string): Promise<AdminTenantSummary> {
+    const rows = await this.queryTenants('where t.id = $1', [tenantId]);
+    if (!rows[0]) {
+      throw new NotFoundException('Tenant not found');
+    }
+    return this.mapTenant(rows[0]);
+  }
+
+  private async queryTenants(filterSql: string, params: unknown[]): Promise<AdminTenantRow[]> {
+    const { rows } = await this.databaseService.runQuery<AdminTenantRow>(
+      `select t.id,
+              t.name,
+              t.slug,
+              t.contact_email,
+              t.created_at,
+              coalesce(
+                case
+                  when t.subscription_override_until is null
+                    or t.subscription_override_until > now()
+                    then t.subscription_override
+                end,
+                case
+                  when t.subscription_status = 'grace_period'
+                    and t.subscription_grace_until <= now()
+                    then 'past_due'
+                  else t.subscription_status
+                end
+              ) as effective_status,
+              t.subscription_status,
+              t.stripe_customer_id,
+              t.stripe_subscription_id,
+              t.subscription_override,
+              t.subscription_override_reason,
+              t.subscription_override_until,
+              t.encrypted_hostaway_access_token is not null as hostaway_connected,
+              (t.twilio_account_sid is not null and t.encrypted_twilio_auth_token is not null)
+                as twilio_connected,
+              t.hostaway_sync_status,
+              t.hostaway_last_sync_at,
+              t.hostaway_sync_error,
+              (select count(*) from public.user_profiles up where up.tenant_id = t.id)
+                as member_count,
+              (select count(*) from public.jobs j where j.tenant_id = t.id and j.status = 'dead')
+                as dead_jobs,
+              (select count(*)
+                 from public.webhook_rejections w
+                where w.tenant_id = t.id
+                  and w.created_at > now() - interval '7 days') as recent_webhook_rejections
+         from public.tenants t
+       ${filterSql}`,
+      params,
+    );
+    return rows;
+  }
+
+  private async findImpersonation(
+    actor: AdminActor,
+    impersonationId: string,
+  ): Promise<ImpersonationRow> {
+    const { rows } = await this.databaseService.runQuery<ImpersonationRow>(
+      `select id, admin_user_id, tenant_id, reason, started_at, expires_at, ended_at
+         from public.admin_impersonations
+        where id = $1
+          and admin_user_id = $2
+        limit 1`,
+      [impersonationId, actor.userId],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Impersonation session not found');
+    }
+
+    return rows[0];
+  }
+
+  private async recordAudit(
+    actor: AdminActor,
+    tenantId: string | null,
+    action: string,
+    details: Record<string, unknown> = {},
+  ): Promise<void> {
+    await this.databaseService.runQuery(
+      `insert into public.admin_audit_log (admin_user_id, tenant_id, action, details, remote_ip)
+       values ($1, $2, $3, $4::jsonb, $5)`,
+      [actor.userId, tenantId, action, JSON.stringify(details), actor.ip ?? null],
+    );
+  }
+
+  private mapTenant(row: AdminTenantRow): AdminTenantSummary {
+    return {
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      contactEmail: row.contact_email,
+      createdAt: row.created_at,
+      subscription: {
+        effectiveStatus: row.effective_status,
+        stripeStatus: row.subscription_status,
+        stripeCustomerId: row.stripe_customer_id,
+        stripeSubscriptionId: row.stripe_subscription_id,
+        override: row.subscription_override,
+        overrideReason: row.subscription_override_reason,
+        overrideUntil: row.subscription_override_until,
+      },
+      integrations: {
+        hostaway: row.hostaway_connected,
+        twilio: row.twilio_connected,
+      },
+      sync: {
+        status: row.hostaway_sync_status,
+        lastSyncAt: row.hostaway_last_sync_at,
+        error: row.hostaway_sync_error,
+      },
+      memberCount: parseInt(row.member_count, 10),
+      deadJobs: parseInt(row.dead_jobs, 10),
+      recentWebhookRejections: parseInt(row.recent_webhook_rejections, 10),
+    };
+  }
+
+  private mapImpersonation(row: ImpersonationRow): AdminImpersonation {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      reason: row.reason,
+      startedAt: row.started_at,
+      expiresAt: row.expires_at,
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class StartImpersonationDto {
+  // Recorded in the audit log, e.g. the support ticket being investigated
+  @IsString()
+  @MaxLength(500)
+  reason!: string;
+}
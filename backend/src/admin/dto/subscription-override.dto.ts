@@ -0,0 +1,20 @@
+import { IsIn, IsISO8601, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export const SUBSCRIPTION_OVERRIDE_STATUSES = ['active', 'inactive'] as const;
+
+export type SubscriptionOverrideStatus = (typeof SUBSCRIPTION_OVERRIDE_STATUSES)[number];
+
+export class SubscriptionOverrideDto {
+  // 'active' comps the tenant, 'inactive' suspends it regardless of Stripe
+  @IsIn(SUBSCRIPTION_OVERRIDE_STATUSES)
+  status!: SubscriptionOverrideStatus;
+
+  @IsString()
+  @MaxLength(500)
+  reason!: string;
+
+  // Omit to keep the override until it is cleared
+  @IsOptional()
+  @IsISO8601()
+  until?: string | null;
+}
@@ -1,9 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
 
-import { HostawayClient } from '../integrations/hostaway.client';
+import { UpsellOrder } from '@saas-automation/shared-types';
+
+import { BookingsService } from '../bookings/bookings.service';
+import { EntitlementsService } from '../entitlements/entitlements.service';
 import { ConversationRecord, ConversationsService } from '../conversations/conversations.service';
+import { TasksService } from '../tasks/tasks.service';
+import { LlmUsage } from '../llm/llm.types';
 import { TenantSummary } from '../tenant/tenant.service';
-import { GuestContext } from './ai.types';
+import { formatUpsellPrice, UpsellsService } from '../upsells/upsells.service';
+import { UsageService } from '../usage/usage.service';
+import { AiRuntimeSettings, AiSettingsService } from './ai-settings.service';
+import { AiIntent, GuestContext, IntentClassification } from './ai.types';
 import { DataRetrieverService } from './data.retriever';
 import { EscalationService } from './escalation.service';
 import { IntentService } from './intent.service';
@@ -12,8 +20,25 @@ import { ResponseGeneratorService } from './response.generator';
 interface AiResponsePayload {
   message: string;
   logId: string;
+  // The reply was stored as a draft and must not be sent until staff approve it
+  requiresApproval: boolean;
+}
+
+interface AiReplyOutcome {
+  reply: string | null;
+  metadata: Record<string, unknown>;
 }
 
+// Requests the AI can answer but only staff can act on; they are alerted without pausing the AI
+const STAFF_FOLLOW_UP_TITLES: Partial<Record<AiIntent, string>> = {
+  early_check_in: 'Early check-in request',
+  late_checkout: 'Late checkout request',
+  stay_extension: 'Stay extension request',
+  booking_modification: 'Booking change request',
+  cancellation_request: 'Cancellation request',
+  lost_and_found: 'Lost and found report',
+};
+
 @Injectable()
 export class AiEngineService {
   private readonly logger = new Logger(AiEngineService.name);
@@ -24,7 +49,12 @@ export class AiEngineService {
     private readonly conversationsService: ConversationsService,
     private readonly responseGenerator: ResponseGeneratorService,
     private readonly escalationService: EscalationService,
-    private readonly hostawayClient: HostawayClient,
+    private readonly bookingsService: BookingsService,
+    private readonly aiSettingsService: AiSettingsService,
+    private readonly upsellsService: UpsellsService,
+    private readonly tasksService: TasksService,
+    private readonly usageService: UsageService,
+    private readonly entitlementsService: EntitlementsService,
   ) {}
 
   async processMessage(
@@ -38,6 +68,28 @@ export class AiEngineService {
       return null;
     }
 
+    const configuredMode = this.conversationsService.resolveAiReplyMode(tenant, conversation);
+    if (configuredMode === 'off') {
+      this.logger.debug(`AI replies are turned off for conversation ${conversation.id}; skipping.`);
+      return null;
+    }
+
+    if (!(await this.entitlementsService.isBookingListingCovered(tenant, conversation.bookingId))) {
+      this.logger.debug(
+        `Listing for conversation ${conversation.id} is beyond the plan's listing allowance; skipping AI response.`,
+      );
+      return null;
+    }
+
+    // Plans without automatic replies still get AI drafts for staff to approve
+    const replyMode =
+      configuredMode === 'autonomous' &&
+      !(await this.entitlementsService.isEntitled(tenant, 'ai_auto_reply'))
+        ? 'approval_required'
+        : configuredMode;
+
+    const settings = await this.aiSettingsService.getRuntimeSettings(tenant.id);
+
     // Get conversation history for context
     const history = await this.conversationsService.getConversationHistoryForAi(
       conversation.id,
@@ -59,42 +111,116 @@ export class AiEngineService {
       conversationContext = `\n\nRecent conversation history:\n${recentMessages}`;
     }
 
-    // Include context in message for classification
-    const messageWithContext = conversationContext ? `${message}${conversationContext}` : message;
+    // A "yes" to an upsell offered earlier books it instead of starting a new answer. A draft only
+    // books it once staff approve the confirmation.
+    const requiresApproval = replyMode === 'approval_required';
+    const acceptedUpsells = await this.upsellsService.handleGuestReply(
+      tenant,
+      conversation.id,
+      guest.name,
+      message,
+      { deferAcceptance: requiresApproval },
+    );
+    const { reply, metadata } =
+      acceptedUpsells.length > 0
+        ? {
+            reply: this.confirmUpsells(guest, acceptedUpsells),
+            metadata: {
+              intent: 'upsell_acceptance',
+              upsellOrderIds: acceptedUpsells.map((o) => o.id),
+              ...(requiresApproval ? { upsellAcceptancePending: true, guestName: guest.name } : {}),
+            },
+          }
+        : await this.replyToMessage(
+            tenant,
+            conversation,
+            guest,
+            message,
+            settings,
+            conversationContext,
+          );
+
+    if (!reply) {
+      return null;
+    }
+
+    const logId = await this.conversationsService.createPendingAiReply(
+      conversation,
+      reply,
+      {
+        ...metadata,
+        reservationId: guest.reservationId ?? null,
+        // Lets an approved draft go back out on the channel the guest used
+        ...(requiresApproval && guest.replyChannel && guest.phone
+          ? { replyChannel: guest.replyChannel, guestPhone: guest.phone }
+          : {}),
+      },
+      { asDraft: requiresApproval },
+    );
+
+    return { message: reply, logId, requiresApproval };
+  }
 
-    const classification = await this.intentService.classify(messageWithContext);
+  private async replyToMessage(
+    tenant: TenantSummary,
+    conversation: ConversationRecord,
+    guest: GuestContext,
+    message: string,
+    settings: AiRuntimeSettings,
+    conversationContext: string,
+  ): Promise<AiReplyOutcome> {
+    // History helps resolve short replies, but only the new message is classified
+    const classification = await this.intentService.classify(
+      message,
+      settings,
+      conversationContext,
+    );
     this.logger.debug(
-      `Intent classified as ${
-        classification.intent
-      } (confidence ${classification.confidence.toFixed(2)}) for tenant ${tenant.id}`,
+      `Intents classified as ${classification.intents
+        .map((match) => `${match.intent} (${match.confidence.toFixed(2)})`)
+        .join(', ')} for tenant ${tenant.id}`,
     );
 
     let reply: string | null = null;
+    let responseUsage: LlmUsage | undefined;
 
     if (classification.intent === 'emergency') {
-      await this.escalationService.triggerEmergencyCall(tenant, guest, message);
+      await this.escalationService.triggerEmergencyCall(tenant, guest, message, conversation.id);
       reply = `Hi ${
         guest.name ?? 'there'
       }, we've alerted our emergency response team and will reach out immediately.`;
-    } else if (classification.confidence < 0.45) {
+    } else if (this.hasIntent(classification, 'complaint', settings.lowConfidenceThreshold)) {
+      // Complaints and damage reports go to a human; the AI only acknowledges them
+      await this.escalationService.notifyStaff(tenant, guest, message, 'complaint', {
+        title: 'Guest complaint',
+        trigger: 'complaint',
+        conversationId: conversation.id,
+        pauseConversation: true,
+      });
+      reply = `Hi ${
+        guest.name ?? 'there'
+      }, I'm sorry to hear that. I've passed this on to our team and someone will get back to you personally as soon as possible.`;
+    } else if (classification.confidence < settings.lowConfidenceThreshold) {
       await this.escalationService.notifyLowConfidence(
         tenant,
         guest,
         message,
         classification.intent,
+        conversation.id,
       );
       reply = `Thanks for your message! I'm looping in our team to make sure we give you the best answer shortly.`;
     } else {
       const reservationId = guest.reservationId ?? this.extractReservationId(guest);
-      const data = await this.dataRetriever.retrieveData(classification.intent, tenant, {
+      const data = await this.dataRetriever.retrieveData(classification.intents, tenant, {
         reservationId,
         message,
         topicKeywords: this.extractKeywords(message),
+        entities: classification.entities,
       });
 
       if (!data.reservation && reservationId) {
         try {
-          data.reservation = await this.hostawayClient.getReservation(tenant, reservationId);
+          data.reservation = await this.bookingsService.getReservation(tenant, reservationId);
         } catch (error) {
           this.logger.warn(
             `Failed to pull reservation ${reservationId} for AI response: ${
@@ -104,27 +230,83 @@ export class AiEngineService {
         }
       }
 
-      reply = await this.responseGenerator.generateResponse(
-        classification.intent,
+      const generated = await this.responseGenerator.generateResponse(
+        classification,
         tenant.name,
         guest.name,
         message,
         data,
         conversationContext, // Pass conversation context for better understanding
+        settings,
       );
-    }
+      reply = generated.message;
+      responseUsage = generated.usage;
 
-    if (!reply) {
-      return null;
+      if (data.upsellOffers?.length && data.reservation) {
+        await this.upsellsService.recordOffers(
+          tenant.id,
+          conversation.id,
+          data.reservation,
+          data.upsellOffers,
+        );
+      }
+
+      // The AI only quotes extensions; a person confirms and changes the booking
+      if (data.extension) {
+        await this.tasksService.createTask(tenant.id, {
+          conversationId: conversation.id,
+          reservationId: reservationId ?? null,
+          type: 'stay_extension',
+          title: `Confirm ${data.extension.nights}-night extension for ${guest.name ?? 'guest'}`,
+          details: { ...data.extension, guestMessage: message },
+        });
+      }
+
+      // Offered upsells replace the staff alert; staff hear about them once the guest accepts
+      const offeredTypes = new Set<string>(data.upsellOffers?.map((offer) => offer.type));
+      for (const match of classification.intents) {
+        const title = STAFF_FOLLOW_UP_TITLES[match.intent];
+        if (title && !offeredTypes.has(match.intent)) {
+          await this.escalationService.notifyStaff(tenant, guest, message, match.intent, {
+            title,
+            conversationId: conversation.id,
+          });
+        }
+      }
     }
 
-    const logId = await this.conversationsService.createPendingAiReply(conversation, reply, {
-      intent: classification.intent,
-      confidence: classification.confidence,
-      reservationId: guest.reservationId ?? null,
-    });
+    await this.usageService.recordAiUsage(tenant.id, [classification.usage, responseUsage]);
 
-    return { message: reply, logId };
+    return {
+      reply,
+      metadata: {
+        intent: classification.intent,
+        confidence: classification.confidence,
+        intents: classification.intents,
+        entities: classification.entities,
+        sentiment: classification.sentiment,
+        urgency: classification.urgency,
+      },
+    };
+  }
+
+  private confirmUpsells(guest: GuestContext, orders: UpsellOrder[]): string {
+    const items = orders
+      .map((order) => `${order.name} (${formatUpsellPrice(order)})`)
+      .join(' and ');
+    return `Great, ${
+      guest.name ?? 'there'
+    }! I've added ${items} to your booking. Our team will confirm the details shortly.`;
+  }
+
+  private hasIntent(
+    classification: IntentClassification,
+    intent: AiIntent,
+    minConfidence: number,
+  ): boolean {
+    return classification.intents.some(
+      (match) => match.intent === intent && match.confidence >= minConfidence,
+    );
   }
 
   private extractKeywords(message: string): string[] {
@@ -0,0 +1,36 @@
+import { Body, Controller, Get, Put, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { TenantAiSettings } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { AiSettingsService } from './ai-settings.service';
+import { UpdateAiSettingsDto } from './dto/update-ai-settings.dto';
+
+@Controller('ai-settings')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+export class AiSettingsController {
+  constructor(
+    private readonly aiSettingsService: AiSettingsService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get()
+  async getSettings(@Req() req: AuthenticatedRequest): Promise<TenantAiSettings> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.aiSettingsService.getSettings(tenant.id);
+  }
+
+  @Put()
+  @RequireTenantRole('manager')
+  async updateSettings(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdateAiSettingsDto,
+  ): Promise<TenantAiSettings> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.aiSettingsService.updateSettings(tenant.id, dto);
+  }
+}
@@ -0,0 +1,334 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AI_LANGUAGE_POLICIES,
+  AiLanguagePolicy,
+  DEFAULT_AI_TEMPERATURE,
+  DEFAULT_LOW_CONFIDENCE_THRESHOLD,
+  TENANT_LLM_PROVIDER_KINDS,
+  TenantAiSettings,
+  TenantLlmProviderKind,
+} from '@saas-automation/shared-types';
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+
+import { DatabaseService } from '../database/database.service';
+import { LlmProviderConfig } from '../llm/llm.types';
+import { CryptoService } from '../security/crypto.service';
+import { UpdateAiSettingsDto } from './dto/update-ai-settings.dto';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4.1-2025-04-14';
+const MAX_FORBIDDEN_TOPICS = 50;
+
+// The server calls a tenant's provider URL, so it must not reach internal addresses
+const BLOCKED_PROVIDER_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+] as const) {
+  BLOCKED_PROVIDER_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  BLOCKED_PROVIDER_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+interface AiSettingsRow {
+  response_model: string | null;
+  intent_model: string | null;
+  temperature: string | null;
+  persona: string | null;
+  signature: string | null;
+  forbidden_topics: string[] | null;
+  language_policy: AiLanguagePolicy;
+  default_language: string | null;
+  low_confidence_threshold: string | null;
+  llm_provider: TenantLlmProviderKind | null;
+  llm_base_url: string | null;
+  encrypted_llm_api_key: string | null;
+}
+
+/**
+ * Settings used while generating a reply. Unlike `TenantAiSettings` this carries the decrypted
+ * provider key, so it must never be returned from the API.
+ */
+export interface AiRuntimeSettings extends TenantAiSettings {
+  // null uses the platform provider
+  llm: LlmProviderConfig | null;
+}
+
+@Injectable()
+export class AiSettingsService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly cryptoService: CryptoService,
+  ) {}
+
+  /**
+   * Returns the tenant's AI settings with platform defaults filled in for anything the tenant has
+   * not configured.
+   */
+  async getSettings(tenantId: string): Promise<TenantAiSettings> {
+    return this.mapSettings(await this.fetchRow(tenantId));
+  }
+
+  async getRuntimeSettings(tenantId: string): Promise<AiRuntimeSettings> {
+    const row = await this.fetchRow(tenantId);
+    const settings = this.mapSettings(row);
+
+    return {
+      ...settings,
+      llm: settings.provider
+        ? {
+            kind: settings.provider,
+            baseUrl: settings.providerBaseUrl,
+            apiKey: row?.encrypted_llm_api_key
+              ? this.cryptoService.decrypt(row.encrypted_llm_api_key)
+              : null,
+          }
+        : null,
+    };
+  }
+
+  private async fetchRow(tenantId: string): Promise<AiSettingsRow | undefined> {
+    const { rows } = await this.databaseService.runQuery<AiSettingsRow>(
+      `select response_model,
+              intent_model,
+              temperature,
+              persona,
+              signature,
+              forbidden_topics,
+              language_policy,
+              default_language,
+              low_confidence_threshold,
+              llm_provider,
+              llm_base_url,
+              encrypted_llm_api_key
+         from public.tenant_ai_settings
+        where tenant_id = $1
+        limit 1`,
+      [tenantId],
+    );
+
+    return rows[0];
+  }
+
+  async updateSettings(tenantId: string, dto: UpdateAiSettingsDto): Promise<TenantAiSettings> {
+    const update = await this.validate(dto);
+
+    await this.databaseService.runQuery(
+      `insert into public.tenant_ai_settings (
+         tenant_id,
+         response_model,
+         intent_model,
+         temperature,
+         persona,
+         signature,
+         forbidden_topics,
+         language_policy,
+         default_language,
+         low_confidence_threshold,
+         llm_provider,
+         llm_base_url,
+         encrypted_llm_api_key
+       )
+       values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       on conflict (tenant_id) do update
+         set response_model = excluded.response_model,
+             intent_model = excluded.intent_model,
+             temperature = excluded.temperature,
+             persona = excluded.persona,
+             signature = excluded.signature,
+             forbidden_topics = excluded.forbidden_topics,
+             language_policy = excluded.language_policy,
+             default_language = excluded.default_language,
+             low_confidence_threshold = excluded.low_confidence_threshold,
+             llm_provider = excluded.llm_provider,
+             llm_base_url = excluded.llm_base_url,
+             -- An omitted key keeps the stored one
+             encrypted_llm_api_key = case
+               when $14 then excluded.encrypted_llm_api_key
+               else tenant_ai_settings.encrypted_llm_api_key
+             end,
+             updated_at = now()`,
+      [
+        tenantId,
+        update.defaultModel,
+        update.intentModel,
+        update.temperature,
+        update.persona,
+        update.signature,
+        update.forbiddenTopics,
+        update.languagePolicy,
+        update.defaultLanguage,
+        update.lowConfidenceThreshold,
+        update.provider,
+        update.providerBaseUrl,
+        update.encryptedProviderApiKey,
+        update.providerApiKeyChanged,
+      ],
+    );
+
+    return this.getSettings(tenantId);
+  }
+
+  private mapSettings(row: AiSettingsRow | undefined): TenantAiSettings {
+    return {
+      defaultModel: row?.response_model ?? this.envModel('OPENAI_RESPONSE_MODEL'),
+      intentModel: row?.intent_model ?? this.envModel('OPENAI_INTENT_MODEL'),
+      temperature:
+        row?.temperature !== null && row?.temperature !== undefined
+          ? Number(row.temperature)
+          : DEFAULT_AI_TEMPERATURE,
+      persona: row?.persona ?? null,
+      signature: row?.signature ?? null,
+      forbiddenTopics: row?.forbidden_topics ?? [],
+      languagePolicy: row?.language_policy ?? 'match_guest',
+      defaultLanguage: row?.default_language ?? null,
+      lowConfidenceThreshold:
+        row?.low_confidence_threshold !== null && row?.low_confidence_threshold !== undefined
+          ? Number(row.low_confidence_threshold)
+          : DEFAULT_LOW_CONFIDENCE_THRESHOLD,
+      provider: row?.llm_provider ?? null,
+      providerBaseUrl: row?.llm_base_url ?? null,
+      hasProviderApiKey: Boolean(row?.encrypted_llm_api_key),
+    };
+  }
+
+  private envModel(key: string): string {
+    return this.configService.get<string>(key) ?? DEFAULT_OPENAI_MODEL;
+  }
+
+  // Empty strings and missing numbers are stored as null so the platform default applies
+  private async validate(dto: UpdateAiSettingsDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('AI settings payload is required');
+    }
+
+    const temperature = this.optionalNumber(dto.temperature, 'temperature', 0, 2);
+    const lowConfidenceThreshold = this.optionalNumber(
+      dto.lowConfidenceThreshold,
+      'lowConfidenceThreshold',
+      0,
+      1,
+    );
+
+    const languagePolicy = dto.languagePolicy ?? 'match_guest';
+    if (!AI_LANGUAGE_POLICIES.includes(languagePolicy)) {
+      throw new BadRequestException(
+        `languagePolicy must be one of: ${AI_LANGUAGE_POLICIES.join(', ')}`,
+      );
+    }
+
+    const defaultLanguage = this.optionalText(dto.defaultLanguage);
+    if (languagePolicy === 'fixed' && !defaultLanguage) {
+      throw new BadRequestException('defaultLanguage is required when languagePolicy is fixed');
+    }
+
+    if (dto.forbiddenTopics !== undefined && !Array.isArray(dto.forbiddenTopics)) {
+      throw new BadRequestException('forbiddenTopics must be an array of strings');
+    }
+    const forbiddenTopics = Array.from(
+      new Set(
+        (dto.forbiddenTopics ?? [])
+          .filter((topic): topic is string => typeof topic === 'string')
+          .map((topic) => topic.trim())
+          .filter((topic) => topic.length > 0),
+      ),
+    );
+    if (forbiddenTopics.length > MAX_FORBIDDEN_TOPICS) {
+      throw new BadRequestException(
+        `A maximum of ${MAX_FORBIDDEN_TOPICS} forbidden topics is allowed`,
+      );
+    }
+
+    const provider = dto.provider ?? null;
+    if (provider !== null && !TENANT_LLM_PROVIDER_KINDS.includes(provider)) {
+      throw new BadRequestException(
+        `provider must be one of: ${TENANT_LLM_PROVIDER_KINDS.join(', ')}`,
+      );
+    }
+
+    const providerBaseUrl = this.optionalText(dto.providerBaseUrl);
+    if (provider === 'openai_compatible' && !providerBaseUrl) {
+      throw new BadRequestException('providerBaseUrl is required for openai_compatible');
+    }
+    if (provider === 'openai_compatible' && providerBaseUrl) {
+      await this.assertPublicProviderUrl(providerBaseUrl);
+    }
+
+    // undefined keeps the stored key; null or an empty string removes it
+    const providerApiKeyChanged = dto.providerApiKey !== undefined;
+    const providerApiKey = this.optionalText(dto.providerApiKey);
+
+    return {
+      provider,
+      providerBaseUrl: provider === 'openai_compatible' ? providerBaseUrl : null,
+      providerApiKeyChanged,
+      encryptedProviderApiKey: providerApiKey ? this.cryptoService.encrypt(providerApiKey) : null,
+      defaultModel: this.optionalText(dto.defaultModel),
+      intentModel: this.optionalText(dto.intentModel),
+      temperature,
+      persona: this.optionalText(dto.persona),
+      signature: this.optionalText(dto.signature),
+      forbiddenTopics,
+      languagePolicy,
+      defaultLanguage,
+      lowConfidenceThreshold,
+    };
+  }
+
+  private async assertPublicProviderUrl(value: string): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new BadRequestException('providerBaseUrl must be an https URL');
+    }
+    if (url.protocol !== 'https:') {
+      throw new BadRequestException('providerBaseUrl must be an https URL');
+    }
+
+    let addresses: { address: string; family: number }[];
+    try {
+      addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true });
+    } catch {
+      throw new BadRequestException(`providerBaseUrl host ${url.hostname} could not be resolved`);
+    }
+
+    const internal = addresses.some(({ address, family }) =>
+      BLOCKED_PROVIDER_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    );
+    if (internal) {
+      throw new BadRequestException(
+        'providerBaseUrl must not point to a private, loopback or link-local address',
+      );
+    }
+  }
+
+  private optionalText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+  }
+
+  private optionalNumber(value: unknown, field: string, min: number, max: number): number | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+      throw new BadRequestException(`${field} must be a number between ${min} and ${max}`);
+    }
+
+    return value;
+  }
+}
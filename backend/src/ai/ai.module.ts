@@ -1,13 +1,24 @@
-import { forwardRef, Module } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
 
-import { IntegrationsModule } from '../integrations/integrations.module';
+import { BookingsModule } from '../bookings/bookings.module';
 import { ConversationsModule } from '../conversations/conversations.module';
 import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { EscalationsModule } from '../escalations/escalations.module';
 import { MessagingModule } from '../messaging/messaging.module';
+import { PmsModule } from '../pms/pms.module';
 import { RagModule } from '../rag/rag.module';
+import { RotaModule } from '../rota/rota.module';
+import { LlmModule } from '../llm/llm.module';
+import { TasksModule } from '../tasks/tasks.module';
 import { TenantModule } from '../tenant/tenant.module';
+import { UpsellsModule } from '../upsells/upsells.module';
+import { UsageModule } from '../usage/usage.module';
 import { AiEngineService } from './ai-engine.service';
+import { AiSettingsController } from './ai-settings.controller';
+import { AiSettingsService } from './ai-settings.service';
 import { DataRetrieverService } from './data.retriever';
 import { EscalationService } from './escalation.service';
 import { IntentService } from './intent.service';
@@ -16,15 +27,26 @@ import { ResponseGeneratorService } from './response.generator';
 @Module({
   imports: [
     ConfigModule,
+    PassportModule,
     TenantModule,
     MessagingModule,
     ConversationsModule,
-    forwardRef(() => IntegrationsModule),
     DatabaseModule,
+    LlmModule,
     RagModule,
+    UpsellsModule,
+    TasksModule,
+    EscalationsModule,
+    RotaModule,
+    UsageModule,
+    EntitlementsModule,
+    PmsModule,
+    BookingsModule,
   ],
+  controllers: [AiSettingsController],
   providers: [
     AiEngineService,
+    AiSettingsService,
     IntentService,
     DataRetrieverService,
     ResponseGeneratorService,
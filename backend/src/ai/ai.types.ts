@@ -1,15 +1,87 @@
+import { LlmUsage } from '../llm/llm.types';
+
 export type AiIntent =
   | 'emergency'
   | 'check_in_info'
   | 'check_out_info'
+  | 'early_check_in'
+  | 'late_checkout'
+  | 'stay_extension'
+  | 'booking_modification'
+  | 'cancellation_request'
+  | 'complaint'
+  | 'lost_and_found'
+  | 'review'
   | 'general_info'
   | 'support_request'
   | 'unknown';
 
+export const AI_INTENTS: AiIntent[] = [
+  'emergency',
+  'check_in_info',
+  'check_out_info',
+  'early_check_in',
+  'late_checkout',
+  'stay_extension',
+  'booking_modification',
+  'cancellation_request',
+  'complaint',
+  'lost_and_found',
+  'review',
+  'general_info',
+  'support_request',
+  'unknown',
+];
+
+// Shown to the classifier so neighbouring intents (check-in info vs early check-in) stay distinct
+export const AI_INTENT_DESCRIPTIONS: Record<AiIntent, string> = {
+  emergency: 'danger to people or property: fire, flood, gas, break-in, medical',
+  check_in_info: 'how to get in: arrival time, directions, door or key codes',
+  check_out_info: 'checkout time and departure instructions',
+  early_check_in: 'asks to arrive before the normal check-in time',
+  late_checkout: 'asks to leave after the normal checkout time',
+  stay_extension: 'asks to stay extra nights beyond the booked departure',
+  booking_modification: 'change dates, guest count or other booking details',
+  cancellation_request: 'wants to cancel the booking or asks about refunds',
+  complaint: 'unhappy with the stay or reports damage, dirt or something broken',
+  lost_and_found: 'left something behind or found an item',
+  review: 'mentions reviews or ratings, or leaves feedback after the stay',
+  general_info: 'questions about the property, amenities or the area',
+  support_request: 'needs help using something at the property, not a complaint or emergency',
+  unknown: 'none of the above',
+};
+
+export type GuestSentiment = 'positive' | 'neutral' | 'negative';
+export type MessageUrgency = 'low' | 'normal' | 'high' | 'critical';
+export type EntityType = 'date' | 'time' | 'count' | 'amenity' | 'other';
+
+export interface IntentMatch {
+  intent: AiIntent;
+  confidence: number;
+  // The part of the guest message this intent covers, when the message asks several things
+  question?: string;
+}
+
+export interface ExtractedEntity {
+  type: EntityType;
+  // Normalised value, e.g. "2025-11-14", "15:00", "2", "parking"
+  value: string;
+  // Text as written by the guest
+  text?: string;
+}
+
 export interface IntentClassification {
+  // Primary intent: emergency when present, otherwise the most confident match
   intent: AiIntent;
   confidence: number;
   reason?: string;
+  // Every intent found in the message, primary first
+  intents: IntentMatch[];
+  entities: ExtractedEntity[];
+  sentiment: GuestSentiment;
+  urgency: MessageUrgency;
+  // Set when a model produced the classification rather than the keyword fallback
+  usage?: LlmUsage;
 }
 
 export interface GuestContext {
@@ -19,4 +91,5 @@ export interface GuestContext {
   reservationId?: string;
   rawPayload?: Record<string, unknown>;
   guestMessageLogId?: string; // ID of the logged guest message for AI reply deduplication
+  replyChannel?: 'whatsapp' | 'sms'; // Set when the guest wrote in over Twilio
 }
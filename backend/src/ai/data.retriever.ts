@@ -1,15 +1,45 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { UpsellOffer, UpsellOfferType } from '@saas-automation/shared-types';
+import { addDays, format, isValid, parseISO } from 'date-fns';
 
+import { BookingsService } from '../bookings/bookings.service';
 import { DatabaseService } from '../database/database.service';
-import { HostawayClient } from '../integrations/hostaway.client';
+import { PmsProviderService } from '../pms/pms-provider.service';
+import { Listing, Reservation } from '../pms/pms.types';
 import { RagService } from '../rag/rag.service';
 import { TenantSummary } from '../tenant/tenant.service';
-import { AiIntent } from './ai.types';
+import { UpsellsService } from '../upsells/upsells.service';
+import { AiIntent, ExtractedEntity, IntentMatch } from './ai.types';
 
 export interface IntentData {
-  reservation?: Record<string, unknown> | null;
-  listing?: Record<string, unknown> | null;
+  reservation?: Reservation | null;
+  listing?: Listing | null;
   knowledgeBaseEntries?: KnowledgeBaseEntry[];
+  topics?: IntentTopic[];
+  extension?: ExtensionAvailability;
+  // Paid extras that can be offered for this booking right now
+  upsellOffers?: UpsellOffer[];
+}
+
+export interface ExtensionAvailability {
+  departureDate: string;
+  nights: number;
+  // null when availability could not be checked
+  available: boolean | null;
+  // First requested night that is already booked or blocked
+  unavailableFrom?: string;
+  // Sum of the calendar's nightly rates; null when a night has no price
+  totalPrice: number | null;
+  currency: string | null;
+  // Longest minimum stay among the requested nights, when it is more than requested
+  minimumStay?: number;
+}
+
+/** Knowledge base context gathered for one of the intents in a guest message. */
+export interface IntentTopic {
+  intent: AiIntent;
+  question?: string;
+  knowledgeBaseEntries: KnowledgeBaseEntry[];
 }
 
 export interface KnowledgeBaseEntry {
@@ -18,41 +48,67 @@ export interface KnowledgeBaseEntry {
   content: string;
 }
 
+const KNOWLEDGE_BASE_INTENTS: AiIntent[] = [
+  'general_info',
+  'support_request',
+  'check_out_info',
+  'check_in_info',
+  'early_check_in',
+  'late_checkout',
+  'booking_modification',
+  'cancellation_request',
+  'lost_and_found',
+  'unknown',
+];
+
+const MAX_EXTENSION_NIGHTS = 14;
+
+const UPSELL_INTENTS: Partial<Record<AiIntent, UpsellOfferType>> = {
+  early_check_in: 'early_check_in',
+  late_checkout: 'late_checkout',
+};
+
+const UPSELL_AMENITIES: Record<string, UpsellOfferType> = {
+  parking: 'parking',
+  cleaning: 'extra_cleaning',
+};
+
 @Injectable()
 export class DataRetrieverService {
   private readonly logger = new Logger(DataRetrieverService.name);
 
   constructor(
     private readonly databaseService: DatabaseService,
-    private readonly hostawayClient: HostawayClient,
+    private readonly pmsProviderService: PmsProviderService,
     private readonly ragService: RagService,
+    private readonly upsellsService: UpsellsService,
+    private readonly bookingsService: BookingsService,
   ) {}
 
   async retrieveData(
-    intent: AiIntent,
+    intents: IntentMatch[],
     tenant: TenantSummary,
-    options: { reservationId?: string; message?: string; topicKeywords?: string[] },
+    options: {
+      reservationId?: string;
+      message?: string;
+      topicKeywords?: string[];
+      entities?: ExtractedEntity[];
+    },
   ): Promise<IntentData> {
     const result: IntentData = {};
+    let listingId: string | undefined;
 
     if (options.reservationId) {
       try {
-        result.reservation = await this.hostawayClient.getReservation(
+        const reservation = await this.bookingsService.getReservation(
           tenant,
           options.reservationId,
         );
-
-        const listingId =
-          this.readString(
-            result.reservation,
-            'listingId',
-            'listing_id',
-            'propertyId',
-            'property_id',
-          ) ?? undefined;
+        result.reservation = reservation;
+        listingId = reservation.listingId ?? undefined;
 
         if (listingId) {
-          result.listing = await this.hostawayClient.getListing(tenant, listingId);
+          result.listing = await this.bookingsService.getListing(tenant, listingId);
         }
       } catch (error) {
         this.logger.warn(
@@ -63,21 +119,147 @@ export class DataRetrieverService {
       }
     }
 
-    // Query knowledge base for intents that could benefit from past Q&A pairs
-    if (
-      intent === 'general_info' ||
-      intent === 'support_request' ||
-      intent === 'check_out_info' ||
-      intent === 'check_in_info' ||
-      intent === 'unknown'
-    ) {
-      const terms = options.topicKeywords ?? this.extractKeywords(options.message ?? '');
-      result.knowledgeBaseEntries = await this.queryKnowledgeBase(tenant.id, terms);
+    const amenities = (options.entities ?? [])
+      .filter((entity) => entity.type === 'amenity')
+      .map((entity) => entity.value.toLowerCase());
+
+    // Query knowledge base for intents that could benefit from past Q&A pairs, one search per
+    // question so that a guest asking two things gets context for both
+    const topics: IntentTopic[] = [];
+    for (const match of intents) {
+      if (!KNOWLEDGE_BASE_INTENTS.includes(match.intent)) {
+        continue;
+      }
+
+      const source = intents.length > 1 && match.question ? match.question : options.message ?? '';
+      const terms =
+        intents.length > 1 || !options.topicKeywords
+          ? this.mergeKeywords(this.extractKeywords(source), amenities, source)
+          : options.topicKeywords;
+
+      topics.push({
+        intent: match.intent,
+        question: match.question,
+        knowledgeBaseEntries: await this.queryKnowledgeBase(tenant.id, terms),
+      });
+    }
+
+    if (result.reservation && listingId && intents.some((m) => m.intent === 'stay_extension')) {
+      result.extension = await this.checkExtension(
+        tenant,
+        listingId,
+        result.reservation,
+        options.entities ?? [],
+      );
+    }
+
+    const upsellTypes = new Set<UpsellOfferType>();
+    for (const match of intents) {
+      const type = UPSELL_INTENTS[match.intent];
+      if (type) {
+        upsellTypes.add(type);
+      }
+    }
+    for (const entity of options.entities ?? []) {
+      const type = entity.type === 'amenity' ? UPSELL_AMENITIES[entity.value.toLowerCase()] : null;
+      if (type) {
+        upsellTypes.add(type);
+      }
+    }
+
+    if (result.reservation && upsellTypes.size > 0) {
+      try {
+        result.upsellOffers = await this.upsellsService.findEligibleOffers(
+          tenant,
+          result.reservation,
+          Array.from(upsellTypes),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to load upsell offers for tenant ${tenant.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (topics.length > 0) {
+      result.topics = topics;
+
+      const seen = new Set<string>();
+      result.knowledgeBaseEntries = topics
+        .flatMap((topic) => topic.knowledgeBaseEntries)
+        .filter((entry) => !seen.has(entry.id) && seen.add(entry.id));
     }
 
     return result;
   }
 
+  private async checkExtension(
+    tenant: TenantSummary,
+    listingId: string,
+    reservation: Reservation,
+    entities: ExtractedEntity[],
+  ): Promise<ExtensionAvailability | undefined> {
+    const { departureDate } = reservation;
+    const departure = departureDate ? parseISO(departureDate) : null;
+    if (!departureDate || !departure || !isValid(departure)) {
+      return undefined;
+    }
+
+    const requested = entities.find(
+      (entity) => entity.type === 'count' && /night/i.test(entity.text ?? ''),
+    );
+    const nights = Math.min(Math.max(Number(requested?.value) || 1, 1), MAX_EXTENSION_NIGHTS);
+    const extension: ExtensionAvailability = {
+      departureDate,
+      nights,
+      available: null,
+      totalPrice: null,
+      currency: reservation.currency,
+    };
+
+    try {
+      // The departure day is the first extra night
+      const calendar = await this.pmsProviderService
+        .forTenant(tenant)
+        .getListingCalendar(
+          tenant,
+          listingId,
+          format(departure, 'yyyy-MM-dd'),
+          format(addDays(departure, nights - 1), 'yyyy-MM-dd'),
+        );
+      const days = calendar.slice(0, nights);
+      const unavailable = days.find((day) => !day.available);
+
+      extension.available = days.length === nights && !unavailable;
+      extension.unavailableFrom = unavailable?.date;
+      extension.totalPrice = days.every((day) => day.price !== null)
+        ? days.reduce((sum, day) => sum + (day.price ?? 0), 0)
+        : null;
+
+      const minimumStay = Math.max(0, ...days.map((day) => day.minimumStay ?? 0));
+      if (minimumStay > nights) {
+        extension.minimumStay = minimumStay;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check extension availability for listing ${listingId}: ${
+          (error as Error).message
+        }`,
+      );
+    }
+
+    return extension;
+  }
+
+  private mergeKeywords(keywords: string[], amenities: string[], source: string): string[] {
+    const lowerSource = source.toLowerCase();
+    const relevant = amenities.filter(
+      (amenity) => lowerSource.includes(amenity) && !keywords.includes(amenity),
+    );
+
+    return [...relevant, ...keywords].slice(0, 7);
+  }
+
   private extractKeywords(message: string): string[] {
     const lowerMessage = message.toLowerCase();
 
@@ -203,37 +385,4 @@ export class DataRetrieverService {
       return [];
     }
   }
-
-  private readString(
-    source: Record<string, unknown> | null | undefined,
-    ...paths: string[]
-  ): string | undefined {
-    if (!source) {
-      return undefined;
-    }
-
-    for (const path of paths) {
-      const value = this.resolvePath(source, path);
-      if (typeof value === 'string' && value.trim().length > 0) {
-        return value;
-      }
-    }
-
-    return undefined;
-  }
-
-  private resolvePath(source: Record<string, unknown>, path: string): unknown {
-    const segments = path.split('.');
-    let current: unknown = source;
-
-    for (const segment of segments) {
-      if (!current || typeof current !== 'object') {
-        return undefined;
-      }
-
-      current = (current as Record<string, unknown>)[segment];
-    }
-
-    return current;
-  }
 }
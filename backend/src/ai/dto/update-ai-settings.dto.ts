@@ -0,0 +1,81 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  AI_LANGUAGE_POLICIES,
+  AiLanguagePolicy,
+  TENANT_LLM_PROVIDER_KINDS,
+  TenantLlmProviderKind,
+} from '@saas-automation/shared-types';
+
+export class UpdateAiSettingsDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  defaultModel?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  intentModel?: string | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  persona?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  signature?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  forbiddenTopics?: string[];
+
+  @IsOptional()
+  @IsIn(AI_LANGUAGE_POLICIES)
+  languagePolicy?: AiLanguagePolicy;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  defaultLanguage?: string | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  lowConfidenceThreshold?: number | null;
+
+  // null uses the platform provider
+  @IsOptional()
+  @IsIn(TENANT_LLM_PROVIDER_KINDS)
+  provider?: TenantLlmProviderKind | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  providerBaseUrl?: string | null;
+
+  // Omit to keep the stored key; send null or an empty string to remove it
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  providerApiKey?: string | null;
+}
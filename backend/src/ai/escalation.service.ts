@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Escalation, EscalationTrigger } from '@saas-automation/shared-types';
 
+import { EscalationsService } from '../escalations/escalations.service';
 import { TwilioClient } from '../messaging/twilio.client';
+import { RotaService } from '../rota/rota.service';
 import { ConversationsService } from '../conversations/conversations.service';
 import { TenantSummary } from '../tenant/tenant.service';
 import { GuestContext } from './ai.types';
@@ -16,6 +19,8 @@ export class EscalationService {
     private readonly configService: ConfigService,
     private readonly twilioClient: TwilioClient,
     private readonly conversationsService: ConversationsService,
+    private readonly escalationsService: EscalationsService,
+    private readonly rotaService: RotaService,
   ) {
     this.defaultStaffWhatsapp = this.configService.get<string>('STAFF_WHATSAPP_NUMBER');
     this.defaultOnCallNumber = this.configService.get<string>('ON_CALL_NUMBER');
@@ -26,25 +31,74 @@ export class EscalationService {
     guest: GuestContext,
     message: string,
     intentLabel: string,
+    conversationId?: string,
   ): Promise<void> {
-    // Get staff number from tenant or fallback to env var
-    const staffNumber = tenant.twilioStaffWhatsappNumber || this.defaultStaffWhatsapp;
-
-    if (!staffNumber) {
-      this.logger.warn(
-        'No staff WhatsApp number configured; cannot send low confidence escalation.',
-      );
-      return;
-    }
+    await this.notifyStaff(tenant, guest, message, intentLabel, {
+      title: 'Low-confidence AI response alert',
+      trigger: 'low_confidence',
+      conversationId,
+      pauseConversation: true,
+    });
+  }
 
-    const body = `Low-confidence AI response alert for tenant ${tenant.name}.
-Intent: ${intentLabel}
+  /**
+   * Alerts staff through the tenant's escalation policy for the trigger, or with a single WhatsApp
+   * to whoever is on call (then the staff number) when no policy is configured. With `pauseConversation` the AI stops
+   * replying on the guest's conversation until a human resumes it.
+   */
+  async notifyStaff(
+    tenant: TenantSummary,
+    guest: GuestContext,
+    message: string,
+    intentLabel: string,
+    options: {
+      title: string;
+      trigger?: EscalationTrigger;
+      conversationId?: string;
+      pauseConversation?: boolean;
+    },
+  ): Promise<void> {
+    const reservationId = guest.reservationId ?? this.extractReservationId(guest);
+    const details = `Intent: ${intentLabel}
 Guest: ${guest.name ?? 'Unknown'} (${guest.phone ?? 'no phone'})
 Message: ${message}`;
 
-    await this.twilioClient.sendWhatsAppMessage(tenant, staffNumber, body);
+    const escalation = await this.startPolicy(tenant, {
+      trigger: options.trigger ?? 'staff_follow_up',
+      title: options.title,
+      summary: details,
+      conversationId: options.conversationId,
+      reservationId,
+    });
+
+    if (!escalation) {
+      // Whoever is on call, then the tenant's staff number, then the env var
+      const staffNumber =
+        (await this.findOnCallPhone(tenant, reservationId)) ||
+        tenant.twilioStaffWhatsappNumber ||
+        this.defaultStaffWhatsapp;
+
+      if (!staffNumber) {
+        this.logger.warn(`No staff WhatsApp number configured; cannot send "${options.title}".`);
+        return;
+      }
+
+      try {
+        await this.twilioClient.sendWhatsAppMessage(
+          tenant,
+          staffNumber,
+          `${options.title} for tenant ${tenant.name}.\n${details}`,
+        );
+      } catch (error) {
+        // Still pause the conversation so the AI stops replying even if the alert did not go out
+        this.logger.error(`Failed to send staff alert "${options.title}"`, error as Error);
+      }
+    }
+
+    if (!options.pauseConversation) {
+      return;
+    }
 
-    const reservationId = guest.reservationId ?? this.extractReservationId(guest);
     if (reservationId) {
       await this.conversationsService.setStatusByReservation(
         tenant.id,
@@ -58,21 +112,36 @@ Message: ${message}`;
     tenant: TenantSummary,
     guest: GuestContext,
     message: string,
+    conversationId?: string,
   ): Promise<void> {
-    // Get on-call number from tenant or fallback to env var
-    const onCallNumber = tenant.twilioOnCallNumber || this.defaultOnCallNumber;
+    const reservationId = guest.reservationId ?? this.extractReservationId(guest);
+    const escalation = await this.startPolicy(tenant, {
+      trigger: 'emergency',
+      title: 'Emergency reported',
+      summary: `Guest: ${guest.name ?? 'Unknown'} (${guest.phone ?? 'no phone'})
+Message: ${message}`,
+      conversationId,
+      reservationId,
+    });
+
+    if (!escalation) {
+      // Whoever is on call, then the tenant's on-call number, then the env var
+      const onCallNumber =
+        (await this.findOnCallPhone(tenant, reservationId)) ||
+        tenant.twilioOnCallNumber ||
+        this.defaultOnCallNumber;
+
+      if (!onCallNumber) {
+        this.logger.warn('No on-call number configured; cannot trigger emergency call.');
+        return;
+      }
 
-    if (!onCallNumber) {
-      this.logger.warn('No on-call number configured; cannot trigger emergency call.');
-      return;
+      const voiceMessage = `Emergency reported by guest ${guest.name ?? 'guest'} for tenant ${
+        tenant.name
+      }. Message: ${message}`;
+      await this.twilioClient.initiateVoiceCall(tenant, onCallNumber, voiceMessage);
     }
 
-    const voiceMessage = `Emergency reported by guest ${guest.name ?? 'guest'} for tenant ${
-      tenant.name
-    }. Message: ${message}`;
-    await this.twilioClient.initiateVoiceCall(tenant, onCallNumber, voiceMessage);
-
-    const reservationId = guest.reservationId ?? this.extractReservationId(guest);
     if (reservationId) {
       await this.conversationsService.setStatusByReservation(
         tenant.id,
@@ -82,6 +151,48 @@ Message: ${message}`;
     }
   }
 
+  /** Starts the tenant's escalation policy; null means the single-number fallback applies. */
+  private async startPolicy(
+    tenant: TenantSummary,
+    input: {
+      trigger: EscalationTrigger;
+      title: string;
+      summary: string;
+      conversationId?: string;
+      reservationId?: string;
+    },
+  ): Promise<Escalation | null> {
+    try {
+      return await this.escalationsService.start(tenant, input);
+    } catch (error) {
+      this.logger.error(
+        `Failed to start ${input.trigger} escalation policy for tenant ${tenant.id}`,
+        error as Error,
+      );
+      return null;
+    }
+  }
+
+  /** Phone of the first person on the rota for the guest's property right now, if any. */
+  private async findOnCallPhone(
+    tenant: TenantSummary,
+    reservationId?: string,
+  ): Promise<string | null> {
+    try {
+      const listingId = reservationId
+        ? await this.escalationsService.resolveListingId(tenant, reservationId)
+        : null;
+      const onCall = await this.rotaService.findOnCall(tenant.id, listingId);
+      return onCall.find((staff) => staff.phone)?.phone ?? null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to look up the on-call rota for tenant ${tenant.id}`,
+        error as Error,
+      );
+      return null;
+    }
+  }
+
   private extractReservationId(guest: GuestContext): string | undefined {
     const raw = guest.rawPayload;
     if (!raw) {
@@ -1,61 +1,145 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
 
-import { AiIntent, IntentClassification } from './ai.types';
+import { LlmProviderService } from '../llm/llm-provider.service';
+import { AiRuntimeSettings } from './ai-settings.service';
+import {
+  AI_INTENT_DESCRIPTIONS,
+  AI_INTENTS,
+  AiIntent,
+  EntityType,
+  ExtractedEntity,
+  GuestSentiment,
+  IntentClassification,
+  IntentMatch,
+  MessageUrgency,
+} from './ai.types';
 
-const INTENT_LABELS: AiIntent[] = [
-  'emergency',
-  'check_in_info',
-  'check_out_info',
-  'general_info',
-  'support_request',
-  'unknown',
+const ENTITY_TYPES: EntityType[] = ['date', 'time', 'count', 'amenity', 'other'];
+const SENTIMENTS: GuestSentiment[] = ['positive', 'neutral', 'negative'];
+const URGENCIES: MessageUrgency[] = ['low', 'normal', 'high', 'critical'];
+
+const AMENITY_KEYWORDS = [
+  'parking',
+  'wifi',
+  'internet',
+  'pool',
+  'hot tub',
+  'jacuzzi',
+  'sauna',
+  'gym',
+  'towels',
+  'linen',
+  'cleaning',
+  'washing machine',
+  'dryer',
+  'dishwasher',
+  'air conditioning',
+  'heating',
+  'crib',
+  'cot',
+  'high chair',
+  'bbq',
+  'grill',
+  'kitchen',
+  'coffee',
+  'breakfast',
+  'elevator',
+  'balcony',
+  'tv',
 ];
 
+// Strict structured-output schema: every key is required, optional values are nullable
+const CLASSIFICATION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['intents', 'entities', 'sentiment', 'urgency', 'reason'],
+  properties: {
+    intents: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['intent', 'confidence', 'question'],
+        properties: {
+          intent: { type: 'string', enum: AI_INTENTS },
+          confidence: { type: 'number' },
+          question: { type: ['string', 'null'] },
+        },
+      },
+    },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['type', 'value', 'text'],
+        properties: {
+          type: { type: 'string', enum: ENTITY_TYPES },
+          value: { type: 'string' },
+          text: { type: ['string', 'null'] },
+        },
+      },
+    },
+    sentiment: { type: 'string', enum: SENTIMENTS },
+    urgency: { type: 'string', enum: URGENCIES },
+    reason: { type: ['string', 'null'] },
+  },
+};
+
 @Injectable()
 export class IntentService {
   private readonly logger = new Logger(IntentService.name);
-  private readonly openai: OpenAI | null;
   private readonly intentModel: string;
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmProviderService: LlmProviderService,
+  ) {
     this.intentModel =
       this.configService.get<string>('OPENAI_INTENT_MODEL') ?? 'gpt-4.1-2025-04-14';
-
-    if (!apiKey) {
-      this.logger.warn(
-        'OPENAI_API_KEY is not configured. Falling back to keyword intent detection.',
-      );
-      this.openai = null;
-      return;
-    }
-
-    this.openai = new OpenAI({ apiKey });
   }
 
-  async classify(message: string): Promise<IntentClassification> {
+  /**
+   * Classifies a guest message into one or more intents and extracts the details needed to answer
+   * it. `conversationContext` helps resolve short replies ("yes please") but is not classified.
+   */
+  async classify(
+    message: string,
+    settings?: Pick<AiRuntimeSettings, 'intentModel' | 'llm'>,
+    conversationContext?: string,
+  ): Promise<IntentClassification> {
     if (!message?.trim()) {
-      return { intent: 'unknown', confidence: 0, reason: 'Empty message' };
+      return this.buildClassification([], [], 'neutral', 'normal', 'Empty message', 0);
     }
 
-    if (!this.openai) {
+    const provider = this.llmProviderService.getLlmProvider(settings?.llm);
+    if (!provider) {
       return this.keywordFallback(message);
     }
 
     try {
       const prompt =
         `You are an intent classification system for a hospitality guest messaging platform.` +
-        ` Classify the guest's message into one of the following intents: ${INTENT_LABELS.join(
+        ` Guests often ask several things in one message: return one entry per distinct request,` +
+        ` using these intents:\n${AI_INTENTS.map(
+          (intent) => `- ${intent}: ${AI_INTENT_DESCRIPTIONS[intent]}`,
+        ).join('\n')}\n` +
+        ` For each intent give a confidence between 0 and 1 and quote the part of the message it covers as "question".` +
+        ` Extract entities (${ENTITY_TYPES.join(
+          ', ',
+        )}): dates as YYYY-MM-DD when they can be resolved, times as HH:MM in 24h, counts as digits and amenities by name.` +
+        ` Rate the guest's sentiment (${SENTIMENTS.join(', ')}) and urgency (${URGENCIES.join(
           ', ',
-        )}.` +
-        ` Also provide a confidence score between 0 and 1.` +
+        )}).` +
         `\nGuest message: "${message}"\n` +
-        `Return a JSON object with keys intent, confidence, and an optional reason.`;
+        (conversationContext
+          ? `Use this only to understand what the guest is replying to:${conversationContext}\n`
+          : '') +
+        `Return a JSON object with keys intents, entities, sentiment, urgency and reason.`;
 
-      const response = await this.openai.chat.completions.create({
-        model: this.intentModel,
+      const completion = await provider.complete({
+        model: settings?.intentModel ?? this.intentModel,
         messages: [
           {
             role: 'system',
@@ -63,29 +147,103 @@ export class IntentService {
           },
         ],
         temperature: 0,
-        max_tokens: 200,
+        maxTokens: 500,
+        responseSchema: { name: 'intent_classification', schema: CLASSIFICATION_SCHEMA },
       });
 
-      const output = response.choices[0]?.message?.content;
-      if (!output) {
-        throw new Error('No output from OpenAI');
-      }
-
       // Extract JSON from potentially markdown-wrapped response
-      const jsonText = this.extractJsonFromMarkdown(output.trim());
-      const parsed = JSON.parse(jsonText);
-      const intent = INTENT_LABELS.includes(parsed.intent)
-        ? (parsed.intent as AiIntent)
-        : 'unknown';
-      const confidence = typeof parsed.confidence === 'number' ? parsed.confidence : 0.5;
-
-      return { intent, confidence, reason: parsed.reason ?? 'Classified by OpenAI' };
+      const jsonText = this.extractJsonFromMarkdown(completion.content.trim());
+      return {
+        ...this.parseClassification(JSON.parse(jsonText), `Classified by ${provider.kind}`),
+        usage: completion.usage,
+      };
     } catch (error) {
-      this.logger.error('OpenAI intent classification failed', error as Error);
+      this.logger.error(`${provider.kind} intent classification failed`, error as Error);
       return this.keywordFallback(message);
     }
   }
 
+  private parseClassification(parsed: unknown, defaultReason: string): IntentClassification {
+    const source = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+
+    // Older prompts and models without structured output may still answer with a single intent
+    const rawIntents = Array.isArray(source.intents)
+      ? source.intents
+      : [{ intent: source.intent, confidence: source.confidence }];
+
+    const intents = rawIntents
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .map((item) => ({
+        intent: AI_INTENTS.includes(item.intent as AiIntent)
+          ? (item.intent as AiIntent)
+          : 'unknown',
+        confidence: typeof item.confidence === 'number' ? this.clamp(item.confidence) : 0.5,
+        question:
+          typeof item.question === 'string' && item.question.trim() ? item.question : undefined,
+      }));
+
+    const entities = (Array.isArray(source.entities) ? source.entities : [])
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .filter((item) => typeof item.value === 'string' && item.value.trim().length > 0)
+      .map((item) => ({
+        type: ENTITY_TYPES.includes(item.type as EntityType) ? (item.type as EntityType) : 'other',
+        value: String(item.value).trim(),
+        text: typeof item.text === 'string' && item.text.trim() ? item.text : undefined,
+      }));
+
+    const sentiment = SENTIMENTS.includes(source.sentiment as GuestSentiment)
+      ? (source.sentiment as GuestSentiment)
+      : 'neutral';
+    const urgency = URGENCIES.includes(source.urgency as MessageUrgency)
+      ? (source.urgency as MessageUrgency)
+      : 'normal';
+    const reason = typeof source.reason === 'string' ? source.reason : defaultReason;
+
+    return this.buildClassification(intents, entities, sentiment, urgency, reason);
+  }
+
+  private buildClassification(
+    matches: IntentMatch[],
+    entities: ExtractedEntity[],
+    sentiment: GuestSentiment,
+    urgency: MessageUrgency,
+    reason: string,
+    fallbackConfidence = 0.5,
+  ): IntentClassification {
+    // Keep the most confident match per intent, and never let a real intent sit behind "unknown"
+    const byIntent = new Map<AiIntent, IntentMatch>();
+    for (const match of matches) {
+      const existing = byIntent.get(match.intent);
+      if (!existing || existing.confidence < match.confidence) {
+        byIntent.set(match.intent, match);
+      }
+    }
+    if (byIntent.size > 1) {
+      byIntent.delete('unknown');
+    }
+
+    const intents = Array.from(byIntent.values()).sort((a, b) => {
+      if (a.intent === 'emergency' || b.intent === 'emergency') {
+        return a.intent === 'emergency' ? -1 : 1;
+      }
+      return b.confidence - a.confidence;
+    });
+    if (intents.length === 0) {
+      intents.push({ intent: 'unknown', confidence: fallbackConfidence });
+    }
+
+    const primary = intents[0];
+    return {
+      intent: primary.intent,
+      confidence: primary.confidence,
+      reason,
+      intents,
+      entities,
+      sentiment,
+      urgency: primary.intent === 'emergency' ? 'critical' : urgency,
+    };
+  }
+
   private extractJsonFromMarkdown(text: string): string {
     // Remove markdown code blocks if present
     let cleaned = text.trim();
@@ -104,27 +262,139 @@ export class IntentService {
 
   private keywordFallback(message: string): IntentClassification {
     const normalized = message.toLowerCase();
+    const intents: IntentMatch[] = [];
 
     if (/(fire|flood|ambulance|emergency|help asap)/.test(normalized)) {
-      return { intent: 'emergency', confidence: 0.9, reason: 'Keyword match' };
+      intents.push({ intent: 'emergency', confidence: 0.9 });
+    }
+
+    if (
+      /(early check-?in|early arrival|arrive early|check in early|check-in early)/.test(normalized)
+    ) {
+      intents.push({ intent: 'early_check_in', confidence: 0.75 });
+    } else if (/(check-in|checkin|check in|arrival|door code|access code|lock)/.test(normalized)) {
+      intents.push({ intent: 'check_in_info', confidence: 0.7 });
+    }
+
+    if (/(late check-?out|leave later|check out later|check-out later)/.test(normalized)) {
+      intents.push({ intent: 'late_checkout', confidence: 0.75 });
+    } else if (/(check-out|checkout|check out|departure)/.test(normalized)) {
+      intents.push({ intent: 'check_out_info', confidence: 0.7 });
+    }
+
+    if (/(extend|extra night|another night|stay longer|more nights)/.test(normalized)) {
+      intents.push({ intent: 'stay_extension', confidence: 0.7 });
     }
 
-    if (/(check-in|checkin|arrival|door code|access code|lock)/.test(normalized)) {
-      return { intent: 'check_in_info', confidence: 0.7, reason: 'Keyword match' };
+    if (
+      /(change (the |my |our )?(dates|booking|reservation)|modify|add (a |one )?guest)/.test(
+        normalized,
+      )
+    ) {
+      intents.push({ intent: 'booking_modification', confidence: 0.65 });
     }
 
-    if (/(check-out|checkout|departure|late checkout)/.test(normalized)) {
-      return { intent: 'check_out_info', confidence: 0.7, reason: 'Keyword match' };
+    if (/(cancel|refund)/.test(normalized)) {
+      intents.push({ intent: 'cancellation_request', confidence: 0.7 });
     }
 
-    if (/(wifi|internet|password)/.test(normalized)) {
-      return { intent: 'general_info', confidence: 0.6, reason: 'Keyword match' };
+    if (
+      /(complain|dirty|disgusting|unacceptable|damage|damaged|broken|not working|noisy|cockroach|bed bugs)/.test(
+        normalized,
+      )
+    ) {
+      intents.push({ intent: 'complaint', confidence: 0.7 });
     }
 
-    if (/(support|issue|problem|maintenance|broken)/.test(normalized)) {
-      return { intent: 'support_request', confidence: 0.6, reason: 'Keyword match' };
+    if (/(left (my|our|a|behind)|forgot (my|our)|lost (my|our)|found a)/.test(normalized)) {
+      intents.push({ intent: 'lost_and_found', confidence: 0.7 });
     }
 
-    return { intent: 'unknown', confidence: 0.3, reason: 'Fallback' };
+    if (/(review|rating|stars|feedback)/.test(normalized)) {
+      intents.push({ intent: 'review', confidence: 0.6 });
+    }
+
+    if (/(wifi|internet|password|parking)/.test(normalized)) {
+      intents.push({ intent: 'general_info', confidence: 0.6 });
+    }
+
+    if (/(support|issue|problem|maintenance|how do i|how to)/.test(normalized)) {
+      intents.push({ intent: 'support_request', confidence: 0.6 });
+    }
+
+    return this.buildClassification(
+      intents,
+      this.extractEntities(message),
+      this.detectSentiment(normalized),
+      /(asap|urgent|immediately|right now)/.test(normalized) ? 'high' : 'normal',
+      intents.length > 0 ? 'Keyword match' : 'Fallback',
+      0.3,
+    );
+  }
+
+  private extractEntities(message: string): ExtractedEntity[] {
+    const entities: ExtractedEntity[] = [];
+    const normalized = message.toLowerCase();
+
+    for (const match of message.matchAll(
+      /\b(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)\b/g,
+    )) {
+      entities.push({ type: 'date', value: match[1], text: match[1] });
+    }
+    for (const match of normalized.matchAll(
+      /\b(today|tomorrow|tonight|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/g,
+    )) {
+      entities.push({ type: 'date', value: match[1], text: match[1] });
+    }
+
+    for (const match of normalized.matchAll(
+      /\b(\d{1,2})(?::(\d{2}))?\s?(am|pm)\b|\b(\d{1,2}):(\d{2})\b/g,
+    )) {
+      const hour = Number(match[1] ?? match[4]);
+      const minutes = match[2] ?? match[5] ?? '00';
+      const hour24 =
+        match[3] === 'pm' && hour < 12 ? hour + 12 : match[3] === 'am' && hour === 12 ? 0 : hour;
+      if (hour24 <= 23) {
+        entities.push({
+          type: 'time',
+          value: `${String(hour24).padStart(2, '0')}:${minutes}`,
+          text: match[0],
+        });
+      }
+    }
+
+    for (const match of normalized.matchAll(
+      /\b(\d+)\s+(people|persons|guests|adults|kids|children|nights|cars|bags|towels|beds)\b/g,
+    )) {
+      entities.push({ type: 'count', value: match[1], text: match[0] });
+    }
+
+    for (const amenity of AMENITY_KEYWORDS) {
+      if (new RegExp(`\\b${amenity}\\b`).test(normalized)) {
+        entities.push({ type: 'amenity', value: amenity, text: amenity });
+      }
+    }
+
+    return entities;
+  }
+
+  private detectSentiment(normalized: string): GuestSentiment {
+    if (
+      /(broken|dirty|terrible|awful|disappointed|angry|unacceptable|not working|doesn't work|complain)/.test(
+        normalized,
+      )
+    ) {
+      return 'negative';
+    }
+
+    if (/(thank|great|love|amazing|perfect|wonderful|awesome)/.test(normalized)) {
+      return 'positive';
+    }
+
+    return 'neutral';
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
   }
 }
@@ -1,113 +1,285 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
+import { DEFAULT_AI_TEMPERATURE } from '@saas-automation/shared-types';
 
-import { AiIntent } from './ai.types';
-import { IntentData } from './data.retriever';
+import { LlmProviderService } from '../llm/llm-provider.service';
+import { LlmUsage } from '../llm/llm.types';
+import { Listing, Reservation } from '../pms/pms.types';
+import { formatUpsellPrice } from '../upsells/upsells.service';
+import { AiRuntimeSettings } from './ai-settings.service';
+import { AiIntent, IntentClassification } from './ai.types';
+import { ExtensionAvailability, IntentData } from './data.retriever';
+
+// Extra instructions for intents where an improvised answer could commit the host to something
+const INTENT_GUIDANCE: Partial<Record<AiIntent, string>> = {
+  early_check_in:
+    'Early check-in depends on cleaning after the previous guest. Unless it is listed as a paid extra below, do not promise it; say the team will confirm.',
+  late_checkout:
+    'Late checkout depends on the next arrival. Unless it is listed as a paid extra below, do not promise it; say the team will confirm.',
+  stay_extension:
+    'Answer with the extension availability and price below, quoting the price exactly. Never confirm or book the extension yourself; say the team will confirm it.',
+  booking_modification:
+    'You cannot change bookings. Acknowledge the requested change and say the team will confirm it.',
+  cancellation_request:
+    'You cannot cancel bookings or promise refunds. Refer to the cancellation policy if known and say the team will follow up.',
+  lost_and_found:
+    'Ask for a description of the item and where it was left; the team will check and get back to the guest.',
+  review: 'Thank the guest for their feedback. Never offer anything in exchange for a review.',
+};
+
+export interface GeneratedResponse {
+  message: string;
+  // Set when a model wrote the reply rather than the template fallback
+  usage?: LlmUsage;
+}
 
 @Injectable()
 export class ResponseGeneratorService {
   private readonly logger = new Logger(ResponseGeneratorService.name);
-  private readonly openai: OpenAI | null;
   private readonly responseModel: string;
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmProviderService: LlmProviderService,
+  ) {
     this.responseModel =
       this.configService.get<string>('OPENAI_RESPONSE_MODEL') ?? 'gpt-4.1-2025-04-14';
-
-    if (!apiKey) {
-      this.logger.warn('OPENAI_API_KEY is not configured. Responses will use template fallbacks.');
-      this.openai = null;
-      return;
-    }
-
-    this.openai = new OpenAI({ apiKey });
   }
 
   async generateResponse(
-    intent: AiIntent,
+    classification: IntentClassification,
     tenantName: string,
     guestName: string | undefined,
     message: string,
     data: IntentData,
     conversationContext?: string,
-  ): Promise<string> {
-    if (!this.openai) {
-      return this.templateFallback(intent, guestName, tenantName, data);
+    settings?: AiRuntimeSettings,
+  ): Promise<GeneratedResponse> {
+    const provider = this.llmProviderService.getLlmProvider(settings?.llm);
+    if (!provider) {
+      return {
+        message: this.applySignature(
+          this.templateFallback(classification, guestName, tenantName, data),
+          settings?.signature,
+        ),
+      };
     }
 
     try {
       const prompt = this.buildPrompt(
-        intent,
+        classification,
         tenantName,
         guestName,
         message,
         data,
         conversationContext,
+        settings,
       );
-      const response = await this.openai.chat.completions.create({
-        model: this.responseModel,
+      const completion = await provider.complete({
+        model: settings?.defaultModel ?? this.responseModel,
         messages: [
           {
             role: 'system',
             content: prompt,
           },
         ],
-        temperature: 0.7,
-        max_tokens: 300,
+        temperature: settings?.temperature ?? DEFAULT_AI_TEMPERATURE,
+        maxTokens: 300,
       });
 
-      const output = response.choices[0]?.message?.content;
-      if (!output) {
-        throw new Error('No output from OpenAI');
-      }
-
-      return output.trim();
+      return {
+        message: this.applySignature(completion.content.trim(), settings?.signature),
+        usage: completion.usage,
+      };
     } catch (error) {
       this.logger.error('Failed to generate AI response', error as Error);
-      return this.templateFallback(intent, guestName, tenantName, data);
+      return {
+        message: this.applySignature(
+          this.templateFallback(classification, guestName, tenantName, data),
+          settings?.signature,
+        ),
+      };
     }
   }
 
   private buildPrompt(
-    intent: AiIntent,
+    classification: IntentClassification,
     tenantName: string,
     guestName: string | undefined,
     message: string,
     data: IntentData,
     conversationContext?: string,
+    settings?: AiRuntimeSettings,
   ): string {
+    const intentLabel = classification.intents.map((match) => match.intent).join(', ');
+
     // Log knowledge base entries being used
     if (data.knowledgeBaseEntries && data.knowledgeBaseEntries.length > 0) {
       this.logger.debug(
-        `Using ${data.knowledgeBaseEntries.length} knowledge base entries for ${intent} intent`,
+        `Using ${data.knowledgeBaseEntries.length} knowledge base entries for ${intentLabel} intent`,
       );
     } else {
-      this.logger.debug(`No knowledge base entries found for ${intent} intent`);
+      this.logger.debug(`No knowledge base entries found for ${intentLabel} intent`);
     }
 
     const kbText = (data.knowledgeBaseEntries ?? [])
       .map((entry) => `- ${entry.title ?? 'Info'}: ${entry.content}`)
       .join('\n');
 
+    const entitiesText = classification.entities
+      .map((entity) => `${entity.type}: ${entity.value}`)
+      .join(', ');
+
     const contextSection = conversationContext
       ? `\n\nConversation context (recent messages for reference):${conversationContext}\n\nUse this context to understand what the guest is responding to. For example, if a guest says "yes please", check the conversation history to see what question they're answering.`
       : '';
 
-    return `You are the AI concierge for ${tenantName}. Respond to the guest in a friendly, concise tone.
+    return `You are the AI concierge for ${tenantName}. ${
+      settings?.persona ?? 'Respond to the guest in a friendly, concise tone.'
+    }${this.buildHouseRules(settings)}
 Guest name: ${guestName ?? 'Guest'}
-Intent: ${intent}
+Intent: ${intentLabel}${this.buildQuestionList(classification, data)}
+Details mentioned: ${entitiesText || 'None'}${this.buildGuidance(classification, data)}
+Guest sentiment: ${classification.sentiment}, urgency: ${classification.urgency}
 Guest message: ${message}${contextSection}
-Reservation data: ${JSON.stringify(data.reservation ?? {}, null, 2)}
-Listing data: ${JSON.stringify(data.listing ?? {}, null, 2)}
+Reservation data: ${this.toPromptJson(data.reservation)}
+Listing data: ${this.toPromptJson(data.listing)}
 Knowledge base snippets:
 ${kbText || 'None'}
 
-Compose a clear response tailored to the guest. If the guest's message seems like a response (e.g., "yes please", "sounds good"), use the conversation context to understand what they're responding to.`;
+Compose a clear response tailored to the guest that answers every question listed above, in order, in a single message.${
+      classification.sentiment === 'negative' ? ' Acknowledge the inconvenience first.' : ''
+    } If the guest's message seems like a response (e.g., "yes please", "sounds good"), use the conversation context to understand what they're responding to.`;
+  }
+
+  private buildGuidance(classification: IntentClassification, data: IntentData): string {
+    const lines = classification.intents
+      .map((match) => INTENT_GUIDANCE[match.intent])
+      .filter((line): line is string => Boolean(line));
+
+    if (data.extension) {
+      const { departureDate, nights, available, unavailableFrom, minimumStay } = data.extension;
+      const price = this.formatExtensionPrice(data.extension);
+      const status =
+        available === null
+          ? 'could not be checked, do not guess'
+          : available
+          ? `free${price ? `, total price ${price}` : ', price not available'}`
+          : `not available, the listing is booked from ${unavailableFrom ?? 'that date'}`;
+      lines.push(
+        `Extension of ${nights} night(s) from ${departureDate}: ${status}.${
+          minimumStay ? ` Those nights have a ${minimumStay}-night minimum stay.` : ''
+        }`,
+      );
+    }
+
+    const offers = data.upsellOffers ?? [];
+    if (offers.length > 0) {
+      lines.push(
+        `Paid extras available for this booking (offer them with the exact price and ask the guest to reply YES to book): ${offers
+          .map(
+            (offer) =>
+              `${offer.name}${
+                offer.serviceTime ? ` (${offer.serviceTime})` : ''
+              } for ${formatUpsellPrice(offer)}${
+                offer.description ? ` - ${offer.description}` : ''
+              }`,
+          )
+          .join('; ')}. Never offer other extras or prices.`,
+      );
+    }
+
+    return lines.length > 0 ? `\nGuidance:\n${lines.map((line) => `- ${line}`).join('\n')}` : '';
+  }
+
+  private formatExtensionPrice(extension: ExtensionAvailability): string | null {
+    if (extension.totalPrice === null) {
+      return null;
+    }
+
+    if (!extension.currency) {
+      return extension.totalPrice.toFixed(2);
+    }
+
+    try {
+      return formatUpsellPrice({
+        priceCents: Math.round(extension.totalPrice * 100),
+        currency: extension.currency,
+      });
+    } catch {
+      // Not an ISO currency code
+      return `${extension.totalPrice.toFixed(2)} ${extension.currency}`;
+    }
+  }
+
+  private buildQuestionList(classification: IntentClassification, data: IntentData): string {
+    if (classification.intents.length < 2) {
+      return '';
+    }
+
+    const questions = classification.intents.map((match, index) => {
+      const topic = data.topics?.find((entry) => entry.intent === match.intent);
+      const sources = topic?.knowledgeBaseEntries.map((entry) => entry.title ?? 'Info') ?? [];
+      return `${index + 1}. [${match.intent}] ${match.question ?? 'See guest message'}${
+        sources.length > 0 ? ` (see snippets: ${sources.join('; ')})` : ''
+      }`;
+    });
+
+    return `\nThe guest asked several things:\n${questions.join('\n')}`;
+  }
+
+  private buildHouseRules(settings: AiRuntimeSettings | undefined): string {
+    if (!settings) {
+      return '';
+    }
+
+    const rules: string[] = [];
+
+    if (settings.languagePolicy === 'fixed' && settings.defaultLanguage) {
+      rules.push(`Always reply in ${settings.defaultLanguage}.`);
+    } else {
+      rules.push('Reply in the same language the guest wrote in.');
+    }
+
+    if (settings.forbiddenTopics.length > 0) {
+      rules.push(
+        `Never discuss these topics: ${settings.forbiddenTopics.join(
+          ', ',
+        )}. If the guest asks about them, say the team will follow up.`,
+      );
+    }
+
+    // The signature is appended after generation so the model must not add its own
+    if (settings.signature) {
+      rules.push('Do not add a sign-off or signature.');
+    }
+
+    return `\nHouse rules:\n${rules.map((rule) => `- ${rule}`).join('\n')}`;
+  }
+
+  private applySignature(reply: string, signature: string | null | undefined): string {
+    if (!signature || reply.trimEnd().endsWith(signature)) {
+      return reply;
+    }
+
+    return `${reply}\n\n${signature}`;
   }
 
   private templateFallback(
+    classification: IntentClassification,
+    guestName: string | undefined,
+    tenantName: string,
+    data: IntentData,
+  ): string {
+    const reply = this.templateForIntent(classification.intent, guestName, tenantName, data);
+    if (classification.intents.length < 2 || classification.intent === 'emergency') {
+      return reply;
+    }
+
+    return `${reply} We'll follow up on your other questions shortly.`;
+  }
+
+  private templateForIntent(
     intent: AiIntent,
     guestName: string | undefined,
     tenantName: string,
@@ -117,17 +289,52 @@ Compose a clear response tailored to the guest. If the guest's message seems lik
 
     switch (intent) {
       case 'check_in_info': {
-        const doorCode = this.readString(data.reservation, 'doorCode', 'door_code');
+        const doorCode = data.reservation?.doorCode ?? data.listing?.doorCode;
         return `Hi ${name}! Check-in details for ${tenantName}: your door code is ${
           doorCode ?? 'available in your guest portal'
         }. Let us know if you need anything else!`;
       }
       case 'check_out_info':
-        return `Hi ${name}! Checkout is by ${
-          this.readString(data.reservation, 'checkoutTime', 'checkOut', 'check_out') ?? '11:00 AM'
-        }. Please leave the keys on the kitchen counter. Safe travels!`;
+        return `Hi ${name}! Checkout is by ${this.formatCheckoutTime(
+          data.reservation?.checkOutTime ?? data.listing?.checkOutTime,
+        )}. Please leave the keys on the kitchen counter. Safe travels!`;
       case 'emergency':
         return `Hi ${name}, we're alerting our on-call team now. If you're in immediate danger, dial emergency services.`;
+      case 'early_check_in':
+      case 'late_checkout': {
+        const offer = data.upsellOffers?.find((candidate) => candidate.type === intent);
+        if (offer) {
+          return `Hi ${name}! ${offer.name}${
+            offer.serviceTime ? ` (${offer.serviceTime})` : ''
+          } is available for ${formatUpsellPrice(
+            offer,
+          )}. Reply YES if you'd like to add it to your booking.`;
+        }
+        return intent === 'early_check_in'
+          ? `Hi ${name}! We'll check whether the property can be ready earlier for you and confirm as soon as possible.`
+          : `Hi ${name}! We'll check whether a later checkout is possible and get back to you shortly.`;
+      }
+      case 'stay_extension': {
+        const extension = data.extension;
+        const price = extension ? this.formatExtensionPrice(extension) : null;
+        if (extension?.available === false) {
+          return `Hi ${name}! Unfortunately the property is already booked after your stay, but our team will see what they can do.`;
+        }
+        if (extension?.available && price) {
+          return `Hi ${name}! Good news, the property is free for ${extension.nights} more night(s) for ${price} in total. Our team will confirm the extension with you shortly.`;
+        }
+        return `Hi ${name}! We'd love to have you stay longer. Our team will check availability and confirm shortly.`;
+      }
+      case 'booking_modification':
+        return `Hi ${name}, thanks for letting us know. Our team will review the change to your booking and confirm shortly.`;
+      case 'cancellation_request':
+        return `Hi ${name}, we've received your request. Our team will review your booking and follow up with the cancellation details shortly.`;
+      case 'lost_and_found':
+        return `Hi ${name}, sorry to hear that! Could you describe the item and where you last saw it? Our team will check and get back to you.`;
+      case 'review':
+        return `Hi ${name}, thank you so much for your feedback! We really appreciate you taking the time to share it.`;
+      case 'complaint':
+        return `Hi ${name}, I'm sorry to hear that. I've passed this on to our team and someone will get back to you shortly.`;
       case 'support_request':
         return `Hi ${name}, thanks for letting us know. Our support team is reviewing your message and will follow up shortly.`;
       case 'general_info':
@@ -142,36 +349,20 @@ ${
     }
   }
 
-  private readString(
-    source: Record<string, unknown> | null | undefined,
-    ...paths: string[]
-  ): string | undefined {
-    if (!source) {
-      return undefined;
-    }
-
-    for (const path of paths) {
-      const value = this.resolvePath(source, path);
-      if (typeof value === 'string' && value.trim().length > 0) {
-        return value;
-      }
-    }
-
-    return undefined;
+  // Typed fields only; the provider's raw record is noisy and can run to thousands of tokens
+  private toPromptJson(record: Reservation | Listing | null | undefined): string {
+    return JSON.stringify(
+      record ?? {},
+      (key, value: unknown) => (key === 'raw' ? undefined : value),
+      2,
+    );
   }
 
-  private resolvePath(source: Record<string, unknown>, path: string): unknown {
-    const segments = path.split('.');
-    let current: unknown = source;
-
-    for (const segment of segments) {
-      if (!current || typeof current !== 'object') {
-        return undefined;
-      }
-
-      current = (current as Record<string, unknown>)[segment];
+  // PMSs often store checkout as an hour of the day, e.g. 11
+  private formatCheckoutTime(value: string | null | undefined): string {
+    if (!value) {
+      return '11:00 AM';
     }
-
-    return current;
+    return /^\d{1,2}$/.test(value) ? `${value.padStart(2, '0')}:00` : value;
   }
 }
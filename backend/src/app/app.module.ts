@@ -2,18 +2,30 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { PassportModule } from '@nestjs/passport';
 
+import { AdminModule } from '../admin/admin.module';
+import { AuditModule } from '../audit/audit.module';
 import { AuthModule } from '../auth/auth.module';
+import { AutomationsModule } from '../automations/automations.module';
 import { SupabaseStrategy } from '../auth/supabase.strategy';
 import { BillingModule } from '../billing/billing.module';
 import { LoggingModule } from '../logging/logging.module';
 import { ConversationsModule } from '../conversations/conversations.module';
 import { DashboardModule } from '../dashboard/dashboard.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { EscalationsModule } from '../escalations/escalations.module';
+import { EventsModule } from '../events/events.module';
 import { IntegrationsModule } from '../integrations/integrations.module';
+import { JobsModule } from '../jobs/jobs.module';
 import { RagModule } from '../rag/rag.module';
+import { RotaModule } from '../rota/rota.module';
 import { SchedulingModule } from '../scheduling/scheduling.module';
 import { SecurityModule } from '../security/security.module';
 import { TenantModule } from '../tenant/tenant.module';
+import { TasksModule } from '../tasks/tasks.module';
+import { TeamModule } from '../team/team.module';
 import { TemplatesModule } from '../templates/templates.module';
+import { UpsellsModule } from '../upsells/upsells.module';
+import { UsageModule } from '../usage/usage.module';
 import { WebhooksModule } from '../webhooks/webhooks.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
@@ -26,6 +38,7 @@ import { DatabaseModule } from '../database/database.module';
     }),
     LoggingModule,
     SecurityModule,
+    EventsModule,
     PassportModule.register({ defaultStrategy: 'supabase' }),
     AuthModule,
     BillingModule,
@@ -36,8 +49,19 @@ import { DatabaseModule } from '../database/database.module';
     WebhooksModule,
     TenantModule,
     TemplatesModule,
+    TasksModule,
+    UpsellsModule,
+    EscalationsModule,
+    AutomationsModule,
+    RotaModule,
+    TeamModule,
+    AdminModule,
+    AuditModule,
+    UsageModule,
+    EntitlementsModule,
     DatabaseModule,
     RagModule,
+    JobsModule,
   ],
   controllers: [AppController],
   providers: [AppService, SupabaseStrategy],
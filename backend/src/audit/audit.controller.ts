@@ -0,0 +1,69 @@
+import { Controller, Get, Header, Query, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { AuditLogEntry } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { AuditLogFilters, AuditService } from './audit.service';
+
+@Controller('audit')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+@RequireTenantRole('manager')
+export class AuditController {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get()
+  async list(
+    @Req() req: AuthenticatedRequest,
+    @Query('action') action?: string,
+    @Query('actorUserId') actorUserId?: string,
+    @Query('targetType') targetType?: string,
+    @Query('targetId') targetId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.auditService.list(tenant.id, {
+      ...this.toFilters({ action, actorUserId, targetType, targetId, from, to }),
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get('export')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="audit-log.csv"')
+  async exportCsv(
+    @Req() req: AuthenticatedRequest,
+    @Query('action') action?: string,
+    @Query('actorUserId') actorUserId?: string,
+    @Query('targetType') targetType?: string,
+    @Query('targetId') targetId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<string> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.auditService.exportCsv(
+      tenant.id,
+      this.toFilters({ action, actorUserId, targetType, targetId, from, to }),
+    );
+  }
+
+  private toFilters(query: Record<string, string | undefined>): AuditLogFilters {
+    return {
+      action: query.action?.trim() || undefined,
+      actorUserId: query.actorUserId?.trim() || undefined,
+      targetType: query.targetType?.trim() || undefined,
+      targetId: query.targetId?.trim() || undefined,
+      from: query.from || undefined,
+      to: query.to || undefined,
+    };
+  }
+}
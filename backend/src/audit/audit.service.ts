@@ -0,0 +1,271 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { AuditFieldChange, AuditLogEntry } from '@saas-automation/shared-types';
+import { isValid, parseISO } from 'date-fns';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { DatabaseService } from '../database/database.service';
+
+/** Who performed an audited action. Omitted for system actions such as Stripe webhooks. */
+export interface AuditActor {
+  userId: string;
+  email?: string | null;
+  ip?: string | null;
+}
+
+export interface AuditRecord {
+  tenantId: string;
+  actor: AuditActor | null;
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  // Field names whose values must never be stored, only the fact that they changed
+  redact?: string[];
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  actorUserId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface AuditLogRow {
+  id: string;
+  actor_user_id: string | null;
+  actor_email: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  changes: Record<string, AuditFieldChange> | null;
+  remote_ip: string | null;
+  created_at: Date;
+}
+
+const REDACTED = '[redacted]';
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+export const auditActorFromRequest = (req: AuthenticatedRequest): AuditActor => ({
+  userId: req.user.userId,
+  email: req.user.email ?? null,
+  ip: req.ip ?? null,
+});
+
+/**
+ * Keeps only the fields whose values differ between `before` and `after`. Redacted fields are
+ * reported as changed whenever they are present in `after`, without their values.
+ */
+export const diffChanges = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  redact: string[] = [],
+): Record<string, AuditFieldChange> => {
+  const changes: Record<string, AuditFieldChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+
+    if (redact.includes(key)) {
+      if (after && key in after) {
+        changes[key] = {
+          before: previous === null ? null : REDACTED,
+          after: next === null ? null : REDACTED,
+        };
+      }
+      continue;
+    }
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+};
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Appends an entry. Called after the audited action has succeeded, so a failure here is logged
+   * rather than failing the request.
+   */
+  async record(entry: AuditRecord): Promise<void> {
+    const changes = diffChanges(entry.before, entry.after, entry.redact);
+
+    try {
+      await this.databaseService.runQuery(
+        `insert into public.audit_log
+           (tenant_id, actor_user_id, actor_email, action, target_type, target_id, changes, remote_ip)
+         values ($1, $2, $3, $4, $5, $6, $7::jsonb, $8)`,
+        [
+          entry.tenantId,
+          entry.actor?.userId ?? null,
+          entry.actor?.email ?? null,
+          entry.action,
+          entry.targetType,
+          entry.targetId ?? null,
+          JSON.stringify(changes),
+          entry.actor?.ip ?? null,
+        ],
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to write audit entry ${entry.action} for tenant ${entry.tenantId}`,
+        error as Error,
+      );
+    }
+  }
+
+  async list(
+    tenantId: string,
+    filters: AuditLogFilters = {},
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const { whereSql, params } = this.buildFilter(tenantId, filters);
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    const countResult = await this.databaseService.runQuery<{ total: string }>(
+      `select count(*) as total from public.audit_log ${whereSql}`,
+      params,
+    );
+
+    const { rows } = await this.databaseService.runQuery<AuditLogRow>(
+      `select id, actor_user_id, actor_email, action, target_type, target_id, changes, remote_ip,
+              created_at
+         from public.audit_log
+       ${whereSql}
+        order by created_at desc
+        limit $${params.length + 1} offset $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return {
+      entries: rows.map((row) => this.mapEntry(row)),
+      total: parseInt(countResult.rows[0]?.total ?? '0', 10),
+    };
+  }
+
+  async exportCsv(tenantId: string, filters: AuditLogFilters = {}): Promise<string> {
+    const { whereSql, params } = this.buildFilter(tenantId, filters);
+
+    const { rows } = await this.databaseService.runQuery<AuditLogRow>(
+      `select id, actor_user_id, actor_email, action, target_type, target_id, changes, remote_ip,
+              created_at
+         from public.audit_log
+       ${whereSql}
+        order by created_at desc
+        limit ${MAX_EXPORT_ROWS}`,
+      params,
+    );
+
+    const header = [
+      'created_at',
+      'actor_user_id',
+      'actor_email',
+      'action',
+      'target_type',
+      'target_id',
+      'changes',
+      'remote_ip',
+    ];
+    const lines = rows.map((row) => {
+      const entry = this.mapEntry(row);
+      return [
+        entry.createdAt,
+        entry.actorUserId,
+        entry.actorEmail,
+        entry.action,
+        entry.targetType,
+        entry.targetId,
+        JSON.stringify(entry.changes),
+        entry.remoteIp,
+      ]
+        .map(toCsvField)
+        .join(',');
+    });
+
+    return [header.join(','), ...lines].join('\r\n') + '\r\n';
+  }
+
+  private buildFilter(
+    tenantId: string,
+    filters: AuditLogFilters,
+  ): { whereSql: string; params: unknown[] } {
+    const conditions = ['tenant_id = $1'];
+    const params: unknown[] = [tenantId];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filters.action) {
+      // "template.*" style prefixes match a whole family of actions
+      if (filters.action.endsWith('.*')) {
+        addCondition('action like ?', `${filters.action.slice(0, -1)}%`);
+      } else {
+        addCondition('action = ?', filters.action);
+      }
+    }
+    if (filters.actorUserId) {
+      addCondition('actor_user_id::text = ?', filters.actorUserId);
+    }
+    if (filters.targetType) {
+      addCondition('target_type = ?', filters.targetType);
+    }
+    if (filters.targetId) {
+      addCondition('target_id = ?', filters.targetId);
+    }
+    if (filters.from) {
+      addCondition('created_at >= ?', this.parseDate(filters.from, 'from'));
+    }
+    if (filters.to) {
+      addCondition('created_at < ?', this.parseDate(filters.to, 'to'));
+    }
+
+    return { whereSql: `where ${conditions.join(' and ')}`, params };
+  }
+
+  private parseDate(value: string, field: string): string {
+    const parsed = parseISO(value);
+    if (!isValid(parsed)) {
+      throw new BadRequestException(`${field} must be an ISO date`);
+    }
+    return parsed.toISOString();
+  }
+
+  private mapEntry(row: AuditLogRow): AuditLogEntry {
+    return {
+      id: row.id,
+      actorUserId: row.actor_user_id,
+      actorEmail: row.actor_email,
+      action: row.action,
+      targetType: row.target_type,
+      targetId: row.target_id,
+      changes: row.changes ?? {},
+      remoteIp: row.remote_ip,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
+
+const toCsvField = (value: string | null): string => {
+  if (value === null) {
+    return '';
+  }
+  // Quote everything that could break the row, and neutralise spreadsheet formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) || safe !== value ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
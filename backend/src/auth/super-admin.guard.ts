@@ -0,0 +1,32 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+
+/**
+ * Restricts platform-level routes to users whose profile role is `super-admin`. The role is read
+ * from the database because the Supabase JWT `role` claim is always `authenticated`.
+ */
+@Injectable()
+export class SuperAdminGuard implements CanActivate {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.userId;
+
+    if (!userId) {
+      throw new ForbiddenException('User ID not found in request');
+    }
+
+    const result = await this.databaseService.runQuery<{ role: string }>(
+      `select role::text as role from public.user_profiles where user_id = $1 limit 1`,
+      [userId],
+    );
+
+    if (result.rows[0]?.role !== 'super-admin') {
+      throw new ForbiddenException('Super-admin access required');
+    }
+
+    return true;
+  }
+}
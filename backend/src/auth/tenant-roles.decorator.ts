@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { TenantRole } from '@saas-automation/shared-types';
+
+export const TENANT_ROLE_KEY = 'tenantRole';
+
+/** Least privileged tenant role allowed to call the route; see `TenantRolesGuard`. */
+export const RequireTenantRole = (role: TenantRole) => SetMetadata(TENANT_ROLE_KEY, role);
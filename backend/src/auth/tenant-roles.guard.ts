@@ -0,0 +1,66 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { TENANT_ROLES, TenantRole } from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+import { TENANT_ROLE_KEY } from './tenant-roles.decorator';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const ROLE_LABELS: Record<TenantRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  agent: 'Agent',
+  read_only: 'Read-only',
+};
+
+/**
+ * Checks the caller's role within their tenant against `@RequireTenantRole`. Routes without it
+ * are open to every member for reads and to agents and above for writes, so read-only members
+ * can never change anything. Super-admins pass every check.
+ */
+@Injectable()
+export class TenantRolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly databaseService: DatabaseService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.userId;
+
+    if (!userId) {
+      throw new ForbiddenException('User ID not found in request');
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<TenantRole | undefined>(TENANT_ROLE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? (READ_METHODS.includes(request.method) ? 'read_only' : 'agent');
+
+    const result = await this.databaseService.runQuery<{ role: string; tenant_role: TenantRole }>(
+      `select role::text as role, tenant_role
+         from public.user_profiles
+        where user_id = $1
+        limit 1`,
+      [userId],
+    );
+    const profile = result.rows[0];
+
+    if (!profile) {
+      throw new ForbiddenException('User is not associated with a tenant');
+    }
+    if (profile.role === 'super-admin') {
+      return true;
+    }
+
+    // Lower index means more privileged
+    if (TENANT_ROLES.indexOf(profile.tenant_role) > TENANT_ROLES.indexOf(required)) {
+      throw new ForbiddenException(`${ROLE_LABELS[required]} access or higher required`);
+    }
+
+    return true;
+  }
+}
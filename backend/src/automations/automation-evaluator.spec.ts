@@ -0,0 +1,153 @@
+import {
+  AutomationConditions,
+  AutomationRule,
+  AutomationTrigger,
+} from '@saas-automation/shared-types';
+
+import { Reservation } from '../pms/pms.types';
+import {
+  automationMessageType,
+  matchesConditions,
+  matchesGuestMessage,
+  matchesStatusChange,
+  parseAutomationMessageType,
+} from './automation-evaluator';
+
+const rule = (
+  trigger: Partial<AutomationTrigger> = {},
+  conditions: Partial<AutomationConditions> = {},
+): AutomationRule => ({
+  id: 'rule-1',
+  name: 'Rule',
+  enabled: true,
+  trigger: { type: 'check_in', offsetHours: -24, pattern: null, statuses: [], ...trigger },
+  conditions: {
+    listingIds: [],
+    channels: [],
+    minNights: null,
+    maxNights: null,
+    minGuests: null,
+    maxGuests: null,
+    minLeadTimeDays: null,
+    maxLeadTimeDays: null,
+    ...conditions,
+  },
+  actions: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+// Three nights for two guests on Airbnb, booked ten days ahead
+const reservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'res-1',
+  listingId: 'listing-1',
+  listingName: 'Loft',
+  status: 'new',
+  channel: 'airbnbOfficial',
+  guest: {
+    id: 'guest-1',
+    name: 'Ada Guest',
+    firstName: 'Ada',
+    lastName: 'Guest',
+    email: null,
+    phone: null,
+  },
+  arrivalDate: '2026-06-10',
+  departureDate: '2026-06-13',
+  checkInTime: null,
+  checkOutTime: null,
+  timezone: 'Europe/London',
+  checkInAt: new Date('2026-06-10T14:00:00Z'),
+  checkOutAt: new Date('2026-06-13T09:00:00Z'),
+  guestCount: 2,
+  totalPrice: null,
+  currency: null,
+  doorCode: null,
+  conversationId: null,
+  guestPortalUrl: null,
+  reservedAt: new Date('2026-05-31T14:00:00Z'),
+  updatedAt: null,
+  raw: {},
+  ...overrides,
+});
+
+describe('automation message types', () => {
+  it('round-trips the rule and event', () => {
+    expect(parseAutomationMessageType(automationMessageType('rule-1'))).toEqual({
+      ruleId: 'rule-1',
+      eventKey: null,
+    });
+    expect(parseAutomationMessageType(automationMessageType('rule-1', 'status:cancelled'))).toEqual(
+      { ruleId: 'rule-1', eventKey: 'status:cancelled' },
+    );
+  });
+
+  it('ignores built-in message types', () => {
+    expect(parseAutomationMessageType('door_code_3h')).toBeNull();
+    expect(parseAutomationMessageType(null)).toBeNull();
+    expect(parseAutomationMessageType('automation:')).toBeNull();
+  });
+});
+
+describe('matchesConditions', () => {
+  it('matches everything when no condition is set', () => {
+    expect(matchesConditions(rule(), reservation())).toBe(true);
+  });
+
+  it('filters by listing and, ignoring case, by channel', () => {
+    expect(matchesConditions(rule({}, { listingIds: ['listing-1'] }), reservation())).toBe(true);
+    expect(matchesConditions(rule({}, { listingIds: ['listing-2'] }), reservation())).toBe(false);
+    expect(matchesConditions(rule({}, { channels: ['AirbnbOfficial'] }), reservation())).toBe(true);
+    expect(matchesConditions(rule({}, { channels: ['direct'] }), reservation())).toBe(false);
+  });
+
+  it('bounds nights, guests and lead time inclusively', () => {
+    expect(matchesConditions(rule({}, { minNights: 3, maxNights: 3 }), reservation())).toBe(true);
+    expect(matchesConditions(rule({}, { minNights: 4 }), reservation())).toBe(false);
+    expect(matchesConditions(rule({}, { maxGuests: 1 }), reservation())).toBe(false);
+    expect(matchesConditions(rule({}, { minLeadTimeDays: 10 }), reservation())).toBe(true);
+    expect(matchesConditions(rule({}, { maxLeadTimeDays: 7 }), reservation())).toBe(false);
+  });
+
+  it('does not match a bound the reservation has no data for', () => {
+    expect(matchesConditions(rule({}, { minGuests: 1 }), reservation({ guestCount: null }))).toBe(
+      false,
+    );
+    expect(
+      matchesConditions(rule({}, { maxLeadTimeDays: 30 }), reservation({ reservedAt: null })),
+    ).toBe(false);
+    expect(matchesConditions(rule(), reservation({ guestCount: null, reservedAt: null }))).toBe(
+      true,
+    );
+  });
+});
+
+describe('matchesGuestMessage', () => {
+  const messageRule = (pattern: string | null) => rule({ type: 'guest_message', pattern });
+
+  it('matches the pattern case-insensitively', () => {
+    expect(matchesGuestMessage(messageRule('early check-?in'), 'Can we do an Early Checkin?')).toBe(
+      true,
+    );
+    expect(matchesGuestMessage(messageRule('early check-?in'), 'Where is the parking?')).toBe(
+      false,
+    );
+  });
+
+  it('never matches without a valid pattern or for other triggers', () => {
+    expect(matchesGuestMessage(messageRule(null), 'anything')).toBe(false);
+    expect(matchesGuestMessage(messageRule('(unclosed'), '(unclosed')).toBe(false);
+    expect(matchesGuestMessage(rule({ pattern: 'parking' }), 'parking')).toBe(false);
+  });
+});
+
+describe('matchesStatusChange', () => {
+  it('matches the listed statuses, or any change when none are listed', () => {
+    const cancellations = rule({ type: 'status_changed', statuses: ['cancelled'] });
+
+    expect(matchesStatusChange(cancellations, 'Cancelled')).toBe(true);
+    expect(matchesStatusChange(cancellations, 'modified')).toBe(false);
+    expect(matchesStatusChange(rule({ type: 'status_changed' }), 'modified')).toBe(true);
+    expect(matchesStatusChange(rule(), 'cancelled')).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { AutomationRule } from '@saas-automation/shared-types';
+
+import { Reservation } from '../pms/pms.types';
+
+/*
+ * Rule runs are queued as conversation log entries like the built-in proactive messages. Their
+ * message type names the rule, so the worker can load it at send time and the scheduler can
+ * reconcile them: `automation:<ruleId>` for runs timed from the stay dates and
+ * `automation:<ruleId>:<event>` for runs fired by a guest message or status change.
+ */
+const AUTOMATION_MESSAGE_TYPE_PREFIX = 'automation:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AutomationMessageType = `automation:${string}`;
+
+export function automationMessageType(ruleId: string, eventKey?: string): AutomationMessageType {
+  return `${AUTOMATION_MESSAGE_TYPE_PREFIX}${ruleId}${eventKey ? `:${eventKey}` : ''}`;
+}
+
+/** The rule and event a queued message belongs to, or null for built-in message types. */
+export function parseAutomationMessageType(
+  messageType: string | null,
+): { ruleId: string; eventKey: string | null } | null {
+  if (!messageType?.startsWith(AUTOMATION_MESSAGE_TYPE_PREFIX)) {
+    return null;
+  }
+
+  const [ruleId, ...event] = messageType.slice(AUTOMATION_MESSAGE_TYPE_PREFIX.length).split(':');
+  return ruleId ? { ruleId, eventKey: event.join(':') || null } : null;
+}
+
+/**
+ * Whether every condition set on the rule holds for the reservation. A bound the reservation has
+ * no data for (e.g. no guest count) does not hold, so rules never fire on guesses.
+ */
+export function matchesConditions(rule: AutomationRule, reservation: Reservation): boolean {
+  const { conditions } = rule;
+
+  if (
+    conditions.listingIds.length > 0 &&
+    !conditions.listingIds.includes(reservation.listingId ?? '')
+  ) {
+    return false;
+  }
+
+  if (conditions.channels.length > 0) {
+    const channel = reservation.channel?.toLowerCase() ?? '';
+    if (!conditions.channels.some((candidate) => candidate.toLowerCase() === channel)) {
+      return false;
+    }
+  }
+
+  const nights =
+    reservation.arrivalDate && reservation.departureDate
+      ? differenceInCalendarDays(
+          parseISO(reservation.departureDate),
+          parseISO(reservation.arrivalDate),
+        )
+      : null;
+  if (!withinBounds(nights, conditions.minNights, conditions.maxNights)) {
+    return false;
+  }
+
+  if (!withinBounds(reservation.guestCount, conditions.minGuests, conditions.maxGuests)) {
+    return false;
+  }
+
+  const leadTimeDays =
+    reservation.reservedAt && reservation.checkInAt
+      ? Math.floor((reservation.checkInAt.getTime() - reservation.reservedAt.getTime()) / DAY_MS)
+      : null;
+  return withinBounds(leadTimeDays, conditions.minLeadTimeDays, conditions.maxLeadTimeDays);
+}
+
+/** For guest_message rules: whether the message matches the rule's pattern. */
+export function matchesGuestMessage(rule: AutomationRule, body: string): boolean {
+  if (rule.trigger.type !== 'guest_message' || !rule.trigger.pattern) {
+    return false;
+  }
+
+  try {
+    return new RegExp(rule.trigger.pattern, 'i').test(body);
+  } catch {
+    return false;
+  }
+}
+
+/** For status_changed rules: whether the rule covers a change to `status`. */
+export function matchesStatusChange(rule: AutomationRule, status: string): boolean {
+  return (
+    rule.trigger.type === 'status_changed' &&
+    (rule.trigger.statuses.length === 0 || rule.trigger.statuses.includes(status.toLowerCase()))
+  );
+}
+
+function withinBounds(value: number | null, min: number | null, max: number | null): boolean {
+  if (min === null && max === null) {
+    return true;
+  }
+  if (value === null) {
+    return false;
+  }
+  return (min === null || value >= min) && (max === null || value <= max);
+}
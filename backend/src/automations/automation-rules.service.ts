@@ -0,0 +1,340 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_TRIGGER_TYPES,
+  AutomationAction,
+  AutomationConditions,
+  AutomationRule,
+  AutomationTrigger,
+} from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+import { TemplatesService } from '../templates/templates.service';
+import { AutomationRuleDto } from './dto/automation-rule.dto';
+
+interface AutomationRuleRow {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: Partial<AutomationConditions> | null;
+  actions: AutomationAction[] | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RULE_COLUMNS = `id, name, enabled, trigger, conditions, actions, created_at, updated_at`;
+
+const MAX_ACTIONS = 10;
+// A month either side of check-in or check-out
+const MAX_OFFSET_HOURS = 30 * 24;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EMPTY_CONDITIONS: AutomationConditions = {
+  listingIds: [],
+  channels: [],
+  minNights: null,
+  maxNights: null,
+  minGuests: null,
+  maxGuests: null,
+  minLeadTimeDays: null,
+  maxLeadTimeDays: null,
+};
+
+@Injectable()
+export class AutomationRulesService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly templatesService: TemplatesService,
+  ) {}
+
+  async listRules(tenantId: string): Promise<AutomationRule[]> {
+    const { rows } = await this.databaseService.runQuery<AutomationRuleRow>(
+      `select ${RULE_COLUMNS}
+         from public.automation_rules
+        where tenant_id = $1
+        order by created_at`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapRule(row));
+  }
+
+  async listEnabledRules(tenantId: string): Promise<AutomationRule[]> {
+    const { rows } = await this.databaseService.runQuery<AutomationRuleRow>(
+      `select ${RULE_COLUMNS}
+         from public.automation_rules
+        where tenant_id = $1
+          and enabled = true
+        order by created_at`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapRule(row));
+  }
+
+  async getRule(tenantId: string, ruleId: string): Promise<AutomationRule | null> {
+    if (!UUID_PATTERN.test(ruleId)) {
+      return null;
+    }
+
+    const { rows } = await this.databaseService.runQuery<AutomationRuleRow>(
+      `select ${RULE_COLUMNS}
+         from public.automation_rules
+        where id = $1
+          and tenant_id = $2`,
+      [ruleId, tenantId],
+    );
+
+    return rows[0] ? this.mapRule(rows[0]) : null;
+  }
+
+  async createRule(tenantId: string, dto: AutomationRuleDto): Promise<AutomationRule> {
+    const rule = await this.validateRule(tenantId, dto);
+
+    const { rows } = await this.databaseService.runQuery<AutomationRuleRow>(
+      `insert into public.automation_rules (tenant_id, name, enabled, trigger, conditions, actions)
+       values ($1, $2, $3, $4::jsonb, $5::jsonb, $6::jsonb)
+       returning ${RULE_COLUMNS}`,
+      [
+        tenantId,
+        rule.name,
+        rule.enabled,
+        JSON.stringify(rule.trigger),
+        JSON.stringify(rule.conditions),
+        JSON.stringify(rule.actions),
+      ],
+    );
+
+    return this.mapRule(rows[0]);
+  }
+
+  async updateRule(
+    tenantId: string,
+    ruleId: string,
+    dto: AutomationRuleDto,
+  ): Promise<AutomationRule> {
+    if (!UUID_PATTERN.test(ruleId)) {
+      throw new NotFoundException('Automation rule not found');
+    }
+
+    const rule = await this.validateRule(tenantId, dto);
+
+    const { rows } = await this.databaseService.runQuery<AutomationRuleRow>(
+      `update public.automation_rules
+          set name = $3,
+              enabled = $4,
+              trigger = $5::jsonb,
+              conditions = $6::jsonb,
+              actions = $7::jsonb,
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${RULE_COLUMNS}`,
+      [
+        ruleId,
+        tenantId,
+        rule.name,
+        rule.enabled,
+        JSON.stringify(rule.trigger),
+        JSON.stringify(rule.conditions),
+        JSON.stringify(rule.actions),
+      ],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Automation rule not found');
+    }
+
+    return this.mapRule(rows[0]);
+  }
+
+  async deleteRule(tenantId: string, ruleId: string): Promise<void> {
+    if (!UUID_PATTERN.test(ruleId)) {
+      throw new NotFoundException('Automation rule not found');
+    }
+
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.automation_rules where id = $1 and tenant_id = $2`,
+      [ruleId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Automation rule not found');
+    }
+  }
+
+  private async validateRule(tenantId: string, dto: AutomationRuleDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('Automation rule payload is required');
+    }
+
+    const name = typeof dto.name === 'string' ? dto.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+
+    const trigger = this.validateTrigger(dto.trigger);
+    const conditions = this.validateConditions(dto.conditions);
+
+    if (
+      !Array.isArray(dto.actions) ||
+      dto.actions.length === 0 ||
+      dto.actions.length > MAX_ACTIONS
+    ) {
+      throw new BadRequestException(`actions must contain between 1 and ${MAX_ACTIONS} entries`);
+    }
+
+    const actions: AutomationAction[] = [];
+    for (const [index, action] of dto.actions.entries()) {
+      if (!action || !AUTOMATION_ACTION_TYPES.includes(action.type)) {
+        throw new BadRequestException(
+          `actions[${index}].type must be one of: ${AUTOMATION_ACTION_TYPES.join(', ')}`,
+        );
+      }
+
+      const normalized: AutomationAction = {
+        type: action.type,
+        templateId: null,
+        message: null,
+        tag: null,
+      };
+
+      if (action.type === 'send_template') {
+        const templateId = action.templateId?.trim() ?? '';
+        if (!UUID_PATTERN.test(templateId)) {
+          throw new BadRequestException(`actions[${index}].templateId is required`);
+        }
+        await this.templatesService.getTemplate(tenantId, templateId).catch(() => {
+          throw new BadRequestException(`actions[${index}].templateId does not match a template`);
+        });
+        normalized.templateId = templateId;
+      } else if (action.type === 'notify_staff') {
+        const message = action.message?.trim() ?? '';
+        if (!message) {
+          throw new BadRequestException(`actions[${index}].message is required`);
+        }
+        normalized.message = message;
+      } else if (action.type === 'tag_conversation') {
+        const tag = action.tag?.trim().toLowerCase() ?? '';
+        if (!tag) {
+          throw new BadRequestException(`actions[${index}].tag is required`);
+        }
+        normalized.tag = tag;
+      }
+
+      actions.push(normalized);
+    }
+
+    // Each run is a single message in the conversation log, so it can send at most one template
+    if (actions.filter((action) => action.type === 'send_template').length > 1) {
+      throw new BadRequestException('A rule can send at most one template');
+    }
+
+    return { name, enabled: dto.enabled ?? true, trigger, conditions, actions };
+  }
+
+  private validateTrigger(input: AutomationRuleDto['trigger']): AutomationTrigger {
+    if (!input || !AUTOMATION_TRIGGER_TYPES.includes(input.type)) {
+      throw new BadRequestException(
+        `trigger.type must be one of: ${AUTOMATION_TRIGGER_TYPES.join(', ')}`,
+      );
+    }
+
+    const trigger: AutomationTrigger = {
+      type: input.type,
+      offsetHours: null,
+      pattern: null,
+      statuses: [],
+    };
+
+    if (input.type === 'check_in' || input.type === 'check_out') {
+      const offsetHours = input.offsetHours ?? 0;
+      if (!Number.isInteger(offsetHours) || Math.abs(offsetHours) > MAX_OFFSET_HOURS) {
+        throw new BadRequestException(
+          `trigger.offsetHours must be a whole number between -${MAX_OFFSET_HOURS} and ${MAX_OFFSET_HOURS}`,
+        );
+      }
+      trigger.offsetHours = offsetHours;
+    }
+
+    if (input.type === 'guest_message') {
+      const pattern = input.pattern?.trim() ?? '';
+      if (!pattern) {
+        throw new BadRequestException('trigger.pattern is required for guest_message rules');
+      }
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        throw new BadRequestException('trigger.pattern is not a valid regular expression');
+      }
+      trigger.pattern = pattern;
+    }
+
+    if (input.type === 'status_changed') {
+      trigger.statuses = normalizeList(input.statuses).map((status) => status.toLowerCase());
+    }
+
+    return trigger;
+  }
+
+  private validateConditions(input: AutomationRuleDto['conditions']): AutomationConditions {
+    const conditions: AutomationConditions = {
+      listingIds: normalizeList(input?.listingIds),
+      channels: normalizeList(input?.channels),
+      minNights: normalizeBound(input?.minNights, 'minNights'),
+      maxNights: normalizeBound(input?.maxNights, 'maxNights'),
+      minGuests: normalizeBound(input?.minGuests, 'minGuests'),
+      maxGuests: normalizeBound(input?.maxGuests, 'maxGuests'),
+      minLeadTimeDays: normalizeBound(input?.minLeadTimeDays, 'minLeadTimeDays'),
+      maxLeadTimeDays: normalizeBound(input?.maxLeadTimeDays, 'maxLeadTimeDays'),
+    };
+
+    for (const [min, max, label] of [
+      [conditions.minNights, conditions.maxNights, 'nights'],
+      [conditions.minGuests, conditions.maxGuests, 'guests'],
+      [conditions.minLeadTimeDays, conditions.maxLeadTimeDays, 'lead time'],
+    ] as const) {
+      if (min !== null && max !== null && min > max) {
+        throw new BadRequestException(`The minimum ${label} cannot be above the maximum`);
+      }
+    }
+
+    return conditions;
+  }
+
+  private mapRule(row: AutomationRuleRow): AutomationRule {
+    return {
+      id: row.id,
+      name: row.name,
+      enabled: row.enabled,
+      trigger: { offsetHours: null, pattern: null, statuses: [], ...row.trigger },
+      conditions: { ...EMPTY_CONDITIONS, ...(row.conditions ?? {}) },
+      actions: row.actions ?? [],
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
+
+function normalizeList(values: string[] | null | undefined): string[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  return [
+    ...new Set(
+      values.map((value) => (typeof value === 'string' ? value.trim() : '')).filter(Boolean),
+    ),
+  ];
+}
+
+function normalizeBound(value: number | null | undefined, field: string): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!Number.isInteger(value) || value < 0) {
+    throw new BadRequestException(`conditions.${field} must be a whole number of at least 0`);
+  }
+  return value;
+}
@@ -0,0 +1,97 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { AutomationRule } from '@saas-automation/shared-types';
+
+import { auditActorFromRequest, AuditService } from '../audit/audit.service';
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { AutomationRulesService } from './automation-rules.service';
+import { AutomationRuleDto } from './dto/automation-rule.dto';
+
+@Controller('automations')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+export class AutomationsController {
+  constructor(
+    private readonly rulesService: AutomationRulesService,
+    private readonly tenantService: TenantService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Get('rules')
+  async listRules(@Req() req: AuthenticatedRequest): Promise<AutomationRule[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rulesService.listRules(tenant.id);
+  }
+
+  @Post('rules')
+  @RequireTenantRole('manager')
+  async createRule(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: AutomationRuleDto,
+  ): Promise<AutomationRule> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    const rule = await this.rulesService.createRule(tenant.id, dto);
+    await this.auditService.record({
+      tenantId: tenant.id,
+      actor: auditActorFromRequest(req),
+      action: 'automation_rule.created',
+      targetType: 'automation_rule',
+      targetId: rule.id,
+      after: auditedRuleFields(rule),
+    });
+    return rule;
+  }
+
+  @Put('rules/:id')
+  @RequireTenantRole('manager')
+  async updateRule(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: AutomationRuleDto,
+  ): Promise<AutomationRule> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    const before = await this.rulesService.getRule(tenant.id, id);
+    const rule = await this.rulesService.updateRule(tenant.id, id, dto);
+    await this.auditService.record({
+      tenantId: tenant.id,
+      actor: auditActorFromRequest(req),
+      action: 'automation_rule.updated',
+      targetType: 'automation_rule',
+      targetId: id,
+      before: before ? auditedRuleFields(before) : null,
+      after: auditedRuleFields(rule),
+    });
+    return rule;
+  }
+
+  @Delete('rules/:id')
+  @RequireTenantRole('manager')
+  async deleteRule(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    const before = await this.rulesService.getRule(tenant.id, id);
+    await this.rulesService.deleteRule(tenant.id, id);
+    await this.auditService.record({
+      tenantId: tenant.id,
+      actor: auditActorFromRequest(req),
+      action: 'automation_rule.deleted',
+      targetType: 'automation_rule',
+      targetId: id,
+      before: before ? auditedRuleFields(before) : null,
+    });
+    return { deleted: true };
+  }
+}
+
+const auditedRuleFields = (rule: AutomationRule) => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  trigger: rule.trigger,
+  conditions: rule.conditions,
+  actions: rule.actions,
+});
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+
+import { AuditModule } from '../audit/audit.module';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { AutomationRulesService } from './automation-rules.service';
+import { AutomationsController } from './automations.controller';
+import { AutomationsService } from './automations.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PassportModule,
+    TenantModule,
+    MessagingModule,
+    DatabaseModule,
+    TemplatesModule,
+    ConversationsModule,
+    AuditModule,
+    EntitlementsModule,
+  ],
+  controllers: [AutomationsController],
+  providers: [AutomationRulesService, AutomationsService],
+  exports: [AutomationRulesService, AutomationsService],
+})
+export class AutomationsModule {}
@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AutomationAction, AutomationRule } from '@saas-automation/shared-types';
+
+import { ConversationsService } from '../conversations/conversations.service';
+import { TwilioClient } from '../messaging/twilio.client';
+import { TemplatesService } from '../templates/templates.service';
+import { TenantSummary } from '../tenant/tenant.service';
+
+export interface AutomationRunContext {
+  conversationId: string;
+  reservationId: string;
+  variables: Record<string, string | number | null | undefined>;
+}
+
+/**
+ * Runs the actions of an automation rule other than `send_template`, which the message worker
+ * delivers like any other scheduled message. A failing action is logged and does not stop the
+ * others.
+ */
+@Injectable()
+export class AutomationsService {
+  private readonly logger = new Logger(AutomationsService.name);
+  private readonly defaultStaffWhatsapp?: string;
+
+  constructor(
+    private readonly conversationsService: ConversationsService,
+    private readonly twilioClient: TwilioClient,
+    private readonly templatesService: TemplatesService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultStaffWhatsapp = this.configService.get<string>('STAFF_WHATSAPP_NUMBER');
+  }
+
+  /** Returns one line per action describing what happened, for the conversation log. */
+  async runSideActions(
+    tenant: TenantSummary,
+    rule: AutomationRule,
+    context: AutomationRunContext,
+  ): Promise<string[]> {
+    const outcomes: string[] = [];
+
+    for (const action of rule.actions) {
+      if (action.type === 'send_template') {
+        continue;
+      }
+
+      try {
+        outcomes.push(await this.runAction(tenant, rule, action, context));
+      } catch (error) {
+        this.logger.error(
+          `Automation rule ${rule.id} failed to ${action.type} for reservation ${context.reservationId} (tenant ${tenant.id})`,
+          error as Error,
+        );
+        outcomes.push(`Failed to ${action.type.replace('_', ' ')}`);
+      }
+    }
+
+    return outcomes;
+  }
+
+  private async runAction(
+    tenant: TenantSummary,
+    rule: AutomationRule,
+    action: AutomationAction,
+    context: AutomationRunContext,
+  ): Promise<string> {
+    switch (action.type) {
+      case 'notify_staff': {
+        const staffNumber = tenant.twilioStaffWhatsappNumber || this.defaultStaffWhatsapp;
+        if (!staffNumber) {
+          this.logger.warn(
+            `No staff WhatsApp number configured; automation rule ${rule.id} cannot notify staff.`,
+          );
+          return 'Staff not notified: no staff WhatsApp number configured';
+        }
+
+        const message = this.templatesService.substituteVariables(
+          action.message ?? '',
+          context.variables,
+        );
+        await this.twilioClient.sendWhatsAppMessage(
+          tenant,
+          staffNumber,
+          `${rule.name}\n${message}\nReservation: ${context.reservationId}`,
+        );
+        return 'Notified staff';
+      }
+      case 'pause_ai':
+        await this.conversationsService.setStatus(
+          tenant.id,
+          context.conversationId,
+          'paused_by_human',
+        );
+        return 'Paused AI replies';
+      case 'tag_conversation':
+        await this.conversationsService.addTag(tenant.id, context.conversationId, action.tag ?? '');
+        return `Tagged conversation "${action.tag}"`;
+      default:
+        return `Skipped unsupported action ${action.type}`;
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_TRIGGER_TYPES,
+  AutomationActionType,
+  AutomationTriggerType,
+} from '@saas-automation/shared-types';
+
+export class AutomationTriggerDto {
+  @IsIn(AUTOMATION_TRIGGER_TYPES)
+  type!: AutomationTriggerType;
+
+  @IsOptional()
+  @IsInt()
+  @Min(-720)
+  @Max(720)
+  offsetHours?: number | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  pattern?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  statuses?: string[];
+}
+
+export class AutomationConditionsDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  listingIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  channels?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minNights?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxNights?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minGuests?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxGuests?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minLeadTimeDays?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxLeadTimeDays?: number | null;
+}
+
+export class AutomationActionDto {
+  @IsIn(AUTOMATION_ACTION_TYPES)
+  type!: AutomationActionType;
+
+  @IsOptional()
+  @IsString()
+  templateId?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  message?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  tag?: string | null;
+}
+
+export class AutomationRuleDto {
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ValidateNested()
+  @Type(() => AutomationTriggerDto)
+  trigger!: AutomationTriggerDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutomationConditionsDto)
+  conditions?: AutomationConditionsDto;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => AutomationActionDto)
+  actions!: AutomationActionDto[];
+}
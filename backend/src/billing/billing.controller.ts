@@ -11,15 +11,19 @@ import { AuthGuard } from '@nestjs/passport';
 import { Request } from 'express';
 
 import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
 import { BillingService } from './billing.service';
 import { CreateCheckoutSessionDto } from './dto/create-checkout-session.dto';
+import { CreatePortalSessionDto } from './dto/create-portal-session.dto';
 
 @Controller()
 export class BillingController {
   constructor(private readonly billingService: BillingService) {}
 
   @Post('billing/create-checkout-session')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  @RequireTenantRole('owner')
   async createCheckoutSession(
     @Req() req: AuthenticatedRequest,
     @Body() body: CreateCheckoutSessionDto,
@@ -32,6 +36,7 @@ export class BillingController {
       req.user.userId,
       req.user.email,
       body,
+      req.ip,
     );
 
     return {
@@ -40,6 +45,20 @@ export class BillingController {
     };
   }
 
+  @Post('billing/portal-session')
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  @RequireTenantRole('owner')
+  async createPortalSession(
+    @Req() req: AuthenticatedRequest,
+    @Body() body: CreatePortalSessionDto,
+  ): Promise<{ portalUrl: string }> {
+    if (!req.user?.userId) {
+      throw new BadRequestException('Authenticated user id is missing');
+    }
+
+    return this.billingService.createPortalSession(req.user.userId, body, req.ip);
+  }
+
   @Post('webhooks/stripe')
   @HttpCode(200)
   async handleStripeWebhook(@Req() req: StripeWebhookRequest) {
@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { PassportModule } from '@nestjs/passport';
 
+import { AuditModule } from '../audit/audit.module';
+import { MessagingModule } from '../messaging/messaging.module';
 import { TenantModule } from '../tenant/tenant.module';
 import { BillingController } from './billing.controller';
 import { BillingService } from './billing.service';
 
 @Module({
-  imports: [PassportModule, TenantModule],
+  imports: [PassportModule, TenantModule, AuditModule, MessagingModule],
   controllers: [BillingController],
   providers: [BillingService],
 })
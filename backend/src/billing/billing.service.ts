@@ -5,10 +5,22 @@ import {
   Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { addDays } from 'date-fns';
 import Stripe from 'stripe';
 
-import { TenantService } from '../tenant/tenant.service';
+import { AuditService } from '../audit/audit.service';
+import { DatabaseService } from '../database/database.service';
+import { EmailClient } from '../messaging/email.client';
+import { SubscriptionStatus, TenantService, TenantSummary } from '../tenant/tenant.service';
 import { CreateCheckoutSessionDto } from './dto/create-checkout-session.dto';
+import { CreatePortalSessionDto } from './dto/create-portal-session.dto';
+
+// The account is pinned to API version 2024-06-20, where these fields are still top-level
+type LegacySubscriptionFields = { current_period_end?: number };
+type LegacyInvoiceFields = { subscription?: string | Stripe.Subscription | null };
+
+// A delivery that crashed mid-apply leaves its claim behind; Stripe's retry takes it over after this
+const STRIPE_EVENT_CLAIM_MINUTES = 5;
 
 @Injectable()
 export class BillingService {
@@ -18,6 +30,9 @@ export class BillingService {
   constructor(
     private readonly configService: ConfigService,
     private readonly tenantService: TenantService,
+    private readonly auditService: AuditService,
+    private readonly databaseService: DatabaseService,
+    private readonly emailClient: EmailClient,
   ) {
     const stripeSecretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
 
@@ -37,7 +52,10 @@ export class BillingService {
     userId: string,
     userEmail: string | undefined,
     payload: CreateCheckoutSessionDto,
+    remoteIp?: string | null,
   ): Promise<{ checkoutUrl: string; sessionId: string }> {
+    const actor = { userId, email: userEmail ?? null, ip: remoteIp ?? null };
+
     // If Stripe is not configured, return a mock success URL for developer mode
     if (!this.stripe) {
       this.logger.log('Developer mode: Skipping Stripe checkout session creation');
@@ -47,6 +65,14 @@ export class BillingService {
       await this.tenantService.updateTenantSubscription(tenant.id, {
         status: 'active',
       });
+      await this.auditService.record({
+        tenantId: tenant.id,
+        actor,
+        action: 'billing.subscription_activated',
+        targetType: 'subscription',
+        before: { status: tenant.subscriptionStatus },
+        after: { status: 'active' },
+      });
 
       return {
         checkoutUrl: payload.successUrl || '/subscribe-success',
@@ -58,7 +84,11 @@ export class BillingService {
       throw new BadRequestException('successUrl and cancelUrl are required');
     }
 
-    const priceId = payload.priceId ?? this.configService.get<string>('STRIPE_PRICE_ID');
+    // Deployments without plan prices keep selling the legacy single price
+    const priceId =
+      payload.priceId ??
+      this.configService.get<string>('STRIPE_PRICE_ID_STARTER') ??
+      this.configService.get<string>('STRIPE_PRICE_ID');
     if (!priceId) {
       throw new BadRequestException('Stripe price id is not configured');
     }
@@ -81,6 +111,10 @@ export class BillingService {
           tenantId: tenant.id,
           userId,
         },
+        // Lets subscription and invoice webhooks find the tenant without a customer lookup
+        subscription_data: {
+          metadata: { tenantId: tenant.id },
+        },
       });
 
       if (tenant.subscriptionStatus !== 'active') {
@@ -93,6 +127,19 @@ export class BillingService {
         throw new InternalServerErrorException('Stripe did not return a checkout URL');
       }
 
+      await this.auditService.record({
+        tenantId: tenant.id,
+        actor,
+        action: 'billing.checkout_started',
+        targetType: 'subscription',
+        targetId: session.id,
+        before: { status: tenant.subscriptionStatus },
+        after: {
+          status: tenant.subscriptionStatus === 'active' ? 'active' : 'pending',
+          priceId,
+        },
+      });
+
       return {
         checkoutUrl: session.url,
         sessionId: session.id,
@@ -121,23 +168,321 @@ export class BillingService {
       throw new BadRequestException('Invalid Stripe webhook signature');
     }
 
-    if (event.type === 'checkout.session.completed') {
-      const session = event.data.object as Stripe.Checkout.Session;
-      const tenantId = session.metadata?.tenantId;
+    // The claim is committed before the event is applied, so no transaction stays open while the
+    // handlers write; a concurrent delivery of the same event skips it while the claim is held
+    if (!(await this.claimEvent(event))) {
+      this.logger.debug(`Skipping processed or in-flight Stripe event ${event.id}`);
+      return;
+    }
 
-      if (!tenantId) {
-        this.logger.warn('Checkout session completed without tenant metadata', session.id);
-        return;
-      }
+    let tenantId: string | null;
+    try {
+      tenantId = await this.applyEvent(event);
+    } catch (error) {
+      // Released unprocessed so Stripe's retry of the same event is applied
+      await this.databaseService.runQuery(
+        `update public.stripe_events
+            set claimed_at = null, last_error = $2
+          where id = $1`,
+        [event.id, (error as Error).message ?? String(error)],
+      );
+      throw error;
+    }
 
-      await this.tenantService.updateTenantSubscription(tenantId, {
-        status: 'active',
-        stripeCustomerId: typeof session.customer === 'string' ? session.customer : undefined,
-        stripeSubscriptionId:
-          typeof session.subscription === 'string' ? session.subscription : undefined,
+    await this.databaseService.runQuery(
+      `update public.stripe_events
+          set processed_at = now(), claimed_at = null, tenant_id = $2, last_error = null
+        where id = $1`,
+      [event.id, tenantId],
+    );
+  }
+
+  async createPortalSession(
+    userId: string,
+    payload: CreatePortalSessionDto,
+    remoteIp?: string | null,
+  ): Promise<{ portalUrl: string }> {
+    if (!payload?.returnUrl) {
+      throw new BadRequestException('returnUrl is required');
+    }
+
+    if (!this.stripe) {
+      this.logger.log('Developer mode: Skipping Stripe customer portal session creation');
+      return { portalUrl: payload.returnUrl };
+    }
+
+    const tenant = await this.tenantService.getTenantForUser(userId);
+    if (!tenant.stripeCustomerId) {
+      throw new BadRequestException('This workspace does not have a Stripe customer yet');
+    }
+
+    let session: Stripe.BillingPortal.Session;
+    try {
+      session = await this.stripe.billingPortal.sessions.create({
+        customer: tenant.stripeCustomerId,
+        return_url: payload.returnUrl,
       });
-    } else {
-      this.logger.debug(`Unhandled Stripe event type: ${event.type}`);
+    } catch (error) {
+      this.logger.error('Stripe portal session creation failed', error as Error);
+      throw new InternalServerErrorException('Unable to create Stripe customer portal session');
+    }
+
+    await this.auditService.record({
+      tenantId: tenant.id,
+      actor: { userId, ip: remoteIp ?? null },
+      action: 'billing.portal_opened',
+      targetType: 'subscription',
+      targetId: tenant.stripeSubscriptionId ?? null,
+    });
+
+    return { portalUrl: session.url };
+  }
+
+  /**
+   * Records the event id, locking its row for the rest of the transaction, and reports whether it
+   * was already applied.
+   */
+  /**
+   * Records the delivery and claims the event. Returns false when it was already processed or
+   * another delivery holds a claim that is not yet stale.
+   */
+  private async claimEvent(event: Stripe.Event): Promise<boolean> {
+    const result = await this.databaseService.runQuery(
+      `insert into public.stripe_events (id, type, claimed_at)
+       values ($1, $2, now())
+       on conflict (id) do update
+         set attempts = public.stripe_events.attempts + 1,
+             claimed_at = now()
+         where public.stripe_events.processed_at is null
+           and (public.stripe_events.claimed_at is null
+                or public.stripe_events.claimed_at < now() - make_interval(mins => $3))
+       returning id`,
+      [event.id, event.type, STRIPE_EVENT_CLAIM_MINUTES],
+    );
+
+    return result.rowCount > 0;
+  }
+
+  /** Applies a verified event and returns the tenant it concerned, if any. */
+  private async applyEvent(event: Stripe.Event): Promise<string | null> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return this.handleCheckoutCompleted(event.data.object);
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        return this.syncSubscription(event.data.object);
+      case 'customer.subscription.trial_will_end':
+        return this.handleTrialWillEnd(event.data.object);
+      case 'invoice.payment_failed':
+        return this.handleInvoicePaymentFailed(event.data.object);
+      case 'invoice.paid':
+        return this.handleInvoicePaid(event.data.object);
+      default:
+        this.logger.debug(`Unhandled Stripe event type: ${event.type}`);
+        return null;
+    }
+  }
+
+  private async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<string | null> {
+    const tenantId = session.metadata?.tenantId;
+
+    if (!tenantId) {
+      this.logger.warn('Checkout session completed without tenant metadata', session.id);
+      return null;
+    }
+
+    const stripeCustomerId = typeof session.customer === 'string' ? session.customer : undefined;
+    const stripeSubscriptionId =
+      typeof session.subscription === 'string' ? session.subscription : undefined;
+
+    await this.tenantService.updateTenantSubscription(tenantId, {
+      stripeCustomerId,
+      stripeSubscriptionId,
+    });
+
+    if (stripeSubscriptionId) {
+      // The subscription knows whether this is a trial or a paid plan
+      const subscription = await this.stripe.subscriptions.retrieve(stripeSubscriptionId);
+      return this.syncSubscription(subscription, tenantId);
     }
+
+    await this.applySubscriptionUpdate(tenantId, { status: 'active', graceUntil: null });
+    return tenantId;
+  }
+
+  private async syncSubscription(
+    subscription: Stripe.Subscription,
+    knownTenantId?: string,
+  ): Promise<string | null> {
+    const customerId =
+      typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+    const tenantId =
+      knownTenantId ??
+      subscription.metadata?.tenantId ??
+      (await this.tenantService.findTenantIdByStripeIds({
+        customerId,
+        subscriptionId: subscription.id,
+      }));
+
+    if (!tenantId) {
+      this.logger.warn(`No tenant found for Stripe subscription ${subscription.id}`);
+      return null;
+    }
+
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    const status = this.mapSubscriptionStatus(subscription.status);
+    const item = subscription.items?.data?.[0];
+    const periodEnd =
+      item?.current_period_end ?? (subscription as LegacySubscriptionFields).current_period_end;
+
+    await this.applySubscriptionUpdate(tenantId, {
+      status,
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscription.id,
+      stripePriceId: item?.price?.id ?? null,
+      currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : null,
+      trialEndsAt: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      graceUntil: status === 'grace_period' ? this.graceUntil(tenant) : null,
+    });
+
+    return tenantId;
+  }
+
+  private async handleTrialWillEnd(subscription: Stripe.Subscription): Promise<string | null> {
+    const tenantId = await this.syncSubscription(subscription);
+    if (!tenantId || !subscription.trial_end) {
+      return tenantId;
+    }
+
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    if (tenant.contactEmail) {
+      const endsAt = new Date(subscription.trial_end * 1000).toUTCString();
+      await this.emailClient.sendEmail(
+        tenant.contactEmail,
+        'Your trial is ending soon',
+        `The trial for ${tenant.name} ends on ${endsAt}. Add a payment method in the billing ` +
+          'portal to keep your guest messaging running without interruption.',
+      );
+    }
+
+    return tenantId;
+  }
+
+  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<string | null> {
+    const tenantId = await this.resolveInvoiceTenant(invoice);
+    if (!tenantId) {
+      return null;
+    }
+
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    await this.applySubscriptionUpdate(tenantId, {
+      status: 'grace_period',
+      graceUntil: this.graceUntil(tenant),
+    });
+
+    return tenantId;
+  }
+
+  private async handleInvoicePaid(invoice: Stripe.Invoice): Promise<string | null> {
+    const subscriptionId = this.invoiceSubscriptionId(invoice);
+    if (subscriptionId) {
+      // A paid invoice can belong to a trial, so take the status from the subscription itself
+      const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+      return this.syncSubscription(subscription);
+    }
+
+    const tenantId = await this.resolveInvoiceTenant(invoice);
+    if (tenantId) {
+      await this.applySubscriptionUpdate(tenantId, { status: 'active', graceUntil: null });
+    }
+    return tenantId;
+  }
+
+  /** Writes the update and audits any field that changed. */
+  private async applySubscriptionUpdate(
+    tenantId: string,
+    update: Parameters<TenantService['updateTenantSubscription']>[1],
+  ): Promise<void> {
+    const before = await this.tenantService.getTenantById(tenantId);
+    await this.tenantService.updateTenantSubscription(tenantId, update);
+    const after = await this.tenantService.getTenantById(tenantId);
+
+    const auditedFields = (tenant: TenantSummary) => ({
+      status: tenant.subscriptionStatus,
+      stripePriceId: tenant.stripePriceId ?? null,
+      cancelAtPeriodEnd: tenant.subscriptionCancelAtPeriodEnd ?? false,
+      graceUntil: tenant.subscriptionGraceUntil ?? null,
+      trialEndsAt: tenant.subscriptionTrialEndsAt ?? null,
+    });
+
+    await this.auditService.record({
+      tenantId,
+      actor: null,
+      action: 'billing.subscription_updated',
+      targetType: 'subscription',
+      targetId: after.stripeSubscriptionId ?? null,
+      before: auditedFields(before),
+      after: auditedFields(after),
+    });
+  }
+
+  private async resolveInvoiceTenant(invoice: Stripe.Invoice): Promise<string | null> {
+    const subscriptionDetails = invoice.parent?.subscription_details;
+    const tenantId =
+      subscriptionDetails?.metadata?.tenantId ??
+      (await this.tenantService.findTenantIdByStripeIds({
+        customerId: typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id,
+        subscriptionId: this.invoiceSubscriptionId(invoice),
+      }));
+
+    if (!tenantId) {
+      this.logger.warn(`No tenant found for Stripe invoice ${invoice.id}`);
+    }
+    return tenantId;
+  }
+
+  private invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+    const subscription =
+      invoice.parent?.subscription_details?.subscription ??
+      (invoice as LegacyInvoiceFields).subscription;
+    if (!subscription) {
+      return null;
+    }
+    return typeof subscription === 'string' ? subscription : subscription.id;
+  }
+
+  private mapSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+    switch (status) {
+      case 'active':
+        return 'active';
+      case 'trialing':
+        return 'trialing';
+      case 'past_due':
+      case 'unpaid':
+        return 'grace_period';
+      case 'canceled':
+      case 'incomplete_expired':
+        return 'canceled';
+      case 'incomplete':
+        return 'pending';
+      default:
+        return 'inactive';
+    }
+  }
+
+  /**
+   * Keeps an already running grace period instead of extending it on every failed retry.
+   * A zero-day grace period yields a date in the past, which reads as past_due straight away.
+   */
+  private graceUntil(tenant: TenantSummary): Date {
+    if (tenant.subscriptionGraceUntil) {
+      return new Date(tenant.subscriptionGraceUntil);
+    }
+
+    const days = Number(this.configService.get<string>('STRIPE_GRACE_PERIOD_DAYS') ?? 7);
+    const graceDays = Number.isFinite(days) && days >= 0 ? days : 7;
+    return addDays(new Date(), graceDays);
   }
 }
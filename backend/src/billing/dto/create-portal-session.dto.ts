@@ -0,0 +1,4 @@
+export class CreatePortalSessionDto {
+  // Where Stripe sends the user back to when they leave the portal
+  returnUrl: string;
+}
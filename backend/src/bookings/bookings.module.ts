@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { DatabaseModule } from '../database/database.module';
+import { PmsModule } from '../pms/pms.module';
+import { BookingsService } from './bookings.service';
+
+@Module({
+  imports: [DatabaseModule, PmsModule],
+  providers: [BookingsService],
+  exports: [BookingsService],
+})
+export class BookingsModule {}
@@ -0,0 +1,513 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { PmsProviderService } from '../pms/pms-provider.service';
+import { Listing, Reservation } from '../pms/pms.types';
+import { TenantSummary } from '../tenant/tenant.service';
+
+// Listings rarely change, but door codes and wifi details can be rotated in the PMS
+const LISTING_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Reservations without a listing still need a property row to hang the booking on
+const PLACEHOLDER_LISTING_PREFIX = 'reservation-';
+
+export interface SyncedReservation {
+  bookingId: string;
+  propertyId: string;
+  guestId: string;
+}
+
+/** What a sync needs to know about a stored reservation to tell whether it changed. */
+export interface StoredReservationState {
+  status: string;
+  pmsUpdatedAt: Date | null;
+}
+
+interface PropertyRow {
+  id: string;
+  external_id: string;
+  name: string;
+  public_name: string | null;
+  address: string | null;
+  city: string | null;
+  country: string | null;
+  timezone: string | null;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  door_code: string | null;
+  wifi_name: string | null;
+  wifi_password: string | null;
+  amenities: string[];
+  house_rules: string | null;
+  synced_at: Date | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface ReservationRow {
+  external_id: string;
+  listing_external_id: string | null;
+  listing_name: string | null;
+  status: string;
+  channel: string | null;
+  guest_external_id: string | null;
+  full_name: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone_number: string | null;
+  arrival_date: string | null;
+  departure_date: string | null;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  timezone: string | null;
+  check_in_at: Date | null;
+  check_out_at: Date | null;
+  guest_count: number | null;
+  total_price: string | null;
+  currency_code: string | null;
+  door_code: string | null;
+  conversation_id: string | null;
+  guest_portal_url: string | null;
+  reserved_at: Date | null;
+  pms_updated_at: Date | null;
+  metadata: Record<string, unknown> | null;
+}
+
+const UPSERT_PROPERTY_SQL = `insert into public.properties (
+     tenant_id, external_id, name, public_name, address, city, country, timezone,
+     check_in_time, check_out_time, door_code, wifi_name, wifi_password, amenities, house_rules,
+     metadata, synced_at, updated_at
+   )
+   values (
+     $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16::jsonb, now(), now()
+   )
+   on conflict (tenant_id, external_id)
+   do update set
+     name = excluded.name,
+     public_name = excluded.public_name,
+     address = excluded.address,
+     city = excluded.city,
+     country = excluded.country,
+     timezone = excluded.timezone,
+     check_in_time = excluded.check_in_time,
+     check_out_time = excluded.check_out_time,
+     door_code = excluded.door_code,
+     wifi_name = excluded.wifi_name,
+     wifi_password = excluded.wifi_password,
+     amenities = excluded.amenities,
+     house_rules = excluded.house_rules,
+     metadata = excluded.metadata,
+     synced_at = now(),
+     updated_at = now()
+   returning id`;
+
+/**
+ * Local copy of the tenant's listings, guests and reservations. Webhooks and syncs write through
+ * `syncReservation`, so reads come from the database and only reach the PMS for records we have
+ * not seen yet.
+ */
+@Injectable()
+export class BookingsService {
+  private readonly logger = new Logger(BookingsService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly pmsProviderService: PmsProviderService,
+  ) {}
+
+  /** Stored reservation, fetched from the PMS and stored first when unknown or `refresh` is set. */
+  async getReservation(
+    tenant: TenantSummary,
+    reservationId: string,
+    options: { refresh?: boolean } = {},
+  ): Promise<Reservation> {
+    if (!options.refresh) {
+      const local = await this.findReservation(tenant.id, reservationId);
+      if (local) {
+        return local;
+      }
+    }
+
+    const reservation = await this.pmsProviderService
+      .forTenant(tenant)
+      .getReservation(tenant, reservationId);
+    await this.syncReservation(tenant, reservation);
+    return reservation;
+  }
+
+  async findReservation(tenantId: string, reservationId: string): Promise<Reservation | null> {
+    const { rows } = await this.databaseService.runQuery<ReservationRow>(
+      `select b.external_id,
+              p.external_id as listing_external_id,
+              p.name as listing_name,
+              b.status,
+              b.channel,
+              g.external_id as guest_external_id,
+              g.full_name,
+              g.first_name,
+              g.last_name,
+              g.email,
+              g.phone_number,
+              to_char(b.arrival_date, 'YYYY-MM-DD') as arrival_date,
+              to_char(b.departure_date, 'YYYY-MM-DD') as departure_date,
+              b.check_in_time,
+              b.check_out_time,
+              b.timezone,
+              b.check_in_at,
+              b.check_out_at,
+              b.guest_count,
+              b.total_price,
+              b.currency_code,
+              b.door_code,
+              c.hostaway_conversation_id as conversation_id,
+              b.guest_portal_url,
+              b.reserved_at,
+              b.pms_updated_at,
+              b.metadata
+         from public.bookings b
+         join public.properties p on p.id = b.property_id
+         join public.guests g on g.id = b.guest_id
+         left join public.conversations c on c.booking_id = b.id and c.tenant_id = b.tenant_id
+        where b.tenant_id = $1
+          and b.external_id = $2
+          -- Rows written before reservations were normalized lack the typed columns
+          and b.synced_at is not null
+        limit 1`,
+      [tenantId, reservationId],
+    );
+
+    return rows[0] ? this.toReservation(rows[0]) : null;
+  }
+
+  async findBookingId(tenantId: string, reservationId: string): Promise<string | null> {
+    const { rows } = await this.databaseService.runQuery<{ id: string }>(
+      `select id
+         from public.bookings
+        where tenant_id = $1 and external_id = $2
+        limit 1`,
+      [tenantId, reservationId],
+    );
+    return rows[0]?.id ?? null;
+  }
+
+  /** Stored status and PMS change time for each of `reservationIds` that has a booking. */
+  async findReservationStates(
+    tenantId: string,
+    reservationIds: string[],
+  ): Promise<Map<string, StoredReservationState>> {
+    if (reservationIds.length === 0) {
+      return new Map();
+    }
+
+    const { rows } = await this.databaseService.runQuery<{
+      external_id: string;
+      status: string;
+      pms_updated_at: Date | null;
+    }>(
+      `select external_id, status, pms_updated_at
+         from public.bookings
+        where tenant_id = $1
+          and external_id = any($2::text[])`,
+      [tenantId, reservationIds],
+    );
+
+    return new Map(
+      rows.map((row) => [
+        row.external_id,
+        { status: row.status, pmsUpdatedAt: row.pms_updated_at },
+      ]),
+    );
+  }
+
+  /** Reservations that are not cancelled and have not checked out yet. */
+  async listActiveReservationIds(tenantId: string): Promise<string[]> {
+    const { rows } = await this.databaseService.runQuery<{ external_id: string }>(
+      `select external_id
+         from public.bookings
+        where tenant_id = $1
+          and status <> 'cancelled'
+          and check_out_at >= now()`,
+      [tenantId],
+    );
+    return rows.map((row) => row.external_id);
+  }
+
+  /** Marks reservations the PMS no longer returns as cancelled. */
+  async markCancelled(tenantId: string, reservationIds: string[]): Promise<void> {
+    if (reservationIds.length === 0) {
+      return;
+    }
+
+    await this.databaseService.runQuery(
+      `update public.bookings
+          set status = 'cancelled',
+              updated_at = now()
+        where tenant_id = $1
+          and external_id = any($2::text[])`,
+      [tenantId, reservationIds],
+    );
+  }
+
+  /**
+   * Stored listing, refreshed from the PMS when older than 30 minutes or `refresh` is set. Falls
+   * back to the stored copy when the PMS cannot be reached.
+   */
+  async getListing(
+    tenant: TenantSummary,
+    listingId: string,
+    options: { refresh?: boolean } = {},
+  ): Promise<Listing | null> {
+    const local = await this.findListingRow(tenant.id, listingId);
+    const syncedAt = local?.synced_at?.getTime() ?? null;
+    if (
+      local &&
+      syncedAt !== null &&
+      !options.refresh &&
+      Date.now() - syncedAt < LISTING_MAX_AGE_MS
+    ) {
+      return this.toListing(local);
+    }
+
+    try {
+      const listing = await this.pmsProviderService.forTenant(tenant).getListing(tenant, listingId);
+      if (listing) {
+        await this.upsertListing(tenant, listing);
+        return listing;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to refresh listing ${listingId} for tenant ${tenant.id}; using stored copy`,
+        error as Error,
+      );
+    }
+
+    return local && syncedAt !== null ? this.toListing(local) : null;
+  }
+
+  /** Upserts the reservation's listing, guest and booking. */
+  async syncReservation(
+    tenant: TenantSummary,
+    reservation: Reservation,
+  ): Promise<SyncedReservation> {
+    const pms = this.pmsProviderService.forTenant(tenant);
+    const listing = reservation.listingId
+      ? await this.getListing(tenant, reservation.listingId)
+      : null;
+
+    return this.databaseService.withClient(async (client) => {
+      try {
+        await client.query('BEGIN');
+
+        // getListing has already stored the listing when the PMS returned it; this only covers
+        // reservations whose listing is missing or could not be read
+        const propertyResult = await client.query<{ id: string }>(
+          `insert into public.properties (tenant_id, external_id, name, timezone, metadata)
+           values ($1, $2, $3, $4, $5::jsonb)
+           on conflict (tenant_id, external_id)
+           do update set name = public.properties.name
+           returning id`,
+          [
+            tenant.id,
+            reservation.listingId ?? `${PLACEHOLDER_LISTING_PREFIX}${reservation.id}`,
+            listing?.name ?? reservation.listingName ?? `${pms.name} listing`,
+            listing?.timezone ?? reservation.timezone ?? 'UTC',
+            JSON.stringify({ source: pms.kind }),
+          ],
+        );
+        const propertyId = propertyResult.rows[0].id;
+
+        const { guest } = reservation;
+        const guestResult = await client.query<{ id: string }>(
+          `insert into public.guests (
+              tenant_id, external_id, full_name, first_name, last_name, email, phone_number,
+              metadata, updated_at
+           )
+           values ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, now())
+           on conflict (tenant_id, external_id)
+           do update set
+             full_name = excluded.full_name,
+             first_name = excluded.first_name,
+             last_name = excluded.last_name,
+             email = excluded.email,
+             phone_number = excluded.phone_number,
+             metadata = excluded.metadata,
+             updated_at = now()
+           returning id`,
+          [
+            tenant.id,
+            guest.id,
+            guest.name ?? 'Guest',
+            guest.firstName,
+            guest.lastName,
+            guest.email,
+            guest.phone,
+            JSON.stringify({ source: pms.kind }),
+          ],
+        );
+        const guestId = guestResult.rows[0].id;
+
+        const bookingResult = await client.query<{ id: string }>(
+          `insert into public.bookings (
+              tenant_id, property_id, guest_id, external_id, status, channel,
+              arrival_date, departure_date, check_in_time, check_out_time, timezone,
+              check_in_at, check_out_at, guest_count, total_price, currency_code, door_code,
+              guest_portal_url, reserved_at, pms_updated_at, metadata, synced_at, updated_at
+           )
+           values (
+             $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18,
+             $19, $20, $21::jsonb, now(), now()
+           )
+           on conflict (tenant_id, external_id)
+           do update set
+             property_id = excluded.property_id,
+             guest_id = excluded.guest_id,
+             status = excluded.status,
+             channel = excluded.channel,
+             arrival_date = excluded.arrival_date,
+             departure_date = excluded.departure_date,
+             check_in_time = excluded.check_in_time,
+             check_out_time = excluded.check_out_time,
+             timezone = excluded.timezone,
+             check_in_at = excluded.check_in_at,
+             check_out_at = excluded.check_out_at,
+             guest_count = excluded.guest_count,
+             total_price = excluded.total_price,
+             currency_code = excluded.currency_code,
+             door_code = excluded.door_code,
+             guest_portal_url = excluded.guest_portal_url,
+             reserved_at = excluded.reserved_at,
+             pms_updated_at = excluded.pms_updated_at,
+             metadata = excluded.metadata,
+             synced_at = now(),
+             updated_at = now()
+           returning id`,
+          [
+            tenant.id,
+            propertyId,
+            guestId,
+            reservation.id,
+            reservation.status ?? 'pending',
+            reservation.channel ?? pms.kind,
+            reservation.arrivalDate,
+            reservation.departureDate,
+            reservation.checkInTime,
+            reservation.checkOutTime,
+            reservation.timezone ?? listing?.timezone ?? null,
+            reservation.checkInAt?.toISOString() ?? null,
+            reservation.checkOutAt?.toISOString() ?? null,
+            reservation.guestCount,
+            reservation.totalPrice,
+            reservation.currency?.slice(0, 3) ?? null,
+            reservation.doorCode,
+            reservation.guestPortalUrl,
+            reservation.reservedAt?.toISOString() ?? null,
+            reservation.updatedAt?.toISOString() ?? null,
+            JSON.stringify({ source: pms.kind, reservation: reservation.raw }),
+          ],
+        );
+
+        await client.query('COMMIT');
+
+        return { bookingId: bookingResult.rows[0].id, propertyId, guestId };
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  private async findListingRow(tenantId: string, listingId: string): Promise<PropertyRow | null> {
+    const { rows } = await this.databaseService.runQuery<PropertyRow>(
+      `select id, external_id, name, public_name, address, city, country, timezone,
+              check_in_time, check_out_time, door_code, wifi_name, wifi_password, amenities,
+              house_rules, synced_at, metadata
+         from public.properties
+        where tenant_id = $1
+          and external_id = $2
+        limit 1`,
+      [tenantId, listingId],
+    );
+    return rows[0] ?? null;
+  }
+
+  private async upsertListing(tenant: TenantSummary, listing: Listing): Promise<void> {
+    const pms = this.pmsProviderService.forTenant(tenant);
+    await this.databaseService.runQuery(UPSERT_PROPERTY_SQL, [
+      tenant.id,
+      listing.id,
+      listing.name ?? listing.publicName ?? `${pms.name} listing`,
+      listing.publicName,
+      listing.address,
+      listing.city,
+      listing.country,
+      listing.timezone ?? 'UTC',
+      listing.checkInTime,
+      listing.checkOutTime,
+      listing.doorCode,
+      listing.wifiName,
+      listing.wifiPassword,
+      listing.amenities,
+      listing.houseRules,
+      JSON.stringify({ source: pms.kind, listing: listing.raw }),
+    ]);
+  }
+
+  private toListing(row: PropertyRow): Listing {
+    return {
+      id: row.external_id,
+      name: row.name,
+      publicName: row.public_name,
+      address: row.address,
+      city: row.city,
+      country: row.country,
+      timezone: row.timezone,
+      checkInTime: row.check_in_time,
+      checkOutTime: row.check_out_time,
+      doorCode: row.door_code,
+      wifiName: row.wifi_name,
+      wifiPassword: row.wifi_password,
+      amenities: row.amenities ?? [],
+      houseRules: row.house_rules,
+      raw: (row.metadata?.listing as Record<string, unknown> | undefined) ?? {},
+    };
+  }
+
+  private toReservation(row: ReservationRow): Reservation {
+    const listingId =
+      row.listing_external_id && !row.listing_external_id.startsWith(PLACEHOLDER_LISTING_PREFIX)
+        ? row.listing_external_id
+        : null;
+
+    return {
+      id: row.external_id,
+      listingId,
+      listingName: row.listing_name,
+      status: row.status,
+      channel: row.channel,
+      guest: {
+        id: row.guest_external_id ?? `reservation-${row.external_id}`,
+        name: row.full_name,
+        firstName: row.first_name,
+        lastName: row.last_name,
+        email: row.email,
+        phone: row.phone_number,
+      },
+      arrivalDate: row.arrival_date,
+      departureDate: row.departure_date,
+      checkInTime: row.check_in_time,
+      checkOutTime: row.check_out_time,
+      timezone: row.timezone,
+      checkInAt: row.check_in_at,
+      checkOutAt: row.check_out_at,
+      guestCount: row.guest_count,
+      totalPrice: row.total_price === null ? null : Number(row.total_price),
+      currency: row.currency_code?.trim() ?? null,
+      doorCode: row.door_code,
+      conversationId: row.conversation_id,
+      guestPortalUrl: row.guest_portal_url,
+      reservedAt: row.reserved_at,
+      updatedAt: row.pms_updated_at,
+      raw: (row.metadata?.reservation as Record<string, unknown> | undefined) ?? {},
+    };
+  }
+}
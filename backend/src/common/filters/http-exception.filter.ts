@@ -21,6 +21,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message = 'Internal server error';
     let error: string | undefined = undefined;
+    let details: Record<string, unknown> = {};
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -37,6 +38,15 @@ export class AllExceptionsFilter implements ExceptionFilter {
           ? responseObj.message.join(', ')
           : responseObj.message;
         error = responseObj.error;
+
+        // Structured errors (e.g. plan entitlements) carry a machine-readable code and context
+        if ('code' in exceptionResponse) {
+          details = Object.fromEntries(
+            Object.entries(exceptionResponse).filter(
+              ([key]) => !['statusCode', 'message', 'error'].includes(key),
+            ),
+          );
+        }
       }
     } else if (exception instanceof Error) {
       message = exception.message;
@@ -77,6 +87,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
       path: request.url,
       message,
       ...(error && { error }),
+      ...details,
     });
   }
 }
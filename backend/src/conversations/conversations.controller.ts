@@ -5,26 +5,33 @@ import {
   Get,
   Param,
   Post,
+  Put,
   Query,
   Req,
   UseGuards,
 } from '@nestjs/common';
+import { auditActorFromRequest, AuditService } from '../audit/audit.service';
 import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
 import { AuthGuard } from '@nestjs/passport';
-import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { AI_REPLY_MODES, TenantService, TenantSummary } from '../tenant/tenant.service';
 import {
   ConversationDetail,
   ConversationSummary,
   ConversationsService,
 } from './conversations.service';
+import { ApproveDraftDto } from './dto/approve-draft.dto';
 import { HumanReplyDto } from './dto/human-reply.dto';
+import { UpdateAiReplyModeDto } from './dto/update-ai-reply-mode.dto';
 
 @Controller('conversations')
-@UseGuards(AuthGuard('supabase'))
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
 export class ConversationsController {
   constructor(
     private readonly conversationsService: ConversationsService,
     private readonly tenantService: TenantService,
+    private readonly auditService: AuditService,
   ) {}
 
   @Get()
@@ -61,6 +68,7 @@ export class ConversationsController {
   ): Promise<ConversationDetail> {
     const tenant = await this.getTenant(req);
     await this.conversationsService.sendHumanReply(tenant, conversationId, dto.message);
+    await this.audit(req, tenant.id, 'conversation.replied', conversationId);
     return this.conversationsService.getConversationDetail(tenant.id, conversationId);
   }
 
@@ -72,6 +80,9 @@ export class ConversationsController {
   ): Promise<ConversationDetail> {
     const tenant = await this.getTenant(req);
     await this.conversationsService.sendTemplateReply(tenant, conversationId, body.templateId);
+    await this.audit(req, tenant.id, 'conversation.template_sent', conversationId, null, {
+      templateId: body.templateId,
+    });
     return this.conversationsService.getConversationDetail(tenant.id, conversationId);
   }
 
@@ -81,7 +92,16 @@ export class ConversationsController {
     @Param('id') conversationId: string,
   ): Promise<ConversationDetail> {
     const tenant = await this.getTenant(req);
+    const before = await this.conversationsService.getConversationById(tenant.id, conversationId);
     await this.conversationsService.setStatus(tenant.id, conversationId, 'paused_by_human');
+    await this.audit(
+      req,
+      tenant.id,
+      'conversation.paused',
+      conversationId,
+      { status: before.status },
+      { status: 'paused_by_human' },
+    );
     return this.conversationsService.getConversationDetail(tenant.id, conversationId);
   }
 
@@ -91,7 +111,16 @@ export class ConversationsController {
     @Param('id') conversationId: string,
   ): Promise<ConversationDetail> {
     const tenant = await this.getTenant(req);
+    const before = await this.conversationsService.getConversationById(tenant.id, conversationId);
     await this.conversationsService.setStatus(tenant.id, conversationId, 'automated');
+    await this.audit(
+      req,
+      tenant.id,
+      'conversation.resumed',
+      conversationId,
+      { status: before.status },
+      { status: 'automated' },
+    );
     return this.conversationsService.getConversationDetail(tenant.id, conversationId);
   }
 
@@ -103,6 +132,79 @@ export class ConversationsController {
   ): Promise<ConversationDetail> {
     const tenant = await this.getTenant(req);
     await this.conversationsService.cancelPendingMessage(tenant.id, conversationId, messageId);
+    await this.audit(req, tenant.id, 'conversation.message_cancelled', conversationId, null, {
+      messageId,
+    });
+    return this.conversationsService.getConversationDetail(tenant.id, conversationId);
+  }
+
+  @Post(':id/messages/:messageId/approve')
+  async approveDraft(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') conversationId: string,
+    @Param('messageId') messageId: string,
+    @Body() dto: ApproveDraftDto,
+  ): Promise<ConversationDetail> {
+    if (dto?.message !== undefined && typeof dto.message !== 'string') {
+      throw new BadRequestException('message must be a string');
+    }
+
+    const tenant = await this.getTenant(req);
+    await this.conversationsService.approveDraft(
+      tenant,
+      conversationId,
+      messageId,
+      req.user.userId,
+      dto?.message,
+    );
+    await this.audit(req, tenant.id, 'conversation.draft_approved', conversationId, null, {
+      messageId,
+      edited: dto?.message !== undefined,
+    });
+    return this.conversationsService.getConversationDetail(tenant.id, conversationId);
+  }
+
+  @Post(':id/messages/:messageId/reject')
+  async rejectDraft(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') conversationId: string,
+    @Param('messageId') messageId: string,
+  ): Promise<ConversationDetail> {
+    const tenant = await this.getTenant(req);
+    await this.conversationsService.rejectDraft(
+      tenant.id,
+      conversationId,
+      messageId,
+      req.user.userId,
+    );
+    await this.audit(req, tenant.id, 'conversation.draft_rejected', conversationId, null, {
+      messageId,
+    });
+    return this.conversationsService.getConversationDetail(tenant.id, conversationId);
+  }
+
+  @Put(':id/ai-mode')
+  async setAiReplyMode(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') conversationId: string,
+    @Body() dto: UpdateAiReplyModeDto,
+  ): Promise<ConversationDetail> {
+    const mode = dto?.mode ?? null;
+    if (mode !== null && !AI_REPLY_MODES.includes(mode)) {
+      throw new BadRequestException(`mode must be one of: ${AI_REPLY_MODES.join(', ')}`);
+    }
+
+    const tenant = await this.getTenant(req);
+    const before = await this.conversationsService.getConversationById(tenant.id, conversationId);
+    await this.conversationsService.setAiReplyMode(tenant.id, conversationId, mode);
+    await this.audit(
+      req,
+      tenant.id,
+      'conversation.ai_mode_changed',
+      conversationId,
+      { aiReplyMode: before.aiReplyMode },
+      { aiReplyMode: mode },
+    );
     return this.conversationsService.getConversationDetail(tenant.id, conversationId);
   }
 
@@ -112,7 +214,13 @@ export class ConversationsController {
     @Param('id') conversationId: string,
   ): Promise<ConversationDetail> {
     const tenant = await this.getTenant(req);
-    await this.conversationsService.cancelAllPendingMessages(tenant.id, conversationId);
+    const cancelledCount = await this.conversationsService.cancelAllPendingMessages(
+      tenant.id,
+      conversationId,
+    );
+    await this.audit(req, tenant.id, 'conversation.messages_cancelled', conversationId, null, {
+      cancelledCount,
+    });
     return this.conversationsService.getConversationDetail(tenant.id, conversationId);
   }
 
@@ -146,4 +254,23 @@ export class ConversationsController {
   private async getTenant(req: AuthenticatedRequest): Promise<TenantSummary> {
     return this.tenantService.getTenantForUser(req.user.userId);
   }
+
+  private async audit(
+    req: AuthenticatedRequest,
+    tenantId: string,
+    action: string,
+    conversationId: string,
+    before: Record<string, unknown> | null = null,
+    after: Record<string, unknown> | null = null,
+  ): Promise<void> {
+    await this.auditService.record({
+      tenantId,
+      actor: auditActorFromRequest(req),
+      action,
+      targetType: 'conversation',
+      targetId: conversationId,
+      before,
+      after,
+    });
+  }
 }
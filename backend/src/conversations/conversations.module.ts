@@ -2,13 +2,18 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { PassportModule } from '@nestjs/passport';
 
+import { AuditModule } from '../audit/audit.module';
+import { BookingsModule } from '../bookings/bookings.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
 import { MessagingModule } from '../messaging/messaging.module';
 import { TenantModule } from '../tenant/tenant.module';
-import { HostawayClient } from '../integrations/hostaway.client';
+import { PmsModule } from '../pms/pms.module';
 import { ConversationsController } from './conversations.controller';
 import { ConversationsService } from './conversations.service';
 import { DatabaseModule } from '../database/database.module';
 import { TemplatesModule } from '../templates/templates.module';
+import { UpsellsModule } from '../upsells/upsells.module';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
   imports: [
@@ -18,9 +23,15 @@ import { TemplatesModule } from '../templates/templates.module';
     MessagingModule,
     DatabaseModule,
     TemplatesModule,
+    AuditModule,
+    EntitlementsModule,
+    PmsModule,
+    BookingsModule,
+    UsageModule,
+    UpsellsModule,
   ],
   controllers: [ConversationsController],
-  providers: [ConversationsService, HostawayClient],
+  providers: [ConversationsService],
   exports: [ConversationsService],
 })
 export class ConversationsModule {}
@@ -1,10 +1,16 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 
-import { HostawayClient } from '../integrations/hostaway.client';
+import { BookingsService } from '../bookings/bookings.service';
+import { EntitlementsService } from '../entitlements/entitlements.service';
+import { GuestMessage, Reservation } from '../pms/pms.types';
+import { PmsProviderService } from '../pms/pms-provider.service';
 import { TemplatesService } from '../templates/templates.service';
 import { TwilioClient } from '../messaging/twilio.client';
 import { DatabaseService } from '../database/database.service';
-import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { EventsService } from '../events/events.service';
+import { AiReplyMode, TenantService, TenantSummary } from '../tenant/tenant.service';
+import { UpsellsService } from '../upsells/upsells.service';
+import { UsageService } from '../usage/usage.service';
 
 const formatToIsoString = (value: string | Date | null | undefined): string => {
   if (!value) {
@@ -58,7 +64,13 @@ const formatToIsoString = (value: string | Date | null | undefined): string => {
 
 export type ConversationStatus = 'automated' | 'paused_by_human';
 export type SenderType = 'guest' | 'human' | 'ai' | 'system';
-export type ConversationLogStatus = 'pending' | 'processing' | 'sent' | 'failed';
+export type ConversationLogStatus =
+  | 'draft'
+  | 'pending'
+  | 'processing'
+  | 'sent'
+  | 'failed'
+  | 'rejected';
 
 export interface ConversationRecord {
   id: string;
@@ -67,12 +79,17 @@ export interface ConversationRecord {
   bookingExternalId: string | null;
   hostawayConversationId: string | null;
   status: ConversationStatus;
+  // Per-conversation override; null inherits the tenant's AI reply mode
+  aiReplyMode: AiReplyMode | null;
+  // Labels added by staff or automation rules
+  tags: string[];
   updatedAt: string;
 }
 
 export interface ConversationSummary extends ConversationRecord {
   lastMessageAt: string | null;
   pendingMessageCount: number;
+  draftCount: number;
   guestName: string | null;
   propertyName: string | null;
   checkInAt: string | null;
@@ -95,12 +112,34 @@ export interface ConversationLogEntry {
   sentAt: string;
   metadata: Record<string, unknown>;
   errorMessage: string | null;
+  originalMessageBody: string | null;
+  reviewedAt: string | null;
 }
 
 export interface ConversationDetail extends ConversationSummary {
   logs: ConversationLogEntry[];
 }
 
+/** A proactive message queued or sent for a reservation. */
+export interface ScheduledMessage {
+  id: string;
+  messageType: string;
+  status: ConversationLogStatus;
+  scheduledSendAt: Date | null;
+  scheduledLocalAt: string | null;
+}
+
+/**
+ * Recorded in a scheduled message's `scheduleChanges` metadata when a reservation change moves or
+ * cancels it. `after` is null for cancellations.
+ */
+export interface ScheduleChange {
+  changedAt: string;
+  reason: string;
+  before: { scheduledSendAt: string | null; scheduledLocalAt: string | null };
+  after: { scheduledSendAt: string; scheduledLocalAt: string } | null;
+}
+
 export interface PendingOutboundMessage {
   id: string;
   tenantId: string;
@@ -115,9 +154,28 @@ export interface PendingOutboundMessage {
   scheduledSendAt: string | null;
   scheduledLocalAt: string | null;
   scheduledTimezone: string | null;
+  attempts: number;
   metadata: Record<string, unknown>;
 }
 
+export interface GuestDeliveryOptions {
+  // Already loaded by the caller; read from the stored reservations otherwise
+  reservation?: Reservation;
+  // Number to reply to instead of the reservation's, e.g. the sender of an inbound message
+  guestPhone?: string | null;
+  // Set when the guest wrote in over Twilio, so the reply goes back on the same channel
+  replyChannel?: 'whatsapp' | 'sms' | null;
+  hostawayConversationId?: string | null;
+}
+
+/** Where a message to the guest went; stored as the log entry's delivery metadata. */
+export interface GuestDelivery extends Record<string, unknown> {
+  deliveryChannel: string;
+  reservationId: string | null;
+  hostawayConversationId?: string | null;
+  twilioChannel?: 'whatsapp' | 'sms';
+}
+
 interface ConversationRow {
   id: string;
   tenant_id: string;
@@ -125,12 +183,15 @@ interface ConversationRow {
   booking_external_id: string | null;
   hostaway_conversation_id: string | null;
   status: ConversationStatus;
+  ai_reply_mode: AiReplyMode | null;
+  tags: string[] | null;
   updated_at: Date | string;
 }
 
 interface ConversationSummaryRow extends ConversationRow {
   last_message_at: Date | string | null;
   pending_count: string | null;
+  draft_count: string | null;
   guest_name?: string | null;
   check_in_at?: Date | string | null;
   check_out_at?: Date | string | null;
@@ -152,6 +213,8 @@ interface ConversationLogRow {
   sent_at: string;
   metadata: Record<string, unknown> | null;
   error_message: string | null;
+  original_message_body: string | null;
+  reviewed_at: string | null;
 }
 
 interface ClaimRow {
@@ -161,6 +224,7 @@ interface ClaimRow {
   booking_id: string;
   booking_external_id: string | null;
   scheduled_send_at: string | null;
+  attempts: number;
   metadata: Record<string, unknown> | null;
   hostaway_conversation_id: string | null;
 }
@@ -193,11 +257,16 @@ export class ConversationsService {
   private readonly logger = new Logger(ConversationsService.name);
 
   constructor(
-    private readonly hostawayClient: HostawayClient,
+    private readonly pmsProviderService: PmsProviderService,
     private readonly twilioClient: TwilioClient,
     private readonly databaseService: DatabaseService,
     private readonly tenantService: TenantService,
     private readonly templatesService: TemplatesService,
+    private readonly eventsService: EventsService,
+    private readonly bookingsService: BookingsService,
+    private readonly entitlementsService: EntitlementsService,
+    private readonly usageService: UsageService,
+    private readonly upsellsService: UpsellsService,
   ) {}
 
   private mapConversation(row: ConversationRow): ConversationRecord {
@@ -208,6 +277,8 @@ export class ConversationsService {
       bookingExternalId: row.booking_external_id ?? null,
       hostawayConversationId: row.hostaway_conversation_id ?? null,
       status: row.status,
+      aiReplyMode: row.ai_reply_mode ?? null,
+      tags: row.tags ?? [],
       updatedAt: formatToIsoString(row.updated_at),
     };
   }
@@ -222,57 +293,23 @@ export class ConversationsService {
       throw new Error('Conversation is not linked to a Hostaway reservation');
     }
     const tpl = await this.templatesService.getTemplate(tenant.id, templateId);
-    const reservation = await this.hostawayClient.getReservation(
+    const reservation = await this.bookingsService.getReservation(
       tenant,
       conversation.bookingExternalId,
     );
-    const listingId = this.readString(
-      reservation as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-      'listingMapId',
-      'listing_id',
-      'propertyId',
-      'property_id',
-    );
-    const listing = listingId ? await this.hostawayClient.getListing(tenant, listingId) : null;
+    const listing = reservation.listingId
+      ? await this.bookingsService.getListing(tenant, reservation.listingId)
+      : null;
     const variables: Record<string, string | number | null | undefined> = {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      guestName: this.readString(reservation as any, 'guestName', 'guest_first_name') ?? 'Guest',
-      propertyName:
-        this.readString(listing ?? {}, 'internalListingName') || // Primary: internal listing name (e.g., "Cross Road")
-        this.readString(listing ?? {}, 'name') || // Fallback: listing name field
-        this.readString(
-          reservation as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-          'listingName',
-          'propertyName',
-          'listing.name',
-          'property.name',
-        ) ||
-        'your stay',
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      guestPortalUrl: this.readString(reservation as any, 'guestPortalUrl', 'guest_portal_url'),
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      checkInDate: this.readString(reservation as any, 'arrivalDate', 'checkin_date_day'),
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      checkOutDate: this.readString(reservation as any, 'departureDate', 'checkout_date_day'),
+      guestName: reservation.guest.name ?? 'Guest',
+      propertyName: listing?.name || reservation.listingName || 'your stay',
+      guestPortalUrl: reservation.guestPortalUrl,
+      checkInDate: reservation.arrivalDate,
+      checkOutDate: reservation.departureDate,
     };
     const body = this.templatesService.substituteVariables(tpl.template_body, variables);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const phoneNumber = this.readString(reservation as any, 'guestPhone', 'guest_phone', 'phone');
-    const hostawayConversationId =
-      conversation.hostawayConversationId ?? this.readString(reservation as any, 'conversationId'); // eslint-disable-line @typescript-eslint/no-explicit-any
-    if (phoneNumber) {
-      await this.twilioClient.sendWhatsAppMessage(tenant, phoneNumber, body);
-    } else if (hostawayConversationId) {
-      await this.hostawayClient.sendConversationMessage(
-        tenant,
-        hostawayConversationId,
-        body,
-        'channel',
-      );
-    } else {
-      await this.hostawayClient.sendMessageToGuest(tenant, conversation.bookingExternalId, body);
-    }
-    await this.logHumanReply(conversation, body, { templateId });
+    const delivery = await this.deliverToGuest(tenant, conversation, body, { reservation });
+    await this.logHumanReply(conversation, body, { ...delivery, templateId });
   }
 
   private mapConversationSummary(row: ConversationSummaryRow): ConversationSummary {
@@ -282,6 +319,7 @@ export class ConversationsService {
       ...this.mapConversation(row),
       lastMessageAt: row.last_message_at ? formatToIsoString(row.last_message_at) : null,
       pendingMessageCount: row.pending_count ? Number(row.pending_count) : 0,
+      draftCount: row.draft_count ? Number(row.draft_count) : 0,
       guestName: rowAny.guest_name ?? null,
       propertyName: rowAny.property_name ?? null,
       checkInAt: row.check_in_at ? formatToIsoString(row.check_in_at) : null,
@@ -315,6 +353,8 @@ export class ConversationsService {
       sentAt: formatToIsoString(row.sent_at),
       metadata: row.metadata ?? {},
       errorMessage: row.error_message,
+      originalMessageBody: row.original_message_body ?? null,
+      reviewedAt: row.reviewed_at ? formatToIsoString(row.reviewed_at) : null,
     };
   }
 
@@ -339,6 +379,8 @@ export class ConversationsService {
                    booking_id,
                    hostaway_conversation_id,
                    status,
+                   ai_reply_mode,
+                   tags,
                    updated_at
        )
        select u.id,
@@ -347,6 +389,8 @@ export class ConversationsService {
               b.external_id as booking_external_id,
               u.hostaway_conversation_id,
               u.status,
+              u.ai_reply_mode,
+              u.tags,
               u.updated_at
          from upsert u
          left join public.bookings b on b.id = u.booking_id`,
@@ -364,6 +408,8 @@ export class ConversationsService {
               b.external_id as booking_external_id,
               c.hostaway_conversation_id,
               c.status,
+              c.ai_reply_mode,
+              c.tags,
               c.updated_at
          from public.conversations c
          left join public.bookings b on b.id = c.booking_id
@@ -390,6 +436,24 @@ export class ConversationsService {
         where id = $2 and tenant_id = $3`,
       [status, conversationId, tenantId],
     );
+
+    this.eventsService.publish(tenantId, 'conversation.status_changed', { conversationId, status });
+  }
+
+  async addTag(tenantId: string, conversationId: string, tag: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.conversations
+          set tags = array_append(tags, $3),
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+          and not ($3 = any(tags))`,
+      [conversationId, tenantId, tag],
+    );
+
+    if (rowCount) {
+      this.eventsService.publish(tenantId, 'conversation.tagged', { conversationId, tag });
+    }
   }
 
   async setStatusByReservation(
@@ -433,6 +497,58 @@ export class ConversationsService {
     return conversation;
   }
 
+  /**
+   * Matches an inbound phone number to the guest's most relevant booking: an ongoing or upcoming
+   * stay first, otherwise the most recent past stay.
+   */
+  async findBookingByGuestPhone(
+    tenantId: string,
+    phoneNumber: string,
+  ): Promise<{
+    bookingId: string;
+    bookingExternalId: string | null;
+    guestId: string;
+    guestName: string;
+  } | null> {
+    const digits = phoneNumber.replace(/\D/g, '');
+    if (digits.length < 6) {
+      return null;
+    }
+
+    const { rows } = await this.databaseService.runQuery<{
+      booking_id: string;
+      booking_external_id: string | null;
+      guest_id: string;
+      guest_name: string;
+    }>(
+      `select b.id as booking_id,
+              b.external_id as booking_external_id,
+              g.id as guest_id,
+              g.full_name as guest_name
+         from public.bookings b
+         join public.guests g on g.id = b.guest_id
+        where b.tenant_id = $1
+          and regexp_replace(coalesce(g.phone_number, ''), '\\D', '', 'g') = $2
+          and lower(b.status) <> 'cancelled'
+        order by (coalesce(b.check_out_at, b.check_in_at) >= now() - interval '1 day') desc,
+                 abs(extract(epoch from (coalesce(b.check_in_at, b.created_at) - now()))) asc
+        limit 1`,
+      [tenantId, digits],
+    );
+
+    const row = rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      bookingId: row.booking_id,
+      bookingExternalId: row.booking_external_id,
+      guestId: row.guest_id,
+      guestName: row.guest_name,
+    };
+  }
+
   async listConversations(
     tenantId: string,
     options: {
@@ -567,6 +683,8 @@ export class ConversationsService {
               b.external_id as booking_external_id,
               c.hostaway_conversation_id,
               c.status,
+              c.ai_reply_mode,
+              c.tags,
               c.updated_at,
               coalesce(g.full_name, 'Guest') as guest_name,
               p.name as property_name,
@@ -574,6 +692,7 @@ export class ConversationsService {
               b.check_out_at,
               max(case when cl.status in ('sent', 'failed') then coalesce(cl.actual_sent_at, cl.sent_at, cl.created_at) else null end)::timestamp as last_message_at,
               count(*) filter (where cl.status in ('pending', 'processing')) as pending_count,
+              count(*) filter (where cl.status = 'draft') as draft_count,
               np.next_pending_at,
               np.next_pending_local_at,
               np.next_pending_type,
@@ -603,6 +722,8 @@ export class ConversationsService {
                  b.external_id,
                  c.hostaway_conversation_id,
                  c.status,
+                 c.ai_reply_mode,
+                 c.tags,
                  c.updated_at,
                  p.name,
                  g.full_name,
@@ -640,7 +761,9 @@ export class ConversationsService {
               actual_sent_at,
               sent_at,
               metadata,
-              error_message
+              error_message,
+              original_message_body,
+              reviewed_at
          from public.conversation_logs
         where conversation_id = $1
         order by coalesce(scheduled_send_at, sent_at, created_at) asc`,
@@ -650,10 +773,12 @@ export class ConversationsService {
     const meta = await this.databaseService.runQuery<{
       last_message_at: Date | string | null;
       pending_count: string | null;
+      draft_count: string | null;
     }>(
       `select
          max(case when cl.status in ('sent', 'failed') then coalesce(cl.actual_sent_at, cl.sent_at, cl.created_at) else null end)::timestamp as last_message_at,
-         count(*) filter (where cl.status in ('pending','processing')) as pending_count
+         count(*) filter (where cl.status in ('pending','processing')) as pending_count,
+         count(*) filter (where cl.status = 'draft') as draft_count
        from public.conversation_logs cl
       where cl.conversation_id = $1`,
       [conversationId],
@@ -665,6 +790,7 @@ export class ConversationsService {
     const pendingMessageCount = meta.rows[0]?.pending_count
       ? Number(meta.rows[0].pending_count)
       : 0;
+    const draftCount = meta.rows[0]?.draft_count ? Number(meta.rows[0].draft_count) : 0;
 
     const guestResult = await this.databaseService.runQuery<{
       guest_name: string | null;
@@ -724,6 +850,7 @@ export class ConversationsService {
       ...conversation,
       lastMessageAt,
       pendingMessageCount,
+      draftCount,
       guestName,
       propertyName,
       checkInAt,
@@ -737,11 +864,15 @@ export class ConversationsService {
     };
   }
 
+  /**
+   * Logs an inbound guest message. `duplicate` is set when a webhook retry delivered a message that
+   * is already logged; `id` is then the existing entry.
+   */
   async logGuestMessage(
     conversation: ConversationRecord,
     body: string,
     metadata: Record<string, unknown> = {},
-  ): Promise<string> {
+  ): Promise<{ id: string; duplicate: boolean }> {
     // Check for duplicate inbound message using Hostaway message ID if available
     const hostawayMessageId = metadata?.hostawayMessageId || metadata?.messageId;
     if (hostawayMessageId) {
@@ -759,7 +890,7 @@ export class ConversationsService {
         this.logger.debug(
           `Skipping duplicate inbound message: Hostaway message ID ${hostawayMessageId} already logged (conversation ${conversation.id})`,
         );
-        return existing.rows[0].id;
+        return { id: existing.rows[0].id, duplicate: true };
       }
     }
 
@@ -780,7 +911,7 @@ export class ConversationsService {
         this.logger.debug(
           `Skipping duplicate inbound message: message hash ${messageHash} already logged (conversation ${conversation.id})`,
         );
-        return existing.rows[0].id;
+        return { id: existing.rows[0].id, duplicate: true };
       }
     }
 
@@ -797,7 +928,7 @@ export class ConversationsService {
       metadata,
     });
 
-    return result.id;
+    return { id: result.id, duplicate: false };
   }
 
   async logHumanReply(
@@ -825,6 +956,7 @@ export class ConversationsService {
     conversation: ConversationRecord,
     body: string,
     metadata: Record<string, unknown> = {},
+    options: { asDraft?: boolean } = {},
   ): Promise<string> {
     // Check if we already created an AI reply for this guest message
     // Use the guest message log ID to prevent duplicate AI responses
@@ -848,6 +980,7 @@ export class ConversationsService {
       }
     }
 
+    // Drafts have no send time; they are only delivered once staff approve them
     const now = new Date();
     const result = await this.createLogEntry({
       conversationId: conversation.id,
@@ -856,8 +989,8 @@ export class ConversationsService {
       direction: 'ai',
       senderType: 'ai',
       messageBody: body,
-      status: 'pending',
-      scheduledSendAt: now,
+      status: options.asDraft ? 'draft' : 'pending',
+      scheduledSendAt: options.asDraft ? null : now,
       sentAt: now,
       metadata,
     });
@@ -876,6 +1009,8 @@ export class ConversationsService {
       scheduledLocal: Date;
       timezone: string;
       metadata?: Record<string, unknown>;
+      // A sent or cancelled message of the same type that this one supersedes
+      replacesLogId?: string;
     },
   ): Promise<string | null> {
     // Check if a message with the same messageType was already created (pending, processing, or sent)
@@ -887,8 +1022,15 @@ export class ConversationsService {
         where conversation_id = $1
           and metadata->>'messageType' = $2
           and metadata->>'hostawayReservationId' = $3
+          and ($4::uuid is null
+               or created_at > (select created_at from public.conversation_logs where id = $4))
         limit 1`,
-      [conversation.id, options.messageType, options.hostawayReservationId],
+      [
+        conversation.id,
+        options.messageType,
+        options.hostawayReservationId,
+        options.replacesLogId ?? null,
+      ],
     );
 
     if (existing.rows.length > 0) {
@@ -918,6 +1060,7 @@ export class ConversationsService {
       scheduledTimezone: options.timezone,
       // NOTE: We do NOT store template_body here - templates are fetched fresh at send time
       // This ensures that template updates will be reflected in all future scheduled messages
+      ...(options.replacesLogId ? { replacesLogId: options.replacesLogId } : {}),
       ...(options.metadata ?? {}),
     };
 
@@ -937,6 +1080,96 @@ export class ConversationsService {
     return result.id;
   }
 
+  async listScheduledMessages(
+    conversationId: string,
+    hostawayReservationId: string,
+  ): Promise<ScheduledMessage[]> {
+    const { rows } = await this.databaseService.runQuery<{
+      id: string;
+      message_type: string;
+      status: ConversationLogStatus;
+      scheduled_send_at: Date | null;
+      scheduled_local_at: string | null;
+    }>(
+      `select id,
+              metadata->>'messageType' as message_type,
+              status,
+              scheduled_send_at,
+              metadata->>'scheduledLocalAt' as scheduled_local_at
+         from public.conversation_logs
+        where conversation_id = $1
+          and metadata->>'hostawayReservationId' = $2
+          and metadata->>'messageType' is not null
+        order by created_at asc`,
+      [conversationId, hostawayReservationId],
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      messageType: row.message_type,
+      status: row.status,
+      scheduledSendAt: row.scheduled_send_at,
+      scheduledLocalAt: row.scheduled_local_at,
+    }));
+  }
+
+  /**
+   * Moves a message that has not been picked up for sending yet, starting its delivery retries
+   * afresh. Returns false when it has.
+   */
+  async reschedulePendingMessage(
+    logId: string,
+    schedule: { scheduledSendAt: Date; scheduledLocal: Date; timezone: string },
+    change: ScheduleChange,
+  ): Promise<boolean> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.conversation_logs
+          set scheduled_send_at = $2,
+              sent_at = $2,
+              next_attempt_at = null,
+              attempts = 0,
+              metadata = coalesce(metadata, '{}'::jsonb) || jsonb_build_object(
+                'scheduledLocalAt', $3::text,
+                'scheduledTimezone', $4::text,
+                'scheduleChanges', coalesce(metadata->'scheduleChanges', '[]'::jsonb) || $5::jsonb
+              ),
+              updated_at = now()
+        where id = $1
+          and status = 'pending'`,
+      [
+        logId,
+        schedule.scheduledSendAt.toISOString(),
+        schedule.scheduledLocal.toISOString(),
+        schedule.timezone,
+        JSON.stringify([change]),
+      ],
+    );
+
+    return Boolean(rowCount);
+  }
+
+  /** Cancels a message that has not been picked up for sending yet. Returns false when it has. */
+  async cancelScheduledMessage(
+    logId: string,
+    reason: string,
+    change: ScheduleChange,
+  ): Promise<boolean> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.conversation_logs
+          set status = 'failed',
+              error_message = $2,
+              metadata = coalesce(metadata, '{}'::jsonb) || jsonb_build_object(
+                'scheduleChanges', coalesce(metadata->'scheduleChanges', '[]'::jsonb) || $3::jsonb
+              ),
+              updated_at = now()
+        where id = $1
+          and status = 'pending'`,
+      [logId, reason, JSON.stringify([change])],
+    );
+
+    return Boolean(rowCount);
+  }
+
   async claimPendingOutboundMessages(limit: number): Promise<PendingOutboundMessage[]> {
     if (limit <= 0) {
       return [];
@@ -949,12 +1182,15 @@ export class ConversationsService {
              from public.conversation_logs cl
             where cl.status = 'pending'
               and coalesce(cl.scheduled_send_at, cl.sent_at, now()) <= now()
+              and (cl.next_attempt_at is null or cl.next_attempt_at <= now())
             order by coalesce(cl.scheduled_send_at, cl.sent_at, cl.created_at) asc
             limit $1
             for update skip locked
          )
         update public.conversation_logs cl
            set status = 'processing',
+               attempts = cl.attempts + 1,
+               next_attempt_at = null,
                updated_at = now()
           from candidates
           left join public.bookings b on b.id = candidates.booking_id
@@ -965,6 +1201,7 @@ export class ConversationsService {
                    cl.conversation_id,
                    cl.booking_id,
                    cl.scheduled_send_at,
+                   cl.attempts,
                    cl.metadata,
                    b.external_id as booking_external_id,
                    c.hostaway_conversation_id`,
@@ -993,6 +1230,7 @@ export class ConversationsService {
       scheduledSendAt: row.scheduled_send_at,
       scheduledLocalAt: this.readString(row.metadata ?? {}, 'scheduledLocalAt') ?? null,
       scheduledTimezone: this.readString(row.metadata ?? {}, 'scheduledTimezone') ?? null,
+      attempts: row.attempts,
       metadata: row.metadata ?? {},
     }));
   }
@@ -1016,13 +1254,27 @@ export class ConversationsService {
     );
   }
 
+  /**
+   * Closes an automation run that sends nothing to the guest. The log entry stays in the
+   * conversation as a system note listing what the rule did.
+   */
+  async markAutomationCompleted(logId: string, summary: string): Promise<void> {
+    await this.databaseService.runQuery(
+      `update public.conversation_logs
+          set status = 'sent',
+              sender_type = 'system',
+              message_body = $2,
+              actual_sent_at = now(),
+              sent_at = now(),
+              updated_at = now(),
+              error_message = null
+        where id = $1`,
+      [logId, summary],
+    );
+  }
+
   async markMessageAsFailed(logId: string, error: unknown): Promise<void> {
-    const message =
-      error instanceof Error
-        ? error.message
-        : typeof error === 'string'
-        ? error
-        : JSON.stringify(error);
+    const message = this.describeError(error);
 
     await this.databaseService.runQuery(
       `update public.conversation_logs
@@ -1034,6 +1286,23 @@ export class ConversationsService {
     );
   }
 
+  /**
+   * Returns a claimed message to the queue after a transient delivery failure. The error is kept
+   * so the dashboard can show why the message is delayed.
+   */
+  async scheduleMessageRetry(logId: string, error: unknown, nextAttemptAt: Date): Promise<void> {
+    await this.databaseService.runQuery(
+      `update public.conversation_logs
+          set status = 'pending',
+              next_attempt_at = $3,
+              error_message = $2,
+              updated_at = now()
+        where id = $1
+          and status = 'processing'`,
+      [logId, this.describeError(error), nextAttemptAt.toISOString()],
+    );
+  }
+
   async cancelPendingMessage(
     tenantId: string,
     conversationId: string,
@@ -1096,60 +1365,213 @@ export class ConversationsService {
     }
 
     const conversation = await this.getConversationById(tenant.id, conversationId);
+    const metadata = await this.deliverToGuest(tenant, conversation, message);
 
-    if (!conversation.bookingExternalId) {
-      throw new Error('Conversation is not linked to a Hostaway reservation');
-    }
+    await this.logHumanReply(conversation, message, metadata);
+  }
 
-    const reservation = await this.hostawayClient.getReservation(
-      tenant,
-      conversation.bookingExternalId,
+  resolveAiReplyMode(tenant: TenantSummary, conversation: ConversationRecord): AiReplyMode {
+    return conversation.aiReplyMode ?? tenant.aiReplyMode ?? 'autonomous';
+  }
+
+  async setAiReplyMode(
+    tenantId: string,
+    conversationId: string,
+    mode: AiReplyMode | null,
+  ): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.conversations
+          set ai_reply_mode = $1,
+              updated_at = now()
+        where id = $2 and tenant_id = $3`,
+      [mode, conversationId, tenantId],
     );
-    const phoneNumber = this.readString(
-      reservation,
-      'guestPhone',
-      'guest_phone',
-      'guest.phone',
-      'guest.contact.phone',
-      'phone',
+
+    if (!rowCount) {
+      throw new NotFoundException('Conversation not found');
+    }
+  }
+
+  /**
+   * Sends an AI draft to the guest. When staff edited the text, the AI-generated version is kept
+   * in `original_message_body` so drafts can be compared with what was actually sent.
+   */
+  async approveDraft(
+    tenant: TenantSummary,
+    conversationId: string,
+    logId: string,
+    reviewerId: string,
+    editedBody?: string,
+  ): Promise<void> {
+    const conversation = await this.getConversationById(tenant.id, conversationId);
+    const editedText = editedBody?.trim();
+
+    // Claim the draft first so a double click cannot deliver it twice
+    const { rows } = await this.databaseService.runQuery<{
+      message_body: string;
+      original_message_body: string | null;
+      metadata: Record<string, unknown> | null;
+    }>(
+      `update public.conversation_logs cl
+          set status = 'processing',
+              original_message_body = case
+                when $4::text is not null and $4::text <> cl.message_body then cl.message_body
+                else cl.original_message_body
+              end,
+              message_body = coalesce($4::text, cl.message_body),
+              reviewed_by = $5,
+              reviewed_at = now(),
+              updated_at = now()
+        where cl.id = $1
+          and cl.conversation_id = $2
+          and cl.tenant_id = $3
+          and cl.status = 'draft'
+        returning cl.message_body, cl.original_message_body, cl.metadata`,
+      [logId, conversation.id, tenant.id, editedText || null, reviewerId],
     );
-    const hostawayConversationId =
-      conversation.hostawayConversationId ??
-      this.readString(
-        reservation as Record<string, unknown>,
-        'conversationId',
-        'conversation.id',
-        'conversation_id',
+
+    const draft = rows[0];
+    if (!draft) {
+      throw new NotFoundException('Draft not found or already reviewed');
+    }
+
+    const draftMetadata = draft.metadata ?? {};
+    try {
+      const replyChannel = this.readString(draftMetadata, 'replyChannel');
+      const guestPhone = this.readString(draftMetadata, 'guestPhone');
+      const deliveryMetadata = await this.deliverToGuest(tenant, conversation, draft.message_body, {
+        guestPhone,
+        replyChannel: replyChannel === 'whatsapp' || replyChannel === 'sms' ? replyChannel : null,
+      });
+
+      await this.markMessageAsSent(logId, draft.message_body, {
+        ...deliveryMetadata,
+        approvedBy: reviewerId,
+        edited: draft.original_message_body !== null,
+      });
+    } catch (error) {
+      await this.markMessageAsFailed(logId, error);
+      throw error;
+    }
+
+    // The guest's acceptance of an upsell is only booked once its confirmation went out
+    const upsellOrderIds = draftMetadata.upsellOrderIds;
+    if (draftMetadata.upsellAcceptancePending === true && Array.isArray(upsellOrderIds)) {
+      await this.upsellsService.acceptOrders(
+        tenant,
+        upsellOrderIds.filter((id): id is string => typeof id === 'string'),
+        this.readString(draftMetadata, 'guestName'),
       );
+    }
 
-    await this.ensureHostawayConversationLink(tenant.id, conversation.id, hostawayConversationId);
+    this.eventsService.publish(tenant.id, 'conversation.message_logged', {
+      conversationId: conversation.id,
+      logId,
+      senderType: 'ai',
+      status: 'sent',
+    });
+  }
 
-    const metadata: Record<string, unknown> = {
-      deliveryChannel: phoneNumber ? 'twilio' : 'hostaway',
-      reservationId: conversation.bookingExternalId,
-      hostawayConversationId,
-    };
+  async rejectDraft(
+    tenantId: string,
+    conversationId: string,
+    logId: string,
+    reviewerId: string,
+  ): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.conversation_logs
+          set status = 'rejected',
+              reviewed_by = $4,
+              reviewed_at = now(),
+              updated_at = now()
+        where id = $1
+          and conversation_id = $2
+          and tenant_id = $3
+          and status = 'draft'`,
+      [logId, conversationId, tenantId, reviewerId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Draft not found or already reviewed');
+    }
+
+    this.eventsService.publish(tenantId, 'conversation.message_logged', {
+      conversationId,
+      logId,
+      senderType: 'ai',
+      status: 'rejected',
+    });
+  }
+
+  /**
+   * Delivers a message to the guest and records it against the tenant's usage. Guests who wrote in
+   * over Twilio get the reply on that channel; otherwise it goes out on WhatsApp when the plan
+   * includes it and a phone number is known, and through the PMS conversation in every other case.
+   */
+  async deliverToGuest(
+    tenant: TenantSummary,
+    conversation: ConversationRecord,
+    message: string,
+    options: GuestDeliveryOptions = {},
+  ): Promise<GuestDelivery> {
+    const whatsappEntitled = await this.entitlementsService.isEntitled(tenant, 'whatsapp_delivery');
+
+    const { guestPhone, replyChannel } = options;
+    if (
+      guestPhone &&
+      (replyChannel === 'sms' || (replyChannel === 'whatsapp' && whatsappEntitled))
+    ) {
+      if (replyChannel === 'whatsapp') {
+        await this.twilioClient.sendWhatsAppMessage(tenant, guestPhone, message);
+      } else {
+        await this.twilioClient.sendSms(tenant, guestPhone, message);
+      }
+      // SMS replies go through the same Twilio account and are metered with WhatsApp
+      await this.usageService.record(tenant.id, 'whatsapp_messages');
+      return {
+        deliveryChannel: 'twilio',
+        twilioChannel: replyChannel,
+        reservationId: conversation.bookingExternalId,
+      };
+    }
+
+    const reservationId = options.reservation?.id ?? conversation.bookingExternalId;
+    if (!reservationId) {
+      throw new Error('Conversation is not linked to a Hostaway reservation');
+    }
+
+    const pms = this.pmsProviderService.forTenant(tenant);
+    const reservation =
+      options.reservation ?? (await this.bookingsService.getReservation(tenant, reservationId));
+    const phoneNumber = whatsappEntitled ? guestPhone ?? reservation.guest.phone : null;
+    let hostawayConversationId =
+      options.hostawayConversationId ??
+      conversation.hostawayConversationId ??
+      reservation.conversationId;
 
     if (phoneNumber) {
       await this.twilioClient.sendWhatsAppMessage(tenant, phoneNumber, message);
     } else {
-      if (hostawayConversationId) {
-        await this.hostawayClient.sendConversationMessage(
-          tenant,
-          hostawayConversationId,
-          message,
-          'channel',
-        );
-      } else {
-        await this.hostawayClient.sendMessageToGuest(
-          tenant,
-          conversation.bookingExternalId,
-          message,
-        );
-      }
+      // The adapter looks up the reservation's conversation when we have not linked one yet
+      const sent = await pms.sendMessage(tenant, {
+        reservationId,
+        conversationId: hostawayConversationId,
+        body: message,
+      });
+      hostawayConversationId = sent.conversationId ?? hostawayConversationId;
     }
 
-    await this.logHumanReply(conversation, message, metadata);
+    await this.ensureHostawayConversationLink(tenant.id, conversation.id, hostawayConversationId);
+    await this.usageService.record(
+      tenant.id,
+      phoneNumber ? 'whatsapp_messages' : 'hostaway_messages',
+    );
+
+    return {
+      deliveryChannel: phoneNumber ? 'twilio' : pms.kind,
+      reservationId,
+      hostawayConversationId,
+    };
   }
 
   private async resolveBookingIdByExternalId(
@@ -1173,7 +1595,7 @@ export class ConversationsService {
     const actualSentAt = options.actualSentAt ? options.actualSentAt.toISOString() : null;
     const sentAt = (options.sentAt ?? new Date()).toISOString();
 
-    return this.databaseService.withClient(async (client) => {
+    const entry = await this.databaseService.withClient(async (client) => {
       const { rows } = await client.query<{ id: string }>(
         `insert into public.conversation_logs (
            conversation_id,
@@ -1217,6 +1639,15 @@ export class ConversationsService {
 
       return rows[0];
     });
+
+    this.eventsService.publish(options.tenantId, 'conversation.message_logged', {
+      conversationId: options.conversationId,
+      logId: entry.id,
+      senderType: options.senderType,
+      status: options.status,
+    });
+
+    return entry;
   }
 
   async ensureHostawayConversationLink(
@@ -1239,6 +1670,14 @@ export class ConversationsService {
     );
   }
 
+  private describeError(error: unknown): string {
+    return error instanceof Error
+      ? error.message
+      : typeof error === 'string'
+      ? error
+      : JSON.stringify(error);
+  }
+
   private readString(
     source: Record<string, unknown> | null | undefined,
     ...paths: string[]
@@ -1276,8 +1715,8 @@ export class ConversationsService {
   }
 
   /**
-   * Sync conversation history from Hostaway API
-   * Fetches all messages from Hostaway and stores them in conversation_logs so they appear in the UI
+   * Sync conversation history from the tenant's PMS
+   * Fetches all messages from the PMS and stores them in conversation_logs so they appear in the UI
    */
   async syncConversationHistory(
     tenantId: string,
@@ -1300,15 +1739,11 @@ export class ConversationsService {
         return;
       }
 
-      // Fetch conversations from Hostaway using listConversations
-      const hostawayConversations = await this.hostawayClient.listConversations(tenant, {
-        reservationId,
-        includeResources: 1,
-        limit: 100, // Fetch up to 100 conversations for this reservation
-      });
+      const pms = this.pmsProviderService.forTenant(tenant);
+      const pmsConversations = await pms.listConversations(tenant, { reservationId });
 
-      if (!hostawayConversations || hostawayConversations.length === 0) {
-        this.logger.debug(`No Hostaway conversations found for reservation ${reservationId}`);
+      if (pmsConversations.length === 0) {
+        this.logger.debug(`No ${pms.name} conversations found for reservation ${reservationId}`);
         return;
       }
 
@@ -1317,49 +1752,24 @@ export class ConversationsService {
 
       // Process each conversation and fetch all messages using the dedicated messages endpoint
       let syncedCount = 0;
-      for (const hostawayConversation of hostawayConversations) {
-        const hostawayConversationId = this.readString(
-          hostawayConversation,
-          'id',
-          'conversationId',
-          'conversation_id',
-        );
-
-        if (!hostawayConversationId) {
-          continue;
-        }
+      for (const pmsConversation of pmsConversations) {
+        const hostawayConversationId = pmsConversation.id;
 
-        // Fetch ALL messages for this conversation using the dedicated messages endpoint
-        // This ensures we get complete message history including scheduled messages
-        let conversationMessages: Array<Record<string, unknown>> = [];
+        // Fetch ALL messages for this conversation, including scheduled messages
+        let conversationMessages: GuestMessage[] = [];
         try {
-          const messagesResponse = await this.hostawayClient.getConversationMessages(
-            tenant,
-            String(hostawayConversationId),
-            true, // includeScheduledMessages = true
-          );
-          conversationMessages = messagesResponse as Array<Record<string, unknown>>;
+          conversationMessages = await pms.getConversationMessages(tenant, hostawayConversationId);
         } catch (error) {
           this.logger.warn(
-            `Failed to fetch messages for conversation ${hostawayConversationId}, falling back to embedded messages`,
+            `Failed to fetch messages for conversation ${hostawayConversationId}`,
             error as Error,
           );
-          // Fallback to embedded messages if the endpoint fails
-          conversationMessages = Array.isArray(hostawayConversation.conversationMessages)
-            ? (hostawayConversation.conversationMessages as Array<Record<string, unknown>>)
-            : Array.isArray(hostawayConversation.messages)
-            ? (hostawayConversation.messages as Array<Record<string, unknown>>)
-            : [];
+          continue;
         }
 
         for (const message of conversationMessages) {
-          if (!message || typeof message !== 'object') {
-            continue;
-          }
-
-          const msg = message as Record<string, unknown>;
-          const hostawayMessageId = this.readString(msg, 'id', 'messageId', 'message_id');
-          const body = this.readString(msg, 'body', 'message', 'content', 'text');
+          const hostawayMessageId = message.id;
+          const body = message.body;
 
           if (!hostawayMessageId || !body || body.trim().length === 0) {
             continue;
@@ -1370,26 +1780,15 @@ export class ConversationsService {
             continue;
           }
 
-          const isIncoming = Boolean(msg.isIncoming || msg.is_incoming);
+          const isIncoming = message.isIncoming;
 
           // Map to conversation_logs fields
           const senderType = isIncoming ? 'guest' : 'human';
           const direction = isIncoming ? 'guest' : 'staff';
 
-          // Get sent date (prefer date, then sentToChannelDate, then insertedOn)
-          const sentDateStr =
-            this.readString(
-              msg,
-              'date',
-              'sentToChannelDate',
-              'sentToChannelAttemptDate',
-              'insertedOn',
-              'inserted_on',
-            ) || null;
-
           let sentDate: Date | null = null;
-          if (sentDateStr) {
-            const parsed = new Date(sentDateStr);
+          if (message.sentAt) {
+            const parsed = new Date(message.sentAt);
             if (!Number.isNaN(parsed.getTime())) {
               sentDate = parsed;
             }
@@ -1420,14 +1819,13 @@ export class ConversationsService {
             hostawayMessageId: String(hostawayMessageId),
             hostawayConversationId: String(hostawayConversationId),
             reservationId: String(reservationId),
-            communicationType:
-              this.readString(msg, 'communicationType', 'communication_type', 'type') || 'channel',
-            messageHash: this.readString(msg, 'hash') || null,
+            communicationType: message.communicationType || 'channel',
+            messageHash: this.readString(message.raw, 'hash') || null,
             syncedFromHistory: true,
             syncedAt: new Date().toISOString(),
             // Store key fields for reference
-            channelId: msg.channelId || null,
-            messageSource: this.readString(msg, 'messageSource', 'message_source') || null,
+            channelId: message.raw.channelId || null,
+            messageSource: this.readString(message.raw, 'messageSource', 'message_source') || null,
           };
 
           // Insert into conversation_logs so it appears in the UI
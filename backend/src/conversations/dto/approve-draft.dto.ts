@@ -0,0 +1,9 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ApproveDraftDto {
+  // Edited reply text; omit to send the draft as generated
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  message?: string;
+}
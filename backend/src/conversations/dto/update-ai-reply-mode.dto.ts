@@ -0,0 +1,10 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+import { AI_REPLY_MODES, AiReplyMode } from '../../tenant/tenant.service';
+
+export class UpdateAiReplyModeDto {
+  // null clears the override so the conversation follows the tenant setting
+  @IsOptional()
+  @IsIn(AI_REPLY_MODES)
+  mode!: AiReplyMode | null;
+}
@@ -2,10 +2,11 @@ import { Controller, Get, Req, UseGuards } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 
 import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
 import { DashboardService } from './dashboard.service';
 
 @Controller('dashboard')
-@UseGuards(AuthGuard('supabase'))
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard)
 export class DashboardController {
   constructor(private readonly dashboardService: DashboardService) {}
 
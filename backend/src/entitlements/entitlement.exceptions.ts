@@ -0,0 +1,39 @@
+import { ForbiddenException, HttpException, HttpStatus } from '@nestjs/common';
+import { EntitlementErrorResponse, PlanEntitlement } from '@saas-automation/shared-types';
+
+import { PlanDefinition } from '../usage/plans';
+
+/** 402: the tenant has no subscription that grants access, whatever the plan. */
+export class SubscriptionRequiredException extends HttpException {
+  constructor(plan: PlanDefinition, entitlement: PlanEntitlement | null = null) {
+    const body: EntitlementErrorResponse = {
+      statusCode: HttpStatus.PAYMENT_REQUIRED,
+      message: 'An active subscription is required. Update your billing details to continue.',
+      code: 'subscription_required',
+      entitlement,
+      plan: plan.key,
+      limit: null,
+    };
+    super(body, HttpStatus.PAYMENT_REQUIRED);
+  }
+}
+
+/** 403: the subscription is fine but the plan does not include the feature or allowance. */
+export class PlanUpgradeRequiredException extends ForbiddenException {
+  constructor(
+    plan: PlanDefinition,
+    entitlement: PlanEntitlement,
+    message: string,
+    limit: number | null = null,
+  ) {
+    const body: EntitlementErrorResponse = {
+      statusCode: HttpStatus.FORBIDDEN,
+      message,
+      code: 'plan_upgrade_required',
+      entitlement,
+      plan: plan.key,
+      limit,
+    };
+    super(body);
+  }
+}
@@ -0,0 +1,23 @@
+import { Controller, Get, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { PlanEntitlementSummary } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { EntitlementsService } from './entitlements.service';
+
+@Controller('entitlements')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+export class EntitlementsController {
+  constructor(
+    private readonly entitlementsService: EntitlementsService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get()
+  async listEntitlements(@Req() req: AuthenticatedRequest): Promise<PlanEntitlementSummary[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.entitlementsService.listEntitlements(tenant);
+  }
+}
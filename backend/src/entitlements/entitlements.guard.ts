@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PlanEntitlement } from '@saas-automation/shared-types';
+
+import { TenantService } from '../tenant/tenant.service';
+import { EntitlementsService } from './entitlements.service';
+import { ENTITLEMENT_KEY } from './require-entitlement.decorator';
+
+/**
+ * Requires a subscription that grants access (402 otherwise) and, for routes marked with
+ * `@RequireEntitlement`, a plan that includes the feature or has allowance left (403 otherwise).
+ */
+@Injectable()
+export class EntitlementsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly tenantService: TenantService,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.userId;
+
+    if (!userId) {
+      throw new ForbiddenException('User ID not found in request');
+    }
+
+    const entitlement = this.reflector.getAllAndOverride<PlanEntitlement | undefined>(
+      ENTITLEMENT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const tenant = await this.tenantService.getTenantForUser(userId);
+
+    if (entitlement) {
+      await this.entitlementsService.assertEntitled(tenant, entitlement);
+    } else {
+      this.entitlementsService.assertSubscribed(tenant);
+    }
+
+    return true;
+  }
+}
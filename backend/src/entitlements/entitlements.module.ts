@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+
+import { DatabaseModule } from '../database/database.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { UsageModule } from '../usage/usage.module';
+import { EntitlementsController } from './entitlements.controller';
+import { EntitlementsService } from './entitlements.service';
+
+@Module({
+  imports: [ConfigModule, PassportModule, DatabaseModule, TenantModule, UsageModule],
+  controllers: [EntitlementsController],
+  providers: [EntitlementsService],
+  exports: [EntitlementsService],
+})
+export class EntitlementsModule {}
@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+
+import { DatabaseService } from '../database/database.service';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { UsageService } from '../usage/usage.service';
+import { EntitlementsService } from './entitlements.service';
+
+const CONFIG: Record<string, string> = {
+  STRIPE_SECRET_KEY: 'sk_test',
+  STRIPE_PRICE_ID: 'price_legacy',
+  STRIPE_PRICE_ID_STARTER: 'price_starter',
+};
+
+const tenant = (stripePriceId: string | null): TenantSummary => ({
+  id: 'tenant-1',
+  name: 'Tenant',
+  slug: 'tenant',
+  subscriptionStatus: 'active',
+  stripePriceId,
+  aiReplyMode: 'autonomous',
+  pmsProvider: 'hostaway',
+});
+
+describe('EntitlementsService', () => {
+  let service: EntitlementsService;
+  let usageService: UsageService;
+
+  beforeAll(async () => {
+    const app = await Test.createTestingModule({
+      providers: [
+        EntitlementsService,
+        UsageService,
+        { provide: DatabaseService, useValue: { runQuery: jest.fn() } },
+        { provide: TenantService, useValue: {} },
+        { provide: ConfigService, useValue: { get: (key: string) => CONFIG[key] } },
+      ],
+    }).compile();
+
+    service = app.get<EntitlementsService>(EntitlementsService);
+    usageService = app.get<UsageService>(UsageService);
+  });
+
+  describe('tenants subscribed before plans', () => {
+    it.each([null, 'price_legacy'])('keeps AI replies and WhatsApp on price %s', async (price) => {
+      expect(usageService.resolvePlan(tenant(price)).key).toEqual('legacy');
+      expect(await service.isEntitled(tenant(price), 'ai_auto_reply')).toBe(true);
+      expect(await service.isEntitled(tenant(price), 'whatsapp_delivery')).toBe(true);
+    });
+  });
+
+  describe('Starter tenants', () => {
+    it('deliver through the PMS and need approval for AI replies', async () => {
+      expect(usageService.resolvePlan(tenant('price_starter')).key).toEqual('starter');
+      expect(await service.isEntitled(tenant('price_starter'), 'ai_auto_reply')).toBe(false);
+      expect(await service.isEntitled(tenant('price_starter'), 'whatsapp_delivery')).toBe(false);
+    });
+  });
+});
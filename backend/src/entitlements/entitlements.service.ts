@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PLAN_ENTITLEMENTS,
+  PlanEntitlement,
+  PlanEntitlementSummary,
+} from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+import {
+  SUBSCRIPTION_ACCESS_STATUSES,
+  TenantService,
+  TenantSummary,
+} from '../tenant/tenant.service';
+import { PlanDefinition } from '../usage/plans';
+import { UsageService } from '../usage/usage.service';
+import {
+  PlanUpgradeRequiredException,
+  SubscriptionRequiredException,
+} from './entitlement.exceptions';
+
+type CountedEntitlement = Exclude<PlanEntitlement, 'ai_auto_reply' | 'whatsapp_delivery'>;
+
+const COUNT_SQL: Record<CountedEntitlement, string> = {
+  listings: `select count(*) as used from public.properties where tenant_id = $1`,
+  knowledge_base_documents: `select count(*) as used
+     from public.knowledge_base_documents
+    where tenant_id = $1
+      and coalesce(metadata->>'source', '') <> 'hostaway_conversation'`,
+  team_seats: `select (select count(*) from public.user_profiles where tenant_id = $1)
+        + (select count(*)
+             from public.tenant_invitations
+            where tenant_id = $1
+              and accepted_at is null
+              and expires_at > now()) as used`,
+};
+
+const UPGRADE_MESSAGES: Record<PlanEntitlement, (plan: string, limit: number | null) => string> = {
+  ai_auto_reply: (plan) =>
+    `The ${plan} plan does not include automatic AI replies. Upgrade to let the AI answer guests without approval.`,
+  whatsapp_delivery: (plan) =>
+    `The ${plan} plan only delivers messages through Hostaway. Upgrade to message guests on WhatsApp.`,
+  listings: (plan, limit) =>
+    `The ${plan} plan includes ${limit} listings. Upgrade to automate more listings.`,
+  knowledge_base_documents: (plan, limit) =>
+    `The ${plan} plan includes ${limit} knowledge base documents. Delete a document or upgrade to add more.`,
+  team_seats: (plan, limit) =>
+    `The ${plan} plan includes ${limit} team seats. Remove a member or upgrade to invite more.`,
+};
+
+/**
+ * What the tenant's plan allows. Without Stripe configured (developer mode) every tenant is
+ * treated as subscribed with no plan restrictions.
+ */
+@Injectable()
+export class EntitlementsService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly tenantService: TenantService,
+    private readonly usageService: UsageService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async listEntitlements(tenant: TenantSummary): Promise<PlanEntitlementSummary[]> {
+    const plan = this.usageService.resolvePlan(tenant);
+    return Promise.all(
+      PLAN_ENTITLEMENTS.map((entitlement) => this.evaluate(tenant, plan, entitlement)),
+    );
+  }
+
+  async isEntitled(tenant: TenantSummary, entitlement: PlanEntitlement): Promise<boolean> {
+    if (!this.isEnforced()) {
+      return true;
+    }
+    if (!this.hasSubscriptionAccess(tenant)) {
+      return false;
+    }
+
+    const { allowed } = await this.evaluate(
+      tenant,
+      this.usageService.resolvePlan(tenant),
+      entitlement,
+    );
+    return allowed;
+  }
+
+  /** Throws a 402 when the subscription does not grant access to the app. */
+  assertSubscribed(tenant: TenantSummary): void {
+    if (this.isEnforced() && !this.hasSubscriptionAccess(tenant)) {
+      throw new SubscriptionRequiredException(this.usageService.resolvePlan(tenant));
+    }
+  }
+
+  /** Throws a 402 without an active subscription, or a 403 when the plan blocks the action. */
+  async assertEntitled(tenant: TenantSummary, entitlement: PlanEntitlement): Promise<void> {
+    if (!this.isEnforced()) {
+      return;
+    }
+
+    const plan = this.usageService.resolvePlan(tenant);
+    if (!this.hasSubscriptionAccess(tenant)) {
+      throw new SubscriptionRequiredException(plan, entitlement);
+    }
+
+    const { allowed, limit } = await this.evaluate(tenant, plan, entitlement);
+    if (!allowed) {
+      throw new PlanUpgradeRequiredException(
+        plan,
+        entitlement,
+        UPGRADE_MESSAGES[entitlement](plan.name, limit),
+        limit,
+      );
+    }
+  }
+
+  async assertTenantEntitled(tenantId: string, entitlement: PlanEntitlement): Promise<void> {
+    if (!this.isEnforced()) {
+      return;
+    }
+
+    await this.assertEntitled(await this.tenantService.getTenantById(tenantId), entitlement);
+  }
+
+  /**
+   * Whether the booking's listing is within the plan's listing allowance. Listings count in the
+   * order they were first synced, so connecting more listings never drops existing ones.
+   */
+  async isBookingListingCovered(tenant: TenantSummary, bookingId: string): Promise<boolean> {
+    if (!this.isEnforced()) {
+      return true;
+    }
+
+    const limit = this.usageService.resolvePlan(tenant).limits.active_listings ?? null;
+    if (limit === null) {
+      return true;
+    }
+
+    const { rows } = await this.databaseService.runQuery<{ position: string }>(
+      `select count(*) as position
+         from public.bookings b
+         join public.properties listing on listing.id = b.property_id
+         join public.properties earlier
+           on earlier.tenant_id = listing.tenant_id
+          and (earlier.created_at, earlier.id) < (listing.created_at, listing.id)
+        where b.id = $1
+          and b.tenant_id = $2`,
+      [bookingId, tenant.id],
+    );
+
+    return parseInt(rows[0]?.position ?? '0', 10) < limit;
+  }
+
+  private async evaluate(
+    tenant: TenantSummary,
+    plan: PlanDefinition,
+    entitlement: PlanEntitlement,
+  ): Promise<PlanEntitlementSummary> {
+    if (entitlement === 'ai_auto_reply' || entitlement === 'whatsapp_delivery') {
+      const allowed =
+        !this.isEnforced() ||
+        (entitlement === 'ai_auto_reply'
+          ? plan.entitlements.aiAutoReply
+          : plan.entitlements.whatsappDelivery);
+      return { entitlement, allowed, limit: null, used: null };
+    }
+
+    const limit = this.isEnforced() ? this.limitFor(plan, entitlement) : null;
+    const { rows } = await this.databaseService.runQuery<{ used: string }>(COUNT_SQL[entitlement], [
+      tenant.id,
+    ]);
+    const used = parseInt(rows[0]?.used ?? '0', 10);
+
+    // Listings arrive through sync rather than a user action, so only going over the cap blocks
+    const allowed = limit === null || (entitlement === 'listings' ? used <= limit : used < limit);
+    return { entitlement, allowed, limit, used };
+  }
+
+  private limitFor(plan: PlanDefinition, entitlement: CountedEntitlement): number | null {
+    switch (entitlement) {
+      case 'listings':
+        return plan.limits.active_listings ?? null;
+      case 'knowledge_base_documents':
+        return plan.entitlements.maxKnowledgeBaseDocuments;
+      case 'team_seats':
+        return plan.entitlements.maxTeamSeats;
+    }
+  }
+
+  private hasSubscriptionAccess(tenant: TenantSummary): boolean {
+    return SUBSCRIPTION_ACCESS_STATUSES.includes(tenant.subscriptionStatus);
+  }
+
+  private isEnforced(): boolean {
+    return Boolean(this.configService.get<string>('STRIPE_SECRET_KEY'));
+  }
+}
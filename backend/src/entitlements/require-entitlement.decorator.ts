@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { PlanEntitlement } from '@saas-automation/shared-types';
+
+export const ENTITLEMENT_KEY = 'planEntitlement';
+
+/** Plan entitlement the route consumes; see `EntitlementsGuard`. */
+export const RequireEntitlement = (entitlement: PlanEntitlement) =>
+  SetMetadata(ENTITLEMENT_KEY, entitlement);
@@ -0,0 +1,86 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  ESCALATION_CHANNELS,
+  ESCALATION_TRIGGERS,
+  EscalationChannel,
+  EscalationTrigger,
+} from '@saas-automation/shared-types';
+
+export class EscalationStepDto {
+  @IsIn(ESCALATION_CHANNELS)
+  channel!: EscalationChannel;
+
+  // Alert whoever is on call per the rota instead of a fixed destination
+  @IsOptional()
+  @IsBoolean()
+  onCall?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  contactName?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  destination?: string | null;
+
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  waitMinutes!: number;
+}
+
+export class EscalationPolicyDto {
+  // Omit or null to apply to every listing
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  listingId?: string | null;
+
+  @IsIn(ESCALATION_TRIGGERS)
+  trigger!: EscalationTrigger;
+
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationStepDto)
+  steps!: EscalationStepDto[];
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  quietHoursStart?: string | null;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  quietHoursEnd?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,296 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ESCALATION_CHANNELS,
+  ESCALATION_TRIGGERS,
+  EscalationPolicy,
+  EscalationStep,
+  EscalationTrigger,
+} from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+import { EscalationPolicyDto } from './dto/escalation-policy.dto';
+
+interface EscalationPolicyRow {
+  id: string;
+  listing_id: string | null;
+  trigger: EscalationTrigger;
+  name: string;
+  steps: EscalationStep[] | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const POLICY_COLUMNS = `id, listing_id, trigger, name, steps, quiet_hours_start, quiet_hours_end,
+  timezone, enabled, created_at, updated_at`;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_STEPS = 10;
+const MAX_WAIT_MINUTES = 24 * 60;
+
+@Injectable()
+export class EscalationPoliciesService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async listPolicies(tenantId: string): Promise<EscalationPolicy[]> {
+    const { rows } = await this.databaseService.runQuery<EscalationPolicyRow>(
+      `select ${POLICY_COLUMNS}
+         from public.escalation_policies
+        where tenant_id = $1
+        order by trigger, listing_id nulls first, created_at`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapPolicy(row));
+  }
+
+  async createPolicy(tenantId: string, dto: EscalationPolicyDto): Promise<EscalationPolicy> {
+    const policy = this.validatePolicy(dto);
+
+    const { rows } = await this.saveUnique(
+      `insert into public.escalation_policies (
+         tenant_id, listing_id, trigger, name, steps, quiet_hours_start, quiet_hours_end,
+         timezone, enabled
+       )
+       values ($1, $2, $3, $4, $5::jsonb, $6, $7, $8, $9)
+       returning ${POLICY_COLUMNS}`,
+      [
+        tenantId,
+        policy.listingId,
+        policy.trigger,
+        policy.name,
+        JSON.stringify(policy.steps),
+        policy.quietHoursStart,
+        policy.quietHoursEnd,
+        policy.timezone,
+        policy.enabled,
+      ],
+    );
+
+    return this.mapPolicy(rows[0]);
+  }
+
+  async updatePolicy(
+    tenantId: string,
+    policyId: string,
+    dto: EscalationPolicyDto,
+  ): Promise<EscalationPolicy> {
+    const policy = this.validatePolicy(dto);
+
+    const { rows } = await this.saveUnique(
+      `update public.escalation_policies
+          set listing_id = $3,
+              trigger = $4,
+              name = $5,
+              steps = $6::jsonb,
+              quiet_hours_start = $7,
+              quiet_hours_end = $8,
+              timezone = $9,
+              enabled = $10,
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${POLICY_COLUMNS}`,
+      [
+        policyId,
+        tenantId,
+        policy.listingId,
+        policy.trigger,
+        policy.name,
+        JSON.stringify(policy.steps),
+        policy.quietHoursStart,
+        policy.quietHoursEnd,
+        policy.timezone,
+        policy.enabled,
+      ],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Escalation policy not found');
+    }
+
+    return this.mapPolicy(rows[0]);
+  }
+
+  async deletePolicy(tenantId: string, policyId: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.escalation_policies where id = $1 and tenant_id = $2`,
+      [policyId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Escalation policy not found');
+    }
+  }
+
+  /**
+   * Returns the enabled policy for a trigger, preferring the listing's own policy over the
+   * tenant-wide one.
+   */
+  async findPolicy(
+    tenantId: string,
+    trigger: EscalationTrigger,
+    listingId?: string | null,
+  ): Promise<EscalationPolicy | null> {
+    const { rows } = await this.databaseService.runQuery<EscalationPolicyRow>(
+      `select ${POLICY_COLUMNS}
+         from public.escalation_policies
+        where tenant_id = $1
+          and trigger = $2
+          and enabled = true
+          and (listing_id is null or listing_id = $3)
+        order by listing_id nulls last
+        limit 1`,
+      [tenantId, trigger, listingId ?? null],
+    );
+
+    return rows[0] ? this.mapPolicy(rows[0]) : null;
+  }
+
+  /** Whether any enabled policy for the trigger is scoped to a listing. */
+  async hasListingPolicies(tenantId: string, trigger: EscalationTrigger): Promise<boolean> {
+    const { rows } = await this.databaseService.runQuery<{ exists: boolean }>(
+      `select exists (
+         select 1
+           from public.escalation_policies
+          where tenant_id = $1
+            and trigger = $2
+            and enabled = true
+            and listing_id is not null
+       ) as exists`,
+      [tenantId, trigger],
+    );
+
+    return rows[0]?.exists ?? false;
+  }
+
+  private async saveUnique(sql: string, params: unknown[]) {
+    try {
+      return await this.databaseService.runQuery<EscalationPolicyRow>(sql, params);
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        throw new ConflictException(
+          'A policy for this trigger already exists for the same listing scope',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private validatePolicy(dto: EscalationPolicyDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('Escalation policy payload is required');
+    }
+
+    if (!ESCALATION_TRIGGERS.includes(dto.trigger)) {
+      throw new BadRequestException(`trigger must be one of: ${ESCALATION_TRIGGERS.join(', ')}`);
+    }
+
+    const name = typeof dto.name === 'string' ? dto.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+
+    if (!Array.isArray(dto.steps) || dto.steps.length === 0 || dto.steps.length > MAX_STEPS) {
+      throw new BadRequestException(`steps must contain between 1 and ${MAX_STEPS} entries`);
+    }
+
+    const steps: EscalationStep[] = dto.steps.map((step, index) => {
+      if (!step || !ESCALATION_CHANNELS.includes(step.channel)) {
+        throw new BadRequestException(
+          `steps[${index}].channel must be one of: ${ESCALATION_CHANNELS.join(', ')}`,
+        );
+      }
+
+      const onCall = step.onCall === true;
+      const destination = typeof step.destination === 'string' ? step.destination.trim() : '';
+      const validDestination =
+        step.channel === 'email'
+          ? /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(destination)
+          : /^(whatsapp:)?\+?[0-9 ()-]{6,}$/.test(destination);
+      // On-call steps resolve their contact from the rota when they run
+      if (!onCall && !validDestination) {
+        throw new BadRequestException(
+          `steps[${index}].destination must be ${
+            step.channel === 'email' ? 'an email address' : 'a phone number'
+          }`,
+        );
+      }
+
+      if (
+        !Number.isInteger(step.waitMinutes) ||
+        step.waitMinutes < 1 ||
+        step.waitMinutes > MAX_WAIT_MINUTES
+      ) {
+        throw new BadRequestException(
+          `steps[${index}].waitMinutes must be between 1 and ${MAX_WAIT_MINUTES}`,
+        );
+      }
+
+      return {
+        channel: step.channel,
+        onCall,
+        contactName: onCall ? null : step.contactName?.trim() || null,
+        destination: onCall ? null : destination.replace(/^whatsapp:/, '').replace(/[ ()-]/g, ''),
+        waitMinutes: step.waitMinutes,
+      };
+    });
+
+    const quietHoursStart = dto.quietHoursStart?.trim() || null;
+    const quietHoursEnd = dto.quietHoursEnd?.trim() || null;
+    if (Boolean(quietHoursStart) !== Boolean(quietHoursEnd)) {
+      throw new BadRequestException('quietHoursStart and quietHoursEnd must be set together');
+    }
+    if (
+      (quietHoursStart && !TIME_PATTERN.test(quietHoursStart)) ||
+      (quietHoursEnd && !TIME_PATTERN.test(quietHoursEnd))
+    ) {
+      throw new BadRequestException('Quiet hours must use HH:MM');
+    }
+
+    const timezone = dto.timezone?.trim() || null;
+    if (timezone) {
+      try {
+        new Intl.DateTimeFormat('en', { timeZone: timezone });
+      } catch {
+        throw new BadRequestException(`Unknown timezone ${timezone}`);
+      }
+    }
+
+    return {
+      listingId: dto.listingId?.trim() || null,
+      trigger: dto.trigger,
+      name,
+      steps,
+      quietHoursStart,
+      quietHoursEnd,
+      timezone,
+      enabled: dto.enabled ?? true,
+    };
+  }
+
+  private mapPolicy(row: EscalationPolicyRow): EscalationPolicy {
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      trigger: row.trigger,
+      name: row.name,
+      // Steps saved before the rota existed have no onCall flag
+      steps: (row.steps ?? []).map((step) => ({ ...step, onCall: step.onCall === true })),
+      quietHoursStart: row.quiet_hours_start,
+      quietHoursEnd: row.quiet_hours_end,
+      timezone: row.timezone,
+      enabled: row.enabled,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
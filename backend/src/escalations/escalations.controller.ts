@@ -0,0 +1,106 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Escalation, EscalationPolicy } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { EscalationPolicyDto } from './dto/escalation-policy.dto';
+import { EscalationPoliciesService } from './escalation-policies.service';
+import { EscalationsService } from './escalations.service';
+
+@Controller('escalations')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+export class EscalationsController {
+  constructor(
+    private readonly policiesService: EscalationPoliciesService,
+    private readonly escalationsService: EscalationsService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get('policies')
+  async listPolicies(@Req() req: AuthenticatedRequest): Promise<EscalationPolicy[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.policiesService.listPolicies(tenant.id);
+  }
+
+  @Post('policies')
+  @RequireTenantRole('manager')
+  async createPolicy(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: EscalationPolicyDto,
+  ): Promise<EscalationPolicy> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.policiesService.createPolicy(tenant.id, dto);
+  }
+
+  @Put('policies/:id')
+  @RequireTenantRole('manager')
+  async updatePolicy(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: EscalationPolicyDto,
+  ): Promise<EscalationPolicy> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.policiesService.updatePolicy(tenant.id, id, dto);
+  }
+
+  @Delete('policies/:id')
+  @RequireTenantRole('manager')
+  async deletePolicy(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.policiesService.deletePolicy(tenant.id, id);
+    return { deleted: true };
+  }
+
+  @Get()
+  async listEscalations(
+    @Req() req: AuthenticatedRequest,
+    @Query('conversationId') conversationId?: string,
+  ): Promise<Escalation[]> {
+    if (!conversationId) {
+      throw new BadRequestException('conversationId is required');
+    }
+
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.escalationsService.listForConversation(tenant.id, conversationId);
+  }
+
+  @Post(':id/acknowledge')
+  async acknowledge(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<Escalation> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    const acknowledged = await this.escalationsService.acknowledge(
+      tenant.id,
+      id,
+      req.user.email ?? req.user.userId,
+      null,
+    );
+    const escalation = acknowledged ?? (await this.escalationsService.getEscalation(tenant.id, id));
+    if (!escalation) {
+      throw new NotFoundException('Escalation not found');
+    }
+
+    return escalation;
+  }
+}
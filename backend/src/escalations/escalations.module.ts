@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+
+import { BookingsModule } from '../bookings/bookings.module';
+import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { RotaModule } from '../rota/rota.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { EscalationPoliciesService } from './escalation-policies.service';
+import { EscalationsController } from './escalations.controller';
+import { EscalationsService } from './escalations.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PassportModule,
+    TenantModule,
+    MessagingModule,
+    DatabaseModule,
+    JobsModule,
+    RotaModule,
+    EntitlementsModule,
+    BookingsModule,
+  ],
+  controllers: [EscalationsController],
+  providers: [EscalationPoliciesService, EscalationsService],
+  exports: [EscalationsService],
+})
+export class EscalationsModule {}
@@ -0,0 +1,572 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Escalation,
+  EscalationChannel,
+  EscalationEvent,
+  EscalationEventType,
+  EscalationPolicy,
+  EscalationStatus,
+  EscalationTrigger,
+} from '@saas-automation/shared-types';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+import { BookingsService } from '../bookings/bookings.service';
+import { DatabaseService } from '../database/database.service';
+import { EventsService } from '../events/events.service';
+import { JobsService } from '../jobs/jobs.service';
+import { EmailClient } from '../messaging/email.client';
+import { TwilioClient } from '../messaging/twilio.client';
+import { RotaService } from '../rota/rota.service';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { EscalationPoliciesService } from './escalation-policies.service';
+
+const ACK_PATTERN = /^\s*ack\b/i;
+const DEFAULT_TIMEZONE = 'Europe/London';
+
+interface EscalationRow {
+  id: string;
+  tenant_id: string;
+  policy_id: string | null;
+  policy: EscalationPolicy;
+  conversation_id: string | null;
+  reservation_id: string | null;
+  listing_id: string | null;
+  trigger: EscalationTrigger;
+  title: string;
+  summary: string;
+  status: EscalationStatus;
+  next_step: number;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+  created_at: Date;
+}
+
+interface EscalationEventRow {
+  id: string;
+  escalation_id: string;
+  step_index: number | null;
+  channel: EscalationChannel | null;
+  destination: string | null;
+  type: EscalationEventType;
+  details: string | null;
+  created_at: Date;
+}
+
+interface EscalationStepJobPayload {
+  escalationId: string;
+  stepIndex: number;
+}
+
+const ESCALATION_COLUMNS = `id, tenant_id, policy_id, policy, conversation_id, reservation_id,
+  listing_id, trigger, title, summary, status, next_step, acknowledged_by, acknowledged_at, created_at`;
+
+export interface StartEscalationInput {
+  trigger: EscalationTrigger;
+  title: string;
+  summary: string;
+  conversationId?: string | null;
+  reservationId?: string | null;
+  listingId?: string | null;
+}
+
+export const isAcknowledgement = (body: string): boolean => ACK_PATTERN.test(body);
+
+/**
+ * Runs escalation policies: notifies each step's contact in turn through the jobs queue until
+ * someone acknowledges or the chain runs out.
+ */
+@Injectable()
+export class EscalationsService implements OnModuleInit {
+  private readonly logger = new Logger(EscalationsService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly policiesService: EscalationPoliciesService,
+    private readonly jobsService: JobsService,
+    private readonly eventsService: EventsService,
+    private readonly tenantService: TenantService,
+    private readonly bookingsService: BookingsService,
+    private readonly twilioClient: TwilioClient,
+    private readonly emailClient: EmailClient,
+    private readonly rotaService: RotaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobsService.registerHandler('escalation_step', async (job) => {
+      const payload = job.payload as unknown as EscalationStepJobPayload;
+      if (!job.tenantId || !payload?.escalationId) {
+        throw new Error(`Escalation job ${job.id} is missing tenant or escalation context`);
+      }
+      await this.runStep(job.tenantId, payload.escalationId, payload.stepIndex);
+    });
+  }
+
+  /**
+   * Starts the tenant's policy for the trigger and notifies its first step. Returns null when no
+   * enabled policy applies, so callers can fall back to the tenant's single staff number.
+   */
+  async start(tenant: TenantSummary, input: StartEscalationInput): Promise<Escalation | null> {
+    let listingId = input.listingId ?? null;
+    if (
+      !listingId &&
+      input.reservationId &&
+      (await this.policiesService.hasListingPolicies(tenant.id, input.trigger))
+    ) {
+      listingId = await this.resolveListingId(tenant, input.reservationId);
+    }
+
+    const policy = await this.policiesService.findPolicy(tenant.id, input.trigger, listingId);
+    if (!policy || policy.steps.length === 0) {
+      return null;
+    }
+
+    // On-call steps look up the rota for the guest's property
+    if (!listingId && input.reservationId && policy.steps.some((step) => step.onCall)) {
+      listingId = await this.resolveListingId(tenant, input.reservationId);
+    }
+
+    const { rows } = await this.databaseService.runQuery<EscalationRow>(
+      `insert into public.escalations (
+         tenant_id, policy_id, policy, conversation_id, reservation_id, listing_id, trigger, title,
+         summary
+       )
+       values ($1, $2, $3::jsonb, $4, $5, $6, $7, $8, $9)
+       returning ${ESCALATION_COLUMNS}`,
+      [
+        tenant.id,
+        policy.id,
+        JSON.stringify(policy),
+        input.conversationId ?? null,
+        input.reservationId ?? null,
+        listingId,
+        input.trigger,
+        input.title,
+        input.summary,
+      ],
+    );
+
+    await this.runStep(tenant.id, rows[0].id, 0, tenant);
+    return this.getEscalation(tenant.id, rows[0].id);
+  }
+
+  async listForConversation(tenantId: string, conversationId: string): Promise<Escalation[]> {
+    const { rows } = await this.databaseService.runQuery<EscalationRow>(
+      `select ${ESCALATION_COLUMNS}
+         from public.escalations
+        where tenant_id = $1
+          and conversation_id = $2
+        order by created_at asc`,
+      [tenantId, conversationId],
+    );
+
+    return this.withEvents(rows);
+  }
+
+  async getEscalation(tenantId: string, escalationId: string): Promise<Escalation | null> {
+    const row = await this.findRow(escalationId, tenantId);
+    if (!row) {
+      return null;
+    }
+
+    const [escalation] = await this.withEvents([row]);
+    return escalation;
+  }
+
+  /** Tenant that owns an escalation; used to verify Twilio callbacks that carry only its id. */
+  async findTenantId(escalationId: string): Promise<string | null> {
+    const row = await this.findRow(escalationId);
+    return row?.tenant_id ?? null;
+  }
+
+  /**
+   * Acknowledges the newest active escalation this number was notified about, e.g. when a staff
+   * member replies "ACK" by WhatsApp or SMS.
+   */
+  async acknowledgeByContact(
+    tenantId: string,
+    from: string,
+    channel: EscalationChannel,
+  ): Promise<Escalation | null> {
+    const destination = this.normalizeDestination(from);
+    const { rows } = await this.databaseService.runQuery<{ id: string }>(
+      `select e.id
+         from public.escalations e
+        where e.tenant_id = $1
+          and e.status = 'active'
+          and exists (
+            select 1
+              from public.escalation_events ev
+             where ev.escalation_id = e.id
+               and ev.type = 'notified'
+               and ev.destination = $2
+          )
+        order by e.created_at desc
+        limit 1`,
+      [tenantId, destination],
+    );
+
+    if (!rows[0]) {
+      return null;
+    }
+
+    return this.acknowledge(tenantId, rows[0].id, destination, channel);
+  }
+
+  /**
+   * Marks an escalation as acknowledged so no further steps are notified. Returns null when it was
+   * already acknowledged or has finished.
+   */
+  async acknowledge(
+    tenantId: string,
+    escalationId: string,
+    acknowledgedBy: string,
+    channel: EscalationChannel | null,
+  ): Promise<Escalation | null> {
+    const { rows } = await this.databaseService.runQuery<EscalationRow>(
+      `update public.escalations
+          set status = 'acknowledged',
+              acknowledged_by = $3,
+              acknowledged_at = now(),
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+          and status = 'active'
+        returning ${ESCALATION_COLUMNS}`,
+      [escalationId, tenantId, acknowledgedBy],
+    );
+
+    if (!rows[0]) {
+      return null;
+    }
+
+    await this.recordEvent(rows[0], 'acknowledged', {
+      channel,
+      destination: acknowledgedBy,
+    });
+    this.logger.log(`Escalation ${escalationId} acknowledged by ${acknowledgedBy}`);
+
+    return this.getEscalation(tenantId, escalationId);
+  }
+
+  private async runStep(
+    tenantId: string,
+    escalationId: string,
+    stepIndex: number,
+    tenant?: TenantSummary,
+  ): Promise<void> {
+    const escalation = await this.findRow(escalationId, tenantId);
+    // Acknowledged, finished, or this step was already handled by an earlier attempt
+    if (!escalation || escalation.status !== 'active' || escalation.next_step !== stepIndex) {
+      return;
+    }
+
+    const steps = escalation.policy.steps ?? [];
+    if (stepIndex >= steps.length) {
+      await this.databaseService.runQuery(
+        `update public.escalations
+            set status = 'exhausted',
+                updated_at = now()
+          where id = $1
+            and status = 'active'`,
+        [escalationId],
+      );
+      await this.recordEvent(escalation, 'exhausted', {
+        details: 'Nobody acknowledged before the last step timed out',
+      });
+      this.logger.warn(`Escalation ${escalationId} exhausted without acknowledgement`);
+      return;
+    }
+
+    const quietUntil =
+      escalation.trigger === 'emergency' ? null : this.quietHoursEnd(escalation.policy, new Date());
+    if (quietUntil) {
+      await this.recordEvent(escalation, 'deferred', {
+        stepIndex,
+        details: `Quiet hours; held until ${quietUntil.toISOString()}`,
+      });
+      await this.jobsService.enqueue(
+        'escalation_step',
+        tenantId,
+        { escalationId, stepIndex },
+        { runAt: quietUntil },
+      );
+      return;
+    }
+
+    const step = steps[stepIndex];
+    let delivered = true;
+    let contact: { name: string | null; destination: string | null } = {
+      name: step.contactName,
+      destination: step.destination,
+    };
+    try {
+      if (step.onCall) {
+        contact = await this.resolveOnCallContact(escalation, step.channel);
+      }
+
+      await this.notify(
+        tenant ?? (await this.tenantService.getTenantById(tenantId)),
+        escalation,
+        step.channel,
+        contact.destination ?? '',
+      );
+      await this.recordEvent(escalation, 'notified', {
+        stepIndex,
+        channel: step.channel,
+        destination: contact.destination,
+        details: contact.name,
+      });
+    } catch (error) {
+      delivered = false;
+      await this.recordEvent(escalation, 'failed', {
+        stepIndex,
+        channel: step.channel,
+        destination: contact.destination,
+        details: (error as Error).message?.substring(0, 500) ?? 'Unknown error',
+      });
+    }
+
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.escalations
+          set next_step = $2 + 1,
+              updated_at = now()
+        where id = $1
+          and status = 'active'
+          and next_step = $2`,
+      [escalationId, stepIndex],
+    );
+    if (!rowCount) {
+      return;
+    }
+
+    // A failed notification moves straight on instead of waiting for an acknowledgement
+    const waitMs = delivered ? step.waitMinutes * 60 * 1000 : 0;
+    await this.jobsService.enqueue(
+      'escalation_step',
+      tenantId,
+      { escalationId, stepIndex: stepIndex + 1 },
+      { runAt: new Date(Date.now() + waitMs) },
+    );
+  }
+
+  /** First person on call for the escalation's listing right now who can be reached on the channel. */
+  private async resolveOnCallContact(
+    escalation: EscalationRow,
+    channel: EscalationChannel,
+  ): Promise<{ name: string; destination: string }> {
+    const onCall = await this.rotaService.findOnCall(escalation.tenant_id, escalation.listing_id);
+    if (onCall.length === 0) {
+      throw new Error('Nobody is on call');
+    }
+
+    const member = onCall.find((staff) => (channel === 'email' ? staff.email : staff.phone));
+    if (!member) {
+      throw new Error(
+        `Nobody on call has ${channel === 'email' ? 'an email address' : 'a phone number'}`,
+      );
+    }
+
+    return {
+      name: member.name,
+      destination:
+        channel === 'email'
+          ? (member.email as string)
+          : this.normalizeDestination(member.phone ?? ''),
+    };
+  }
+
+  private async notify(
+    tenant: TenantSummary,
+    escalation: EscalationRow,
+    channel: EscalationChannel,
+    destination: string,
+  ): Promise<void> {
+    const text = `${escalation.title} for ${tenant.name}.\n${escalation.summary}`;
+
+    switch (channel) {
+      case 'whatsapp':
+        await this.twilioClient.sendWhatsAppMessage(
+          tenant,
+          destination,
+          `${text}\nReply ACK to acknowledge.`,
+        );
+        return;
+      case 'sms':
+        await this.twilioClient.sendSms(tenant, destination, `${text}\nReply ACK to acknowledge.`);
+        return;
+      case 'email':
+        await this.emailClient.sendEmail(
+          destination,
+          `${escalation.title} for ${tenant.name}`,
+          `${text}\n\nAcknowledge it from the conversation in the dashboard to stop further alerts.`,
+        );
+        return;
+      case 'voice': {
+        const acknowledgeUrl = this.buildAcknowledgeUrl(escalation.id);
+        if (!acknowledgeUrl) {
+          this.logger.warn(
+            'TWILIO_WEBHOOK_URL is not configured; voice escalations cannot be acknowledged by keypress.',
+          );
+          await this.twilioClient.initiateVoiceCall(tenant, destination, text);
+          return;
+        }
+        await this.twilioClient.initiateAcknowledgeableCall(
+          tenant,
+          destination,
+          text,
+          acknowledgeUrl,
+        );
+        return;
+      }
+    }
+  }
+
+  /** Public URL Twilio posts the pressed key to; it sits under the Twilio webhook route. */
+  buildAcknowledgeUrl(escalationId: string): string | null {
+    const webhookUrl = this.configService.get<string>('TWILIO_WEBHOOK_URL');
+    return webhookUrl ? `${webhookUrl.replace(/\/+$/, '')}/escalations/${escalationId}/ack` : null;
+  }
+
+  /** End of the quiet window `now` falls in, or null outside quiet hours. */
+  private quietHoursEnd(policy: EscalationPolicy, now: Date): Date | null {
+    if (!policy.quietHoursStart || !policy.quietHoursEnd) {
+      return null;
+    }
+
+    const timezone =
+      policy.timezone ||
+      this.configService.get<string>('HOSTAWAY_AUTOMATION_TIMEZONE') ||
+      DEFAULT_TIMEZONE;
+    const [startHour, startMinute] = policy.quietHoursStart.split(':').map(Number);
+    const [endHour, endMinute] = policy.quietHoursEnd.split(':').map(Number);
+    const start = startHour * 60 + startMinute;
+    const end = endHour * 60 + endMinute;
+
+    const local = toZonedTime(now, timezone);
+    const minutes = local.getHours() * 60 + local.getMinutes();
+    // Windows such as 22:00-07:00 wrap past midnight
+    const quiet =
+      start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    if (!quiet) {
+      return null;
+    }
+
+    const endLocal = new Date(local);
+    endLocal.setHours(endHour, endMinute, 0, 0);
+    if (endLocal <= local) {
+      endLocal.setDate(endLocal.getDate() + 1);
+    }
+
+    return fromZonedTime(endLocal, timezone);
+  }
+
+  /** PMS listing of a reservation, or null when it cannot be looked up. */
+  async resolveListingId(tenant: TenantSummary, reservationId: string): Promise<string | null> {
+    try {
+      const reservation = await this.bookingsService.getReservation(tenant, reservationId);
+      return reservation.listingId;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to resolve listing for reservation ${reservationId}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private normalizeDestination(value: string): string {
+    return value.replace(/^whatsapp:/i, '').replace(/[ ()-]/g, '');
+  }
+
+  private async findRow(escalationId: string, tenantId?: string): Promise<EscalationRow | null> {
+    const { rows } = await this.databaseService.runQuery<EscalationRow>(
+      `select ${ESCALATION_COLUMNS}
+         from public.escalations
+        where id = $1
+          and ($2::uuid is null or tenant_id = $2)
+        limit 1`,
+      [escalationId, tenantId ?? null],
+    );
+
+    return rows[0] ?? null;
+  }
+
+  private async recordEvent(
+    escalation: EscalationRow,
+    type: EscalationEventType,
+    event: {
+      stepIndex?: number;
+      channel?: EscalationChannel | null;
+      destination?: string | null;
+      details?: string | null;
+    },
+  ): Promise<void> {
+    await this.databaseService.runQuery(
+      `insert into public.escalation_events (
+         escalation_id, tenant_id, step_index, channel, destination, type, details
+       )
+       values ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        escalation.id,
+        escalation.tenant_id,
+        event.stepIndex ?? null,
+        event.channel ?? null,
+        event.destination ?? null,
+        type,
+        event.details ?? null,
+      ],
+    );
+
+    this.eventsService.publish(escalation.tenant_id, 'escalation.updated', {
+      escalationId: escalation.id,
+      conversationId: escalation.conversation_id,
+      type,
+    });
+  }
+
+  private async withEvents(rows: EscalationRow[]): Promise<Escalation[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { rows: eventRows } = await this.databaseService.runQuery<EscalationEventRow>(
+      `select id, escalation_id, step_index, channel, destination, type, details, created_at
+         from public.escalation_events
+        where escalation_id = any($1::uuid[])
+        order by created_at asc`,
+      [rows.map((row) => row.id)],
+    );
+
+    const eventsByEscalation = new Map<string, EscalationEvent[]>();
+    for (const row of eventRows) {
+      const events = eventsByEscalation.get(row.escalation_id) ?? [];
+      events.push({
+        id: row.id,
+        stepIndex: row.step_index,
+        channel: row.channel,
+        destination: row.destination,
+        type: row.type,
+        details: row.details,
+        createdAt: new Date(row.created_at).toISOString(),
+      });
+      eventsByEscalation.set(row.escalation_id, events);
+    }
+
+    return rows.map((row) => ({
+      id: row.id,
+      policyId: row.policy_id,
+      policyName: row.policy?.name ?? '',
+      conversationId: row.conversation_id,
+      reservationId: row.reservation_id,
+      trigger: row.trigger,
+      title: row.title,
+      summary: row.summary,
+      status: row.status,
+      acknowledgedBy: row.acknowledged_by,
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at).toISOString() : null,
+      createdAt: new Date(row.created_at).toISOString(),
+      events: eventsByEscalation.get(row.id) ?? [],
+    }));
+  }
+}
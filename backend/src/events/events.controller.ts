@@ -0,0 +1,27 @@
+import { BadRequestException, Controller, MessageEvent, Req, Sse, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { from, Observable, switchMap } from 'rxjs';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { TenantService } from '../tenant/tenant.service';
+import { EventsService } from './events.service';
+
+@Controller('events')
+@UseGuards(AuthGuard('supabase'))
+export class EventsController {
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Sse('stream')
+  stream(@Req() req: AuthenticatedRequest): Observable<MessageEvent> {
+    if (!req.user?.userId) {
+      throw new BadRequestException('Authenticated user id is missing');
+    }
+
+    return from(this.tenantService.getTenantForUser(req.user.userId)).pipe(
+      switchMap((tenant) => this.eventsService.streamForTenant(tenant.id)),
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+
+import { TenantModule } from '../tenant/tenant.module';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+
+@Global()
+@Module({
+  imports: [PassportModule, TenantModule],
+  controllers: [EventsController],
+  providers: [EventsService],
+  exports: [EventsService],
+})
+export class EventsModule {}
@@ -0,0 +1,52 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { filter, interval, map, merge, Observable, Subject } from 'rxjs';
+
+export type TenantEventType =
+  | 'conversation.message_logged'
+  | 'conversation.status_changed'
+  | 'conversation.tagged'
+  | 'scheduled_message.sent'
+  | 'scheduled_message.failed'
+  | 'sync.progress'
+  | 'rag.sync.progress'
+  | 'upsell.accepted'
+  | 'task.created'
+  | 'escalation.updated';
+
+export interface TenantEvent {
+  tenantId: string;
+  type: TenantEventType;
+  data: Record<string, unknown>;
+}
+
+/**
+ * In-process event bus feeding the dashboard's SSE stream. Events are only delivered to clients
+ * connected to the same backend instance that published them.
+ */
+@Injectable()
+export class EventsService {
+  private readonly logger = new Logger(EventsService.name);
+  private readonly events$ = new Subject<TenantEvent>();
+  // Keeps idle connections open through proxies that close silent streams
+  private readonly heartbeatIntervalMs = 25000;
+
+  publish(tenantId: string, type: TenantEventType, data: Record<string, unknown> = {}): void {
+    try {
+      this.events$.next({ tenantId, type, data });
+    } catch (error) {
+      this.logger.warn(`Failed to publish ${type} event for tenant ${tenantId}`, error as Error);
+    }
+  }
+
+  streamForTenant(tenantId: string): Observable<MessageEvent> {
+    const tenantEvents$ = this.events$.pipe(
+      filter((event) => event.tenantId === tenantId),
+      map((event) => ({ type: event.type, data: event.data })),
+    );
+    const heartbeat$ = interval(this.heartbeatIntervalMs).pipe(
+      map(() => ({ type: 'heartbeat', data: {} })),
+    );
+
+    return merge(tenantEvents$, heartbeat$);
+  }
+}
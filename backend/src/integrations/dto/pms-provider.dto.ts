@@ -0,0 +1,5 @@
+import { PmsProviderKind } from '@saas-automation/shared-types';
+
+export class PmsProviderDto {
+  provider: PmsProviderKind;
+}
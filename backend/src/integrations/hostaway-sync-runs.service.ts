@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import {
+  HostawaySyncMode,
+  HostawaySyncRun,
+  HostawaySyncRunStatus,
+} from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+
+export interface HostawaySyncStats {
+  fetched: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  errors: number;
+}
+
+interface HostawaySyncRunRow {
+  id: string;
+  reason: string;
+  mode: HostawaySyncMode;
+  status: HostawaySyncRunStatus;
+  cursor_from: Date | null;
+  cursor_to: Date | null;
+  fetched: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  errors: number;
+  error: string | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * History of Hostaway reservation syncs. The latest completed run's `cursor_to` is where the next
+ * incremental sync picks up.
+ */
+@Injectable()
+export class HostawaySyncRunsService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async start(
+    tenantId: string,
+    run: { reason: string; mode: HostawaySyncMode; cursorFrom: Date | null; startedAt: Date },
+  ): Promise<string> {
+    const { rows } = await this.databaseService.runQuery<{ id: string }>(
+      `insert into public.hostaway_sync_runs (tenant_id, reason, mode, cursor_from, started_at)
+       values ($1, $2, $3, $4, $5)
+       returning id`,
+      [
+        tenantId,
+        run.reason,
+        run.mode,
+        run.cursorFrom?.toISOString() ?? null,
+        run.startedAt.toISOString(),
+      ],
+    );
+    return rows[0].id;
+  }
+
+  async finish(
+    runId: string,
+    result: {
+      status: Exclude<HostawaySyncRunStatus, 'running'>;
+      stats: HostawaySyncStats;
+      cursorTo: Date | null;
+      error?: string | null;
+    },
+  ): Promise<void> {
+    const { stats } = result;
+    await this.databaseService.runQuery(
+      `update public.hostaway_sync_runs
+          set status = $2,
+              cursor_to = $3,
+              fetched = $4,
+              created = $5,
+              updated = $6,
+              unchanged = $7,
+              cancelled = $8,
+              errors = $9,
+              error = $10,
+              finished_at = now()
+        where id = $1`,
+      [
+        runId,
+        result.status,
+        result.cursorTo?.toISOString() ?? null,
+        stats.fetched,
+        stats.created,
+        stats.updated,
+        stats.unchanged,
+        stats.cancelled,
+        stats.errors,
+        result.error ?? null,
+      ],
+    );
+  }
+
+  /** Where the next incremental sync starts, or null when the tenant needs a full sync. */
+  async getCursor(tenantId: string): Promise<Date | null> {
+    const { rows } = await this.databaseService.runQuery<{ cursor: Date | null }>(
+      `select max(cursor_to) as cursor
+         from public.hostaway_sync_runs
+        where tenant_id = $1
+          and status = 'completed'`,
+      [tenantId],
+    );
+    return rows[0]?.cursor ?? null;
+  }
+
+  async getLastFullSyncAt(tenantId: string): Promise<Date | null> {
+    const { rows } = await this.databaseService.runQuery<{ started_at: Date | null }>(
+      `select max(started_at) as started_at
+         from public.hostaway_sync_runs
+        where tenant_id = $1
+          and mode = 'full'
+          and status = 'completed'`,
+      [tenantId],
+    );
+    return rows[0]?.started_at ?? null;
+  }
+
+  async list(tenantId: string, limit = 20): Promise<HostawaySyncRun[]> {
+    const { rows } = await this.databaseService.runQuery<HostawaySyncRunRow>(
+      `select id, reason, mode, status, cursor_from, cursor_to, fetched, created, updated,
+              unchanged, cancelled, errors, error, started_at, finished_at
+         from public.hostaway_sync_runs
+        where tenant_id = $1
+        order by started_at desc
+        limit $2`,
+      [tenantId, Math.min(Math.max(limit, 1), MAX_PAGE_SIZE)],
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      reason: row.reason,
+      mode: row.mode,
+      status: row.status,
+      cursorFrom: row.cursor_from?.toISOString() ?? null,
+      cursorTo: row.cursor_to?.toISOString() ?? null,
+      fetched: row.fetched,
+      created: row.created,
+      updated: row.updated,
+      unchanged: row.unchanged,
+      cancelled: row.cancelled,
+      errors: row.errors,
+      error: row.error,
+      startedAt: row.started_at.toISOString(),
+      finishedAt: row.finished_at?.toISOString() ?? null,
+    }));
+  }
+}
@@ -9,6 +9,7 @@ import https from 'https';
 
 import { CryptoService } from '../security/crypto.service';
 import { LoggingService } from '../logging/logging.service';
+import { ListingCalendarDay } from '../pms/pms.types';
 import { TenantSummary } from '../tenant/tenant.service';
 
 interface HostawayAccessTokenResponse {
@@ -22,17 +23,29 @@ interface HostawayUnifiedWebhook {
   id: number;
   url: string;
   status: string;
+  login?: string | null;
+}
+
+export interface HostawayWebhookCredentials {
+  login: string;
+  password: string;
 }
 
 type HostawayRecord = Record<string, unknown>;
 
 interface HostawayReservationQuery {
+  listingId?: string;
   arrivalStartDate?: string;
   arrivalEndDate?: string;
+  departureStartDate?: string;
+  departureEndDate?: string;
   reservationStartDate?: string;
   reservationEndDate?: string;
   modifiedStartDate?: string;
   modifiedEndDate?: string;
+  // Reservations with any change (status, dates, guest details) on or after this day
+  latestActivityStart?: string;
+  latestActivityEnd?: string;
   status?: string;
   includeCancelled?: boolean;
   sortOrder?: 'asc' | 'desc';
@@ -155,7 +168,11 @@ export class HostawayClient {
   async ensureUnifiedWebhook(
     accessToken: string,
     webhookUrl: string,
-  ): Promise<{ status: 'already_exists' | 'created'; webhook: HostawayUnifiedWebhook | null }> {
+    credentials?: HostawayWebhookCredentials,
+  ): Promise<{
+    status: 'already_exists' | 'created' | 'updated';
+    webhook: HostawayUnifiedWebhook | null;
+  }> {
     try {
       const existing = await this.listUnifiedWebhooks(accessToken);
 
@@ -164,10 +181,16 @@ export class HostawayClient {
       );
 
       if (match) {
-        return { status: 'already_exists', webhook: match };
+        if (!credentials) {
+          return { status: 'already_exists', webhook: match };
+        }
+
+        // Hostaway never returns the stored password, so always push the current credentials
+        const updated = await this.updateUnifiedWebhook(accessToken, match.id, credentials);
+        return { status: 'updated', webhook: updated ?? match };
       }
 
-      const created = await this.createUnifiedWebhook(accessToken, webhookUrl);
+      const created = await this.createUnifiedWebhook(accessToken, webhookUrl, credentials);
       return { status: 'created', webhook: created };
     } catch (error) {
       const normalized = this.unwrapAxiosError(error);
@@ -200,6 +223,17 @@ export class HostawayClient {
     accessToken: string,
     query: HostawayReservationQuery,
   ): Promise<HostawayRecord[]> {
+    return (await this.listReservationPages(accessToken, query)).records;
+  }
+
+  /**
+   * Pages through the reservations matching `query`. `truncated` is set when the page cap was hit
+   * with more pages left, so callers that reconcile against the full list can tell it is partial.
+   */
+  async listReservationPages(
+    accessToken: string,
+    query: HostawayReservationQuery,
+  ): Promise<{ records: HostawayRecord[]; truncated: boolean }> {
     const accum: HostawayRecord[] = [];
     let page = 1;
     let nextPageToken: string | undefined;
@@ -448,7 +482,8 @@ export class HostawayClient {
       }
     }
 
-    if (page > maxPages) {
+    const truncated = page > maxPages;
+    if (truncated) {
       this.logger.warn(
         `Reached Hostaway pagination cap (${maxPages} pages, ${
           accum.length
@@ -460,7 +495,7 @@ export class HostawayClient {
       );
     }
 
-    return accum;
+    return { records: accum, truncated };
   }
 
   async listAutomationReservationWindow(
@@ -585,7 +620,9 @@ export class HostawayClient {
       return reservation;
     } catch (error) {
       this.logger.error(`Failed to retrieve Hostaway reservation ${reservationId}`, error as Error);
-      throw new InternalServerErrorException('Unable to fetch reservation from Hostaway');
+      throw new InternalServerErrorException('Unable to fetch reservation from Hostaway', {
+        cause: error,
+      });
     }
   }
 
@@ -651,6 +688,56 @@ export class HostawayClient {
     }
   }
 
+  async listListingReservations(
+    tenant: TenantSummary,
+    listingId: string,
+    query: Omit<HostawayReservationQuery, 'listingId'> = {},
+  ): Promise<HostawayRecord[]> {
+    const token = this.decryptAccessToken(tenant);
+    return this.listReservationsWithQuery(token, { ...query, listingId });
+  }
+
+  /** Reads the listing calendar for `startDate`..`endDate` (inclusive, YYYY-MM-DD). */
+  async getListingCalendar(
+    tenant: TenantSummary,
+    listingId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<ListingCalendarDay[]> {
+    const token = this.decryptAccessToken(tenant);
+
+    try {
+      const { data } = await this.api.get(`/v1/listings/${listingId}/calendar`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        params: {
+          startDate,
+          endDate,
+        },
+      });
+
+      return this.normalizeHostawayList(data).map((day) => {
+        const price = Number(day.price);
+        const minimumStay = Number(day.minimumStay);
+        const status = String(day.status ?? '').toLowerCase();
+
+        return {
+          date: this.readString(day, 'date') ?? '',
+          // isAvailable is 0/1; reserved or blocked days can still report 1 on some accounts
+          available: Number(day.isAvailable) === 1 && (!status || status === 'available'),
+          price: Number.isFinite(price) && price > 0 ? price : null,
+          minimumStay: Number.isFinite(minimumStay) && minimumStay > 0 ? minimumStay : null,
+        };
+      });
+    } catch (error) {
+      this.logger.error(`Failed to retrieve Hostaway calendar for ${listingId}`, error as Error);
+      throw new InternalServerErrorException('Unable to fetch listing calendar from Hostaway', {
+        cause: error,
+      });
+    }
+  }
+
   async listUnifiedWebhooks(accessToken: string): Promise<HostawayUnifiedWebhook[]> {
     const { data } = await this.api.get<{ result: HostawayUnifiedWebhook[] }>(
       '/v1/webhooks/unifiedWebhooks',
@@ -728,14 +815,16 @@ export class HostawayClient {
   private async createUnifiedWebhook(
     accessToken: string,
     url: string,
+    credentials?: HostawayWebhookCredentials,
   ): Promise<HostawayUnifiedWebhook | null> {
-    const { data } = await this.api.post(
+    const { data, status } = await this.api.post(
       '/v1/webhooks/unifiedWebhooks',
       {
         url,
         isEnabled: 1,
         events: ['reservation.created', 'reservation.updated', 'message.received'],
         status: 'active',
+        ...(credentials && { login: credentials.login, password: credentials.password }),
       },
       {
         headers: {
@@ -744,9 +833,39 @@ export class HostawayClient {
       },
     );
 
+    if (status >= 400) {
+      throw new Error(`Hostaway rejected webhook registration (HTTP ${status})`);
+    }
+
     return (data?.result ?? data ?? null) as HostawayUnifiedWebhook | null;
   }
 
+  private async updateUnifiedWebhook(
+    accessToken: string,
+    webhookId: number,
+    credentials: HostawayWebhookCredentials,
+  ): Promise<HostawayUnifiedWebhook | null> {
+    const { data, status } = await this.api.put(
+      `/v1/webhooks/unifiedWebhooks/${webhookId}`,
+      {
+        isEnabled: 1,
+        login: credentials.login,
+        password: credentials.password,
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+    );
+
+    if (status >= 400) {
+      throw new Error(`Hostaway rejected webhook update for ${webhookId} (HTTP ${status})`);
+    }
+
+    return (data?.result ?? null) as HostawayUnifiedWebhook | null;
+  }
+
   async getBooking(tenant: TenantSummary, bookingId: string): Promise<unknown> {
     const token = this.decryptAccessToken(tenant);
 
@@ -873,7 +992,9 @@ export class HostawayClient {
         `Failed to send Hostaway message for reservation ${reservationId}`,
         error as Error,
       );
-      throw new InternalServerErrorException('Unable to send message to Hostaway reservation');
+      throw new InternalServerErrorException('Unable to send message to Hostaway reservation', {
+        cause: error,
+      });
     }
   }
 
@@ -946,7 +1067,9 @@ export class HostawayClient {
         `Failed to send Hostaway conversation message for conversation ${conversationId}`,
         error as Error,
       );
-      throw new InternalServerErrorException('Unable to send Hostaway conversation message');
+      throw new InternalServerErrorException('Unable to send Hostaway conversation message', {
+        cause: error,
+      });
     }
   }
 
@@ -4,23 +4,36 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Query,
   Req,
   UseGuards,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 
+import { auditActorFromRequest, AuditService } from '../audit/audit.service';
 import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { RequireEntitlement } from '../entitlements/require-entitlement.decorator';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
 import { IntegrationsService } from './integrations.service';
 import { HostawayIntegrationDto } from './dto/hostaway-integration.dto';
+import { PmsProviderDto } from './dto/pms-provider.dto';
 import { TwilioIntegrationDto } from './dto/twilio-integration.dto';
 
 @Controller('integrations')
 export class IntegrationsController {
-  constructor(private readonly integrationsService: IntegrationsService) {}
+  constructor(
+    private readonly integrationsService: IntegrationsService,
+    private readonly tenantService: TenantService,
+    private readonly auditService: AuditService,
+  ) {}
 
   @Post('hostaway')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  @RequireTenantRole('owner')
   async configureHostaway(
     @Req() req: AuthenticatedRequest,
     @Body() payload: HostawayIntegrationDto,
@@ -30,7 +43,19 @@ export class IntegrationsController {
     }
 
     try {
+      const before = await this.tenantService.getTenantForUser(req.user.userId);
       await this.integrationsService.configureHostaway(req.user.userId, payload);
+      const after = await this.tenantService.getTenantForUser(req.user.userId);
+      await this.auditService.record({
+        tenantId: after.id,
+        actor: auditActorFromRequest(req),
+        action: 'integration.hostaway_configured',
+        targetType: 'integration',
+        targetId: 'hostaway',
+        before: auditedHostawayFields(before),
+        after: auditedHostawayFields(after),
+        redact: ['accessToken'],
+      });
       return {
         status: 'connected',
       };
@@ -41,7 +66,7 @@ export class IntegrationsController {
   }
 
   @Get('hostaway')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
   async getHostawayStatus(@Req() req: AuthenticatedRequest) {
     if (!req.user?.userId) {
       throw new BadRequestException('Authenticated user id is missing');
@@ -51,7 +76,7 @@ export class IntegrationsController {
   }
 
   @Get('hostaway/webhook-status')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
   async getWebhookStatus(@Req() req: AuthenticatedRequest) {
     if (!req.user?.userId) {
       throw new BadRequestException('Authenticated user id is missing');
@@ -61,7 +86,7 @@ export class IntegrationsController {
   }
 
   @Get('hostaway/message-templates')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
   async listHostawayMessageTemplates(
     @Req() req: AuthenticatedRequest,
     @Query('listingMapId') listingMapId?: string,
@@ -80,25 +105,62 @@ export class IntegrationsController {
     });
   }
 
+  @Get('hostaway/sync-runs')
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  async listHostawaySyncRuns(@Req() req: AuthenticatedRequest, @Query('limit') limit?: string) {
+    if (!req.user?.userId) {
+      throw new BadRequestException('Authenticated user id is missing');
+    }
+
+    return this.integrationsService.listHostawaySyncRuns(
+      req.user.userId,
+      limit ? parseInt(limit, 10) || undefined : undefined,
+    );
+  }
+
   @Post('hostaway/resync')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  @RequireTenantRole('manager')
   async triggerResync(@Req() req: AuthenticatedRequest) {
     if (!req.user?.userId) {
       throw new BadRequestException('Authenticated user id is missing');
     }
 
-    return this.integrationsService.triggerResync(req.user.userId);
+    const result = await this.integrationsService.triggerResync(req.user.userId);
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.auditService.record({
+      tenantId: tenant.id,
+      actor: auditActorFromRequest(req),
+      action: 'integration.hostaway_resync_requested',
+      targetType: 'integration',
+      targetId: 'hostaway',
+    });
+    return result;
   }
 
   @Post('twilio')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+  @RequireTenantRole('owner')
+  @RequireEntitlement('whatsapp_delivery')
   async configureTwilio(@Req() req: AuthenticatedRequest, @Body() payload: TwilioIntegrationDto) {
     if (!req.user?.userId) {
       throw new BadRequestException('Authenticated user id is missing');
     }
 
     try {
+      const before = await this.tenantService.getTenantForUser(req.user.userId);
       await this.integrationsService.configureTwilio(req.user.userId, payload);
+      const after = await this.tenantService.getTenantForUser(req.user.userId);
+      await this.auditService.record({
+        tenantId: after.id,
+        actor: auditActorFromRequest(req),
+        action: 'integration.twilio_configured',
+        targetType: 'integration',
+        targetId: 'twilio',
+        before: auditedTwilioFields(before),
+        after: auditedTwilioFields(after),
+        redact: ['authToken'],
+      });
       return {
         status: 'connected',
       };
@@ -109,7 +171,7 @@ export class IntegrationsController {
   }
 
   @Get('twilio')
-  @UseGuards(AuthGuard('supabase'))
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
   async getTwilioStatus(@Req() req: AuthenticatedRequest) {
     if (!req.user?.userId) {
       throw new BadRequestException('Authenticated user id is missing');
@@ -117,4 +179,55 @@ export class IntegrationsController {
 
     return this.integrationsService.getTwilioStatus(req.user.userId);
   }
+
+  @Get('pms-provider')
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  async getPmsProvider(@Req() req: AuthenticatedRequest) {
+    if (!req.user?.userId) {
+      throw new BadRequestException('Authenticated user id is missing');
+    }
+
+    return this.integrationsService.getPmsProvider(req.user.userId);
+  }
+
+  @Put('pms-provider')
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  @RequireTenantRole('owner')
+  async updatePmsProvider(@Req() req: AuthenticatedRequest, @Body() payload: PmsProviderDto) {
+    if (!req.user?.userId) {
+      throw new BadRequestException('Authenticated user id is missing');
+    }
+
+    const before = await this.integrationsService.updatePmsProvider(
+      req.user.userId,
+      payload?.provider,
+    );
+    await this.auditService.record({
+      tenantId: before.id,
+      actor: auditActorFromRequest(req),
+      action: 'integration.pms_provider_changed',
+      targetType: 'integration',
+      targetId: 'pms',
+      before: { provider: before.pmsProvider },
+      after: { provider: payload.provider },
+    });
+
+    return this.integrationsService.getPmsProvider(req.user.userId);
+  }
 }
+
+// Credentials are recorded as redacted so the log shows that they were rotated, never their values
+const auditedHostawayFields = (tenant: TenantSummary) => ({
+  clientId: tenant.hostawayClientId ?? null,
+  accessToken: tenant.encryptedHostawayAccessToken ?? null,
+});
+
+const auditedTwilioFields = (tenant: TenantSummary) => ({
+  accountSid: tenant.twilioAccountSid ?? null,
+  authToken: tenant.encryptedTwilioAuthToken ?? null,
+  messagingServiceSid: tenant.twilioMessagingServiceSid ?? null,
+  whatsappFrom: tenant.twilioWhatsappFrom ?? null,
+  voiceFrom: tenant.twilioVoiceFrom ?? null,
+  staffWhatsappNumber: tenant.twilioStaffWhatsappNumber ?? null,
+  onCallNumber: tenant.twilioOnCallNumber ?? null,
+});
@@ -2,11 +2,17 @@ import { forwardRef, Module } from '@nestjs/common';
 import { PassportModule } from '@nestjs/passport';
 import { ScheduleModule } from '@nestjs/schedule';
 
+import { AuditModule } from '../audit/audit.module';
+import { BookingsModule } from '../bookings/bookings.module';
 import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
 import { TenantModule } from '../tenant/tenant.module';
 import { SchedulingModule } from '../scheduling/scheduling.module';
 import { LoggingModule } from '../logging/logging.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { PmsModule } from '../pms/pms.module';
 import { HostawayClient } from './hostaway.client';
+import { HostawaySyncRunsService } from './hostaway-sync-runs.service';
 import { IntegrationsController } from './integrations.controller';
 import { IntegrationsService } from './integrations.service';
 
@@ -18,9 +24,14 @@ import { IntegrationsService } from './integrations.service';
     forwardRef(() => SchedulingModule),
     LoggingModule,
     DatabaseModule,
+    JobsModule,
+    AuditModule,
+    EntitlementsModule,
+    PmsModule,
+    BookingsModule,
   ],
   controllers: [IntegrationsController],
-  providers: [IntegrationsService, HostawayClient],
+  providers: [IntegrationsService, HostawayClient, HostawaySyncRunsService],
   exports: [IntegrationsService, HostawayClient],
 })
 export class IntegrationsModule {}
@@ -1,18 +1,60 @@
-import { BadRequestException, Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleInit,
+  forwardRef,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
-
+import {
+  HostawaySyncMode,
+  HostawaySyncRun,
+  PMS_PROVIDER_KINDS,
+  PmsProviderKind,
+  PmsProviderOption,
+} from '@saas-automation/shared-types';
+import { randomBytes } from 'crypto';
+import { subDays } from 'date-fns';
+
+import { BookingsService, StoredReservationState } from '../bookings/bookings.service';
 import { CryptoService } from '../security/crypto.service';
 import { DatabaseService } from '../database/database.service';
-import { LoggingService } from '../logging/logging.service';
+import { EventsService } from '../events/events.service';
+import { JobsService } from '../jobs/jobs.service';
+import { mapHostawayReservation } from '../pms/hostaway.mapper';
+import { PmsProviderService } from '../pms/pms-provider.service';
+import { Reservation } from '../pms/pms.types';
 import { SchedulingService } from '../scheduling/scheduling.service';
-import { TenantService } from '../tenant/tenant.service';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
 import { HostawayIntegrationDto } from './dto/hostaway-integration.dto';
 import { TwilioIntegrationDto } from './dto/twilio-integration.dto';
-import { HostawayClient } from './hostaway.client';
+import { HostawayClient, HostawayWebhookCredentials } from './hostaway.client';
+import { HostawaySyncRunsService, HostawaySyncStats } from './hostaway-sync-runs.service';
+
+// Lower-cased Hostaway statuses that hold the calendar. Cancelled, declined and expired
+// reservations and inquiries have no stay to automate.
+const ACTIVE_RESERVATION_STATUSES = new Set([
+  'new',
+  'modified',
+  'ownerstay',
+  'pending',
+  'awaitingpayment',
+  'unconfirmed',
+  'awaitingguestverification',
+]);
+
+// Incremental syncs cannot see reservations deleted in Hostaway, so a full sync reconciles weekly
+const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SYNC_BATCH_SIZE = 10;
+
+type ReservationSyncOutcome = 'created' | 'updated' | 'unchanged' | 'cancelled' | 'skipped';
 
 @Injectable()
-export class IntegrationsService {
+export class IntegrationsService implements OnModuleInit, OnApplicationBootstrap {
   private readonly logger = new Logger(IntegrationsService.name);
 
   constructor(
@@ -21,11 +63,69 @@ export class IntegrationsService {
     private readonly hostawayClient: HostawayClient,
     private readonly configService: ConfigService,
     private readonly databaseService: DatabaseService,
-    private readonly loggingService: LoggingService,
     @Inject(forwardRef(() => SchedulingService))
     private readonly schedulingService: SchedulingService,
+    private readonly jobsService: JobsService,
+    private readonly eventsService: EventsService,
+    private readonly pmsProviderService: PmsProviderService,
+    private readonly bookingsService: BookingsService,
+    private readonly hostawaySyncRunsService: HostawaySyncRunsService,
   ) {}
 
+  onModuleInit(): void {
+    this.jobsService.registerHandler('tenant_sync', async (job) => {
+      if (!job.tenantId) {
+        throw new Error(`Tenant sync job ${job.id} has no tenant`);
+      }
+      const reason = typeof job.payload.reason === 'string' ? job.payload.reason : 'unknown';
+      await this.performHostawaySync(job.tenantId, reason);
+    });
+  }
+
+  onApplicationBootstrap(): void {
+    // Runs in the background so a slow Hostaway API does not hold up startup
+    void this.registerMissingWebhookCredentials();
+  }
+
+  /**
+   * Tenants connected before webhook credentials existed have none stored, so the webhook controller
+   * rejects their deliveries until this registers credentials with Hostaway for them.
+   */
+  async registerMissingWebhookCredentials(): Promise<void> {
+    const webhookUrl = this.configService.get<string>('HOSTAWAY_WEBHOOK_URL');
+    if (!webhookUrl || !this.isValidWebhookUrl(webhookUrl)) {
+      return;
+    }
+
+    try {
+      const { rows } = await this.databaseService.runQuery<{ id: string }>(
+        `select id
+           from public.tenants
+          where encrypted_hostaway_access_token is not null
+            and (hostaway_webhook_login is null or encrypted_hostaway_webhook_password is null)`,
+      );
+
+      for (const row of rows) {
+        await this.ensureWebhookCredentials(await this.tenantService.getTenantById(row.id));
+      }
+    } catch (error) {
+      this.logger.error('Failed to register missing Hostaway webhook credentials', error as Error);
+    }
+  }
+
+  /**
+   * Queues a Hostaway sync for the tenant. A sync that is already queued or running is not
+   * duplicated.
+   */
+  async enqueueHostawaySync(tenantId: string, reason: string): Promise<void> {
+    await this.jobsService.enqueue(
+      'tenant_sync',
+      tenantId,
+      { reason },
+      { dedupeKey: `tenant_sync:${tenantId}` },
+    );
+  }
+
   async listHostawayMessageTemplates(
     userId: string,
     query: {
@@ -106,7 +206,8 @@ export class IntegrationsService {
         }
 
         try {
-          const webhookResult = await this.hostawayClient.ensureUnifiedWebhook(
+          const webhookResult = await this.registerAuthenticatedWebhook(
+            tenant,
             accessToken,
             webhookUrl,
           );
@@ -157,12 +258,9 @@ export class IntegrationsService {
         encryptedAccessToken: encryptedToken,
       });
 
-      // Run initial sync in background to avoid blocking the connection response
+      // Run initial sync as a background job to avoid blocking the connection response
       // This allows the connection to complete successfully even if sync takes a while
-      await this.tenantService.getTenantById(tenant.id);
-      setImmediate(async () => {
-        await this.performHostawaySync(tenant.id, accessToken);
-      });
+      await this.enqueueHostawaySync(tenant.id, 'initial_connect');
     } catch (error) {
       await this.updateSyncStatus(
         tenant.id,
@@ -175,10 +273,14 @@ export class IntegrationsService {
   }
 
   /**
-   * Perform Hostaway sync - fetches and processes all future reservations
-   * Updates sync status in database throughout the process
+   * Syncs the tenant's Hostaway reservations and records the run in hostaway_sync_runs.
+   *
+   * Runs are incremental: only reservations with activity since the last completed run are
+   * fetched, and ones whose Hostaway activity time matches the stored booking are skipped. The
+   * first sync, and one a week after that, is a full sync of every reservation that has not
+   * departed, which also cancels bookings that were removed from Hostaway outright.
    */
-  async performHostawaySync(tenantId: string, accessToken?: string): Promise<void> {
+  async performHostawaySync(tenantId: string, reason: string, accessToken?: string): Promise<void> {
     const tenant = await this.tenantService.getTenantById(tenantId);
     if (!tenant.encryptedHostawayAccessToken) {
       this.logger.warn(`Cannot sync tenant ${tenantId}: no Hostaway access token`);
@@ -187,276 +289,224 @@ export class IntegrationsService {
 
     const token = accessToken ?? this.cryptoService.decrypt(tenant.encryptedHostawayAccessToken);
 
+    const startedAt = new Date();
+    const cursor = await this.hostawaySyncRunsService.getCursor(tenantId);
+    const lastFullSyncAt = await this.hostawaySyncRunsService.getLastFullSyncAt(tenantId);
+    const mode: HostawaySyncMode =
+      cursor &&
+      lastFullSyncAt &&
+      startedAt.getTime() - lastFullSyncAt.getTime() < FULL_SYNC_INTERVAL_MS
+        ? 'incremental'
+        : 'full';
+    const cursorFrom = mode === 'incremental' ? cursor : null;
+
+    const stats: HostawaySyncStats = {
+      fetched: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      cancelled: 0,
+      errors: 0,
+    };
+    const runId = await this.hostawaySyncRunsService.start(tenantId, {
+      reason,
+      mode,
+      cursorFrom,
+      startedAt,
+    });
+
     try {
-      // Set status to syncing
       await this.updateSyncStatus(tenantId, 'syncing', null, null);
-
-      // Fetch ALL future reservations (no date limit) - filter by valid statuses
-      const automationTimezone =
-        this.configService.get<string>('HOSTAWAY_AUTOMATION_TIMEZONE') ?? 'Europe/London';
-      const now = new Date();
-      const zonedNow = new Date(
-        now.toLocaleString('en-US', {
-          timeZone: automationTimezone,
-        }),
+      this.logger.log(
+        `Starting ${mode} Hostaway sync for tenant ${tenantId} (${reason})${
+          cursorFrom ? ` from ${cursorFrom.toISOString()}` : ''
+        }`,
       );
-      const today = zonedNow.toISOString().split('T')[0];
-
-      this.logger.log(`Starting Hostaway sync for tenant ${tenantId} from ${today}...`);
-
-      // Calculate date 7 days ago for fetching active stays
-      const sevenDaysAgo = new Date(zonedNow);
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const sevenDaysAgoStr = sevenDaysAgo.toISOString().split('T')[0];
-
-      // Fetch reservations in two batches:
-      // 1. Future reservations (from today onwards)
-      // 2. Recent reservations (last 7 days) to catch active stays
-      const [futureReservations, recentReservations] = await Promise.all([
-        this.hostawayClient.listReservationsWithQuery(token, {
-          arrivalStartDate: today,
-        }),
-        this.hostawayClient.listReservationsWithQuery(token, {
-          arrivalStartDate: sevenDaysAgoStr,
-          arrivalEndDate: today,
-        }),
-      ]);
-
-      // Combine and deduplicate by reservation ID
-      const reservationMap = new Map<string, Record<string, unknown>>();
-      for (const reservation of futureReservations) {
-        const id = String(reservation.id ?? reservation.reservationId ?? '');
-        if (id) {
-          reservationMap.set(id, reservation);
-        }
+
+      const { reservations, truncated } = await this.fetchHostawayReservations(token, cursorFrom);
+      if (truncated) {
+        this.logger.warn(
+          `Hostaway returned more reservations than the page cap for tenant ${tenantId}; syncing the partial list without removing bookings or advancing the cursor`,
+        );
       }
-      for (const reservation of recentReservations) {
-        const id = String(reservation.id ?? reservation.reservationId ?? '');
-        if (id && !reservationMap.has(id)) {
-          // Only include recent reservations that haven't checked out yet
-          // If check-out date can't be determined, include it anyway to be safe
-          const departureDate =
-            reservation.departureDate ??
-            reservation.departure_date ??
-            reservation.checkOut ??
-            reservation.check_out;
-          if (!departureDate) {
-            // No check-out date, include it to be safe (might be active stay)
-            reservationMap.set(id, reservation);
-          } else {
-            const checkOutDate = new Date(String(departureDate));
-            if (!isNaN(checkOutDate.getTime()) && checkOutDate >= now) {
-              reservationMap.set(id, reservation);
-            }
+      stats.fetched = reservations.length;
+      const stored = await this.bookingsService.findReservationStates(
+        tenantId,
+        reservations.map((reservation) => reservation.id),
+      );
+
+      for (let i = 0; i < reservations.length; i += SYNC_BATCH_SIZE) {
+        const batch = reservations.slice(i, i + SYNC_BATCH_SIZE);
+        const results = await Promise.allSettled(
+          batch.map((reservation) =>
+            this.syncHostawayReservation(tenant, reservation, stored.get(reservation.id) ?? null),
+          ),
+        );
+
+        results.forEach((result, index) => {
+          if (result.status === 'rejected') {
+            stats.errors += 1;
+            this.logger.error(
+              `Failed to sync reservation ${batch[index].id} (tenant ${tenantId})`,
+              result.reason as Error,
+            );
+          } else if (result.value !== 'skipped') {
+            stats[result.value] += 1;
           }
+        });
+
+        const processed = i + batch.length;
+        this.eventsService.publish(tenantId, 'sync.progress', {
+          status: 'syncing',
+          processed,
+          total: reservations.length,
+          succeeded: processed - stats.errors,
+          failed: stats.errors,
+        });
+
+        // Small delay between batches to avoid rate limits
+        if (processed < reservations.length) {
+          await new Promise((resolve) => setTimeout(resolve, 200));
         }
       }
 
-      const allReservations = Array.from(reservationMap.values());
-
-      // Filter to only include statuses that represent confirmed bookings or potential bookings
-      // Statuses that block calendar: new, modified, ownerStay, pending, awaitingPayment, unconfirmed, awaitingGuestVerification
-      // Statuses to exclude: cancelled, inquiry*, declined, expired, unknown
-      const validStatuses = new Set([
-        'new',
-        'modified',
-        'ownerStay',
-        'pending',
-        'awaitingPayment',
-        'unconfirmed',
-        'awaitingGuestVerification',
-      ]);
-
-      const reservations = allReservations.filter((reservation) => {
-        const status = String(reservation.status || '').toLowerCase();
-        return validStatuses.has(status);
+      // A partial list would make every booking past the page cap look removed
+      if (mode === 'full' && !truncated) {
+        stats.cancelled += await this.cancelRemovedReservations(tenant, reservations);
+      }
+
+      // A run with failures or a partial list leaves the cursor where it was so the next run
+      // fetches the rest again
+      await this.hostawaySyncRunsService.finish(runId, {
+        status: 'completed',
+        stats,
+        cursorTo: stats.errors === 0 && !truncated ? startedAt : null,
       });
 
       this.logger.log(
-        `Hostaway sync for tenant ${tenantId} (${automationTimezone}): fetched ${futureReservations.length} future + ${recentReservations.length} recent reservations, ${allReservations.length} total unique, ${reservations.length} with valid statuses (from ${sevenDaysAgoStr} onwards)`,
+        `Hostaway ${mode} sync completed for tenant ${tenantId}: ${JSON.stringify(stats)}`,
       );
-
-      // Log sample reservations (first 5) with date fields to verify date parsing
-      // This helps debug date format issues
-      const sampleReservations = reservations.slice(0, 5);
-      for (const reservation of sampleReservations) {
-        const reservationId = String(reservation.id ?? reservation.reservationId ?? 'unknown');
-        const logData: Record<string, unknown> = {
-          reservationId,
-          id: reservation.id,
-          status: reservation.status,
-          arrivalDate: reservation.arrivalDate,
-          departureDate: reservation.departureDate,
-          reservationDate: reservation.reservationDate,
-          checkInTime: reservation.checkInTime,
-          checkOutTime: reservation.checkOutTime,
-          listingTimeZoneName:
-            typeof reservation.listingTimeZoneName === 'function'
-              ? '[Function]'
-              : reservation.listingTimeZoneName,
-          timezone:
-            typeof reservation.timezone === 'function' ? '[Function]' : reservation.timezone,
-          // Include all top-level keys for reference
-          availableKeys: reservation ? Object.keys(reservation).slice(0, 50) : [],
-        };
-
-        // Log reservation data for debugging date formats to file
-        // This will be written to logs/general/app-YYYY-MM-DD.log
-        this.loggingService.logApiResponse('Hostaway', `/v1/reservations (initial-sync-sample)`, {
-          reservationData: logData,
-          dateFields: {
-            arrivalDate: reservation.arrivalDate,
-            departureDate: reservation.departureDate,
-            reservationDate: reservation.reservationDate,
-            checkInTime: reservation.checkInTime,
-            checkOutTime: reservation.checkOutTime,
-            listingTimeZoneName: reservation.listingTimeZoneName,
-          },
-        });
-      }
-
-      if (reservations.length > 0) {
-        // Process ALL future valid reservations (no date limit)
-        // This ensures we capture all reservations even if they're far in the future
-        // Optimizations: listing caching, batch processing, and rate limit handling prevent overwhelming the API
-
-        this.logger.log(
-          `Processing all ${reservations.length} valid future reservations for tenant ${tenantId}`,
+      await this.updateSyncStatus(tenantId, 'completed', new Date(), null);
+    } catch (syncError) {
+      const errorMessage = syncError instanceof Error ? syncError.message : String(syncError);
+      this.logger.error(`Hostaway sync failed for tenant ${tenantId}`, syncError as Error);
+      await this.hostawaySyncRunsService
+        .finish(runId, { status: 'failed', stats, cursorTo: null, error: errorMessage })
+        .catch((error) =>
+          this.logger.error(`Failed to record sync run ${runId} (tenant ${tenantId})`, error),
         );
+      await this.updateSyncStatus(tenantId, 'failed', null, errorMessage);
+      // Re-throw so the job queue can retry the sync
+      throw syncError;
+    }
+  }
 
-        // Process reservations in batches with progress logging
-        const batchSize = 10;
-        const totalBatches = Math.ceil(reservations.length / batchSize);
-        let processedCount = 0;
-
-        let successCount = 0;
-        let failureCount = 0;
-        const failures: Array<{ reservationId: string | undefined; error: string }> = [];
-
-        for (let i = 0; i < reservations.length; i += batchSize) {
-          const batch = reservations.slice(i, i + batchSize);
-          const batchNum = Math.floor(i / batchSize) + 1;
-
-          // Track reservation IDs to detect duplicates in the same sync
-          const reservationIdsInBatch = new Set<string>();
-          for (const reservation of batch) {
-            const reservationId =
-              reservation?.id?.toString() ?? reservation?.reservationId?.toString();
-            if (reservationId) {
-              if (reservationIdsInBatch.has(reservationId)) {
-                this.logger.warn(
-                  `Duplicate reservation ${reservationId} detected in the same batch - this will cause duplicate message skips`,
-                );
-              }
-              reservationIdsInBatch.add(reservationId);
-            }
-          }
+  async listHostawaySyncRuns(userId: string, limit?: number): Promise<HostawaySyncRun[]> {
+    const tenant = await this.tenantService.getTenantForUser(userId);
+    return this.hostawaySyncRunsService.list(tenant.id, limit);
+  }
 
-          // Process each reservation with error handling to prevent one failure from breaking the batch
-          const results = await Promise.allSettled(
-            batch.map((reservation) =>
-              this.schedulingService
-                .scheduleProactiveMessagesFromReservation(tenant, reservation, {
-                  initialSync: true,
-                })
-                .catch((error) => {
-                  const reservationId =
-                    reservation?.id?.toString() ??
-                    reservation?.reservationId?.toString() ??
-                    'unknown';
-                  this.logger.error(
-                    `Failed to process reservation ${reservationId} during sync (tenant ${tenantId})`,
-                    error as Error,
-                  );
-                  failures.push({
-                    reservationId: reservationId !== 'unknown' ? reservationId : undefined,
-                    error: error instanceof Error ? error.message : String(error),
-                  });
-                  throw error; // Re-throw to mark as rejected in Promise.allSettled
-                }),
-            ),
-          );
+  /**
+   * Reservations with activity since `since`, or every reservation that has not departed when
+   * there is no cursor. Cancelled reservations are included so their bookings can be cancelled.
+   * `truncated` is set when Hostaway had more than the client's page cap.
+   */
+  private async fetchHostawayReservations(
+    token: string,
+    since: Date | null,
+  ): Promise<{ reservations: Reservation[]; truncated: boolean }> {
+    const { records, truncated } = await this.hostawayClient.listReservationPages(
+      token,
+      since
+        ? // The filter is day-granular; reservations seen again are skipped as unchanged
+          { latestActivityStart: since.toISOString().slice(0, 10), includeCancelled: true }
+        : {
+            // A day early so stays departing today in timezones behind UTC are included
+            departureStartDate: subDays(new Date(), 1).toISOString().slice(0, 10),
+            includeCancelled: true,
+          },
+    );
 
-          const batchSuccesses = results.filter((r) => r.status === 'fulfilled').length;
-          const batchFailures = results.filter((r) => r.status === 'rejected').length;
-          successCount += batchSuccesses;
-          failureCount += batchFailures;
-          processedCount += batch.length;
+    const reservations = new Map<string, Reservation>();
+    for (const record of records) {
+      const reservation = mapHostawayReservation(record);
+      if (reservation.id) {
+        reservations.set(reservation.id, reservation);
+      }
+    }
+    return { reservations: Array.from(reservations.values()), truncated };
+  }
 
-          // Log progress every 10 batches or every 50 reservations, whichever comes first
-          if (batchNum % 10 === 0 || processedCount % 50 === 0 || batchNum === totalBatches) {
-            this.logger.log(
-              `Sync progress: ${processedCount}/${reservations.length} reservations processed (${batchNum}/${totalBatches} batches) - ${successCount} succeeded, ${failureCount} failed`,
-            );
-          }
+  private async syncHostawayReservation(
+    tenant: TenantSummary,
+    reservation: Reservation,
+    stored: StoredReservationState | null,
+  ): Promise<ReservationSyncOutcome> {
+    // Departed stays have nothing left to automate
+    if (reservation.checkOutAt && reservation.checkOutAt.getTime() < Date.now()) {
+      return 'skipped';
+    }
 
-          // Small delay between batches to avoid rate limits
-          if (i + batchSize < reservations.length) {
-            await new Promise((resolve) => setTimeout(resolve, 200));
-          }
-        }
+    if (!ACTIVE_RESERVATION_STATUSES.has(reservation.status ?? '')) {
+      if (!stored) {
+        // Inquiries and declined requests never became bookings
+        return 'skipped';
+      }
+      if (!ACTIVE_RESERVATION_STATUSES.has(stored.status)) {
+        return 'unchanged';
+      }
 
-        // Log summary of failures if any
-        if (failures.length > 0) {
-          this.logger.warn(
-            `Sync completed with ${failures.length} failures. First 10 failures: ${JSON.stringify(
-              failures.slice(0, 10),
-            )}`,
-          );
-        }
+      await this.bookingsService.syncReservation(tenant, reservation);
+      await this.schedulingService.handleReservationCancellation(tenant, reservation.id);
+      await this.schedulingService.queueStatusChangeAutomations(tenant, reservation, stored.status);
+      return 'cancelled';
+    }
 
-        // Count actual bookings and conversations created
-        const bookingCountResult = await this.databaseService.runQuery<{ count: string }>(
-          `select count(*) as count from public.bookings where tenant_id = $1`,
-          [tenantId],
-        );
-        const bookingCount = parseInt(bookingCountResult.rows[0]?.count ?? '0', 10);
+    if (
+      stored &&
+      stored.status === reservation.status &&
+      stored.pmsUpdatedAt &&
+      reservation.updatedAt &&
+      stored.pmsUpdatedAt.getTime() >= reservation.updatedAt.getTime()
+    ) {
+      return 'unchanged';
+    }
 
-        const conversationCountResult = await this.databaseService.runQuery<{ count: string }>(
-          `select count(*) as count from public.conversations where tenant_id = $1`,
-          [tenantId],
-        );
-        const conversationCount = parseInt(conversationCountResult.rows[0]?.count ?? '0', 10);
+    await this.schedulingService.scheduleProactiveMessagesFromReservation(tenant, reservation, {
+      initialSync: true,
+    });
+    return stored ? 'updated' : 'created';
+  }
 
-        // Count unique properties/listings
-        const propertyCountResult = await this.databaseService.runQuery<{ count: string }>(
-          `select count(distinct external_id) as count from public.properties where tenant_id = $1`,
-          [tenantId],
-        );
-        const propertyCount = parseInt(propertyCountResult.rows[0]?.count ?? '0', 10);
-
-        // Check how many unique listing IDs were in the reservations
-        const uniqueListingIds = new Set<string>();
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        reservations.forEach((r: any) => {
-          const listingId =
-            r.listingMapId ||
-            r.listing_map_id ||
-            r.listingId ||
-            r.listing_id ||
-            r.propertyId ||
-            r.property_id;
-          if (listingId) {
-            uniqueListingIds.add(String(listingId));
-          }
-        });
+  /**
+   * Cancels upcoming bookings a full sync did not return; Hostaway deletes some reservations
+   * instead of cancelling them, and those never show up as activity.
+   */
+  private async cancelRemovedReservations(
+    tenant: TenantSummary,
+    fetched: Reservation[],
+  ): Promise<number> {
+    // An empty response is far more likely an API problem than every booking disappearing
+    if (fetched.length === 0) {
+      return 0;
+    }
 
-        this.logger.log(
-          `Hostaway sync completed for tenant ${tenantId}: processed ${reservations.length} reservations (${successCount} succeeded, ${failureCount} failed), created ${bookingCount} bookings, ${conversationCount} conversations, ${propertyCount} properties (${uniqueListingIds.size} unique listing IDs in reservations)`,
-        );
-      } else {
-        this.logger.log(
-          `No Hostaway reservations with valid statuses found for tenant ${tenantId}.`,
-        );
-      }
+    const fetchedIds = new Set(fetched.map((reservation) => reservation.id));
+    const removed = (await this.bookingsService.listActiveReservationIds(tenant.id)).filter(
+      (reservationId) => !fetchedIds.has(reservationId),
+    );
+    if (removed.length === 0) {
+      return 0;
+    }
 
-      // Update status to completed
-      await this.updateSyncStatus(tenantId, 'completed', new Date(), null);
-    } catch (syncError) {
-      const errorMessage = syncError instanceof Error ? syncError.message : String(syncError);
-      this.logger.error(`Hostaway sync failed for tenant ${tenantId}`, syncError as Error);
-      await this.updateSyncStatus(tenantId, 'failed', null, errorMessage);
+    this.logger.warn(
+      `Cancelling ${removed.length} bookings no longer returned by Hostaway (tenant ${tenant.id})`,
+    );
+    await this.bookingsService.markCancelled(tenant.id, removed);
+    for (const reservationId of removed) {
+      await this.schedulingService.handleReservationCancellation(tenant, reservationId);
     }
+    return removed.length;
   }
 
   /**
@@ -493,6 +543,12 @@ export class IntegrationsService {
     } catch (error) {
       this.logger.error(`Failed to update sync status for tenant ${tenantId}`, error as Error);
     }
+
+    this.eventsService.publish(tenantId, 'sync.progress', {
+      status,
+      lastSyncAt: lastSyncAt ? lastSyncAt.toISOString() : null,
+      error,
+    });
   }
 
   /**
@@ -505,10 +561,10 @@ export class IntegrationsService {
       throw new BadRequestException('Hostaway integration is not configured');
     }
 
-    // Run sync in background
-    setImmediate(async () => {
-      await this.performHostawaySync(tenant.id);
-    });
+    // Tenants connected before webhook credentials existed get them on their next re-sync
+    await this.ensureWebhookCredentials(tenant);
+
+    await this.enqueueHostawaySync(tenant.id, 'manual_resync');
 
     return {
       status: 'syncing',
@@ -538,18 +594,17 @@ export class IntegrationsService {
       const tenants = tenantsResult.rows;
       this.logger.log(`Found ${tenants.length} tenants with Hostaway integration for daily sync`);
 
-      // Sync each tenant
+      // Queue a sync job per tenant; the job worker handles retries
       for (const tenant of tenants) {
         try {
-          this.logger.log(`Starting daily sync for tenant ${tenant.id}`);
-          await this.performHostawaySync(tenant.id);
+          await this.enqueueHostawaySync(tenant.id, 'daily');
         } catch (error) {
-          this.logger.error(`Daily sync failed for tenant ${tenant.id}`, error as Error);
+          this.logger.error(`Failed to queue daily sync for tenant ${tenant.id}`, error as Error);
           // Continue with other tenants even if one fails
         }
       }
 
-      this.logger.log(`Daily Hostaway sync completed for ${tenants.length} tenants`);
+      this.logger.log(`Queued daily Hostaway sync for ${tenants.length} tenants`);
     } catch (error) {
       this.logger.error('Daily sync job failed', error as Error);
     }
@@ -611,6 +666,7 @@ export class IntegrationsService {
     webhookUrl: string | null;
     webhookConfigured: boolean;
     webhookRegistered: boolean;
+    webhookAuthenticated: boolean;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     webhookDetails: any | null;
   }> {
@@ -640,10 +696,76 @@ export class IntegrationsService {
       webhookUrl,
       webhookConfigured,
       webhookRegistered,
+      webhookAuthenticated: Boolean(
+        tenant.hostawayWebhookLogin && tenant.encryptedHostawayWebhookPassword,
+      ),
       webhookDetails,
     };
   }
 
+  /**
+   * Registers (or updates) the unified webhook with the tenant's basic-auth credentials.
+   */
+  private async registerAuthenticatedWebhook(
+    tenant: TenantSummary,
+    accessToken: string,
+    webhookUrl: string,
+  ): Promise<Awaited<ReturnType<HostawayClient['ensureUnifiedWebhook']>>> {
+    const credentials = this.resolveWebhookCredentials(tenant);
+    const result = await this.hostawayClient.ensureUnifiedWebhook(
+      accessToken,
+      webhookUrl,
+      credentials,
+    );
+
+    // Only persist the credentials once Hostaway has accepted them, otherwise every delivery
+    // would be rejected by the webhook controller
+    await this.tenantService.updateHostawayIntegration(tenant.id, {
+      webhookLogin: credentials.login,
+      encryptedWebhookPassword: this.cryptoService.encrypt(credentials.password),
+    });
+
+    return result;
+  }
+
+  /** Registers webhook credentials for a connected tenant that has none stored. Never throws. */
+  private async ensureWebhookCredentials(tenant: TenantSummary): Promise<void> {
+    const webhookUrl = this.configService.get<string>('HOSTAWAY_WEBHOOK_URL');
+    if (
+      !webhookUrl ||
+      !this.isValidWebhookUrl(webhookUrl) ||
+      !tenant.encryptedHostawayAccessToken ||
+      (tenant.hostawayWebhookLogin && tenant.encryptedHostawayWebhookPassword)
+    ) {
+      return;
+    }
+
+    try {
+      const accessToken = this.cryptoService.decrypt(tenant.encryptedHostawayAccessToken);
+      await this.registerAuthenticatedWebhook(tenant, accessToken, webhookUrl);
+      this.logger.log(`Registered Hostaway webhook credentials for tenant ${tenant.id}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to register Hostaway webhook credentials for tenant ${tenant.id}`,
+        error as Error,
+      );
+    }
+  }
+
+  private resolveWebhookCredentials(tenant: TenantSummary): HostawayWebhookCredentials {
+    if (tenant.hostawayWebhookLogin && tenant.encryptedHostawayWebhookPassword) {
+      return {
+        login: tenant.hostawayWebhookLogin,
+        password: this.cryptoService.decrypt(tenant.encryptedHostawayWebhookPassword),
+      };
+    }
+
+    return {
+      login: `tenant-${randomBytes(6).toString('hex')}`,
+      password: randomBytes(24).toString('base64url'),
+    };
+  }
+
   private isValidWebhookUrl(url: string): boolean {
     try {
       const parsedUrl = new URL(url);
@@ -701,4 +823,30 @@ export class IntegrationsService {
       onCallNumber: tenant.twilioOnCallNumber ?? null,
     };
   }
+
+  async getPmsProvider(userId: string): Promise<{
+    provider: PmsProviderKind;
+    providers: PmsProviderOption[];
+  }> {
+    const tenant = await this.tenantService.getTenantForUser(userId);
+    return {
+      provider: tenant.pmsProvider,
+      providers: this.pmsProviderService.listProviders(),
+    };
+  }
+
+  async updatePmsProvider(userId: string, provider: unknown): Promise<TenantSummary> {
+    if (!PMS_PROVIDER_KINDS.includes(provider as PmsProviderKind)) {
+      throw new BadRequestException(`provider must be one of: ${PMS_PROVIDER_KINDS.join(', ')}`);
+    }
+
+    const kind = provider as PmsProviderKind;
+    if (!this.pmsProviderService.isAvailable(kind)) {
+      throw new BadRequestException(`${kind} is not supported yet`);
+    }
+
+    const tenant = await this.tenantService.getTenantForUser(userId);
+    await this.tenantService.updatePmsProvider(tenant.id, kind);
+    return tenant;
+  }
 }
@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { JobRecord, JobsService } from './jobs.service';
+
+@Injectable()
+export class JobProcessorService {
+  private readonly logger = new Logger(JobProcessorService.name);
+  // Long-running syncs must not block webhook events, so jobs run concurrently up to this limit
+  private readonly concurrency = 5;
+  private readonly inFlight = new Set<string>();
+  private isClaiming = false;
+
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async processJobs(): Promise<void> {
+    const capacity = this.concurrency - this.inFlight.size;
+    if (this.isClaiming || capacity <= 0) {
+      return;
+    }
+
+    this.isClaiming = true;
+    let claimed: JobRecord[] = [];
+    try {
+      claimed = await this.jobsService.claimJobs(capacity);
+    } catch (error) {
+      this.logger.error('Failed to claim jobs', error as Error);
+    } finally {
+      this.isClaiming = false;
+    }
+
+    for (const job of claimed) {
+      this.inFlight.add(job.id);
+      void this.runJob(job).finally(() => this.inFlight.delete(job.id));
+    }
+  }
+
+  private async runJob(job: JobRecord): Promise<void> {
+    const handler = this.jobsService.getHandler(job.kind);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job kind ${job.kind}`);
+      }
+
+      this.logger.debug(
+        `Running job ${job.id} (${job.kind}) attempt ${job.attempts}/${job.maxAttempts}`,
+      );
+      await handler(job);
+      await this.jobsService.markCompleted(job);
+    } catch (error) {
+      try {
+        await this.jobsService.markFailed(
+          job,
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      } catch (markError) {
+        this.logger.error(`Failed to record failure for job ${job.id}`, markError as Error);
+      }
+    }
+  }
+}
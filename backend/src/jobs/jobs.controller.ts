@@ -0,0 +1,33 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+import { SuperAdminGuard } from '../auth/super-admin.guard';
+import { JobKind, JobStatus, JobsService } from './jobs.service';
+
+@Controller('admin/jobs')
+@UseGuards(AuthGuard('supabase'), SuperAdminGuard)
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  async listJobs(
+    @Query('status') status?: JobStatus,
+    @Query('kind') kind?: JobKind,
+    @Query('tenantId') tenantId?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    return this.jobsService.listJobs({
+      status,
+      kind,
+      tenantId,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Post(':id/replay')
+  async replayJob(@Param('id') jobId: string) {
+    return this.jobsService.replayJob(jobId);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { ScheduleModule } from '@nestjs/schedule';
+
+import { DatabaseModule } from '../database/database.module';
+import { JobProcessorService } from './job.processor.service';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+
+@Module({
+  imports: [PassportModule, ScheduleModule, DatabaseModule],
+  controllers: [JobsController],
+  providers: [JobsService, JobProcessorService],
+  exports: [JobsService],
+})
+export class JobsModule {}
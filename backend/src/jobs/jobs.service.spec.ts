@@ -0,0 +1,126 @@
+import { Test } from '@nestjs/testing';
+
+import { DatabaseService } from '../database/database.service';
+import { JobRecord, JobsService } from './jobs.service';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+const job = (attempts: number, maxAttempts = 5): JobRecord => ({
+  id: 'job-1',
+  tenantId: 'tenant-1',
+  kind: 'tenant_sync',
+  payload: {},
+  status: 'processing',
+  attempts,
+  maxAttempts,
+  runAt: NOW,
+  lockedAt: NOW,
+  lastError: null,
+  dedupeKey: null,
+  completedAt: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+describe('JobsService', () => {
+  let service: JobsService;
+  const runQuery = jest.fn();
+
+  beforeAll(async () => {
+    const app = await Test.createTestingModule({
+      providers: [JobsService, { provide: DatabaseService, useValue: { runQuery } }],
+    }).compile();
+
+    service = app.get<JobsService>(JobsService);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+    runQuery.mockReset().mockResolvedValue({ rows: [], rowCount: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('claimJobs', () => {
+    it('dead-letters stale jobs on their last attempt before reclaiming the rest', async () => {
+      await service.claimJobs(10);
+
+      const [[deadLetterSql, deadLetterParams], [claimSql, claimParams]] = runQuery.mock.calls;
+      expect(deadLetterSql).toContain("set status = 'dead'");
+      expect(deadLetterSql).toContain('attempts >= max_attempts');
+      expect(claimSql).toContain('attempts < max_attempts');
+      expect(claimSql).toContain('attempts = j.attempts + 1');
+      expect(claimParams[1]).toBe(10);
+      expect(claimParams[0]).toBe(deadLetterParams[0]);
+    });
+
+    it('gives long-running syncs a longer lock than other jobs', async () => {
+      await service.claimJobs(1);
+
+      const staleLockMinutes = JSON.parse(runQuery.mock.calls[1][1][0]);
+      expect(staleLockMinutes.tenant_sync).toBeGreaterThan(staleLockMinutes.hostaway_webhook_event);
+    });
+  });
+
+  describe('markCompleted', () => {
+    it('only completes the job while this worker still holds its lock', async () => {
+      await expect(service.markCompleted(job(1))).resolves.toBe(true);
+
+      const [sql, params] = runQuery.mock.calls[0];
+      expect(sql).toContain("status = 'processing'");
+      expect(sql).toContain('locked_at = $2');
+      expect(params).toEqual(['job-1', NOW]);
+    });
+
+    it('reports a lock that another worker took over', async () => {
+      runQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(service.markCompleted(job(1))).resolves.toBe(false);
+    });
+  });
+
+  describe('markFailed', () => {
+    // Parameters of the update: [id, status, runAt, lastError, lockedAt]
+    const updateParams = () =>
+      runQuery.mock.calls[0][1] as [string, string, string | null, string, Date];
+
+    it.each([
+      [1, 30 * 1000],
+      [2, 60 * 1000],
+      [4, 4 * 60 * 1000],
+    ])('retries attempt %i after %i ms', async (attempts, delayMs) => {
+      await expect(service.markFailed(job(attempts), new Error('timeout'))).resolves.toBe(
+        'pending',
+      );
+
+      const [, status, runAt, lastError] = updateParams();
+      expect(status).toBe('pending');
+      expect(new Date(runAt as string).getTime() - NOW.getTime()).toBe(delayMs);
+      expect(lastError).toBe('timeout');
+    });
+
+    it('caps the backoff at an hour', async () => {
+      await service.markFailed(job(12, 20), new Error('timeout'));
+
+      expect(new Date(updateParams()[2] as string).getTime() - NOW.getTime()).toBe(60 * 60 * 1000);
+    });
+
+    it('dead-letters the job once its attempts are exhausted', async () => {
+      await expect(service.markFailed(job(5), new Error('unauthorized'))).resolves.toBe('dead');
+
+      const [, status, runAt] = updateParams();
+      expect(status).toBe('dead');
+      expect(runAt).toBeNull();
+    });
+
+    it('leaves a job whose lock was taken over to the worker that reclaimed it', async () => {
+      runQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(service.markFailed(job(1), new Error('timeout'))).resolves.toBeNull();
+      expect(runQuery.mock.calls[0][0]).toContain('locked_at = $5');
+      expect(updateParams()[4]).toBe(NOW);
+    });
+  });
+});
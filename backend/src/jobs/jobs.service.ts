@@ -0,0 +1,380 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+
+export type JobKind =
+  | 'hostaway_webhook_event'
+  | 'twilio_inbound_message'
+  | 'tenant_sync'
+  | 'rag_sync'
+  | 'escalation_step';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+export interface JobRecord {
+  id: string;
+  tenantId: string | null;
+  kind: JobKind;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt: Date | null;
+  lastError: string | null;
+  dedupeKey: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type JobHandler = (job: JobRecord) => Promise<void>;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+}
+
+interface JobRow {
+  id: string;
+  tenant_id: string | null;
+  kind: JobKind;
+  payload: Record<string, unknown> | null;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_at: Date | null;
+  last_error: string | null;
+  dedupe_key: string | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const DEFAULT_MAX_ATTEMPTS: Record<JobKind, number> = {
+  hostaway_webhook_event: 8,
+  twilio_inbound_message: 5,
+  tenant_sync: 3,
+  rag_sync: 3,
+  escalation_step: 5,
+};
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// Jobs still "processing" after this long are assumed to belong to a crashed worker. A full
+// Hostaway sync of a large account legitimately runs for a long time, so it gets more.
+const STALE_LOCK_MINUTES: Record<JobKind, number> = {
+  hostaway_webhook_event: 30,
+  twilio_inbound_message: 30,
+  tenant_sync: 180,
+  rag_sync: 60,
+  escalation_step: 30,
+};
+
+// Matches jobs whose lock is older than their kind's timeout; $1 is STALE_LOCK_MINUTES as JSON
+const STALE_LOCK_CONDITION = `status = 'processing'
+  and locked_at < now() - make_interval(mins => (($1::jsonb) ->> kind::text)::int)`;
+
+const JOB_COLUMNS = `id, tenant_id, kind, payload, status, attempts, max_attempts, run_at, locked_at,
+  last_error, dedupe_key, completed_at, created_at, updated_at`;
+
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly handlers = new Map<JobKind, JobHandler>();
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Domain modules register their handler on init so the queue has no compile-time dependency
+   * on the services that do the actual work.
+   */
+  registerHandler(kind: JobKind, handler: JobHandler): void {
+    if (this.handlers.has(kind)) {
+      this.logger.warn(`Replacing existing handler for job kind ${kind}`);
+    }
+    this.handlers.set(kind, handler);
+  }
+
+  getHandler(kind: JobKind): JobHandler | undefined {
+    return this.handlers.get(kind);
+  }
+
+  async enqueue(
+    kind: JobKind,
+    tenantId: string | null,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions = {},
+  ): Promise<JobRecord | null> {
+    const { rows } = await this.databaseService.runQuery<JobRow>(
+      `insert into public.jobs (tenant_id, kind, payload, max_attempts, run_at, dedupe_key)
+       values ($1, $2, $3::jsonb, $4, coalesce($5::timestamptz, now()), $6)
+       on conflict (dedupe_key) where dedupe_key is not null and status in ('pending', 'processing')
+       do nothing
+       returning ${JOB_COLUMNS}`,
+      [
+        tenantId,
+        kind,
+        JSON.stringify(payload ?? {}),
+        options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS[kind],
+        options.runAt ? options.runAt.toISOString() : null,
+        options.dedupeKey ?? null,
+      ],
+    );
+
+    if (rows.length === 0) {
+      this.logger.debug(`Skipped enqueueing ${kind}: job ${options.dedupeKey} is already active`);
+      return null;
+    }
+
+    return this.mapJob(rows[0]);
+  }
+
+  /**
+   * Locks up to `limit` due jobs for this worker. Reclaiming a job from a crashed worker counts as
+   * another attempt; one that had already used its last attempt is dead-lettered instead.
+   */
+  async claimJobs(limit: number): Promise<JobRecord[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const staleLockMinutes = JSON.stringify(STALE_LOCK_MINUTES);
+    await this.deadLetterStaleJobs(staleLockMinutes);
+
+    // locked_at is truncated to milliseconds so it survives the round-trip through a JS Date and
+    // markCompleted/markFailed can match on it
+    const { rows } = await this.databaseService.runQuery<JobRow>(
+      `with candidates as (
+         select id
+           from public.jobs
+          where (status = 'pending' and run_at <= now())
+             or (${STALE_LOCK_CONDITION} and attempts < max_attempts)
+          order by run_at asc
+          limit $2
+          for update skip locked
+       )
+       update public.jobs j
+          set status = 'processing',
+              attempts = j.attempts + 1,
+              locked_at = date_trunc('milliseconds', now()),
+              updated_at = now()
+         from candidates
+        where j.id = candidates.id
+       returning j.*`,
+      [staleLockMinutes, limit],
+    );
+
+    return rows.map((row) => this.mapJob(row));
+  }
+
+  /**
+   * Completes a job claimed by this worker. Returns false when its lock went stale and another
+   * worker reclaimed it, which then owns the outcome.
+   */
+  async markCompleted(job: JobRecord): Promise<boolean> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.jobs
+          set status = 'completed',
+              completed_at = now(),
+              locked_at = null,
+              last_error = null,
+              updated_at = now()
+        where id = $1
+          and status = 'processing'
+          and locked_at = $2`,
+      [job.id, job.lockedAt],
+    );
+
+    if (!rowCount) {
+      this.logger.warn(`Job ${job.id} (${job.kind}) completed after its lock was taken over`);
+    }
+    return Boolean(rowCount);
+  }
+
+  /**
+   * Schedules a retry with exponential backoff, or moves the job to the dead-letter state once
+   * its attempts are exhausted. Returns null when the job's lock was taken over, leaving it to
+   * the worker that reclaimed it.
+   */
+  async markFailed(job: JobRecord, error: Error): Promise<JobStatus | null> {
+    const exhausted = job.attempts >= job.maxAttempts;
+    const backoffMs = Math.min(
+      BASE_BACKOFF_MS * 2 ** Math.max(job.attempts - 1, 0),
+      MAX_BACKOFF_MS,
+    );
+    const nextRunAt = new Date(Date.now() + backoffMs);
+    const status: JobStatus = exhausted ? 'dead' : 'pending';
+
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.jobs
+          set status = $2,
+              run_at = coalesce($3::timestamptz, run_at),
+              locked_at = null,
+              last_error = $4,
+              updated_at = now()
+        where id = $1
+          and status = 'processing'
+          and locked_at = $5`,
+      [
+        job.id,
+        status,
+        exhausted ? null : nextRunAt.toISOString(),
+        error.message?.substring(0, 2000) ?? 'Unknown error',
+        job.lockedAt,
+      ],
+    );
+
+    if (!rowCount) {
+      this.logger.warn(
+        `Job ${job.id} (${job.kind}) failed after its lock was taken over: ${error.message}`,
+      );
+      return null;
+    }
+
+    if (exhausted) {
+      this.logger.error(
+        `Job ${job.id} (${job.kind}) moved to dead-letter after ${job.attempts} attempts: ${error.message}`,
+      );
+    } else {
+      this.logger.warn(
+        `Job ${job.id} (${job.kind}) failed attempt ${job.attempts}/${
+          job.maxAttempts
+        }, retrying at ${nextRunAt.toISOString()}: ${error.message}`,
+      );
+    }
+
+    return status;
+  }
+
+  private async deadLetterStaleJobs(staleLockMinutes: string): Promise<void> {
+    const { rows } = await this.databaseService.runQuery<Pick<JobRow, 'id' | 'kind' | 'attempts'>>(
+      `update public.jobs
+          set status = 'dead',
+              locked_at = null,
+              last_error = 'Worker stopped responding during the final attempt',
+              updated_at = now()
+        where ${STALE_LOCK_CONDITION}
+          and attempts >= max_attempts
+       returning id, kind, attempts`,
+      [staleLockMinutes],
+    );
+
+    for (const row of rows) {
+      this.logger.error(
+        `Job ${row.id} (${row.kind}) moved to dead-letter after ${row.attempts} attempts: worker stopped responding`,
+      );
+    }
+  }
+
+  async listJobs(
+    options: {
+      status?: JobStatus;
+      kind?: JobKind;
+      tenantId?: string;
+      limit?: number;
+      offset?: number;
+    } = {},
+  ): Promise<{ jobs: JobRecord[]; total: number }> {
+    const limit = Math.min(options.limit ?? 50, 200);
+    const offset = options.offset ?? 0;
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (options.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      params.push(options.status);
+    }
+
+    if (options.kind) {
+      conditions.push(`kind = $${paramIndex++}`);
+      params.push(options.kind);
+    }
+
+    if (options.tenantId) {
+      conditions.push(`tenant_id = $${paramIndex++}`);
+      params.push(options.tenantId);
+    }
+
+    const whereClause = conditions.length > 0 ? `where ${conditions.join(' and ')}` : '';
+
+    const countResult = await this.databaseService.runQuery<{ total: string }>(
+      `select count(*) as total from public.jobs ${whereClause}`,
+      params,
+    );
+
+    const { rows } = await this.databaseService.runQuery<JobRow>(
+      `select ${JOB_COLUMNS}
+         from public.jobs
+         ${whereClause}
+        order by created_at desc
+        limit $${paramIndex++} offset $${paramIndex}`,
+      [...params, limit, offset],
+    );
+
+    return {
+      jobs: rows.map((row) => this.mapJob(row)),
+      total: parseInt(countResult.rows[0]?.total ?? '0', 10),
+    };
+  }
+
+  /**
+   * Re-queues a dead-lettered job with a fresh attempt budget.
+   */
+  async replayJob(jobId: string): Promise<JobRecord> {
+    const { rows } = await this.databaseService.runQuery<JobRow>(
+      `select ${JOB_COLUMNS} from public.jobs where id = $1 limit 1`,
+      [jobId],
+    );
+
+    const existing = rows[0];
+    if (!existing) {
+      throw new NotFoundException('Job not found');
+    }
+
+    if (existing.status !== 'dead') {
+      throw new BadRequestException(`Only dead jobs can be replayed (job is ${existing.status})`);
+    }
+
+    const updated = await this.databaseService.runQuery<JobRow>(
+      `update public.jobs
+          set status = 'pending',
+              attempts = 0,
+              run_at = now(),
+              locked_at = null,
+              updated_at = now()
+        where id = $1 and status = 'dead'
+        returning ${JOB_COLUMNS}`,
+      [jobId],
+    );
+
+    if (updated.rows.length === 0) {
+      throw new BadRequestException('Job was modified concurrently; reload and try again');
+    }
+
+    this.logger.log(`Replaying job ${jobId} (${existing.kind})`);
+    return this.mapJob(updated.rows[0]);
+  }
+
+  private mapJob(row: JobRow): JobRecord {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      kind: row.kind,
+      payload: row.payload ?? {},
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      runAt: row.run_at,
+      lockedAt: row.locked_at,
+      lastError: row.last_error,
+      dedupeKey: row.dedupe_key,
+      completedAt: row.completed_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
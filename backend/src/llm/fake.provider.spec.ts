@@ -0,0 +1,73 @@
+import { FakeLlmProvider } from './fake.provider';
+import { EMBEDDING_DIMENSIONS, LlmCompletionRequest } from './llm.types';
+
+const request = (content: string, model = 'test-model'): LlmCompletionRequest => ({
+  model,
+  messages: [
+    { role: 'system', content: 'You are a helpful host.' },
+    { role: 'user', content },
+  ],
+});
+
+const cosine = (a: number[], b: number[]): number =>
+  a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe('FakeLlmProvider', () => {
+  const provider = new FakeLlmProvider();
+
+  describe('complete', () => {
+    it('returns the same reply for the same model and last message', async () => {
+      const first = await provider.complete(request('Where do I park?'));
+      const second = await provider.complete(request('Where do I park?'));
+
+      expect(first).toEqual(second);
+      expect(first.usage).toEqual({ promptTokens: 0, completionTokens: 0 });
+    });
+
+    it('varies the reply with the message and the model', async () => {
+      const reply = (await provider.complete(request('Where do I park?'))).content;
+
+      expect((await provider.complete(request('What is the wifi password?'))).content).not.toEqual(
+        reply,
+      );
+      expect(
+        (await provider.complete(request('Where do I park?', 'other-model'))).content,
+      ).not.toEqual(reply);
+    });
+
+    it('uses the responder when one is given', async () => {
+      const scripted = new FakeLlmProvider((req) => `echo: ${req.messages.length}`);
+
+      expect((await scripted.complete(request('Hello'))).content).toEqual('echo: 2');
+    });
+  });
+
+  describe('embed', () => {
+    it('returns the same unit vector for the same text', async () => {
+      const first = await provider.embed('Check-in is at 3pm');
+      const second = await provider.embed('Check-in is at 3pm');
+
+      expect(first).toEqual(second);
+      expect(first).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(cosine(first, first)).toBeCloseTo(1);
+    });
+
+    it('ignores case and punctuation', async () => {
+      expect(await provider.embed('Check-in is at 3pm!')).toEqual(
+        await provider.embed('check in IS at 3PM'),
+      );
+    });
+
+    it('scores texts sharing words above unrelated texts', async () => {
+      const query = await provider.embed('what time is check in');
+      const related = await provider.embed('check in time is 3pm');
+      const unrelated = await provider.embed('the pool heater switch');
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+
+    it('returns a zero vector for text without words', async () => {
+      expect((await provider.embed('  ...  ')).every((value) => value === 0)).toBe(true);
+    });
+  });
+});
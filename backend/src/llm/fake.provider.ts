@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+
+import {
+  EMBEDDING_DIMENSIONS,
+  EmbeddingProvider,
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from './llm.types';
+
+type FakeResponder = (request: LlmCompletionRequest) => string;
+
+const hashOf = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * Deterministic in-process provider for tests, local development and demos. It never calls out
+ * to the network: the same input always produces the same reply and embedding.
+ */
+export class FakeLlmProvider implements LlmProvider, EmbeddingProvider {
+  readonly kind = 'fake' as const;
+
+  constructor(private readonly responder?: FakeResponder) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    if (this.responder) {
+      return { content: this.responder(request), usage };
+    }
+
+    const lastMessage = request.messages[request.messages.length - 1]?.content ?? '';
+    const digest = hashOf(`${request.model}:${lastMessage}`).toString('hex').slice(0, 8);
+    return {
+      content: `Thanks for your message! This is an automated test reply (${digest}).`,
+      usage,
+    };
+  }
+
+  // Hashed bag of words, so texts sharing words get a positive cosine similarity
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const digest = hashOf(token);
+      const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+      vector[index] += digest[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
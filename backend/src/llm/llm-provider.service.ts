@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER_KINDS, LlmProviderKind } from '@saas-automation/shared-types';
+
+import { FakeLlmProvider } from './fake.provider';
+import { EmbeddingProvider, LlmProvider, LlmProviderConfig } from './llm.types';
+import { OpenAiProvider } from './openai.provider';
+
+/**
+ * Builds chat and embedding providers. The platform default comes from `LLM_PROVIDER`,
+ * `LLM_BASE_URL` and `LLM_API_KEY` (falling back to `OPENAI_API_KEY`); tenants may override the
+ * chat provider from their AI settings.
+ */
+@Injectable()
+export class LlmProviderService {
+  private readonly logger = new Logger(LlmProviderService.name);
+  private readonly providers = new Map<string, LlmProvider & EmbeddingProvider>();
+  private readonly defaultConfig: LlmProviderConfig;
+  private readonly embeddingProvider: EmbeddingProvider | null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.defaultConfig = {
+      kind: this.parseKind(this.configService.get<string>('LLM_PROVIDER'), 'LLM_PROVIDER'),
+      baseUrl: this.configService.get<string>('LLM_BASE_URL') ?? null,
+      apiKey:
+        this.configService.get<string>('LLM_API_KEY') ??
+        this.configService.get<string>('OPENAI_API_KEY') ??
+        null,
+    };
+
+    // Embeddings are platform-wide: stored vectors are only comparable when every document and
+    // query is embedded by the same model
+    const embeddingKind = this.configService.get<string>('EMBEDDING_PROVIDER');
+    this.embeddingProvider = this.create(
+      embeddingKind
+        ? { ...this.defaultConfig, kind: this.parseKind(embeddingKind, 'EMBEDDING_PROVIDER') }
+        : this.defaultConfig,
+    );
+
+    if (!this.create(this.defaultConfig)) {
+      this.logger.warn(
+        'No API key configured for the default LLM provider. AI replies will use template fallbacks.',
+      );
+    }
+  }
+
+  /**
+   * Returns the chat provider for a tenant override, or the platform default. Null means no
+   * provider is usable and callers should fall back to non-AI behaviour.
+   */
+  getLlmProvider(config?: LlmProviderConfig | null): LlmProvider | null {
+    return this.create(config ?? this.defaultConfig);
+  }
+
+  getEmbeddingProvider(): EmbeddingProvider | null {
+    return this.embeddingProvider;
+  }
+
+  private create(config: LlmProviderConfig): (LlmProvider & EmbeddingProvider) | null {
+    if (config.kind === 'fake') {
+      return this.cached('fake', () => new FakeLlmProvider());
+    }
+
+    if (config.kind === 'openai_compatible' && !config.baseUrl) {
+      this.logger.warn('openai_compatible provider selected without a base URL');
+      return null;
+    }
+
+    // Self-hosted endpoints often run without auth, but the OpenAI SDK insists on a key
+    const apiKey = config.apiKey ?? (config.kind === 'openai_compatible' ? 'not-required' : null);
+    if (!apiKey) {
+      return null;
+    }
+
+    const baseUrl = config.kind === 'openai' ? null : config.baseUrl;
+    const embeddingModel = this.configService.get<string>('EMBEDDING_MODEL');
+    return this.cached(`${config.kind}|${baseUrl ?? ''}|${apiKey}`, () => {
+      return new OpenAiProvider(config.kind, { apiKey, baseUrl, embeddingModel });
+    });
+  }
+
+  private cached(
+    key: string,
+    factory: () => LlmProvider & EmbeddingProvider,
+  ): LlmProvider & EmbeddingProvider {
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = factory();
+      this.providers.set(key, provider);
+    }
+
+    return provider;
+  }
+
+  private parseKind(value: string | undefined, variable: string): LlmProviderKind {
+    if (!value) {
+      return 'openai';
+    }
+
+    if (!LLM_PROVIDER_KINDS.includes(value as LlmProviderKind)) {
+      throw new Error(`${variable} must be one of: ${LLM_PROVIDER_KINDS.join(', ')}`);
+    }
+
+    return value as LlmProviderKind;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { LlmProviderService } from './llm-provider.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [LlmProviderService],
+  exports: [LlmProviderService],
+})
+export class LlmModule {}
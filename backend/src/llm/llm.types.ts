@@ -0,0 +1,51 @@
+import { LlmProviderKind } from '@saas-automation/shared-types';
+
+export interface LlmChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  model: string;
+  messages: LlmChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // JSON schema the reply must follow; providers without structured output ignore it
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+// Providers that do not report usage return zeros
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage;
+}
+
+/**
+ * Chat completion backend used for intent classification and reply generation.
+ */
+export interface LlmProvider {
+  readonly kind: LlmProviderKind;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+/**
+ * Text embedding backend used for knowledge base search. Vectors must have
+ * `EMBEDDING_DIMENSIONS` entries to fit the `knowledge_base_documents.embedding` column.
+ */
+export interface EmbeddingProvider {
+  readonly kind: LlmProviderKind;
+  embed(text: string): Promise<number[]>;
+}
+
+export interface LlmProviderConfig {
+  kind: LlmProviderKind;
+  baseUrl?: string | null;
+  apiKey?: string | null;
+}
+
+export const EMBEDDING_DIMENSIONS = 1536;
@@ -0,0 +1,63 @@
+import OpenAI from 'openai';
+import { LlmProviderKind } from '@saas-automation/shared-types';
+
+import { EmbeddingProvider, LlmCompletion, LlmCompletionRequest, LlmProvider } from './llm.types';
+
+/**
+ * Talks to the OpenAI API, or to any endpoint implementing the same API (Azure OpenAI, vLLM,
+ * Ollama, LiteLLM...) when a base URL is given.
+ */
+export class OpenAiProvider implements LlmProvider, EmbeddingProvider {
+  private readonly client: OpenAI;
+  private readonly embeddingModel: string;
+  // Compatible endpoints differ in response_format support, so schemas are only sent to OpenAI
+  private readonly structuredOutput: boolean;
+
+  constructor(
+    readonly kind: LlmProviderKind,
+    options: { apiKey: string; baseUrl?: string | null; embeddingModel?: string },
+  ) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl ?? undefined });
+    this.embeddingModel = options.embeddingModel ?? 'text-embedding-3-small'; // 1536 dimensions
+    this.structuredOutput = kind === 'openai';
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.responseSchema && this.structuredOutput
+        ? {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: { ...request.responseSchema, strict: true },
+            },
+          }
+        : {}),
+    });
+
+    const output = response.choices[0]?.message?.content;
+    if (!output) {
+      throw new Error(`No output from ${this.kind} provider`);
+    }
+
+    return {
+      content: output,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: text,
+    });
+
+    return response.data[0].embedding;
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+const DEFAULT_EMAIL_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * Sends plain-text staff notifications through an HTTP email API (Resend-compatible).
+ */
+@Injectable()
+export class EmailClient {
+  private readonly logger = new Logger(EmailClient.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async sendEmail(to: string, subject: string, text: string): Promise<void> {
+    const dryRun = this.configService.get<string>('DRY_RUN') === 'true';
+    const apiKey = this.configService.get<string>('EMAIL_API_KEY');
+    const from = this.configService.get<string>('EMAIL_FROM');
+
+    if (dryRun || !apiKey || !from) {
+      this.logger.log(`(dry-run) Email to ${to}: ${subject}\n${text}`);
+      return;
+    }
+
+    try {
+      await axios.post(
+        this.configService.get<string>('EMAIL_API_URL') || DEFAULT_EMAIL_API_URL,
+        { from, to: [to], subject, text },
+        { headers: { Authorization: `Bearer ${apiKey}` }, timeout: 15000 },
+      );
+    } catch (error) {
+      this.logger.error(`Failed to send email to ${to}`, error as Error);
+      throw error;
+    }
+  }
+}
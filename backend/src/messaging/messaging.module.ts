@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 
 import { SecurityModule } from '../security/security.module';
+import { EmailClient } from './email.client';
 import { TwilioClient } from './twilio.client';
 
 @Module({
   imports: [SecurityModule],
-  providers: [TwilioClient],
-  exports: [TwilioClient],
+  providers: [TwilioClient, EmailClient],
+  exports: [TwilioClient, EmailClient],
 })
 export class MessagingModule {}
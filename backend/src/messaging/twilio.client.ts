@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Twilio } from 'twilio';
+import { Twilio, validateRequest } from 'twilio';
 
 import { CryptoService } from '../security/crypto.service';
 import { TenantSummary } from '../tenant/tenant.service';
@@ -49,6 +49,27 @@ export class TwilioClient {
     );
   }
 
+  /**
+   * Verifies the X-Twilio-Signature header of an inbound webhook using the tenant's auth token.
+   */
+  validateWebhookSignature(
+    tenant: TenantSummary,
+    signature: string,
+    url: string,
+    params: Record<string, unknown>,
+  ): boolean {
+    const authToken = tenant.encryptedTwilioAuthToken
+      ? this.cryptoService.decrypt(tenant.encryptedTwilioAuthToken)
+      : this.configService.get<string>('TWILIO_AUTH_TOKEN');
+
+    if (!authToken) {
+      this.logger.warn(`No Twilio auth token available to verify webhook for tenant ${tenant.id}`);
+      return false;
+    }
+
+    return validateRequest(authToken, signature, url, params);
+  }
+
   async sendWhatsAppMessage(tenant: TenantSummary, to: string, body: string): Promise<void> {
     const dryRun = this.configService.get<string>('DRY_RUN') === 'true';
     const client = this.getTwilioClient(tenant);
@@ -67,6 +88,7 @@ export class TwilioClient {
       });
     } catch (error) {
       this.logger.error(`Failed to send WhatsApp message to ${to}`, error as Error);
+      throw error;
     }
   }
 
@@ -88,6 +110,7 @@ export class TwilioClient {
       });
     } catch (error) {
       this.logger.error(`Failed to send SMS message to ${to}`, error as Error);
+      throw error;
     }
   }
 
@@ -112,7 +135,45 @@ export class TwilioClient {
     }
   }
 
+  /**
+   * Places a call that reads the message and posts the key the callee presses to
+   * `acknowledgeUrl`. Unlike initiateVoiceCall, failures are thrown so callers can move on.
+   */
+  async initiateAcknowledgeableCall(
+    tenant: TenantSummary,
+    to: string,
+    message: string,
+    acknowledgeUrl: string,
+  ): Promise<void> {
+    const dryRun = this.configService.get<string>('DRY_RUN') === 'true';
+    const client = this.getTwilioClient(tenant);
+    const voiceFrom = this.getVoiceFrom(tenant);
+
+    if (dryRun || !client || !voiceFrom) {
+      this.logger.log(`(dry-run) Acknowledgeable voice call to ${to}: ${message}`);
+      return;
+    }
+
+    const prompt = `${message}. Press 1 to acknowledge.`;
+    const twiml = `<Response><Gather numDigits="1" timeout="10" method="POST" action="${this.escapeForTwiml(
+      acknowledgeUrl,
+    )}"><Say loop="2">${this.escapeForTwiml(
+      prompt,
+    )}</Say></Gather><Say>No acknowledgement received. Goodbye.</Say></Response>`;
+
+    try {
+      await client.calls.create({ to, from: voiceFrom, twiml });
+    } catch (error) {
+      this.logger.error(`Failed to initiate voice call to ${to}`, error as Error);
+      throw error;
+    }
+  }
+
   private escapeForTwiml(input: string): string {
-    return input.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return input
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
   }
 }
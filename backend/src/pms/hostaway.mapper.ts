@@ -0,0 +1,358 @@
+import { parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+
+import { GuestMessage, Guest, Listing, PmsConversation, Reservation } from './pms.types';
+
+type HostawayRecord = Record<string, unknown>;
+
+const DEFAULT_CHECK_IN_HOUR = 15;
+const DEFAULT_CHECK_OUT_HOUR = 10;
+
+/*
+ * Hostaway records vary between endpoints, webhook versions and account ages, so every field is
+ * read from the list of places it has been seen in. Keep the path lists here so nothing else has
+ * to know them.
+ */
+
+export function mapHostawayReservation(record: HostawayRecord, fallbackId?: string): Reservation {
+  const id =
+    readString(record, 'id', 'reservationId', 'reservation_id', 'hostawayReservationId') ??
+    fallbackId ??
+    '';
+  const timezone =
+    readString(
+      record,
+      'listingTimeZoneName',
+      'timezone',
+      'listing.timezone',
+      'property.timezone',
+      'unit.timezone',
+    ) ?? null;
+  const zone = timezone ?? 'UTC';
+
+  const arrivalDate =
+    readString(
+      record,
+      'arrivalDate',
+      'arrival_date',
+      'checkin_date_day',
+      'checkIn',
+      'check_in',
+      'startDate',
+      'start_date',
+      'arrival',
+      'start',
+    ) ?? null;
+  const departureDate =
+    readString(
+      record,
+      'departureDate',
+      'departure_date',
+      'checkout_date_day',
+      'checkOut',
+      'check_out',
+      'endDate',
+      'end_date',
+      'departure',
+      'end',
+    ) ?? null;
+  const checkInTime =
+    readString(record, 'checkInTime', 'check_in_time', 'checkIn.time', 'check_in.time') ?? null;
+  const checkOutTime =
+    readString(record, 'checkOutTime', 'check_out_time', 'checkOut.time', 'check_out.time') ?? null;
+  const reservationDate = readString(record, 'reservationDate', 'reservation_date');
+  const latestActivity = readString(record, 'latestActivityOn', 'updatedOn', 'updated_on');
+
+  return {
+    id,
+    listingId:
+      readString(
+        record,
+        'listingMapId',
+        'listing_map_id',
+        'listingId',
+        'listing_id',
+        'propertyId',
+        'property_id',
+      ) ?? null,
+    listingName:
+      readString(
+        record,
+        'listingName',
+        'listing_name',
+        'propertyName',
+        'property_name',
+        'listing.name',
+        'property.name',
+      ) ?? null,
+    status:
+      readString(record, 'status', 'reservationStatus', 'reservation_status')?.toLowerCase() ??
+      null,
+    channel:
+      readString(record, 'channelName', 'channel', 'reservationChannel', 'channel_name') ?? null,
+    guest: mapHostawayGuest(record, id),
+    arrivalDate: arrivalDate ? arrivalDate.slice(0, 10) : null,
+    departureDate: departureDate ? departureDate.slice(0, 10) : null,
+    checkInTime,
+    checkOutTime,
+    timezone,
+    checkInAt: arrivalDate
+      ? resolveLocalInstant(arrivalDate, checkInTime, DEFAULT_CHECK_IN_HOUR, zone)
+      : null,
+    checkOutAt: departureDate
+      ? resolveLocalInstant(departureDate, checkOutTime, DEFAULT_CHECK_OUT_HOUR, zone)
+      : null,
+    guestCount:
+      readNumber(record, 'numberOfGuests', 'number_of_guests', 'guests', 'adults') ?? null,
+    totalPrice: readNumber(record, 'totalPrice', 'total_price') ?? null,
+    currency: readString(record, 'currency')?.toUpperCase() ?? null,
+    doorCode: readString(record, 'doorCode', 'door_code', 'accessCode', 'access_code') ?? null,
+    conversationId:
+      readString(record, 'conversationId', 'conversation.id', 'conversation_id') ?? null,
+    guestPortalUrl: readString(record, 'guestPortalUrl', 'guest_portal_url') ?? null,
+    // Hostaway reports the booking time in the listing's timezone without an offset
+    reservedAt: reservationDate ? parseLocalDateTime(reservationDate, zone) : null,
+    // Activity timestamps, unlike reservationDate, are in UTC
+    updatedAt: latestActivity ? parseLocalDateTime(latestActivity, 'UTC') : null,
+    raw: record,
+  };
+}
+
+/** Reads the guest from a reservation record; Hostaway has no separate guest resource. */
+export function mapHostawayGuest(record: HostawayRecord, reservationId: string): Guest {
+  const firstName =
+    readString(
+      record,
+      'guestFirstName',
+      'guest_first_name',
+      'guest.firstName',
+      'guest.first_name',
+      'guest_firstname',
+    ) ?? null;
+  const lastName =
+    readString(
+      record,
+      'guestLastName',
+      'guest_last_name',
+      'guest.lastName',
+      'guest.last_name',
+      'guest_lastname',
+    ) ?? null;
+  const combined = [firstName, lastName].filter(Boolean).join(' ');
+
+  return {
+    id: readString(record, 'guestId', 'guest_id', 'guest.id') ?? `reservation-${reservationId}`,
+    name: readString(record, 'guestName', 'guest_name', 'guest.name') ?? (combined || null),
+    firstName,
+    lastName,
+    email: readString(record, 'guestEmail', 'guest_email', 'guest.email') ?? null,
+    phone:
+      readString(
+        record,
+        'guestPhone',
+        'guest_phone',
+        'phone',
+        'guest.phone',
+        'guest.contact.phone',
+        'guest.phone_number',
+      ) ?? null,
+  };
+}
+
+export function mapHostawayListing(record: HostawayRecord, fallbackId?: string): Listing {
+  return {
+    id: readString(record, 'id') ?? fallbackId ?? '',
+    // internalListingName (e.g. "Cross Road") is the name staff use; the others are OTA names
+    name: readString(record, 'internalListingName', 'name') ?? null,
+    publicName: readString(record, 'externalListingName', 'airbnbName', 'name') ?? null,
+    address: readString(record, 'address', 'publicAddress', 'street') ?? null,
+    city: readString(record, 'city') ?? null,
+    country: readString(record, 'country', 'countryCode') ?? null,
+    timezone: readString(record, 'timeZoneName', 'timezone') ?? null,
+    checkInTime: readString(record, 'checkInTimeStart', 'checkInTime') ?? null,
+    checkOutTime: readString(record, 'checkOutTime') ?? null,
+    doorCode:
+      readString(record, 'doorSecurityCode', 'door_security_code', 'doorCode', 'door_code') ?? null,
+    wifiName:
+      readString(
+        record,
+        'wifiUsername',
+        'wifi_username',
+        'wifiName',
+        'wifi_name',
+        'wifiNetwork',
+        'wifi_network',
+      ) ?? null,
+    wifiPassword:
+      readString(record, 'wifiPassword', 'wifi_password', 'wifiPass', 'wifi_pass') ?? null,
+    amenities: readAmenities(record),
+    houseRules: readString(record, 'houseRules', 'house_rules') ?? null,
+    raw: record,
+  };
+}
+
+export function mapHostawayConversation(record: HostawayRecord): PmsConversation | null {
+  const id = readString(record, 'id', 'conversationId', 'conversation_id');
+  if (!id) {
+    return null;
+  }
+
+  return {
+    id,
+    reservationId:
+      readString(
+        record,
+        'reservationId',
+        'reservation_id',
+        'reservation.id',
+        'hostawayReservationId',
+      ) ?? null,
+    type: readString(record, 'type')?.toLowerCase() ?? null,
+    raw: record,
+  };
+}
+
+export function mapHostawayMessage(
+  record: HostawayRecord,
+  conversationId: string | null,
+): GuestMessage {
+  return {
+    id: readString(record, 'id', 'messageId', 'message_id') ?? null,
+    conversationId: readString(record, 'conversationId', 'conversation_id') ?? conversationId,
+    reservationId: readString(record, 'reservationId', 'reservation_id') ?? null,
+    body: readString(record, 'body', 'message', 'content', 'text') ?? '',
+    isIncoming: Boolean(record.isIncoming || record.is_incoming),
+    sentAt:
+      readString(
+        record,
+        'date',
+        'sentToChannelDate',
+        'sentToChannelAttemptDate',
+        'insertedOn',
+        'inserted_on',
+        'updatedOn',
+      ) ?? null,
+    communicationType:
+      readString(record, 'communicationType', 'communication_type', 'type') ?? null,
+    raw: record,
+  };
+}
+
+export function readString(source: HostawayRecord, ...paths: string[]): string | undefined {
+  for (const path of paths) {
+    const value = resolvePath(source, path);
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+  }
+
+  return undefined;
+}
+
+export function resolvePath(source: HostawayRecord, path: string): unknown {
+  let current: unknown = source;
+  for (const segment of path.split('.')) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as HostawayRecord)[segment];
+  }
+  return current;
+}
+
+// Listing endpoints return `listingAmenities: [{ amenityName }]`; older payloads a list of names
+function readAmenities(record: HostawayRecord): string[] {
+  const value = record.listingAmenities ?? record.amenities;
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .map((amenity) =>
+      typeof amenity === 'string'
+        ? amenity.trim()
+        : amenity && typeof amenity === 'object'
+        ? readString(amenity as HostawayRecord, 'amenityName', 'name') ?? ''
+        : '',
+    )
+    .filter(Boolean);
+}
+
+function readNumber(source: HostawayRecord, ...paths: string[]): number | undefined {
+  for (const path of paths) {
+    const value = resolvePath(source, path);
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim()) {
+      const parsed = Number(value);
+      if (!Number.isNaN(parsed)) {
+        return parsed;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/** Combines a reservation date with the check-in/out hour (e.g. 16 or "16:00") in `timezone`. */
+function resolveLocalInstant(
+  dateValue: string,
+  timeValue: string | null,
+  fallbackHour: number,
+  timezone: string,
+): Date | null {
+  const hour = normalizeHour(timeValue, fallbackHour);
+  return parseLocalDateTime(normalizeDateTimeInput(dateValue, hour), timezone);
+}
+
+function parseLocalDateTime(value: string, timezone: string): Date | null {
+  const normalized = value.trim().replace(' ', 'T');
+  try {
+    const parsed = fromZonedTime(normalized, timezone);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  } catch {
+    // Unknown timezone; fall back to reading the value as UTC
+  }
+
+  const parsed = parseISO(normalized);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function normalizeHour(value: string | null, fallbackHour: number): number {
+  const parsed = value === null ? Number.NaN : parseInt(value, 10);
+  const hour = Number.isNaN(parsed) ? fallbackHour : parsed;
+  return Math.max(0, Math.min(23, Math.round(hour)));
+}
+
+function normalizeDateTimeInput(dateValue: string, hour: number): string {
+  const trimmed = dateValue.trim();
+  const paddedHour = String(hour).padStart(2, '0');
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return `${trimmed}T${paddedHour}:00:00`;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}$/.test(trimmed)) {
+    return trimmed.replace(' ', 'T');
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}$/.test(trimmed)) {
+    return `${trimmed.replace(' ', 'T')}:00`;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}$/.test(trimmed)) {
+    return `${trimmed}:00:00`;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(trimmed)) {
+    return `${trimmed}:00`;
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+
+import { HostawayClient } from '../integrations/hostaway.client';
+import { TenantSummary } from '../tenant/tenant.service';
+import {
+  mapHostawayConversation,
+  mapHostawayListing,
+  mapHostawayMessage,
+  mapHostawayReservation,
+  readString,
+  resolvePath,
+} from './hostaway.mapper';
+import {
+  ConversationQuery,
+  GuestMessage,
+  Listing,
+  ListingCalendarDay,
+  OutboundGuestMessage,
+  PmsConversation,
+  PmsWebhookEvent,
+  PropertyManagementProvider,
+  Reservation,
+  ReservationQuery,
+  SentGuestMessage,
+} from './pms.types';
+
+type HostawayRecord = Record<string, unknown>;
+
+// Threads that reach the guest, most preferred first
+const GUEST_CONVERSATION_TYPES = ['host-guest-channel', 'host-guest-email', 'host-guest-whatsapp'];
+
+/**
+ * Hostaway adapter. Field mapping lives in hostaway.mapper so webhook and sync payloads are read
+ * the same way as API responses.
+ */
+@Injectable()
+export class HostawayPropertyManagementProvider implements PropertyManagementProvider {
+  readonly kind = 'hostaway' as const;
+  readonly name = 'Hostaway';
+
+  constructor(private readonly hostawayClient: HostawayClient) {}
+
+  async getReservation(tenant: TenantSummary, reservationId: string): Promise<Reservation> {
+    const record = await this.hostawayClient.getReservation(tenant, reservationId);
+    return mapHostawayReservation(record, reservationId);
+  }
+
+  async listReservations(tenant: TenantSummary, query: ReservationQuery): Promise<Reservation[]> {
+    if (!query.listingId) {
+      const records = await this.hostawayClient.listFutureReservations(tenant);
+      return records.map((record) => mapHostawayReservation(record));
+    }
+
+    const records = await this.hostawayClient.listListingReservations(tenant, query.listingId, {
+      arrivalStartDate: query.arrivalFrom,
+      arrivalEndDate: query.arrivalTo,
+      departureStartDate: query.departureFrom,
+      departureEndDate: query.departureTo,
+    });
+    return records.map((record) => mapHostawayReservation(record));
+  }
+
+  async getListing(tenant: TenantSummary, listingId: string): Promise<Listing | null> {
+    const record = await this.hostawayClient.getListing(tenant, listingId);
+    if (!record) {
+      return null;
+    }
+
+    return mapHostawayListing(record, listingId);
+  }
+
+  getListingCalendar(
+    tenant: TenantSummary,
+    listingId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<ListingCalendarDay[]> {
+    return this.hostawayClient.getListingCalendar(tenant, listingId, startDate, endDate);
+  }
+
+  async listConversations(
+    tenant: TenantSummary,
+    query: ConversationQuery = {},
+  ): Promise<PmsConversation[]> {
+    const records = await this.hostawayClient.listConversations(tenant, {
+      reservationId: query.reservationId,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return records
+      .map((record) => mapHostawayConversation(record))
+      .filter((conversation): conversation is PmsConversation => conversation !== null);
+  }
+
+  async getConversationMessages(
+    tenant: TenantSummary,
+    conversationId: string,
+  ): Promise<GuestMessage[]> {
+    const records = await this.hostawayClient.getConversationMessages(tenant, conversationId);
+    return records.map((record) => mapHostawayMessage(record, conversationId));
+  }
+
+  async findGuestConversation(
+    tenant: TenantSummary,
+    reservationId: string,
+  ): Promise<string | null> {
+    const conversations = (
+      await this.hostawayClient.getReservationConversations(tenant, reservationId)
+    )
+      .map((record) => mapHostawayConversation(record))
+      .filter((conversation): conversation is PmsConversation => conversation !== null);
+
+    const preferred = GUEST_CONVERSATION_TYPES.map((type) =>
+      conversations.find((conversation) => conversation.type === type),
+    ).find(Boolean);
+    return (preferred ?? conversations[0])?.id ?? null;
+  }
+
+  async sendMessage(
+    tenant: TenantSummary,
+    message: OutboundGuestMessage,
+  ): Promise<SentGuestMessage> {
+    const conversationId =
+      message.conversationId ??
+      // Sending by reservation still reaches the guest when the lookup fails
+      (await this.findGuestConversation(tenant, message.reservationId).catch(() => null));
+
+    if (conversationId) {
+      await this.hostawayClient.sendConversationMessage(
+        tenant,
+        conversationId,
+        message.body,
+        'channel',
+      );
+      return { via: 'conversation', conversationId };
+    }
+
+    await this.hostawayClient.sendMessageToGuest(tenant, message.reservationId, message.body);
+    return { via: 'reservation', conversationId: null };
+  }
+
+  parseWebhook(payload: Record<string, unknown>): PmsWebhookEvent {
+    const event = readString(payload, 'event') ?? 'unknown';
+    const data = (resolvePath(payload, 'data') as HostawayRecord | undefined) ?? {};
+    const accountId =
+      readString(
+        payload,
+        'accountId',
+        'account_id',
+        'clientId',
+        'client_id',
+        'hostawayAccountId',
+        'data.accountId',
+        'data.account_id',
+      ) ?? null;
+
+    const isMessage =
+      event === 'message.received' || readString(payload, 'object') === 'conversationMessage';
+    const reservationId = readString(data, 'reservationId', 'reservation_id') ?? null;
+    const conversationId = readString(data, 'conversationId', 'conversation_id') ?? null;
+
+    return {
+      event,
+      accountId,
+      reservationId,
+      conversationId,
+      message: isMessage
+        ? {
+            ...mapHostawayMessage(data, conversationId),
+            // Webhooks only fire for guest messages and do not always carry isIncoming
+            isIncoming: true,
+            sentAt: readString(data, 'createdAt', 'created_at', 'timestamp') ?? null,
+          }
+        : null,
+      payload,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import {
+  PMS_PROVIDER_KINDS,
+  PmsProviderKind,
+  PmsProviderOption,
+} from '@saas-automation/shared-types';
+
+import { TenantSummary } from '../tenant/tenant.service';
+import { HostawayPropertyManagementProvider } from './hostaway.provider';
+import { PropertyManagementProvider } from './pms.types';
+
+const PMS_PROVIDER_NAMES: Record<PmsProviderKind, string> = {
+  hostaway: 'Hostaway',
+  guesty: 'Guesty',
+  lodgify: 'Lodgify',
+  smoobu: 'Smoobu',
+};
+
+/**
+ * Resolves the property management adapter a tenant selected. Kinds without an adapter can be
+ * listed but not selected.
+ */
+@Injectable()
+export class PmsProviderService {
+  private readonly providers: Map<PmsProviderKind, PropertyManagementProvider>;
+
+  constructor(hostawayProvider: HostawayPropertyManagementProvider) {
+    this.providers = new Map<PmsProviderKind, PropertyManagementProvider>([
+      [hostawayProvider.kind, hostawayProvider],
+    ]);
+  }
+
+  forTenant(tenant: TenantSummary): PropertyManagementProvider {
+    return this.get(tenant.pmsProvider ?? 'hostaway');
+  }
+
+  get(kind: PmsProviderKind): PropertyManagementProvider {
+    const provider = this.providers.get(kind);
+    if (!provider) {
+      throw new InternalServerErrorException(`No adapter available for PMS provider ${kind}`);
+    }
+
+    return provider;
+  }
+
+  isAvailable(kind: PmsProviderKind): boolean {
+    return this.providers.has(kind);
+  }
+
+  listProviders(): PmsProviderOption[] {
+    return PMS_PROVIDER_KINDS.map((kind) => ({
+      kind,
+      name: PMS_PROVIDER_NAMES[kind],
+      available: this.providers.has(kind),
+    }));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { HostawayClient } from '../integrations/hostaway.client';
+import { HostawayPropertyManagementProvider } from './hostaway.provider';
+import { PmsProviderService } from './pms-provider.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [HostawayClient, HostawayPropertyManagementProvider, PmsProviderService],
+  exports: [PmsProviderService],
+})
+export class PmsModule {}
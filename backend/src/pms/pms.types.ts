@@ -0,0 +1,163 @@
+import { PmsProviderKind } from '@saas-automation/shared-types';
+
+import { TenantSummary } from '../tenant/tenant.service';
+
+export interface Guest {
+  // PMS guest id; reservations without one use `reservation-<reservation id>`
+  id: string;
+  // Full name as the guest gave it
+  name: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+/**
+ * Reservation as the rest of the app sees it. `raw` keeps the provider's own record for logging
+ * and debugging; nothing should read provider fields from it.
+ */
+export interface Reservation {
+  id: string;
+  listingId: string | null;
+  listingName: string | null;
+  // Lowercase provider status, e.g. "new", "modified", "cancelled"
+  status: string | null;
+  // Booking channel, e.g. "airbnbOfficial", "direct"
+  channel: string | null;
+  guest: Guest;
+  // YYYY-MM-DD in the listing's timezone
+  arrivalDate: string | null;
+  departureDate: string | null;
+  checkInTime: string | null;
+  checkOutTime: string | null;
+  timezone: string | null;
+  // Arrival and departure instants; check-in defaults to 15:00 and checkout to 10:00 local time
+  checkInAt: Date | null;
+  checkOutAt: Date | null;
+  guestCount: number | null;
+  totalPrice: number | null;
+  currency: string | null;
+  // Reservation-specific access code, when the PMS issues one per stay
+  doorCode: string | null;
+  conversationId: string | null;
+  guestPortalUrl: string | null;
+  // When the guest booked
+  reservedAt: Date | null;
+  // Last change the PMS recorded on the reservation; unchanged reservations are skipped on sync
+  updatedAt: Date | null;
+  raw: Record<string, unknown>;
+}
+
+export interface Listing {
+  id: string;
+  // Internal name staff recognise
+  name: string | null;
+  // Name shown to guests on booking channels
+  publicName: string | null;
+  address: string | null;
+  city: string | null;
+  country: string | null;
+  timezone: string | null;
+  checkInTime: string | null;
+  checkOutTime: string | null;
+  doorCode: string | null;
+  wifiName: string | null;
+  wifiPassword: string | null;
+  amenities: string[];
+  houseRules: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface ListingCalendarDay {
+  date: string;
+  available: boolean;
+  // Nightly rate in the listing's currency; null when the PMS has no price for the day
+  price: number | null;
+  minimumStay: number | null;
+}
+
+export interface PmsConversation {
+  id: string;
+  reservationId: string | null;
+  // Provider thread type, e.g. "host-guest-channel", "host-guest-email"
+  type: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface GuestMessage {
+  id: string | null;
+  conversationId: string | null;
+  reservationId: string | null;
+  body: string;
+  // True for messages from the guest, false for messages from the host or automations
+  isIncoming: boolean;
+  sentAt: string | null;
+  // Channel the message travelled on, e.g. "email", "channel", "whatsapp"
+  communicationType: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface ReservationQuery {
+  listingId?: string;
+  // Inclusive YYYY-MM-DD bounds
+  arrivalFrom?: string;
+  arrivalTo?: string;
+  departureFrom?: string;
+  departureTo?: string;
+}
+
+export interface ConversationQuery {
+  reservationId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface OutboundGuestMessage {
+  reservationId: string;
+  // Sends into this conversation when known, otherwise to the reservation's default thread
+  conversationId?: string | null;
+  body: string;
+}
+
+export interface SentGuestMessage {
+  via: 'conversation' | 'reservation';
+  conversationId: string | null;
+}
+
+export interface PmsWebhookEvent {
+  event: string;
+  // PMS account the delivery belongs to, used to find the tenant
+  accountId: string | null;
+  reservationId: string | null;
+  conversationId: string | null;
+  // Set for guest message events
+  message: GuestMessage | null;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Property management system the tenant's reservations, listings and guest conversations live
+ * in. Adapters normalize the PMS's records so callers never read provider-specific fields.
+ */
+export interface PropertyManagementProvider {
+  readonly kind: PmsProviderKind;
+  readonly name: string;
+  getReservation(tenant: TenantSummary, reservationId: string): Promise<Reservation>;
+  listReservations(tenant: TenantSummary, query: ReservationQuery): Promise<Reservation[]>;
+  // Null when the listing does not exist or cannot be read
+  getListing(tenant: TenantSummary, listingId: string): Promise<Listing | null>;
+  /** Reads the listing calendar for `startDate`..`endDate` (inclusive, YYYY-MM-DD). */
+  getListingCalendar(
+    tenant: TenantSummary,
+    listingId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<ListingCalendarDay[]>;
+  listConversations(tenant: TenantSummary, query?: ConversationQuery): Promise<PmsConversation[]>;
+  getConversationMessages(tenant: TenantSummary, conversationId: string): Promise<GuestMessage[]>;
+  // Conversation guest messages for the reservation go to; null when it has none yet
+  findGuestConversation(tenant: TenantSummary, reservationId: string): Promise<string | null>;
+  sendMessage(tenant: TenantSummary, message: OutboundGuestMessage): Promise<SentGuestMessage>;
+  parseWebhook(payload: Record<string, unknown>): PmsWebhookEvent;
+}
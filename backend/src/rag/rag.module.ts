@@ -1,15 +1,30 @@
-import { forwardRef, Module } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 
+import { AuditModule } from '../audit/audit.module';
 import { DatabaseModule } from '../database/database.module';
-import { IntegrationsModule } from '../integrations/integrations.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { LlmModule } from '../llm/llm.module';
+import { PmsModule } from '../pms/pms.module';
 import { TenantModule } from '../tenant/tenant.module';
+import { UsageModule } from '../usage/usage.module';
+import { RagSyncService } from './rag-sync.service';
 import { RagController } from './rag.controller';
 import { RagService } from './rag.service';
 
 @Module({
-  imports: [DatabaseModule, TenantModule, forwardRef(() => IntegrationsModule)],
+  imports: [
+    DatabaseModule,
+    TenantModule,
+    JobsModule,
+    LlmModule,
+    AuditModule,
+    UsageModule,
+    EntitlementsModule,
+    PmsModule,
+  ],
   controllers: [RagController],
-  providers: [RagService],
-  exports: [RagService],
+  providers: [RagService, RagSyncService],
+  exports: [RagService, RagSyncService],
 })
 export class RagModule {}
@@ -1,8 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
 
 import { DatabaseService } from '../database/database.service';
+import { EntitlementsService } from '../entitlements/entitlements.service';
+import { LlmProviderService } from '../llm/llm-provider.service';
+import { UsageService } from '../usage/usage.service';
 
 export interface KnowledgeBaseDocument {
   id: string;
@@ -23,37 +24,29 @@ export interface DocumentChunk {
 @Injectable()
 export class RagService {
   private readonly logger = new Logger(RagService.name);
-  private readonly openai: OpenAI | null;
-  private readonly embeddingModel = 'text-embedding-3-small'; // 1536 dimensions
 
   constructor(
-    private readonly configService: ConfigService,
     private readonly databaseService: DatabaseService,
+    private readonly llmProviderService: LlmProviderService,
+    private readonly usageService: UsageService,
+    private readonly entitlementsService: EntitlementsService,
   ) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    if (!apiKey) {
-      this.logger.warn('OPENAI_API_KEY is not configured. Embedding generation will fail.');
-      this.openai = null;
-    } else {
-      this.openai = new OpenAI({ apiKey });
+    if (!this.llmProviderService.getEmbeddingProvider()) {
+      this.logger.warn('No embedding provider is configured. Embedding generation will fail.');
     }
   }
 
   /**
-   * Generate embedding for text using OpenAI
+   * Generate embedding for text using the configured embedding provider
    */
   async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI API key is not configured');
+    const provider = this.llmProviderService.getEmbeddingProvider();
+    if (!provider) {
+      throw new Error('No embedding provider is configured');
     }
 
     try {
-      const response = await this.openai.embeddings.create({
-        model: this.embeddingModel,
-        input: text,
-      });
-
-      return response.data[0].embedding;
+      return await provider.embed(text);
     } catch (error) {
       this.logger.error('Failed to generate embedding', error as Error);
       throw error;
@@ -115,10 +108,16 @@ export class RagService {
       throw new Error('Content is required');
     }
 
+    // Synced conversation history is metered as embeddings, not counted against the document cap
+    if (metadata?.source !== 'hostaway_conversation') {
+      await this.entitlementsService.assertTenantEntitled(tenantId, 'knowledge_base_documents');
+    }
+
     const chunks = this.chunkText(content.trim());
 
     // Generate embeddings for each chunk
     const embeddings = await Promise.all(chunks.map((chunk) => this.generateEmbedding(chunk)));
+    await this.usageService.record(tenantId, 'embeddings', embeddings.length);
 
     // Store each chunk as a separate document (or combine them)
     // For simplicity, we'll store the full content with the first chunk's embedding
@@ -227,14 +226,15 @@ export class RagService {
     query: string,
     limit = 5,
   ): Promise<Array<KnowledgeBaseDocument & { similarity: number }>> {
-    if (!this.openai) {
-      this.logger.warn('OpenAI not configured, falling back to keyword search');
+    if (!this.llmProviderService.getEmbeddingProvider()) {
+      this.logger.warn('No embedding provider configured, falling back to keyword search');
       return this.searchDocumentsByKeyword(tenantId, query, limit);
     }
 
     try {
       // Generate embedding for the query
       const queryEmbedding = await this.generateEmbedding(query);
+      await this.usageService.record(tenantId, 'embeddings');
       const embeddingString = `[${queryEmbedding.join(',')}]`;
 
       // Search using cosine similarity (pgvector)
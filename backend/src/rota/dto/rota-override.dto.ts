@@ -0,0 +1,29 @@
+import { IsISO8601, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class RotaOverrideDto {
+  // Person taken off call for the period
+  @IsOptional()
+  @IsUUID()
+  staffMemberId?: string | null;
+
+  // Person on call for the period instead
+  @IsOptional()
+  @IsUUID()
+  coverStaffMemberId?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  listingId?: string | null;
+
+  @IsISO8601()
+  startsAt!: string;
+
+  @IsISO8601()
+  endsAt!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string | null;
+}
@@ -0,0 +1,23 @@
+import { IsInt, IsOptional, IsString, IsUUID, Matches, Max, MaxLength, Min } from 'class-validator';
+
+export class RotaShiftDto {
+  @IsUUID()
+  staffMemberId!: string;
+
+  // Omit or null to cover every listing without shifts of its own
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  listingId?: string | null;
+
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek!: number;
+
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  startTime!: string;
+
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  endTime!: string;
+}
@@ -0,0 +1,22 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class StaffMemberDto {
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  // Used for WhatsApp, SMS and voice alerts
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  phone?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  email?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
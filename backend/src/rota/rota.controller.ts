@@ -0,0 +1,145 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { RotaOverride, RotaShift, StaffMember } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { RotaOverrideDto } from './dto/rota-override.dto';
+import { RotaShiftDto } from './dto/rota-shift.dto';
+import { StaffMemberDto } from './dto/staff-member.dto';
+import { RotaService } from './rota.service';
+
+@Controller('rota')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+export class RotaController {
+  constructor(
+    private readonly rotaService: RotaService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get('staff')
+  async listStaff(@Req() req: AuthenticatedRequest): Promise<StaffMember[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.listStaff(tenant.id);
+  }
+
+  @Post('staff')
+  @RequireTenantRole('manager')
+  async createStaffMember(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: StaffMemberDto,
+  ): Promise<StaffMember> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.createStaffMember(tenant.id, dto);
+  }
+
+  @Put('staff/:id')
+  @RequireTenantRole('manager')
+  async updateStaffMember(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: StaffMemberDto,
+  ): Promise<StaffMember> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.updateStaffMember(tenant.id, id, dto);
+  }
+
+  @Delete('staff/:id')
+  @RequireTenantRole('manager')
+  async deleteStaffMember(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.rotaService.deleteStaffMember(tenant.id, id);
+    return { deleted: true };
+  }
+
+  @Get('shifts')
+  async listShifts(@Req() req: AuthenticatedRequest): Promise<RotaShift[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.listShifts(tenant.id);
+  }
+
+  @Post('shifts')
+  @RequireTenantRole('manager')
+  async createShift(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: RotaShiftDto,
+  ): Promise<RotaShift> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.createShift(tenant.id, dto);
+  }
+
+  @Put('shifts/:id')
+  @RequireTenantRole('manager')
+  async updateShift(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: RotaShiftDto,
+  ): Promise<RotaShift> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.updateShift(tenant.id, id, dto);
+  }
+
+  @Delete('shifts/:id')
+  @RequireTenantRole('manager')
+  async deleteShift(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.rotaService.deleteShift(tenant.id, id);
+    return { deleted: true };
+  }
+
+  @Get('overrides')
+  async listOverrides(@Req() req: AuthenticatedRequest): Promise<RotaOverride[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.listOverrides(tenant.id);
+  }
+
+  @Post('overrides')
+  @RequireTenantRole('manager')
+  async createOverride(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: RotaOverrideDto,
+  ): Promise<RotaOverride> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.createOverride(tenant.id, dto);
+  }
+
+  @Delete('overrides/:id')
+  @RequireTenantRole('manager')
+  async deleteOverride(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.rotaService.deleteOverride(tenant.id, id);
+    return { deleted: true };
+  }
+
+  @Get('on-call')
+  async getOnCall(
+    @Req() req: AuthenticatedRequest,
+    @Query('listingId') listingId?: string,
+  ): Promise<StaffMember[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.rotaService.findOnCall(tenant.id, listingId || null);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+
+import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { RotaController } from './rota.controller';
+import { RotaService } from './rota.service';
+
+@Module({
+  imports: [ConfigModule, PassportModule, TenantModule, DatabaseModule, EntitlementsModule],
+  controllers: [RotaController],
+  providers: [RotaService],
+  exports: [RotaService],
+})
+export class RotaModule {}
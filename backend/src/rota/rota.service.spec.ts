@@ -0,0 +1,200 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+
+import { DatabaseService } from '../database/database.service';
+import { RotaService } from './rota.service';
+
+interface ShiftFixture {
+  staff_member_id: string;
+  listing_id: string | null;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+interface OverrideFixture {
+  staff_member_id: string | null;
+  cover_staff_member_id: string | null;
+}
+
+const TIMEZONES: Record<string, string> = {
+  'listing-nyc': 'America/New_York',
+  'listing-tokyo': 'Asia/Tokyo',
+  'listing-london': 'Europe/London',
+};
+
+const staff = (id: string) => ({
+  id,
+  name: id,
+  phone: '+447700900000',
+  email: null,
+  active: true,
+  created_at: new Date(0),
+  updated_at: new Date(0),
+});
+
+describe('RotaService', () => {
+  let service: RotaService;
+  let shifts: ShiftFixture[];
+  let overrides: OverrideFixture[];
+
+  // Answers the queries findOnCall makes the way the database would for the fixtures above
+  const runQuery = jest.fn(async (sql: string, params: unknown[]) => {
+    if (sql.includes('from public.properties')) {
+      const timezone = TIMEZONES[params[1] as string];
+      return { rows: timezone ? [{ timezone }] : [] };
+    }
+    if (sql.includes('from public.rota_shifts')) {
+      const days = [params[2], params[3]];
+      return {
+        rows: shifts.filter(
+          (shift) =>
+            days.includes(shift.day_of_week) &&
+            (shift.listing_id === null || shift.listing_id === params[1]),
+        ),
+      };
+    }
+    if (sql.includes('from public.rota_overrides')) {
+      return { rows: overrides };
+    }
+    return { rows: (params[1] as string[]).map(staff) };
+  });
+
+  const onCall = async (listingId: string | null, at: string) =>
+    (await service.findOnCall('tenant-1', listingId, new Date(at))).map((member) => member.id);
+
+  beforeAll(async () => {
+    const app = await Test.createTestingModule({
+      providers: [
+        RotaService,
+        { provide: DatabaseService, useValue: { runQuery } },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = app.get<RotaService>(RotaService);
+  });
+
+  beforeEach(() => {
+    shifts = [];
+    overrides = [];
+  });
+
+  describe('findOnCall', () => {
+    it("evaluates shifts in the listing's timezone", async () => {
+      // Monday 09:00-17:00 wherever the listing is
+      shifts = [
+        {
+          staff_member_id: 'alex',
+          listing_id: null,
+          day_of_week: 1,
+          start_time: '09:00',
+          end_time: '17:00',
+        },
+      ];
+
+      // 15:00 UTC is 10:00 in New York but 15:00 in London
+      expect(await onCall('listing-nyc', '2026-03-02T15:00:00Z')).toEqual(['alex']);
+      // 08:30 UTC is 08:30 in London, before the shift starts
+      expect(await onCall('listing-london', '2026-03-02T08:30:00Z')).toEqual([]);
+      // 22:30 UTC is 17:30 in New York, after the shift ends
+      expect(await onCall('listing-nyc', '2026-03-02T22:30:00Z')).toEqual([]);
+    });
+
+    it('keeps an overnight shift running into the next local day', async () => {
+      // Sunday 22:00 until Monday 06:00
+      shifts = [
+        {
+          staff_member_id: 'kenji',
+          listing_id: null,
+          day_of_week: 0,
+          start_time: '22:00',
+          end_time: '06:00',
+        },
+      ];
+
+      // Still Sunday in UTC, but 05:00 on Monday in Tokyo
+      expect(await onCall('listing-tokyo', '2026-03-01T20:00:00Z')).toEqual(['kenji']);
+      expect(runQuery).toHaveBeenCalledWith(expect.stringContaining('from public.rota_shifts'), [
+        'tenant-1',
+        'listing-tokyo',
+        1,
+        0,
+      ]);
+      // 07:00 on Monday in Tokyo
+      expect(await onCall('listing-tokyo', '2026-03-01T22:00:00Z')).toEqual([]);
+    });
+
+    it('follows daylight saving changes', async () => {
+      // Sunday 09:00-10:00; British Summer Time starts at 01:00 UTC on 29 March 2026
+      shifts = [
+        {
+          staff_member_id: 'sam',
+          listing_id: null,
+          day_of_week: 0,
+          start_time: '09:00',
+          end_time: '10:00',
+        },
+      ];
+
+      expect(await onCall('listing-london', '2026-03-22T09:30:00Z')).toEqual(['sam']);
+      expect(await onCall('listing-london', '2026-03-29T08:30:00Z')).toEqual(['sam']);
+      expect(await onCall('listing-london', '2026-03-29T09:30:00Z')).toEqual([]);
+    });
+
+    it('falls back to the default timezone for unknown listings', async () => {
+      shifts = [
+        {
+          staff_member_id: 'alex',
+          listing_id: null,
+          day_of_week: 1,
+          start_time: '09:00',
+          end_time: '17:00',
+        },
+      ];
+
+      // 09:30 in London, 04:30 in New York
+      expect(await onCall(null, '2026-03-02T09:30:00Z')).toEqual(['alex']);
+    });
+
+    it("lets a listing's own shifts replace the tenant-wide rota", async () => {
+      shifts = [
+        {
+          staff_member_id: 'alex',
+          listing_id: null,
+          day_of_week: 1,
+          start_time: '00:00',
+          end_time: '23:59',
+        },
+        {
+          staff_member_id: 'maria',
+          listing_id: 'listing-nyc',
+          day_of_week: 1,
+          start_time: '00:00',
+          end_time: '23:59',
+        },
+      ];
+
+      expect(await onCall('listing-nyc', '2026-03-02T15:00:00Z')).toEqual(['maria']);
+      expect(await onCall('listing-london', '2026-03-02T15:00:00Z')).toEqual(['alex']);
+    });
+
+    it('applies cover and extra-cover overrides', async () => {
+      shifts = [
+        {
+          staff_member_id: 'alex',
+          listing_id: null,
+          day_of_week: 1,
+          start_time: '09:00',
+          end_time: '17:00',
+        },
+      ];
+      overrides = [
+        { staff_member_id: 'alex', cover_staff_member_id: 'maria' },
+        { staff_member_id: null, cover_staff_member_id: 'sam' },
+      ];
+
+      expect(await onCall('listing-london', '2026-03-02T12:00:00Z')).toEqual(['maria', 'sam']);
+    });
+  });
+});
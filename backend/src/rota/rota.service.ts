@@ -0,0 +1,504 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RotaOverride, RotaShift, StaffMember } from '@saas-automation/shared-types';
+import { isValid, parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+
+import { DatabaseService } from '../database/database.service';
+import { RotaOverrideDto } from './dto/rota-override.dto';
+import { RotaShiftDto } from './dto/rota-shift.dto';
+import { StaffMemberDto } from './dto/staff-member.dto';
+
+interface StaffMemberRow {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface RotaShiftRow {
+  id: string;
+  staff_member_id: string;
+  listing_id: string | null;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+interface RotaOverrideRow {
+  id: string;
+  staff_member_id: string | null;
+  cover_staff_member_id: string | null;
+  listing_id: string | null;
+  starts_at: Date;
+  ends_at: Date;
+  reason: string | null;
+}
+
+const STAFF_COLUMNS = 'id, name, phone, email, active, created_at, updated_at';
+const SHIFT_COLUMNS = 'id, staff_member_id, listing_id, day_of_week, start_time, end_time';
+const OVERRIDE_COLUMNS =
+  'id, staff_member_id, cover_staff_member_id, listing_id, starts_at, ends_at, reason';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_TIMEZONE = 'Europe/London';
+
+@Injectable()
+export class RotaService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async listStaff(tenantId: string): Promise<StaffMember[]> {
+    const { rows } = await this.databaseService.runQuery<StaffMemberRow>(
+      `select ${STAFF_COLUMNS}
+         from public.staff_members
+        where tenant_id = $1
+        order by name`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapStaffMember(row));
+  }
+
+  async createStaffMember(tenantId: string, dto: StaffMemberDto): Promise<StaffMember> {
+    const member = this.validateStaffMember(dto);
+
+    const { rows } = await this.databaseService.runQuery<StaffMemberRow>(
+      `insert into public.staff_members (tenant_id, name, phone, email, active)
+       values ($1, $2, $3, $4, $5)
+       returning ${STAFF_COLUMNS}`,
+      [tenantId, member.name, member.phone, member.email, member.active],
+    );
+
+    return this.mapStaffMember(rows[0]);
+  }
+
+  async updateStaffMember(
+    tenantId: string,
+    staffMemberId: string,
+    dto: StaffMemberDto,
+  ): Promise<StaffMember> {
+    const member = this.validateStaffMember(dto);
+
+    const { rows } = await this.databaseService.runQuery<StaffMemberRow>(
+      `update public.staff_members
+          set name = $3,
+              phone = $4,
+              email = $5,
+              active = $6,
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${STAFF_COLUMNS}`,
+      [staffMemberId, tenantId, member.name, member.phone, member.email, member.active],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Staff member not found');
+    }
+
+    return this.mapStaffMember(rows[0]);
+  }
+
+  async deleteStaffMember(tenantId: string, staffMemberId: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.staff_members where id = $1 and tenant_id = $2`,
+      [staffMemberId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Staff member not found');
+    }
+  }
+
+  async listShifts(tenantId: string): Promise<RotaShift[]> {
+    const { rows } = await this.databaseService.runQuery<RotaShiftRow>(
+      `select ${SHIFT_COLUMNS}
+         from public.rota_shifts
+        where tenant_id = $1
+        order by day_of_week, start_time, listing_id nulls first`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapShift(row));
+  }
+
+  async createShift(tenantId: string, dto: RotaShiftDto): Promise<RotaShift> {
+    const shift = this.validateShift(dto);
+    await this.assertStaffMembers(tenantId, [shift.staffMemberId]);
+
+    const { rows } = await this.databaseService.runQuery<RotaShiftRow>(
+      `insert into public.rota_shifts (
+         tenant_id, staff_member_id, listing_id, day_of_week, start_time, end_time
+       )
+       values ($1, $2, $3, $4, $5, $6)
+       returning ${SHIFT_COLUMNS}`,
+      [
+        tenantId,
+        shift.staffMemberId,
+        shift.listingId,
+        shift.dayOfWeek,
+        shift.startTime,
+        shift.endTime,
+      ],
+    );
+
+    return this.mapShift(rows[0]);
+  }
+
+  async updateShift(tenantId: string, shiftId: string, dto: RotaShiftDto): Promise<RotaShift> {
+    const shift = this.validateShift(dto);
+    await this.assertStaffMembers(tenantId, [shift.staffMemberId]);
+
+    const { rows } = await this.databaseService.runQuery<RotaShiftRow>(
+      `update public.rota_shifts
+          set staff_member_id = $3,
+              listing_id = $4,
+              day_of_week = $5,
+              start_time = $6,
+              end_time = $7,
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${SHIFT_COLUMNS}`,
+      [
+        shiftId,
+        tenantId,
+        shift.staffMemberId,
+        shift.listingId,
+        shift.dayOfWeek,
+        shift.startTime,
+        shift.endTime,
+      ],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    return this.mapShift(rows[0]);
+  }
+
+  async deleteShift(tenantId: string, shiftId: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.rota_shifts where id = $1 and tenant_id = $2`,
+      [shiftId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Shift not found');
+    }
+  }
+
+  /** Overrides that have not ended yet, soonest first. */
+  async listOverrides(tenantId: string): Promise<RotaOverride[]> {
+    const { rows } = await this.databaseService.runQuery<RotaOverrideRow>(
+      `select ${OVERRIDE_COLUMNS}
+         from public.rota_overrides
+        where tenant_id = $1
+          and ends_at > now()
+        order by starts_at`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapOverride(row));
+  }
+
+  async createOverride(tenantId: string, dto: RotaOverrideDto): Promise<RotaOverride> {
+    const override = this.validateOverride(dto);
+    await this.assertStaffMembers(
+      tenantId,
+      [override.staffMemberId, override.coverStaffMemberId].filter((id): id is string => !!id),
+    );
+
+    const { rows } = await this.databaseService.runQuery<RotaOverrideRow>(
+      `insert into public.rota_overrides (
+         tenant_id, staff_member_id, cover_staff_member_id, listing_id, starts_at, ends_at, reason
+       )
+       values ($1, $2, $3, $4, $5, $6, $7)
+       returning ${OVERRIDE_COLUMNS}`,
+      [
+        tenantId,
+        override.staffMemberId,
+        override.coverStaffMemberId,
+        override.listingId,
+        override.startsAt.toISOString(),
+        override.endsAt.toISOString(),
+        override.reason,
+      ],
+    );
+
+    return this.mapOverride(rows[0]);
+  }
+
+  async deleteOverride(tenantId: string, overrideId: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.rota_overrides where id = $1 and tenant_id = $2`,
+      [overrideId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Override not found');
+    }
+  }
+
+  /**
+   * Staff on call at `at` for a listing, evaluating weekly shifts in the property's local time and
+   * then applying overrides. A listing's own shifts replace the tenant-wide rota.
+   */
+  async findOnCall(
+    tenantId: string,
+    listingId?: string | null,
+    at = new Date(),
+  ): Promise<StaffMember[]> {
+    const timezone = await this.resolveTimezone(tenantId, listingId);
+    const local = toZonedTime(at, timezone);
+    const day = local.getDay();
+    const previousDay = (day + 6) % 7;
+    const minutes = local.getHours() * 60 + local.getMinutes();
+
+    const { rows: shiftRows } = await this.databaseService.runQuery<RotaShiftRow>(
+      `select s.id, s.staff_member_id, s.listing_id, s.day_of_week, s.start_time, s.end_time
+         from public.rota_shifts s
+         join public.staff_members m on m.id = s.staff_member_id and m.active = true
+        where s.tenant_id = $1
+          and (s.listing_id is null or s.listing_id = $2)
+          and s.day_of_week in ($3, $4)
+        order by s.start_time`,
+      [tenantId, listingId ?? null, day, previousDay],
+    );
+
+    const hasListingShifts = shiftRows.some((row) => row.listing_id !== null);
+    const onShift = shiftRows
+      .filter((row) => !hasListingShifts || row.listing_id !== null)
+      .filter((row) => this.coversTime(row, day, minutes))
+      .map((row) => row.staff_member_id);
+
+    const { rows: overrideRows } = await this.databaseService.runQuery<RotaOverrideRow>(
+      `select ${OVERRIDE_COLUMNS}
+         from public.rota_overrides
+        where tenant_id = $1
+          and (listing_id is null or listing_id = $2)
+          and starts_at <= $3
+          and ends_at > $3
+        order by starts_at`,
+      [tenantId, listingId ?? null, at.toISOString()],
+    );
+
+    const staffIds: string[] = [];
+    for (const id of onShift) {
+      const replaced = overrideRows.find((row) => row.staff_member_id === id);
+      const effective = replaced ? replaced.cover_staff_member_id : id;
+      if (effective && !staffIds.includes(effective)) {
+        staffIds.push(effective);
+      }
+    }
+    // Extra cover that does not replace anyone on the rota
+    for (const row of overrideRows) {
+      if (
+        row.cover_staff_member_id &&
+        !row.staff_member_id &&
+        !staffIds.includes(row.cover_staff_member_id)
+      ) {
+        staffIds.push(row.cover_staff_member_id);
+      }
+    }
+
+    if (staffIds.length === 0) {
+      return [];
+    }
+
+    const { rows } = await this.databaseService.runQuery<StaffMemberRow>(
+      `select ${STAFF_COLUMNS}
+         from public.staff_members
+        where tenant_id = $1
+          and id = any($2::uuid[])
+          and active = true`,
+      [tenantId, staffIds],
+    );
+
+    // Keep rota order: whoever's shift started first is called first
+    return staffIds
+      .map((id) => rows.find((row) => row.id === id))
+      .filter((row): row is StaffMemberRow => !!row)
+      .map((row) => this.mapStaffMember(row));
+  }
+
+  /** Timezone of the synced property for the listing, falling back to the automation default. */
+  async resolveTimezone(tenantId: string, listingId?: string | null): Promise<string> {
+    if (listingId) {
+      const { rows } = await this.databaseService.runQuery<{ timezone: string | null }>(
+        `select timezone
+           from public.properties
+          where tenant_id = $1
+            and external_id = $2
+          limit 1`,
+        [tenantId, listingId],
+      );
+      if (rows[0]?.timezone) {
+        return rows[0].timezone;
+      }
+    }
+
+    return this.configService.get<string>('HOSTAWAY_AUTOMATION_TIMEZONE') || DEFAULT_TIMEZONE;
+  }
+
+  private coversTime(shift: RotaShiftRow, day: number, minutes: number): boolean {
+    const start = this.toMinutes(shift.start_time);
+    const end = this.toMinutes(shift.end_time);
+    const overnight = end <= start;
+
+    if (shift.day_of_week === day) {
+      return overnight ? minutes >= start : minutes >= start && minutes < end;
+    }
+
+    // Yesterday's overnight shift still running this morning
+    return overnight && minutes < end;
+  }
+
+  private toMinutes(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private async assertStaffMembers(tenantId: string, staffMemberIds: string[]): Promise<void> {
+    if (staffMemberIds.length === 0) {
+      return;
+    }
+
+    const { rows } = await this.databaseService.runQuery<{ id: string }>(
+      `select id from public.staff_members where tenant_id = $1 and id = any($2::uuid[])`,
+      [tenantId, staffMemberIds],
+    );
+
+    if (rows.length !== new Set(staffMemberIds).size) {
+      throw new BadRequestException('Unknown staff member');
+    }
+  }
+
+  private validateStaffMember(dto: StaffMemberDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('Staff member payload is required');
+    }
+
+    const name = typeof dto.name === 'string' ? dto.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+
+    const phone = dto.phone?.replace(/^whatsapp:/i, '').replace(/[ ()-]/g, '') || null;
+    if (phone && !/^\+?[0-9]{6,}$/.test(phone)) {
+      throw new BadRequestException('phone must be a phone number');
+    }
+
+    const email = dto.email?.trim() || null;
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new BadRequestException('email must be an email address');
+    }
+
+    if (!phone && !email) {
+      throw new BadRequestException('A phone number or email address is required');
+    }
+
+    return { name, phone, email, active: dto.active ?? true };
+  }
+
+  private validateShift(dto: RotaShiftDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('Shift payload is required');
+    }
+
+    if (!dto.staffMemberId) {
+      throw new BadRequestException('staffMemberId is required');
+    }
+
+    if (!Number.isInteger(dto.dayOfWeek) || dto.dayOfWeek < 0 || dto.dayOfWeek > 6) {
+      throw new BadRequestException('dayOfWeek must be between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    if (!TIME_PATTERN.test(dto.startTime ?? '') || !TIME_PATTERN.test(dto.endTime ?? '')) {
+      throw new BadRequestException('startTime and endTime must use HH:MM');
+    }
+
+    return {
+      staffMemberId: dto.staffMemberId,
+      listingId: dto.listingId?.trim() || null,
+      dayOfWeek: dto.dayOfWeek,
+      startTime: dto.startTime,
+      endTime: dto.endTime,
+    };
+  }
+
+  private validateOverride(dto: RotaOverrideDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('Override payload is required');
+    }
+
+    const staffMemberId = dto.staffMemberId || null;
+    const coverStaffMemberId = dto.coverStaffMemberId || null;
+    if (!staffMemberId && !coverStaffMemberId) {
+      throw new BadRequestException('staffMemberId or coverStaffMemberId is required');
+    }
+    if (staffMemberId && staffMemberId === coverStaffMemberId) {
+      throw new BadRequestException('A staff member cannot cover for themselves');
+    }
+
+    const startsAt = parseISO(dto.startsAt ?? '');
+    const endsAt = parseISO(dto.endsAt ?? '');
+    if (!isValid(startsAt) || !isValid(endsAt)) {
+      throw new BadRequestException('startsAt and endsAt must be ISO dates');
+    }
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+
+    return {
+      staffMemberId,
+      coverStaffMemberId,
+      listingId: dto.listingId?.trim() || null,
+      startsAt,
+      endsAt,
+      reason: dto.reason?.trim() || null,
+    };
+  }
+
+  private mapStaffMember(row: StaffMemberRow): StaffMember {
+    return {
+      id: row.id,
+      name: row.name,
+      phone: row.phone,
+      email: row.email,
+      active: row.active,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private mapShift(row: RotaShiftRow): RotaShift {
+    return {
+      id: row.id,
+      staffMemberId: row.staff_member_id,
+      listingId: row.listing_id,
+      dayOfWeek: row.day_of_week,
+      startTime: row.start_time,
+      endTime: row.end_time,
+    };
+  }
+
+  private mapOverride(row: RotaOverrideRow): RotaOverride {
+    return {
+      id: row.id,
+      staffMemberId: row.staff_member_id,
+      coverStaffMemberId: row.cover_staff_member_id,
+      listingId: row.listing_id,
+      startsAt: new Date(row.starts_at).toISOString(),
+      endsAt: new Date(row.ends_at).toISOString(),
+      reason: row.reason,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { AxiosError, AxiosResponse } from 'axios';
+
+import {
+  classifyDeliveryError,
+  getMaxDeliveryAttempts,
+  getRetryDelayMs,
+} from './delivery-retry.policy';
+
+const axiosError = (status?: number, code?: string): AxiosError =>
+  new AxiosError(
+    'Request failed',
+    code,
+    undefined,
+    undefined,
+    status === undefined ? undefined : ({ status, data: {} } as AxiosResponse),
+  );
+
+const twilioError = (status: number) =>
+  Object.assign(new Error('Twilio rejected the message'), {
+    status,
+    code: 21211,
+    moreInfo: 'https://www.twilio.com/docs/errors/21211',
+  });
+
+describe('classifyDeliveryError', () => {
+  it.each([408, 429, 500, 503])('treats an HTTP %i response as transient', (status) => {
+    expect(classifyDeliveryError(axiosError(status))).toBe('transient');
+  });
+
+  it.each([400, 401, 404, 422])('treats an HTTP %i response as permanent', (status) => {
+    expect(classifyDeliveryError(axiosError(status))).toBe('permanent');
+  });
+
+  it('treats a request that never got a response as transient', () => {
+    expect(classifyDeliveryError(axiosError(undefined, 'ECONNABORTED'))).toBe('transient');
+  });
+
+  it('classifies Twilio errors by their HTTP status', () => {
+    expect(classifyDeliveryError(twilioError(503))).toBe('transient');
+    expect(classifyDeliveryError(twilioError(400))).toBe('permanent');
+  });
+
+  it('treats network error codes as transient', () => {
+    expect(classifyDeliveryError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+      'transient',
+    );
+  });
+
+  it('unwraps errors through their cause', () => {
+    const wrapped = Object.assign(new Error('Delivery failed'), { cause: axiosError(502) });
+
+    expect(classifyDeliveryError(wrapped)).toBe('transient');
+  });
+
+  it('treats unknown errors as permanent', () => {
+    expect(classifyDeliveryError(new Error('Guest phone is missing'))).toBe('permanent');
+    expect(classifyDeliveryError('failed')).toBe('permanent');
+    expect(classifyDeliveryError(undefined)).toBe('permanent');
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  it('doubles from one minute and caps at thirty', () => {
+    expect([1, 2, 3, 6, 10].map((attempt) => getRetryDelayMs(attempt) / 60_000)).toEqual([
+      1, 2, 4, 30, 30,
+    ]);
+  });
+});
+
+describe('getMaxDeliveryAttempts', () => {
+  it('gives time-critical messages more attempts', () => {
+    expect(getMaxDeliveryAttempts('door_code_3h')).toBeGreaterThan(
+      getMaxDeliveryAttempts('checkout_morning'),
+    );
+    expect(getMaxDeliveryAttempts(null)).toBe(4);
+  });
+});
@@ -0,0 +1,104 @@
+import axios, { AxiosError } from 'axios';
+
+import { ProactiveMessageType } from './scheduling.service';
+
+export type DeliveryFailureKind = 'transient' | 'permanent';
+
+// Time-critical messages get more attempts; a missed door code strands the guest at the door
+const MAX_ATTEMPTS_BY_TYPE: Record<ProactiveMessageType, number> = {
+  thank_you_immediate: 4,
+  pre_arrival_24h: 6,
+  door_code_3h: 8,
+  same_day_checkin: 8,
+  checkout_morning: 3,
+  pre_checkout_evening: 3,
+};
+const DEFAULT_MAX_ATTEMPTS = 4;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EPIPE',
+  'ETIMEDOUT',
+  'ERR_NETWORK',
+]);
+
+export function getMaxDeliveryAttempts(messageType: string | null): number {
+  return MAX_ATTEMPTS_BY_TYPE[messageType as ProactiveMessageType] ?? DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Exponential backoff for the given attempt number (1-based): 1m, 2m, 4m ... capped at 30m.
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Classifies a delivery error from its Axios or Twilio shape. Network failures, timeouts, rate
+ * limits and 5xx responses are transient; anything else (4xx, missing data, unknown errors) is
+ * treated as permanent so it is not retried blindly. Wrapped errors are unwrapped via `cause`.
+ */
+export function classifyDeliveryError(error: unknown): DeliveryFailureKind {
+  let current: unknown = error;
+
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (axios.isAxiosError(current)) {
+      return classifyAxiosError(current);
+    }
+
+    const status = readNumber(current, 'status');
+    if (status !== undefined && isTwilioError(current)) {
+      return isTransientStatus(status) ? 'transient' : 'permanent';
+    }
+
+    const code = readString(current, 'code');
+    if (code && TRANSIENT_NETWORK_CODES.has(code)) {
+      return 'transient';
+    }
+
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return 'permanent';
+}
+
+function classifyAxiosError(error: AxiosError): DeliveryFailureKind {
+  if (!error.response) {
+    // No response means the request never completed (timeout, DNS, connection reset)
+    return 'transient';
+  }
+
+  return isTransientStatus(error.response.status) ? 'transient' : 'permanent';
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Twilio's RestException carries the HTTP status plus a numeric Twilio error code and moreInfo URL
+function isTwilioError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (readString(error, 'moreInfo') !== undefined ||
+      (error as { name?: unknown }).name === 'RestException')
+  );
+}
+
+function readNumber(source: unknown, key: string): number | undefined {
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function readString(source: unknown, key: string): string | undefined {
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value : undefined;
+}
@@ -1,16 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 
+import { parseAutomationMessageType } from '../automations/automation-evaluator';
+import { AutomationRulesService } from '../automations/automation-rules.service';
+import { AutomationsService } from '../automations/automations.service';
+import { BookingsService } from '../bookings/bookings.service';
 import { LoggingService } from '../logging/logging.service';
 import { TenantService, TenantSummary } from '../tenant/tenant.service';
 import {
   ConversationsService,
   PendingOutboundMessage,
 } from '../conversations/conversations.service';
-import { DatabaseService } from '../database/database.service';
-import { HostawayClient } from '../integrations/hostaway.client';
-import { TwilioClient } from '../messaging/twilio.client';
+import { EventsService } from '../events/events.service';
+import { Listing, Reservation } from '../pms/pms.types';
 import { TemplatesService } from '../templates/templates.service';
+import {
+  classifyDeliveryError,
+  getMaxDeliveryAttempts,
+  getRetryDelayMs,
+} from './delivery-retry.policy';
 import { ProactiveMessageType } from './scheduling.service';
 
 type HostawayRecord = Record<string, unknown>;
@@ -19,18 +27,16 @@ type HostawayRecord = Record<string, unknown>;
 export class MessageProcessorService {
   private readonly logger = new Logger(MessageProcessorService.name);
   private readonly batchSize = 25;
-  // Cache listing data to avoid repeated API calls - check DB metadata first
-  private readonly listingCache = new Map<string, { listing: HostawayRecord; timestamp: number }>();
-  private readonly cacheTimeout = 30 * 60 * 1000; // 30 minutes - listings don't change often
 
   constructor(
     private readonly tenantService: TenantService,
     private readonly conversationsService: ConversationsService,
-    private readonly hostawayClient: HostawayClient,
-    private readonly twilioClient: TwilioClient,
     private readonly templatesService: TemplatesService,
     private readonly loggingService: LoggingService,
-    private readonly databaseService: DatabaseService,
+    private readonly eventsService: EventsService,
+    private readonly bookingsService: BookingsService,
+    private readonly automationRulesService: AutomationRulesService,
+    private readonly automationsService: AutomationsService,
   ) {}
 
   @Cron(CronExpression.EVERY_MINUTE)
@@ -79,7 +85,28 @@ export class MessageProcessorService {
         { hostawayConversationId: message.hostawayConversationId },
       );
 
-      if (conversation.status === 'paused_by_human') {
+      // Automation runs read their rule at send time so edits apply to runs already queued
+      const automation = parseAutomationMessageType(message.messageType);
+      const rule = automation
+        ? await this.automationRulesService.getRule(tenant.id, automation.ruleId)
+        : null;
+      if (automation && !rule?.enabled) {
+        await this.conversationsService.markMessageAsFailed(
+          message.id,
+          new Error('Automation rule was deleted or disabled'),
+        );
+        this.publishMessageEvent('scheduled_message.failed', message, {
+          error: 'Automation rule was deleted or disabled',
+        });
+        return;
+      }
+
+      const templateAction = rule?.actions.find((action) => action.type === 'send_template');
+      // A pause only holds back messages to the guest, and never those of the rule that paused
+      const sendsToGuest = !rule || Boolean(templateAction);
+      const pausedByRule = rule?.actions.some((action) => action.type === 'pause_ai') ?? false;
+
+      if (conversation.status === 'paused_by_human' && sendsToGuest && !pausedByRule) {
         this.logger.debug(
           `Skipping scheduled message ${message.id} because conversation ${conversation.id} is paused.`,
         );
@@ -87,6 +114,9 @@ export class MessageProcessorService {
           message.id,
           new Error('Conversation paused by human agent'),
         );
+        this.publishMessageEvent('scheduled_message.failed', message, {
+          error: 'Conversation paused by human agent',
+        });
         return;
       }
 
@@ -97,11 +127,11 @@ export class MessageProcessorService {
         throw new Error('Hostaway reservation identifier is missing');
       }
 
-      const reservation = await this.hostawayClient.getReservation(tenant, reservationExternalId);
+      // Webhooks and syncs keep the stored reservation current, including cancellations
+      const reservation = await this.bookingsService.getReservation(tenant, reservationExternalId);
 
-      // Check if reservation is cancelled before processing
-      const status = (this.readString(reservation, 'status') ?? '').toLowerCase();
-      if (status === 'cancelled') {
+      // Check if reservation is cancelled before processing; rules can react to the cancellation
+      if (reservation.status === 'cancelled' && rule?.trigger.type !== 'status_changed') {
         this.logger.debug(
           `Skipping message ${message.id} for cancelled reservation ${reservationExternalId} (tenant ${message.tenantId})`,
         );
@@ -109,19 +139,19 @@ export class MessageProcessorService {
           message.id,
           new Error('Reservation was cancelled'),
         );
+        this.publishMessageEvent('scheduled_message.failed', message, {
+          error: 'Reservation was cancelled',
+        });
         return;
       }
 
-      const listingId = this.readString(
-        reservation,
-        'listingMapId',
-        'listing_map_id',
-        'listingId',
-        'listing_id',
-        'propertyId',
-        'property_id',
-      );
-      const listing = listingId ? await this.getListingWithCache(tenant, listingId) : null;
+      const listingId = reservation.listingId;
+      // Door codes can be issued just before arrival, so always read the latest listing for them
+      const listing = listingId
+        ? await this.bookingsService.getListing(tenant, listingId, {
+            refresh: message.messageType === 'door_code_3h',
+          })
+        : null;
 
       const messageLabel =
         message.messageLabel ??
@@ -151,139 +181,142 @@ export class MessageProcessorService {
         },
       );
 
-      const body = await this.composeProactiveMessage(
-        message.messageType as ProactiveMessageType,
-        tenant,
-        reservation,
-        listing,
-        message.guestName ?? 'Guest',
-      );
-
-      const phoneNumber = this.readString(
-        reservation,
-        'guestPhone',
-        'guest_phone',
-        'phone',
-        'guest.phone',
-        'guest.contact.phone',
-        'guest.phone_number',
-      );
+      const variables = this.extractVariables(reservation, listing, message.guestName ?? 'Guest');
 
-      let hostawayConversationId =
-        message.hostawayConversationId ?? conversation.hostawayConversationId ?? null;
+      if (rule && !templateAction) {
+        const outcomes = await this.automationsService.runSideActions(tenant, rule, {
+          conversationId: conversation.id,
+          reservationId: reservationExternalId,
+          variables,
+        });
+        await this.conversationsService.markAutomationCompleted(
+          message.id,
+          `${rule.name}: ${outcomes.join('; ')}`,
+        );
+        this.publishMessageEvent('scheduled_message.sent', message, { automationRuleId: rule.id });
+        return;
+      }
 
-      // Attempt to resolve missing Hostaway conversation id before sending
-      if (!hostawayConversationId && reservationExternalId) {
-        try {
-          const convos = await this.hostawayClient.getReservationConversations(
+      const body = templateAction
+        ? this.templatesService.substituteVariables(
+            (await this.templatesService.getTemplate(tenant.id, templateAction.templateId ?? ''))
+              .template_body,
+            variables,
+          )
+        : await this.composeProactiveMessage(
+            message.messageType as ProactiveMessageType,
             tenant,
-            reservationExternalId,
+            reservation,
+            listing,
+            message.guestName ?? 'Guest',
           );
 
-          // Strictly link by reservation id fields present on conversation objects
-          const match =
-            (convos ?? []).find((c) => {
-              const convoResId = this.readString(
-                c as Record<string, unknown>,
-                'reservationId',
-                'reservation_id',
-                'reservation.id',
-                'hostawayReservationId',
-              );
-              return (
-                (convoResId && convoResId === reservationExternalId) ||
-                (convoResId && String(convoResId) === String(reservationExternalId))
-              );
-            }) || (Array.isArray(convos) && convos.length === 1 ? convos[0] : null);
-
-          const resolvedId = this.readString(
-            (match ?? {}) as Record<string, unknown>,
-            'id',
-            'conversationId',
-            'conversation_id',
-          );
-          if (resolvedId) {
-            hostawayConversationId = resolvedId;
-            // Persist link to our conversation record
-            await this.conversationsService.ensureHostawayConversationLink(
-              tenant.id,
-              conversation.id,
-              hostawayConversationId,
-            );
-          }
-        } catch {
-          // Non-fatal; fallback logic below will send by reservation
-        }
-      }
-
-      const deliveryMetadata = {
-        messageType: message.messageType,
-        messageLabel,
-        scheduledSendAt: message.scheduledSendAt,
-        scheduledLocalAt:
-          message.scheduledLocalAt ??
-          this.readString(message.metadata ?? {}, 'scheduledLocalAt') ??
-          null,
-        scheduledTimezone:
-          message.scheduledTimezone ??
-          this.readString(message.metadata ?? {}, 'scheduledTimezone') ??
-          null,
-        reservationId: reservationExternalId,
-        deliveryChannel: phoneNumber ? 'twilio' : 'hostaway',
-        hostawayConversationId,
-      };
-
-      if (phoneNumber) {
-        await this.twilioClient.sendWhatsAppMessage(tenant, phoneNumber, body);
+      const delivery = await this.conversationsService.deliverToGuest(tenant, conversation, body, {
+        reservation,
+        hostawayConversationId: message.hostawayConversationId,
+      });
+      // The guest has the message from here on, so a failure must not send it again
+      try {
         this.loggingService.logMessageSent(
           message.id,
           message.tenantId,
-          'twilio',
-          phoneNumber,
+          delivery.deliveryChannel,
+          delivery.deliveryChannel === 'twilio'
+            ? reservation.guest.phone ?? reservationExternalId
+            : delivery.hostawayConversationId ?? reservationExternalId,
           body,
         );
-      } else {
-        if (hostawayConversationId) {
-          await this.hostawayClient.sendConversationMessage(
-            tenant,
-            hostawayConversationId,
-            body,
-            'channel',
-          );
-          this.loggingService.logMessageSent(
-            message.id,
-            message.tenantId,
-            'hostaway_conversation',
-            hostawayConversationId,
-            body,
-          );
-        } else {
-          await this.hostawayClient.sendMessageToGuest(tenant, reservationExternalId, body);
-          this.loggingService.logMessageSent(
-            message.id,
-            message.tenantId,
-            'hostaway_guest',
-            reservationExternalId,
-            body,
-          );
-        }
-      }
 
-      await this.conversationsService.markMessageAsSent(message.id, body, deliveryMetadata);
+        const deliveryMetadata = {
+          messageType: message.messageType,
+          messageLabel,
+          scheduledSendAt: message.scheduledSendAt,
+          scheduledLocalAt:
+            message.scheduledLocalAt ??
+            this.readString(message.metadata ?? {}, 'scheduledLocalAt') ??
+            null,
+          scheduledTimezone:
+            message.scheduledTimezone ??
+            this.readString(message.metadata ?? {}, 'scheduledTimezone') ??
+            null,
+          reservationId: reservationExternalId,
+          deliveryChannel: delivery.deliveryChannel,
+          hostawayConversationId: delivery.hostawayConversationId,
+          // Run after delivery so a retried send does not repeat them; failures are only logged
+          automationActions: rule
+            ? await this.automationsService.runSideActions(tenant, rule, {
+                conversationId: conversation.id,
+                reservationId: reservationExternalId,
+                variables,
+              })
+            : undefined,
+        };
+
+        await this.conversationsService.markMessageAsSent(message.id, body, deliveryMetadata);
+        this.publishMessageEvent('scheduled_message.sent', message, {
+          deliveryChannel: deliveryMetadata.deliveryChannel,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Scheduled message ${message.id} for tenant ${message.tenantId} was delivered but could not be recorded as sent; not retrying`,
+          error as Error,
+        );
+      }
     } catch (error) {
-      await this.conversationsService.markMessageAsFailed(message.id, error as Error);
-      this.logger.error(
-        `Failed to process scheduled message ${message.id} for tenant ${message.tenantId}`,
-        error as Error,
+      await this.handleDeliveryFailure(message, error);
+    }
+  }
+
+  /**
+   * Transient failures (timeouts, rate limits, provider 5xx) are retried with backoff until the
+   * message type's attempt limit is reached; everything else is marked failed straight away.
+   */
+  private async handleDeliveryFailure(
+    message: PendingOutboundMessage,
+    error: unknown,
+  ): Promise<void> {
+    const failureKind = classifyDeliveryError(error);
+    const maxAttempts = getMaxDeliveryAttempts(message.messageType);
+
+    if (failureKind === 'transient' && message.attempts < maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(message.attempts));
+      await this.conversationsService.scheduleMessageRetry(message.id, error, nextAttemptAt);
+      this.logger.warn(
+        `Transient failure sending scheduled message ${message.id} for tenant ${
+          message.tenantId
+        } (attempt ${message.attempts}/${maxAttempts}); retrying at ${nextAttemptAt.toISOString()}`,
       );
+      return;
     }
+
+    await this.conversationsService.markMessageAsFailed(message.id, error as Error);
+    this.publishMessageEvent('scheduled_message.failed', message, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    this.logger.error(
+      `Failed to process scheduled message ${message.id} for tenant ${message.tenantId} (${failureKind}, attempt ${message.attempts}/${maxAttempts})`,
+      error as Error,
+    );
+  }
+
+  private publishMessageEvent(
+    type: 'scheduled_message.sent' | 'scheduled_message.failed',
+    message: PendingOutboundMessage,
+    data: Record<string, unknown> = {},
+  ): void {
+    this.eventsService.publish(message.tenantId, type, {
+      conversationId: message.conversationId,
+      logId: message.id,
+      messageType: message.messageType,
+      ...data,
+    });
   }
 
   private async composeProactiveMessage(
     messageType: ProactiveMessageType,
     tenant: TenantSummary,
-    reservation: HostawayRecord,
-    listing: HostawayRecord | null,
+    reservation: Reservation,
+    listing: Listing | null,
     fallbackGuestName: string,
   ): Promise<string> {
     // Ensure default templates exist for this tenant
@@ -299,119 +332,32 @@ export class MessageProcessorService {
       return this.getFallbackMessage(messageType, reservation, listing, fallbackGuestName);
     }
 
-    // For door-code messages, refresh listing data right before sending to ensure code availability
-    // Even though we cache, door codes might be generated just-in-time, so we need fresh data
-    let effectiveListing: HostawayRecord | null = listing;
-    if (messageType === 'door_code_3h') {
-      try {
-        const listingId = this.readString(
-          reservation,
-          'listingMapId',
-          'listing_map_id',
-          'listingId',
-          'listing_id',
-          'propertyId',
-          'property_id',
-        );
-        if (listingId) {
-          // Always fetch fresh for door codes (they're generated 3h before check-in)
-          const fresh = await this.hostawayClient.getListing(tenant, listingId);
-          if (fresh) {
-            effectiveListing = fresh;
-            // Update cache with fresh data
-            const cacheKey = `${tenant.id}-${listingId}`;
-            this.listingCache.set(cacheKey, { listing: fresh, timestamp: Date.now() });
-          }
-        }
-      } catch {
-        // ignore and use existing listing if available
-      }
-    }
-
-    // Extract variables from reservation and (possibly refreshed) listing data
-    const variables = this.extractVariables(reservation, effectiveListing, fallbackGuestName);
+    const variables = this.extractVariables(reservation, listing, fallbackGuestName);
 
     // Substitute variables in template
     return this.templatesService.substituteVariables(template.template_body, variables);
   }
 
   private extractVariables(
-    reservation: HostawayRecord,
-    listing: HostawayRecord | null,
+    reservation: Reservation,
+    listing: Listing | null,
     fallbackGuestName: string,
   ): Record<string, string | number | null | undefined> {
-    // Guest name - from reservation data
-    const guestName =
-      this.readString(
-        reservation,
-        'guestName',
-        'guest_name',
-        'guestFirstName',
-        'guest_first_name',
-      ) ?? fallbackGuestName;
-
-    // Property name - prioritize listing name over external/OTA name
-    // Use listing.name (e.g., "Flat B | Charlotte St") over externalListingName
-    const propertyName =
-      this.readString(listing ?? {}, 'internalListingName') || // Primary: internal listing name (e.g., "Cross Road")
-      this.readString(listing ?? {}, 'name') || // Fallback: listing name field
-      this.readString(
-        reservation,
-        'listingName',
-        'listing_name',
-        'propertyName',
-        'property_name',
-      ) ||
-      'your stay';
-
-    // Door code - from listing data (more reliable than reservation)
-    const doorCode =
-      this.readString(
-        listing ?? {},
-        'doorSecurityCode',
-        'door_security_code',
-        'doorCode',
-        'door_code',
-      ) || this.readString(reservation, 'doorCode', 'door_code', 'accessCode', 'access_code');
-
-    // WiFi info - from listing data
-    const wifiName = this.readString(
-      listing ?? {},
-      'wifiUsername',
-      'wifi_username',
-      'wifiName',
-      'wifi_name',
-      'wifiNetwork',
-      'wifi_network',
-    );
-    const wifiPassword = this.readString(
-      listing ?? {},
-      'wifiPassword',
-      'wifi_password',
-      'wifiPass',
-      'wifi_pass',
-    );
-
-    // Format dates - from reservation data
-    const checkInDate = this.formatDate(
-      this.readString(reservation, 'arrivalDate', 'arrival_date', 'checkIn', 'check_in'),
-    );
-    const checkOutDate = this.formatDate(
-      this.readString(reservation, 'departureDate', 'departure_date', 'checkOut', 'check_out'),
-    );
+    // Listing door codes are set by staff and more reliable than per-reservation codes
+    const doorCode = listing?.doorCode ?? reservation.doorCode;
 
     return {
-      guestName,
-      propertyName,
-      doorCode: doorCode || 'Not available',
-      wifiName: wifiName || 'Not available',
-      wifiPassword: wifiPassword || 'Not available',
-      checkInDate,
-      checkOutDate,
+      guestName: reservation.guest.name ?? fallbackGuestName,
+      propertyName: listing?.name ?? reservation.listingName ?? 'your stay',
+      doorCode: doorCode ?? 'Not available',
+      wifiName: listing?.wifiName ?? 'Not available',
+      wifiPassword: listing?.wifiPassword ?? 'Not available',
+      checkInDate: this.formatDate(reservation.arrivalDate),
+      checkOutDate: this.formatDate(reservation.departureDate),
     };
   }
 
-  private formatDate(dateString: string | undefined): string {
+  private formatDate(dateString: string | null): string {
     if (!dateString) return '';
 
     try {
@@ -428,27 +374,15 @@ export class MessageProcessorService {
 
   private getFallbackMessage(
     messageType: ProactiveMessageType,
-    reservation: HostawayRecord,
-    listing: HostawayRecord | null,
+    reservation: Reservation,
+    listing: Listing | null,
     fallbackGuestName: string,
   ): string {
-    const guestName =
-      this.readString(reservation, 'guestName', 'guest_name', 'guest.name') ?? fallbackGuestName;
-    // Property name - prioritize internalListingName (e.g., "Cross Road")
-    const propertyName =
-      this.readString(listing ?? {}, 'internalListingName') || // Primary: internal listing name
-      this.readString(listing ?? {}, 'name') || // Fallback: listing name field
-      this.readString(reservation, 'propertyName', 'listing.name', 'property.name') ||
-      'your stay';
-    const doorCode = this.readString(
-      reservation,
-      'doorCode',
-      'door_code',
-      'accessCode',
-      'access_code',
-    );
-    const wifiName = this.readString(listing ?? {}, 'wifiName', 'wifi_name');
-    const wifiPassword = this.readString(listing ?? {}, 'wifiPassword', 'wifi_password');
+    const guestName = reservation.guest.name ?? fallbackGuestName;
+    const propertyName = listing?.name ?? reservation.listingName ?? 'your stay';
+    const doorCode = listing?.doorCode ?? reservation.doorCode;
+    const wifiName = listing?.wifiName;
+    const wifiPassword = listing?.wifiPassword;
 
     let wifiDetails = '';
     if (wifiName && wifiPassword) {
@@ -513,53 +447,4 @@ export class MessageProcessorService {
 
     return current;
   }
-
-  private async getListingWithCache(
-    tenant: TenantSummary,
-    listingId: string,
-  ): Promise<HostawayRecord | null> {
-    const cacheKey = `${tenant.id}-${listingId}`;
-    const now = Date.now();
-
-    // Step 1: Check in-memory cache first
-    const cached = this.listingCache.get(cacheKey);
-    if (cached && now - cached.timestamp < this.cacheTimeout) {
-      return cached.listing;
-    }
-
-    // Step 2: Try to get from database property metadata (persistent cache)
-    try {
-      const propertyResult = await this.databaseService.runQuery<{
-        metadata: Record<string, unknown>;
-      }>(
-        `SELECT metadata FROM public.properties WHERE tenant_id = $1 AND external_id = $2 LIMIT 1`,
-        [tenant.id, listingId],
-      );
-
-      if (propertyResult.rows.length > 0 && propertyResult.rows[0].metadata?.listing) {
-        const listing = propertyResult.rows[0].metadata.listing as HostawayRecord;
-        // Cache in memory for faster access
-        this.listingCache.set(cacheKey, { listing, timestamp: now });
-        return listing;
-      }
-    } catch {
-      // Non-fatal - continue to API fetch
-      this.logger.debug(
-        `Could not load listing from database for ${listingId}, will fetch from API`,
-      );
-    }
-
-    // Step 3: If not in cache or DB, fetch from API
-    try {
-      const listing = await this.hostawayClient.getListing(tenant, listingId);
-      if (listing) {
-        // Cache the listing in memory
-        this.listingCache.set(cacheKey, { listing, timestamp: now });
-      }
-      return listing;
-    } catch (error) {
-      this.logger.warn(`Failed to fetch listing ${listingId} from API`, error as Error);
-      return null;
-    }
-  }
 }
@@ -2,13 +2,15 @@ import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 
 import { AiModule } from '../ai/ai.module';
+import { AutomationsModule } from '../automations/automations.module';
+import { BookingsModule } from '../bookings/bookings.module';
 import { ConversationsModule } from '../conversations/conversations.module';
-import { MessagingModule } from '../messaging/messaging.module';
 import { TenantModule } from '../tenant/tenant.module';
 import { TemplatesModule } from '../templates/templates.module';
-import { HostawayClient } from '../integrations/hostaway.client';
 import { SchedulingService } from './scheduling.service';
 import { DatabaseModule } from '../database/database.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { PmsModule } from '../pms/pms.module';
 import { MessageProcessorService } from './message.processor.service';
 
 @Module({
@@ -17,11 +19,14 @@ import { MessageProcessorService } from './message.processor.service';
     TenantModule,
     ConversationsModule,
     AiModule,
-    MessagingModule,
     DatabaseModule,
     TemplatesModule,
+    JobsModule,
+    PmsModule,
+    BookingsModule,
+    AutomationsModule,
   ],
-  providers: [SchedulingService, MessageProcessorService, HostawayClient],
+  providers: [SchedulingService, MessageProcessorService],
   exports: [SchedulingService],
 })
 export class SchedulingModule {}
@@ -1,15 +1,33 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { addHours, isBefore, parseISO, startOfDay, subHours } from 'date-fns';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { addHours, isBefore, startOfDay, subHours } from 'date-fns';
 import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { AutomationRule } from '@saas-automation/shared-types';
 
 import { AiEngineService } from '../ai/ai-engine.service';
+import {
+  AutomationMessageType,
+  automationMessageType,
+  matchesConditions,
+  matchesGuestMessage,
+  matchesStatusChange,
+  parseAutomationMessageType,
+} from '../automations/automation-evaluator';
+import { AutomationRulesService } from '../automations/automation-rules.service';
+import { BookingsService } from '../bookings/bookings.service';
 import { TemplatesService } from '../templates/templates.service';
 import { GuestContext } from '../ai/ai.types';
-import { ConversationsService } from '../conversations/conversations.service';
-import { HostawayClient } from '../integrations/hostaway.client';
-import { TwilioClient } from '../messaging/twilio.client';
+import {
+  ConversationRecord,
+  ConversationsService,
+  ScheduleChange,
+  ScheduledMessage,
+} from '../conversations/conversations.service';
+import { mapHostawayReservation } from '../pms/hostaway.mapper';
+import { PmsProviderService } from '../pms/pms-provider.service';
+import { Reservation } from '../pms/pms.types';
 import { TenantService, TenantSummary } from '../tenant/tenant.service';
 import { DatabaseService } from '../database/database.service';
+import { JobsService } from '../jobs/jobs.service';
 
 type HostawayRecord = Record<string, unknown>;
 
@@ -25,8 +43,17 @@ interface ScheduleOptions {
   initialSync?: boolean;
 }
 
+export interface InboundTwilioMessage {
+  from: string;
+  body: string;
+  channel: 'whatsapp' | 'sms';
+  messageSid?: string;
+  profileName?: string;
+  rawPayload?: Record<string, unknown>;
+}
+
 interface PendingMessagePlan {
-  messageType: ProactiveMessageType;
+  messageType: ProactiveMessageType | AutomationMessageType;
   messageLabel: string;
   scheduledSendAt: Date;
   scheduledLocal: Date;
@@ -43,57 +70,111 @@ const PROACTIVE_MESSAGE_LABELS: Record<ProactiveMessageType, string> = {
   pre_checkout_evening: 'Pre-Checkout Evening Reminder',
 };
 
+// Message types timed from the stay dates. thank_you_immediate goes out once on booking, so date
+// changes never move or cancel it.
+const DATE_ANCHORED_MESSAGE_TYPES = new Set<ProactiveMessageType>([
+  'pre_arrival_24h',
+  'door_code_3h',
+  'same_day_checkin',
+  'checkout_morning',
+  'pre_checkout_evening',
+]);
+
+// Moves smaller than this are treated as the same time, so re-processing a reservation is a no-op
+const RESCHEDULE_TOLERANCE_MS = 60 * 1000;
+
 @Injectable()
-export class SchedulingService {
+export class SchedulingService implements OnModuleInit {
   private readonly logger = new Logger(SchedulingService.name);
-  // Cache listing data to avoid repeated API calls - used for names, amenities, wifi, door codes, etc.
-  private readonly listingCache = new Map<string, { listing: HostawayRecord; timestamp: number }>();
-  private readonly cacheTimeout = 30 * 60 * 1000; // 30 minutes - listings don't change often
 
   constructor(
     private readonly tenantService: TenantService,
     private readonly conversationsService: ConversationsService,
     private readonly aiEngine: AiEngineService,
-    private readonly twilioClient: TwilioClient,
-    private readonly hostawayClient: HostawayClient,
     private readonly databaseService: DatabaseService,
     private readonly templatesService: TemplatesService,
+    private readonly jobsService: JobsService,
+    private readonly pmsProviderService: PmsProviderService,
+    private readonly bookingsService: BookingsService,
+    private readonly automationRulesService: AutomationRulesService,
   ) {}
 
+  onModuleInit(): void {
+    this.jobsService.registerHandler('hostaway_webhook_event', async (job) => {
+      if (!job.tenantId) {
+        throw new Error(`Hostaway webhook job ${job.id} has no tenant`);
+      }
+      await this.handleHostawayEvent(job.tenantId, job.payload);
+    });
+    this.jobsService.registerHandler('twilio_inbound_message', async (job) => {
+      if (!job.tenantId) {
+        throw new Error(`Twilio inbound message job ${job.id} has no tenant`);
+      }
+      await this.replyToTwilioMessage(
+        job.tenantId,
+        job.payload as { conversationId: string; messageBody: string; guest: GuestContext },
+      );
+    });
+  }
+
+  /**
+   * Persists the event as a job so it survives restarts and is retried with backoff on failure.
+   */
   async queueHostawayEvent(tenantId: string, eventPayload: HostawayRecord): Promise<void> {
+    await this.jobsService.enqueue('hostaway_webhook_event', tenantId, eventPayload);
+  }
+
+  async handleTwilioInboundMessage(
+    tenant: TenantSummary,
+    inbound: InboundTwilioMessage,
+  ): Promise<void> {
     try {
-      await this.handleHostawayEvent(tenantId, eventPayload);
+      await this.handleIncomingTwilioMessage(tenant, inbound);
     } catch (error) {
-      this.logger.error(`Failed to process Hostaway event for tenant ${tenantId}`, error as Error);
+      this.logger.error(
+        `Failed to process inbound Twilio message ${inbound.messageSid ?? 'unknown'} for tenant ${
+          tenant.id
+        }`,
+        error as Error,
+      );
     }
   }
 
   async scheduleProactiveMessagesFromReservation(
     tenant: TenantSummary,
-    reservation: HostawayRecord,
+    reservation: Reservation,
     options: ScheduleOptions = {},
   ): Promise<void> {
-    // Check if reservation is cancelled before scheduling
-    const status = (this.readString(reservation, 'status') ?? '').toLowerCase();
-    if (status === 'cancelled') {
-      const reservationId = this.readString(reservation, 'id', 'reservationId', 'reservation_id');
+    // Read before the reservation is stored so status_changed automations can compare
+    const previousStatus = reservation.id
+      ? await this.findStoredStatus(tenant.id, reservation.id)
+      : null;
+
+    if (reservation.status === 'cancelled') {
       this.logger.debug(
-        `Skipping scheduling for cancelled reservation ${reservationId ?? 'unknown'} (tenant ${
+        `Skipping scheduling for cancelled reservation ${reservation.id || 'unknown'} (tenant ${
           tenant.id
         })`,
       );
-      if (reservationId) {
+      if (reservation.id) {
+        // Keep the stored status current so nothing reads the stay as active
+        await this.bookingsService.syncReservation(tenant, reservation).catch((error) => {
+          this.logger.warn(
+            `Failed to store cancelled reservation ${reservation.id} (tenant ${tenant.id})`,
+            error as Error,
+          );
+        });
         // Cancel any existing pending messages for this reservation
-        await this.handleReservationCancellation(tenant, reservationId);
+        await this.handleReservationCancellation(tenant, reservation.id);
+        await this.queueStatusChangeAutomations(tenant, reservation, previousStatus);
       }
       return;
     }
 
-    const bookingInfo = await this.ensureBookingRecord(tenant, reservation);
+    const bookingInfo = await this.syncBooking(tenant, reservation);
     if (!bookingInfo) {
-      const reservationId = this.readString(reservation, 'id', 'reservationId', 'reservation_id');
       this.logger.warn(
-        `Failed to create booking record for reservation ${reservationId ?? 'unknown'} (tenant ${
+        `Failed to create booking record for reservation ${reservation.id || 'unknown'} (tenant ${
           tenant.id
         }) - conversation will not be created`,
       );
@@ -113,62 +194,313 @@ export class SchedulingService {
       );
     }
 
-    const plans = this.buildProactiveSchedule(reservation, options);
+    const rules = await this.automationRulesService.listEnabledRules(tenant.id);
+    const plans = this.buildProactiveSchedule(reservation, options, rules);
 
-    if (plans.length === 0) {
-      this.logger.debug(
-        `No proactive messages generated for reservation ${
-          bookingInfo.hostawayReservationId
-        } (tenant ${tenant.id}) during ${
-          options.initialSync ? 'initial-sync' : 'event'
-        } processing, but conversation ${conversation.id} was created.`,
-      );
-      // Conversation was created above, so we're good even if no messages
+    // Reconciled even when empty so messages for dates the reservation no longer has are cancelled
+    const counts = await this.reconcileProactiveMessages(
+      tenant,
+      conversation,
+      bookingInfo,
+      plans,
+      options,
+    );
+
+    this.logger.log(
+      `Proactive messages for reservation ${bookingInfo.hostawayReservationId} (tenant ${
+        tenant.id
+      }) via ${options.initialSync ? 'initial sync' : 'event'} path: ${counts.created} created, ${
+        counts.rescheduled
+      } rescheduled, ${counts.cancelled} cancelled, ${counts.unchanged} unchanged.`,
+    );
+
+    await this.queueStatusChangeAutomations(tenant, reservation, previousStatus, {
+      conversation,
+      rules,
+    });
+  }
+
+  /**
+   * Queues the status_changed automations that apply when a reservation moves from
+   * `previousStatus` to its current status. Nothing fires for reservations seen for the first time.
+   */
+  async queueStatusChangeAutomations(
+    tenant: TenantSummary,
+    reservation: Reservation,
+    previousStatus: string | null,
+    loaded: { conversation?: ConversationRecord; rules?: AutomationRule[] } = {},
+  ): Promise<void> {
+    const status = reservation.status;
+    if (!previousStatus || !status || previousStatus === status) {
       return;
     }
 
-    let createdCount = 0;
-    let skippedCount = 0;
+    const rules = (
+      loaded.rules ?? (await this.automationRulesService.listEnabledRules(tenant.id))
+    ).filter((rule) => matchesStatusChange(rule, status));
+    if (rules.length === 0) {
+      return;
+    }
 
-    for (const plan of plans) {
-      const result = await this.conversationsService.createPendingOutboundMessage(conversation, {
-        messageType: plan.messageType,
-        messageLabel: plan.messageLabel,
-        hostawayReservationId: bookingInfo.hostawayReservationId,
-        guestName: plan.guestName,
-        scheduledSendAt: plan.scheduledSendAt,
-        scheduledLocal: plan.scheduledLocal,
-        timezone: plan.timezone,
+    let conversation = loaded.conversation;
+    if (!conversation) {
+      const bookingId = await this.bookingsService.findBookingId(tenant.id, reservation.id);
+      if (!bookingId) {
+        return;
+      }
+      conversation = await this.conversationsService.getOrCreateConversation(tenant.id, bookingId);
+    }
+
+    await this.queueEventAutomations(tenant, conversation, reservation, rules, `status-${status}`);
+  }
+
+  /**
+   * Queues one run per rule whose conditions hold, due straight away. `eventKey` identifies the
+   * event, so a redelivered webhook does not run a rule twice for the same event.
+   */
+  private async queueEventAutomations(
+    tenant: TenantSummary,
+    conversation: ConversationRecord,
+    reservation: Reservation,
+    rules: AutomationRule[],
+    eventKey: string,
+  ): Promise<AutomationRule[]> {
+    const queued: AutomationRule[] = [];
+    const timezone = reservation.timezone ?? 'UTC';
+    const now = new Date();
+
+    for (const rule of rules) {
+      if (!matchesConditions(rule, reservation)) {
+        continue;
+      }
+
+      await this.conversationsService.createPendingOutboundMessage(conversation, {
+        messageType: automationMessageType(rule.id, eventKey),
+        messageLabel: rule.name,
+        hostawayReservationId: reservation.id,
+        guestName: reservation.guest.name ?? 'Guest',
+        scheduledSendAt: now,
+        scheduledLocal: toZonedTime(now, timezone),
+        timezone,
         metadata: {
-          initialSync: Boolean(options.initialSync),
           tenantId: tenant.id,
-          hostawayReservationId: bookingInfo.hostawayReservationId,
-          hostawayConversationId:
-            conversation.hostawayConversationId ?? bookingInfo.hostawayConversationId,
+          hostawayReservationId: reservation.id,
+          hostawayConversationId: conversation.hostawayConversationId,
+          automationRuleId: rule.id,
         },
       });
+      queued.push(rule);
+    }
+
+    if (queued.length > 0) {
+      this.logger.log(
+        `Queued ${queued.length} automation runs for ${eventKey} on reservation ${reservation.id} (tenant ${tenant.id})`,
+      );
+    }
+
+    return queued;
+  }
+
+  /**
+   * Queues the guest_message automations matching an inbound message. Pausing the AI takes effect
+   * immediately so it does not answer the message that triggered the rule; the returned
+   * conversation reflects that.
+   */
+  private async queueGuestMessageAutomations(
+    tenant: TenantSummary,
+    conversation: ConversationRecord,
+    reservation: Reservation,
+    messageBody: string,
+    guestMessageLogId: string,
+  ): Promise<ConversationRecord> {
+    const rules = (await this.automationRulesService.listEnabledRules(tenant.id)).filter((rule) =>
+      matchesGuestMessage(rule, messageBody),
+    );
+    if (rules.length === 0) {
+      return conversation;
+    }
 
-      if (result) {
-        createdCount++;
+    const queued = await this.queueEventAutomations(
+      tenant,
+      conversation,
+      reservation,
+      rules,
+      `message-${guestMessageLogId}`,
+    );
+    const pausesAi = queued.some((rule) =>
+      rule.actions.some((action) => action.type === 'pause_ai'),
+    );
+    if (!pausesAi || conversation.status === 'paused_by_human') {
+      return conversation;
+    }
+
+    await this.conversationsService.setStatus(tenant.id, conversation.id, 'paused_by_human');
+    return { ...conversation, status: 'paused_by_human' };
+  }
+
+  /**
+   * Brings the reservation's queued messages in line with `plans`: new message types are queued,
+   * unsent ones whose time moved are rescheduled, sent or cancelled ones whose stay moved later are
+   * queued again and unsent ones the plan no longer includes are cancelled. Each move or cancellation is recorded in the message's `scheduleChanges` metadata.
+   */
+  private async reconcileProactiveMessages(
+    tenant: TenantSummary,
+    conversation: ConversationRecord,
+    bookingInfo: { hostawayReservationId: string; hostawayConversationId: string | null },
+    plans: PendingMessagePlan[],
+    options: ScheduleOptions,
+  ): Promise<{ created: number; rescheduled: number; cancelled: number; unchanged: number }> {
+    const counts = { created: 0, rescheduled: 0, cancelled: 0, unchanged: 0 };
+    const reason = options.initialSync ? 'reservation_synced' : 'reservation_updated';
+
+    // Listed oldest first, so each type ends up keyed to its latest message
+    const existingByType = new Map<string, ScheduledMessage>();
+    for (const message of await this.conversationsService.listScheduledMessages(
+      conversation.id,
+      bookingInfo.hostawayReservationId,
+    )) {
+      existingByType.set(message.messageType, message);
+    }
+
+    for (const plan of plans) {
+      const existing = existingByType.get(plan.messageType);
+      const requeue = existing !== undefined && this.isRequeueNeeded(existing, plan);
+      if (!existing || requeue) {
+        await this.conversationsService.createPendingOutboundMessage(conversation, {
+          messageType: plan.messageType,
+          messageLabel: plan.messageLabel,
+          hostawayReservationId: bookingInfo.hostawayReservationId,
+          guestName: plan.guestName,
+          scheduledSendAt: plan.scheduledSendAt,
+          scheduledLocal: plan.scheduledLocal,
+          timezone: plan.timezone,
+          metadata: {
+            initialSync: Boolean(options.initialSync),
+            tenantId: tenant.id,
+            hostawayReservationId: bookingInfo.hostawayReservationId,
+            hostawayConversationId:
+              conversation.hostawayConversationId ?? bookingInfo.hostawayConversationId,
+          },
+          replacesLogId: existing?.id,
+        });
+        if (requeue) {
+          this.logger.log(
+            `Requeued ${plan.messageType} for reservation ${bookingInfo.hostawayReservationId} (tenant ${tenant.id}); its ${existing.status} message was for an earlier date`,
+          );
+        }
+        counts.created++;
+        continue;
+      }
+
+      if (
+        existing.status !== 'pending' ||
+        !this.isDateAnchored(plan.messageType) ||
+        !this.hasScheduleMoved(existing, plan)
+      ) {
+        counts.unchanged++;
+        continue;
+      }
+
+      const change = this.buildScheduleChange(existing, plan, reason);
+      if (await this.conversationsService.reschedulePendingMessage(existing.id, plan, change)) {
+        this.logger.log(
+          `Rescheduled ${plan.messageType} for reservation ${bookingInfo.hostawayReservationId} (tenant ${tenant.id})`,
+          change,
+        );
+        counts.rescheduled++;
       } else {
-        skippedCount++;
+        counts.unchanged++;
       }
     }
 
-    if (options.initialSync && skippedCount > 0) {
-      this.logger.warn(
-        `Reservation ${bookingInfo.hostawayReservationId}: Created ${createdCount} messages, skipped ${skippedCount} duplicates. ` +
-          `This suggests the reservation was processed multiple times or messages already existed.`,
-      );
+    const plannedTypes = new Set<string>(plans.map((plan) => plan.messageType));
+    for (const existing of existingByType.values()) {
+      if (
+        existing.status !== 'pending' ||
+        plannedTypes.has(existing.messageType) ||
+        !this.isDateAnchored(existing.messageType)
+      ) {
+        continue;
+      }
+
+      const change = this.buildScheduleChange(existing, null, reason);
+      if (
+        await this.conversationsService.cancelScheduledMessage(
+          existing.id,
+          'No longer applies after the reservation changed',
+          change,
+        )
+      ) {
+        this.logger.log(
+          `Cancelled ${existing.messageType} for reservation ${bookingInfo.hostawayReservationId} (tenant ${tenant.id})`,
+          change,
+        );
+        counts.cancelled++;
+      }
     }
 
-    this.logger.log(
-      `Queued ${plans.length} proactive messages for reservation ${
-        bookingInfo.hostawayReservationId
-      } (tenant ${tenant.id}) via ${options.initialSync ? 'initial sync' : 'event'} path.`,
+    return counts;
+  }
+
+  // Check-in and check-out automations are timed from the stay dates too; event runs are not
+  private isDateAnchored(messageType: string): boolean {
+    if (DATE_ANCHORED_MESSAGE_TYPES.has(messageType as ProactiveMessageType)) {
+      return true;
+    }
+    const automation = parseAutomationMessageType(messageType);
+    return automation !== null && automation.eventKey === null;
+  }
+
+  /**
+   * A date-anchored message that was already sent or cancelled is queued again when the stay moved
+   * and its new time is still ahead. Plans for times that have passed are clamped to now, so they
+   * never count as moved.
+   */
+  private isRequeueNeeded(existing: ScheduledMessage, plan: PendingMessagePlan): boolean {
+    if (
+      (existing.status !== 'sent' && existing.status !== 'failed') ||
+      !this.isDateAnchored(plan.messageType) ||
+      !existing.scheduledSendAt
+    ) {
+      return false;
+    }
+
+    const target = plan.scheduledSendAt.getTime();
+    return (
+      target - Date.now() >= RESCHEDULE_TOLERANCE_MS &&
+      target - existing.scheduledSendAt.getTime() >= RESCHEDULE_TOLERANCE_MS
     );
   }
 
+  private hasScheduleMoved(existing: ScheduledMessage, plan: PendingMessagePlan): boolean {
+    // Overdue messages go out as soon as the worker picks them up, just like plans whose time
+    // has already passed, so both count as "now"
+    const now = Date.now();
+    const current = Math.max(existing.scheduledSendAt?.getTime() ?? now, now);
+    return Math.abs(plan.scheduledSendAt.getTime() - current) >= RESCHEDULE_TOLERANCE_MS;
+  }
+
+  private buildScheduleChange(
+    existing: ScheduledMessage,
+    plan: PendingMessagePlan | null,
+    reason: string,
+  ): ScheduleChange {
+    return {
+      changedAt: new Date().toISOString(),
+      reason,
+      before: {
+        scheduledSendAt: existing.scheduledSendAt?.toISOString() ?? null,
+        scheduledLocalAt: existing.scheduledLocalAt,
+      },
+      after: plan
+        ? {
+            scheduledSendAt: plan.scheduledSendAt.toISOString(),
+            scheduledLocalAt: plan.scheduledLocal.toISOString(),
+          }
+        : null,
+    };
+  }
+
   private async handleHostawayEvent(tenantId: string, eventPayload: HostawayRecord): Promise<void> {
     const tenant = await this.tenantService.getTenantById(tenantId);
     const eventType = (this.readString(eventPayload, 'event', 'type') ?? '').toLowerCase();
@@ -176,36 +508,18 @@ export class SchedulingService {
     switch (eventType) {
       case 'reservation.created':
       case 'reservation_created':
-      case 'reservationcreate': {
-        const reservationPayload =
-          (this.resolveRecord(eventPayload, 'reservation') as HostawayRecord | undefined) ??
-          eventPayload;
-        await this.scheduleProactiveMessagesFromReservation(tenant, reservationPayload, {
-          initialSync: false,
-        });
-        break;
-      }
+      case 'reservationcreate':
       case 'reservation.updated':
       case 'reservation_updated': {
         const reservationPayload =
           (this.resolveRecord(eventPayload, 'reservation') as HostawayRecord | undefined) ??
           eventPayload;
-        const status = (this.readString(reservationPayload, 'status') ?? '').toLowerCase();
-        const reservationId = this.readString(
-          reservationPayload,
-          'id',
-          'reservationId',
-          'reservation_id',
+        // Updates re-schedule messages (e.g. date changes); cancellations clear pending ones
+        await this.scheduleProactiveMessagesFromReservation(
+          tenant,
+          mapHostawayReservation(reservationPayload),
+          { initialSync: false },
         );
-
-        if (status === 'cancelled' && reservationId) {
-          await this.handleReservationCancellation(tenant, reservationId);
-        } else {
-          // Re-schedule messages for updated reservations (e.g., date changes)
-          await this.scheduleProactiveMessagesFromReservation(tenant, reservationPayload, {
-            initialSync: false,
-          });
-        }
         break;
       }
       case 'message.received':
@@ -218,10 +532,8 @@ export class SchedulingService {
     }
   }
 
-  private async handleReservationCancellation(
-    tenant: TenantSummary,
-    reservationId: string,
-  ): Promise<void> {
+  /** Cancels the pending messages of a reservation that was cancelled or removed in the PMS. */
+  async handleReservationCancellation(tenant: TenantSummary, reservationId: string): Promise<void> {
     try {
       // Find the booking by external reservation ID
       const bookingResult = await this.databaseService.runQuery<{ id: string; booking_id: string }>(
@@ -270,40 +582,14 @@ export class SchedulingService {
   }
 
   private buildProactiveSchedule(
-    reservation: HostawayRecord,
+    reservation: Reservation,
     options: ScheduleOptions,
+    rules: AutomationRule[],
   ): PendingMessagePlan[] {
-    const timezone = this.determineTimezone(reservation);
-    const guestName = this.buildGuestName(reservation);
-
-    const checkInDate = this.resolveReservationDate(reservation, timezone, {
-      datePaths: [
-        'checkIn',
-        'check_in',
-        'startDate',
-        'start_date',
-        'arrivalDate',
-        'arrival_date',
-        'arrival',
-        'start',
-      ],
-      timePaths: ['checkInTime', 'check_in_time', 'checkIn.time', 'check_in.time'],
-      fallbackHour: 15,
-    });
-    const checkOutDate = this.resolveReservationDate(reservation, timezone, {
-      datePaths: [
-        'checkOut',
-        'check_out',
-        'endDate',
-        'end_date',
-        'departureDate',
-        'departure_date',
-        'departure',
-        'end',
-      ],
-      timePaths: ['checkOutTime', 'check_out_time', 'checkOut.time', 'check_out.time'],
-      fallbackHour: 10,
-    });
+    const timezone = reservation.timezone ?? 'UTC';
+    const guestName = reservation.guest.name ?? 'Guest';
+    const checkInDate = reservation.checkInAt;
+    const checkOutDate = reservation.checkOutAt;
 
     const checkInLocal = checkInDate ? toZonedTime(checkInDate, timezone) : null;
     const checkOutLocal = checkOutDate ? toZonedTime(checkOutDate, timezone) : null;
@@ -311,7 +597,11 @@ export class SchedulingService {
 
     const plans: PendingMessagePlan[] = [];
 
-    const pushPlan = (messageType: ProactiveMessageType, proposedLocal: Date | null) => {
+    const pushPlan = (
+      messageType: PendingMessagePlan['messageType'],
+      proposedLocal: Date | null,
+      messageLabel = this.getMessageTypeLabel(messageType as ProactiveMessageType),
+    ) => {
       let effectiveLocal =
         proposedLocal !== null ? new Date(proposedLocal.getTime()) : new Date(nowLocal.getTime());
 
@@ -328,7 +618,7 @@ export class SchedulingService {
 
       plans.push({
         messageType,
-        messageLabel: this.getMessageTypeLabel(messageType),
+        messageLabel,
         scheduledSendAt,
         scheduledLocal: new Date(effectiveLocal.getTime()),
         timezone,
@@ -355,22 +645,23 @@ export class SchedulingService {
       pushPlan('pre_checkout_evening', evening);
     }
 
-    return plans;
-  }
+    for (const rule of rules) {
+      if (!matchesConditions(rule, reservation)) {
+        continue;
+      }
 
-  private resolveReservationCreatedLocal(
-    reservation: HostawayRecord,
-    timezone: string,
-  ): Date | null {
-    const value = this.readString(reservation, 'reservationDate', 'reservation_date');
-    if (!value) return null;
-    try {
-      const parsed = fromZonedTime(value.replace(' ', 'T'), timezone);
-      return toZonedTime(parsed, timezone);
-    } catch {
-      const d = new Date(value);
-      return Number.isNaN(d.getTime()) ? null : d;
+      const offsetHours = rule.trigger.offsetHours ?? 0;
+      if (rule.trigger.type === 'check_in' && checkInLocal) {
+        pushPlan(automationMessageType(rule.id), addHours(checkInLocal, offsetHours), rule.name);
+      } else if (rule.trigger.type === 'check_out' && checkOutLocal) {
+        pushPlan(automationMessageType(rule.id), addHours(checkOutLocal, offsetHours), rule.name);
+      } else if (rule.trigger.type === 'booking_created' && !options.initialSync) {
+        // Like the booking confirmation, a one-off that date changes never move
+        pushPlan(automationMessageType(rule.id, 'booking_created'), null, rule.name);
+      }
     }
+
+    return plans;
   }
 
   private async handleIncomingMessage(
@@ -396,13 +687,18 @@ export class SchedulingService {
       return;
     }
 
-    const reservation = await this.hostawayClient.getReservation(tenant, reservationId);
-    const bookingInfo = await this.ensureBookingRecord(tenant, reservation);
-    if (!bookingInfo) {
+    const reservation = await this.bookingsService.getReservation(tenant, reservationId);
+    const bookingId = await this.bookingsService.findBookingId(tenant.id, reservation.id);
+    if (!bookingId) {
       return;
     }
+    const bookingInfo = {
+      bookingId,
+      hostawayReservationId: reservation.id,
+      hostawayConversationId: await this.resolveGuestConversationId(tenant, reservation),
+    };
 
-    const conversation = await this.conversationsService.getOrCreateConversation(
+    let conversation = await this.conversationsService.getOrCreateConversation(
       tenant.id,
       bookingInfo.bookingId,
       { hostawayConversationId: bookingInfo.hostawayConversationId },
@@ -415,7 +711,7 @@ export class SchedulingService {
       ? undefined
       : `${messageBody.substring(0, 100)}_${timestamp}`.substring(0, 100);
 
-    const guestMessageLogId = await this.conversationsService.logGuestMessage(
+    const { id: guestMessageLogId } = await this.conversationsService.logGuestMessage(
       conversation,
       messageBody,
       {
@@ -429,6 +725,14 @@ export class SchedulingService {
       },
     );
 
+    conversation = await this.queueGuestMessageAutomations(
+      tenant,
+      conversation,
+      reservation,
+      messageBody,
+      guestMessageLogId,
+    );
+
     // Sync conversation history from Hostaway to provide context for AI
     // This ensures AI can understand responses like "yes please" in context
     try {
@@ -446,27 +750,21 @@ export class SchedulingService {
     }
 
     const guest: GuestContext = {
-      id:
-        this.readString(payload, 'guestId', 'guest_id') ??
-        this.readString(payload, 'guest.id') ??
-        this.readString(reservation, 'guestId', 'guest_id', 'guest.id') ??
-        reservationId,
+      id: this.readString(payload, 'guestId', 'guest_id', 'guest.id') ?? reservation.guest.id,
       name:
-        this.readString(payload, 'guestName', 'guest_name') ??
-        this.readString(payload, 'guest.name') ??
-        this.buildGuestName(reservation),
+        this.readString(payload, 'guestName', 'guest_name', 'guest.name') ??
+        reservation.guest.name ??
+        'Guest',
       phone:
-        this.readString(payload, 'guestPhone', 'guest_phone') ??
-        this.readString(payload, 'guest.phone', 'guest.contact.phone') ??
         this.readString(
-          reservation,
+          payload,
           'guestPhone',
           'guest_phone',
-          'phone',
           'guest.phone',
           'guest.contact.phone',
-          'guest.phone_number',
-        ),
+        ) ??
+        reservation.guest.phone ??
+        undefined,
       reservationId,
       rawPayload: payload,
       guestMessageLogId, // Link AI reply to the guest message
@@ -485,57 +783,31 @@ export class SchedulingService {
         'message_received_keyword',
       );
       if (tpl) {
-        const listingId = this.readString(
-          payload,
-          'listingMapId',
-          'listing_id',
-          'propertyId',
-          'property_id',
-        );
-        const listing = listingId ? await this.hostawayClient.getListing(tenant, listingId) : null;
+        const listing = reservation.listingId
+          ? await this.bookingsService.getListing(tenant, reservation.listingId)
+          : null;
         const variables = {
           guestName: guest.name,
-          propertyName:
-            this.readString(listing ?? {}, 'name') ||
-            this.readString(payload, 'listingName') ||
-            'your stay',
-          guestPortalUrl: this.readString(payload, 'guestPortalUrl'),
-          checkInDate: this.readString(payload, 'arrivalDate'),
-          checkOutDate: this.readString(payload, 'departureDate'),
+          propertyName: listing?.name || reservation.listingName || 'your stay',
+          guestPortalUrl: reservation.guestPortalUrl,
+          checkInDate: reservation.arrivalDate,
+          checkOutDate: reservation.departureDate,
         } as Record<string, string | number | null | undefined>;
         const body = this.templatesService.substituteVariables(tpl.template_body, variables);
-        const hostawayConversationId =
-          conversation.hostawayConversationId ?? this.readString(payload, 'conversationId');
-        if (hostawayConversationId) {
-          await this.hostawayClient.sendConversationMessage(
-            tenant,
-            hostawayConversationId,
-            body,
-            'channel',
-          );
-        } else {
-          await this.hostawayClient.sendMessageToGuest(tenant, reservationId, body);
-        }
+        await this.conversationsService.deliverToGuest(tenant, conversation, body, {
+          reservation,
+          guestPhone: guest.phone,
+          hostawayConversationId:
+            conversation.hostawayConversationId ?? this.readString(payload, 'conversationId'),
+        });
       }
     }
 
     const aiResult = await this.aiEngine.processMessage(tenant, conversation, guest, messageBody);
-    if (!aiResult) {
+    if (!aiResult || aiResult.requiresApproval) {
       return;
     }
 
-    const guestPhone =
-      guest.phone ??
-      this.readString(
-        reservation,
-        'guestPhone',
-        'guest_phone',
-        'phone',
-        'guest.phone',
-        'guest.contact.phone',
-        'guest.phone_number',
-      );
-
     if (conversation.status === 'paused_by_human') {
       this.logger.debug(`Conversation ${conversation.id} is paused; skipping automated reply.`);
       await this.conversationsService.markMessageAsFailed(
@@ -545,94 +817,148 @@ export class SchedulingService {
       return;
     }
 
-    const deliveryMetadata = {
-      deliveryChannel: guestPhone ? 'twilio' : 'hostaway',
-      reservationId,
-      hostawayReservationId: bookingInfo.hostawayReservationId,
-      hostawayConversationId:
-        conversation.hostawayConversationId ?? bookingInfo.hostawayConversationId,
-    };
-
     try {
-      if (guestPhone) {
-        await this.twilioClient.sendWhatsAppMessage(tenant, guestPhone, aiResult.message);
-      } else {
-        const hostawayConversationId =
-          conversation.hostawayConversationId ?? bookingInfo.hostawayConversationId;
-        if (hostawayConversationId) {
-          await this.hostawayClient.sendConversationMessage(
-            tenant,
-            hostawayConversationId,
-            aiResult.message,
-            'channel',
-          );
-        } else {
-          await this.hostawayClient.sendMessageToGuest(tenant, reservationId, aiResult.message);
-        }
-      }
-
-      await this.conversationsService.markMessageAsSent(
-        aiResult.logId,
+      const delivery = await this.conversationsService.deliverToGuest(
+        tenant,
+        conversation,
         aiResult.message,
-        deliveryMetadata,
+        {
+          reservation,
+          guestPhone: guest.phone,
+          hostawayConversationId:
+            conversation.hostawayConversationId ?? bookingInfo.hostawayConversationId,
+        },
       );
+
+      await this.conversationsService.markMessageAsSent(aiResult.logId, aiResult.message, {
+        ...delivery,
+        hostawayReservationId: bookingInfo.hostawayReservationId,
+      });
     } catch (error) {
       await this.conversationsService.markMessageAsFailed(aiResult.logId, error as Error);
       throw error;
     }
   }
 
-  private resolveReservationDate(
-    reservation: HostawayRecord,
-    timezone: string,
-    config: {
-      datePaths: string[];
-      timePaths?: string[];
-      fallbackHour: number;
-    },
-  ): Date | null {
-    const dateValue = this.readString(reservation, ...config.datePaths);
-    if (!dateValue) {
-      // Log missing date for debugging during initial sync
-      const reservationId = this.readString(reservation, 'id', 'reservationId', 'reservation_id');
-      this.logger.debug(
-        `Reservation ${reservationId} missing date in paths: ${config.datePaths.join(', ')}`,
+  private async handleIncomingTwilioMessage(
+    tenant: TenantSummary,
+    inbound: InboundTwilioMessage,
+  ): Promise<void> {
+    const guestPhone = inbound.from.replace(/^whatsapp:/i, '').trim();
+    const messageBody = inbound.body.trim();
+
+    if (!messageBody) {
+      this.logger.warn(`Received Twilio message without body for tenant ${tenant.id}`);
+      return;
+    }
+
+    const booking = await this.conversationsService.findBookingByGuestPhone(tenant.id, guestPhone);
+    if (!booking) {
+      this.logger.warn(
+        `No booking matches inbound ${inbound.channel} sender ${guestPhone} (tenant ${tenant.id}); skipping AI reply`,
       );
-      return null;
+      return;
     }
 
-    const hourInput =
-      (config.timePaths && this.readNumber(reservation, ...config.timePaths)) ??
-      config.fallbackHour;
-    const normalized = this.normalizeDateTimeInput(
-      dateValue,
-      this.normalizeHour(hourInput, config.fallbackHour),
+    const conversation = await this.conversationsService.getOrCreateConversation(
+      tenant.id,
+      booking.bookingId,
     );
+    const reservationId = booking.bookingExternalId ?? undefined;
 
-    try {
-      return fromZonedTime(normalized, timezone);
-    } catch (error) {
-      this.logger.warn(
-        `Unable to interpret reservation date "${dateValue}" for timezone ${timezone}: ${
-          (error as Error).message
-        }`,
+    const guestMessage = await this.conversationsService.logGuestMessage(
+      conversation,
+      messageBody,
+      {
+        source: 'twilio.webhook',
+        channel: inbound.channel,
+        tenantId: tenant.id,
+        hostawayReservationId: reservationId,
+        twilioMessageSid: inbound.messageSid,
+        messageId: inbound.messageSid, // Used for duplicate detection on Twilio retries
+        fromNumber: guestPhone,
+      },
+    );
+    if (guestMessage.duplicate) {
+      this.logger.debug(
+        `Ignoring Twilio retry of message ${inbound.messageSid} (tenant ${tenant.id})`,
       );
-      const parsed = parseISO(normalized);
-      return Number.isNaN(parsed.getTime()) ? null : parsed;
+      return;
     }
+
+    if (reservationId) {
+      await this.queueGuestMessageAutomations(
+        tenant,
+        conversation,
+        await this.bookingsService.getReservation(tenant, reservationId),
+        messageBody,
+        guestMessage.id,
+      );
+    }
+
+    const guest: GuestContext = {
+      id: booking.guestId,
+      name: booking.guestName || inbound.profileName || 'Guest',
+      phone: guestPhone,
+      reservationId,
+      rawPayload: inbound.rawPayload,
+      guestMessageLogId: guestMessage.id,
+      replyChannel: inbound.channel,
+    };
+
+    // The AI round-trip can outlast Twilio's webhook timeout, so it runs on the job queue
+    await this.jobsService.enqueue(
+      'twilio_inbound_message',
+      tenant.id,
+      { conversationId: conversation.id, messageBody, guest },
+      {
+        dedupeKey: inbound.messageSid ? `twilio_inbound_message:${inbound.messageSid}` : undefined,
+      },
+    );
   }
 
-  private determineTimezone(reservation: HostawayRecord): string {
-    return (
-      this.readString(
-        reservation,
-        'listingTimeZoneName', // Hostaway webhook field
-        'timezone',
-        'listing.timezone',
-        'property.timezone',
-        'unit.timezone',
-      ) ?? 'UTC'
+  private async replyToTwilioMessage(
+    tenantId: string,
+    payload: { conversationId: string; messageBody: string; guest: GuestContext },
+  ): Promise<void> {
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    const conversation = await this.conversationsService.getConversationById(
+      tenantId,
+      payload.conversationId,
     );
+    const { guest, messageBody } = payload;
+
+    const aiResult = await this.aiEngine.processMessage(tenant, conversation, guest, messageBody);
+    if (!aiResult || aiResult.requiresApproval) {
+      return;
+    }
+
+    if (conversation.status === 'paused_by_human') {
+      this.logger.debug(`Conversation ${conversation.id} is paused; skipping automated reply.`);
+      await this.conversationsService.markMessageAsFailed(
+        aiResult.logId,
+        new Error('Conversation paused by human agent'),
+      );
+      return;
+    }
+
+    try {
+      // Reply on the channel the guest wrote from, unless the plan has no WhatsApp delivery
+      const delivery = await this.conversationsService.deliverToGuest(
+        tenant,
+        conversation,
+        aiResult.message,
+        { guestPhone: guest.phone, replyChannel: guest.replyChannel },
+      );
+
+      await this.conversationsService.markMessageAsSent(aiResult.logId, aiResult.message, {
+        ...delivery,
+        hostawayReservationId: guest.reservationId,
+      });
+    } catch (error) {
+      await this.conversationsService.markMessageAsFailed(aiResult.logId, error as Error);
+      throw error;
+    }
   }
 
   private resolveRecord(source: HostawayRecord, key: string): HostawayRecord | undefined {
@@ -664,101 +990,6 @@ export class SchedulingService {
     return undefined;
   }
 
-  private resolveHostawayConversationId(conversations: HostawayRecord[]): string | null {
-    if (!Array.isArray(conversations) || conversations.length === 0) {
-      return null;
-    }
-
-    const preferredTypes = ['host-guest-channel', 'host-guest-email', 'host-guest-whatsapp'];
-    for (const type of preferredTypes) {
-      const match = conversations.find((conversation) => {
-        const conversationType = (this.readString(conversation, 'type') ?? '').toLowerCase();
-        return conversationType === type;
-      });
-      if (match) {
-        const identifier = this.readString(match, 'id', 'conversationId', 'conversation_id');
-        if (identifier) {
-          return identifier;
-        }
-      }
-    }
-
-    for (const conversation of conversations) {
-      const identifier = this.readString(conversation, 'id', 'conversationId', 'conversation_id');
-      if (identifier) {
-        return identifier;
-      }
-    }
-
-    return null;
-  }
-
-  private readNumber(
-    source: HostawayRecord | null | undefined,
-    ...paths: string[]
-  ): number | undefined {
-    if (!source) {
-      return undefined;
-    }
-
-    for (const path of paths) {
-      const value = this.resolvePath(source, path);
-      if (typeof value === 'number' && Number.isFinite(value)) {
-        return value;
-      }
-      if (typeof value === 'string') {
-        const parsed = Number(value);
-        if (!Number.isNaN(parsed)) {
-          return parsed;
-        }
-      }
-    }
-
-    return undefined;
-  }
-
-  private normalizeHour(value: number | string | null | undefined, fallbackHour: number): number {
-    if (typeof value === 'string') {
-      const parsed = Number(value);
-      if (!Number.isNaN(parsed)) {
-        value = parsed;
-      }
-    }
-
-    if (typeof value !== 'number' || Number.isNaN(value)) {
-      return Math.max(0, Math.min(23, Math.round(fallbackHour)));
-    }
-
-    return Math.max(0, Math.min(23, Math.round(value)));
-  }
-
-  private normalizeDateTimeInput(dateValue: string, hour: number): string {
-    const trimmed = dateValue.trim();
-    const paddedHour = String(hour).padStart(2, '0');
-
-    if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-      return `${trimmed}T${paddedHour}:00:00`;
-    }
-
-    if (/^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}$/.test(trimmed)) {
-      return trimmed.replace(' ', 'T');
-    }
-
-    if (/^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}$/.test(trimmed)) {
-      return `${trimmed.replace(' ', 'T')}:00`;
-    }
-
-    if (/^\d{4}-\d{2}-\d{2}T\d{2}$/.test(trimmed)) {
-      return `${trimmed}:00:00`;
-    }
-
-    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(trimmed)) {
-      return `${trimmed}:00`;
-    }
-
-    return trimmed;
-  }
-
   private resolvePath(source: HostawayRecord, path: string): unknown {
     if (!path.includes('.')) {
       return source[path];
@@ -774,362 +1005,56 @@ export class SchedulingService {
     return current;
   }
 
-  private buildGuestName(reservation: HostawayRecord): string {
-    const explicit = this.readString(reservation, 'guestName', 'guest_name', 'guest.name');
-    if (explicit) {
-      return explicit;
-    }
-
-    const first = this.readString(
-      reservation,
-      'guest.firstName',
-      'guest_first_name',
-      'guest.first_name',
-      'guest_firstname',
-    );
-    const last = this.readString(
-      reservation,
-      'guest.lastName',
-      'guest_last_name',
-      'guest.last_name',
-      'guest_lastname',
-    );
-
-    const combined = [first, last].filter((part) => part && part.trim().length > 0).join(' ');
-    return combined || 'Guest';
+  private async findStoredStatus(tenantId: string, reservationId: string): Promise<string | null> {
+    const states = await this.bookingsService.findReservationStates(tenantId, [reservationId]);
+    return states.get(reservationId)?.status ?? null;
   }
 
-  private async ensureBookingRecord(
+  /** Stores the reservation and resolves the PMS conversation replies should go to. */
+  private async syncBooking(
     tenant: TenantSummary,
-    reservation: HostawayRecord,
+    reservation: Reservation,
   ): Promise<{
     bookingId: string;
     hostawayReservationId: string;
     hostawayConversationId: string | null;
   } | null> {
-    const hostawayReservationId =
-      this.readString(reservation, 'id', 'reservationId', 'reservation_id') ?? undefined;
-
-    if (!hostawayReservationId) {
+    if (!reservation.id) {
       this.logger.warn(
         `Unable to sync reservation for tenant ${tenant.id}: missing reservation id.`,
       );
       return null;
     }
 
-    // Log if check-in date is missing (this prevents booking creation)
-    const checkInDateStr = this.readString(
-      reservation,
-      'arrivalDate',
-      'arrival_date',
-      'checkIn',
-      'check_in',
-      'startDate',
-      'start_date',
-    );
-    if (!checkInDateStr) {
-      this.logger.debug(
-        `Reservation ${hostawayReservationId} has no check-in date - booking will be created without check_in_at`,
-      );
-    }
+    const hostawayConversationId = await this.resolveGuestConversationId(tenant, reservation);
 
-    let hostawayConversationId: string | null = null;
     try {
-      const conversations = await this.hostawayClient.getReservationConversations(
-        tenant,
-        hostawayReservationId,
-      );
-      hostawayConversationId = this.resolveHostawayConversationId(conversations);
+      const { bookingId } = await this.bookingsService.syncReservation(tenant, reservation);
+      return { bookingId, hostawayReservationId: reservation.id, hostawayConversationId };
     } catch (error) {
-      this.logger.warn(
-        `Unable to resolve Hostaway conversation for reservation ${hostawayReservationId} (tenant ${tenant.id})`,
+      this.logger.error(
+        `Failed to upsert booking for tenant ${tenant.id} (reservation ${reservation.id})`,
         error as Error,
       );
+      return null;
     }
+  }
 
-    const listingExternalId =
-      this.readString(
-        reservation,
-        'listingMapId',
-        'listing_map_id',
-        'listingId',
-        'listing_id',
-        'propertyId',
-        'property_id',
-      ) ?? undefined;
-
-    // Try to get listing data: check in-memory cache, then database metadata, then API
-    let listing: HostawayRecord | null = null;
-    if (listingExternalId) {
-      const cacheKey = `${tenant.id}-${listingExternalId}`;
-      const now = Date.now();
-
-      // Step 1: Check in-memory cache first
-      const cached = this.listingCache.get(cacheKey);
-      if (cached && now - cached.timestamp < this.cacheTimeout) {
-        listing = cached.listing;
-        this.logger.debug(`Using in-memory cache for listing ${listingExternalId}`);
-      } else {
-        // Step 2: Try to get from database property metadata (if property exists)
-        try {
-          const propertyResult = await this.databaseService.runQuery<{
-            metadata: Record<string, unknown>;
-          }>(
-            `SELECT metadata FROM public.properties WHERE tenant_id = $1 AND external_id = $2 LIMIT 1`,
-            [tenant.id, listingExternalId],
-          );
-
-          if (propertyResult.rows.length > 0 && propertyResult.rows[0].metadata?.listing) {
-            listing = propertyResult.rows[0].metadata.listing as HostawayRecord;
-            // Cache in memory for faster access
-            this.listingCache.set(cacheKey, { listing, timestamp: now });
-            this.logger.debug(`Using database metadata cache for listing ${listingExternalId}`);
-          }
-        } catch {
-          // Non-fatal - continue to API fetch
-          this.logger.debug(
-            `Could not load listing from database for ${listingExternalId}, will fetch from API`,
-          );
-        }
-
-        // Step 3: If not in cache or DB, fetch from API
-        if (!listing) {
-          try {
-            listing = await this.hostawayClient.getListing(tenant, listingExternalId);
-            if (listing) {
-              // Cache the listing in memory
-              this.listingCache.set(cacheKey, { listing, timestamp: now });
-
-              // Log listing data structure for debugging (first fetch only)
-              this.logger.debug(
-                `Fetched listing ${listingExternalId} from API. Fields: name=${this.readString(
-                  listing,
-                  'name',
-                )}, ` +
-                  `externalListingName=${this.readString(listing, 'externalListingName')}, ` +
-                  `internalListingName=${this.readString(listing, 'internalListingName')}, ` +
-                  `availableKeys=${Object.keys(listing).slice(0, 20).join(', ')}`,
-              );
-            }
-          } catch (error) {
-            this.logger.warn(
-              `Failed to fetch listing ${listingExternalId} from API for reservation ${hostawayReservationId}`,
-              error as Error,
-            );
-            listing = null;
-          }
-        }
-      }
-    }
-
-    const propertyExternalId = listingExternalId ?? `reservation-${hostawayReservationId}`;
-    // Priority: 1) internalListingName (internal property name), 2) name field, 3) listingName from reservation, 4) fallbacks
-    // IMPORTANT: Use 'internalListingName' (e.g., "Cross Road") NOT 'externalListingName' or 'name' (which may be OTA names)
-    // Do NOT use externalListingName, bookingcomPropertyName, airbnbName - these are external/OTA names
-    const propertyName =
-      this.readString(listing ?? {}, 'internalListingName') || // Primary: internal listing name (e.g., "Cross Road")
-      this.readString(listing ?? {}, 'name') || // Fallback: listing name field
-      this.readString(
-        reservation,
-        'listingName',
-        'propertyName',
-        'listing.name',
-        'property.name',
-      ) ||
-      'Hostaway Listing';
-
-    // Log what we're using for debugging
-    if (
-      listing &&
-      this.readString(listing, 'externalListingName') &&
-      !this.readString(listing, 'name')
-    ) {
-      this.logger.warn(
-        `Listing ${listingExternalId} has externalListingName but no 'name' field. Using fallback: ${propertyName}`,
-      );
+  private async resolveGuestConversationId(
+    tenant: TenantSummary,
+    reservation: Reservation,
+  ): Promise<string | null> {
+    if (reservation.conversationId) {
+      return reservation.conversationId;
     }
-    const timezone =
-      this.readString(reservation, 'timezone', 'listing.timezone', 'property.timezone') ?? 'UTC';
-
-    const guestExternalId =
-      this.readString(reservation, 'guestId', 'guest_id', 'guest.id') ??
-      `reservation-${hostawayReservationId}`;
-    const guestName = this.buildGuestName(reservation);
-    const guestEmail = this.readString(reservation, 'guestEmail', 'guest_email', 'guest.email');
-    const guestPhone =
-      this.readString(reservation, 'guestPhone', 'guest_phone', 'phone') ??
-      this.readString(reservation, 'guest.phone', 'guest.contact.phone', 'guest.phone_number');
-
-    const status =
-      this.readString(reservation, 'status', 'reservationStatus', 'reservation_status') ??
-      'pending';
-    const channel =
-      this.readString(reservation, 'channel', 'reservationChannel', 'channel_name') ?? 'hostaway';
-
-    const checkInDate = this.resolveReservationDate(reservation, timezone, {
-      datePaths: [
-        'checkIn',
-        'check_in',
-        'startDate',
-        'start_date',
-        'arrivalDate',
-        'arrival_date',
-        'arrival',
-        'start',
-      ],
-      timePaths: ['checkInTime', 'check_in_time', 'checkIn.time', 'check_in.time'],
-      fallbackHour: 15,
-    });
-    const checkOutDate = this.resolveReservationDate(reservation, timezone, {
-      datePaths: [
-        'checkOut',
-        'check_out',
-        'endDate',
-        'end_date',
-        'departureDate',
-        'departure_date',
-        'departure',
-        'end',
-      ],
-      timePaths: ['checkOutTime', 'check_out_time', 'checkOut.time', 'check_out.time'],
-      fallbackHour: 10,
-    });
-
-    const metadata = {
-      source: 'hostaway',
-      reservation,
-    };
 
     try {
-      return await this.databaseService.withClient(async (client) => {
-        try {
-          await client.query('BEGIN');
-
-          // Store full listing data in metadata for future use (amenities, wifi, door codes, etc.)
-          // Only store safe, serializable data (no functions, circular refs)
-          const listingMetadata: Record<string, unknown> = {
-            source: 'hostaway',
-          };
-
-          if (listing) {
-            // Extract useful fields from listing for easy access - store in metadata for caching
-            listingMetadata.listing = {
-              id: listing.id,
-              name: listing.name,
-              externalListingName: listing.externalListingName,
-              internalListingName: listing.internalListingName,
-              amenities: listing.amenities,
-              wifiUsername: listing.wifiUsername,
-              wifiPassword: listing.wifiPassword,
-              wifiNetwork: listing.wifiNetwork,
-              wifiName: listing.wifiName,
-              doorSecurityCode: listing.doorSecurityCode,
-              doorCode: listing.doorCode,
-              // Store other useful fields that might be needed
-              address: listing.address,
-              city: listing.city,
-              country: listing.country,
-              timezone: listing.timezone,
-              checkInTime: listing.checkInTime,
-              checkOutTime: listing.checkOutTime,
-            };
-          }
-
-          const propertyResult = await client.query<{ id: string }>(
-            `insert into public.properties (tenant_id, external_id, name, timezone, metadata, updated_at)
-             values ($1, $2, $3, $4, $5::jsonb, now())
-             on conflict (tenant_id, external_id)
-             do update set
-               name = excluded.name,
-               timezone = excluded.timezone,
-               metadata = excluded.metadata,
-               updated_at = now()
-             returning id`,
-            [
-              tenant.id,
-              propertyExternalId,
-              propertyName,
-              timezone,
-              JSON.stringify(listingMetadata),
-            ],
-          );
-          const propertyId = propertyResult.rows[0].id;
-
-          const guestResult = await client.query<{ id: string }>(
-            `insert into public.guests (tenant_id, external_id, full_name, email, phone_number, metadata, updated_at)
-             values ($1, $2, $3, $4, $5, $6::jsonb, now())
-             on conflict (tenant_id, external_id)
-             do update set
-               full_name = excluded.full_name,
-               email = excluded.email,
-               phone_number = excluded.phone_number,
-               metadata = excluded.metadata,
-               updated_at = now()
-             returning id`,
-            [
-              tenant.id,
-              guestExternalId,
-              guestName,
-              guestEmail,
-              guestPhone,
-              JSON.stringify({ source: 'hostaway' }),
-            ],
-          );
-          const guestId = guestResult.rows[0].id;
-
-          const bookingResult = await client.query<{ id: string }>(
-            `insert into public.bookings (
-                tenant_id,
-                property_id,
-                guest_id,
-                external_id,
-                status,
-                channel,
-                check_in_at,
-                check_out_at,
-                metadata,
-                updated_at
-             )
-             values ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, now())
-             on conflict (tenant_id, external_id)
-             do update set
-               property_id = excluded.property_id,
-               guest_id = excluded.guest_id,
-               status = excluded.status,
-               channel = excluded.channel,
-               check_in_at = excluded.check_in_at,
-               check_out_at = excluded.check_out_at,
-               metadata = excluded.metadata,
-               updated_at = now()
-             returning id`,
-            [
-              tenant.id,
-              propertyId,
-              guestId,
-              hostawayReservationId,
-              status,
-              channel,
-              checkInDate ? checkInDate.toISOString() : null,
-              checkOutDate ? checkOutDate.toISOString() : null,
-              JSON.stringify(metadata),
-            ],
-          );
-
-          await client.query('COMMIT');
-
-          return {
-            bookingId: bookingResult.rows[0].id,
-            hostawayReservationId,
-            hostawayConversationId,
-          };
-        } catch (innerError) {
-          await client.query('ROLLBACK');
-          throw innerError;
-        }
-      });
+      return await this.pmsProviderService
+        .forTenant(tenant)
+        .findGuestConversation(tenant, reservation.id);
     } catch (error) {
-      this.logger.error(
-        `Failed to upsert booking for tenant ${tenant.id} (Hostaway reservation ${hostawayReservationId})`,
+      this.logger.warn(
+        `Unable to resolve PMS conversation for reservation ${reservation.id} (tenant ${tenant.id})`,
         error as Error,
       );
       return null;
@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator';
+import { STAFF_TASK_STATUSES, StaffTaskStatus } from '@saas-automation/shared-types';
+
+export class UpdateTaskStatusDto {
+  @IsIn(STAFF_TASK_STATUSES)
+  status!: StaffTaskStatus;
+}
@@ -0,0 +1,38 @@
+import { Body, Controller, Get, Param, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { StaffTask, StaffTaskStatus } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { UpdateTaskStatusDto } from './dto/update-task-status.dto';
+import { TasksService } from './tasks.service';
+
+@Controller('tasks')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+export class TasksController {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get()
+  async listTasks(
+    @Req() req: AuthenticatedRequest,
+    @Query('status') status?: StaffTaskStatus,
+  ): Promise<StaffTask[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.tasksService.listTasks(tenant.id, status || undefined);
+  }
+
+  @Put(':id/status')
+  async updateStatus(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: UpdateTaskStatusDto,
+  ): Promise<StaffTask> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.tasksService.updateStatus(tenant.id, id, dto?.status, req.user.userId);
+  }
+}
@@ -0,0 +1,122 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { STAFF_TASK_STATUSES, StaffTask, StaffTaskStatus } from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+import { EventsService } from '../events/events.service';
+
+interface StaffTaskRow {
+  id: string;
+  conversation_id: string | null;
+  reservation_id: string | null;
+  type: string;
+  title: string;
+  details: Record<string, unknown> | null;
+  status: StaffTaskStatus;
+  completed_at: Date | null;
+  created_at: Date;
+}
+
+const TASK_COLUMNS = `id, conversation_id, reservation_id, type, title, details, status,
+  completed_at, created_at`;
+
+export interface CreateStaffTaskInput {
+  conversationId?: string | null;
+  reservationId?: string | null;
+  type: string;
+  title: string;
+  details?: Record<string, unknown>;
+}
+
+@Injectable()
+export class TasksService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  async createTask(tenantId: string, input: CreateStaffTaskInput): Promise<StaffTask> {
+    const { rows } = await this.databaseService.runQuery<StaffTaskRow>(
+      `insert into public.staff_tasks (tenant_id, conversation_id, reservation_id, type, title, details)
+       values ($1, $2, $3, $4, $5, $6::jsonb)
+       returning ${TASK_COLUMNS}`,
+      [
+        tenantId,
+        input.conversationId ?? null,
+        input.reservationId ?? null,
+        input.type,
+        input.title,
+        JSON.stringify(input.details ?? {}),
+      ],
+    );
+
+    const task = this.mapTask(rows[0]);
+    this.eventsService.publish(tenantId, 'task.created', {
+      taskId: task.id,
+      type: task.type,
+      conversationId: task.conversationId,
+    });
+
+    return task;
+  }
+
+  async listTasks(tenantId: string, status?: StaffTaskStatus): Promise<StaffTask[]> {
+    if (status && !STAFF_TASK_STATUSES.includes(status)) {
+      throw new BadRequestException(`status must be one of: ${STAFF_TASK_STATUSES.join(', ')}`);
+    }
+
+    const { rows } = await this.databaseService.runQuery<StaffTaskRow>(
+      `select ${TASK_COLUMNS}
+         from public.staff_tasks
+        where tenant_id = $1
+          and ($2::text is null or status = $2)
+        order by created_at desc
+        limit 200`,
+      [tenantId, status ?? null],
+    );
+
+    return rows.map((row) => this.mapTask(row));
+  }
+
+  async updateStatus(
+    tenantId: string,
+    taskId: string,
+    status: StaffTaskStatus,
+    userId: string,
+  ): Promise<StaffTask> {
+    if (!STAFF_TASK_STATUSES.includes(status)) {
+      throw new BadRequestException(`status must be one of: ${STAFF_TASK_STATUSES.join(', ')}`);
+    }
+
+    const { rows } = await this.databaseService.runQuery<StaffTaskRow>(
+      `update public.staff_tasks
+          set status = $3,
+              completed_by = case when $3 = 'open' then null else $4::uuid end,
+              completed_at = case when $3 = 'open' then null else now() end,
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${TASK_COLUMNS}`,
+      [taskId, tenantId, status, userId],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Task not found');
+    }
+
+    return this.mapTask(rows[0]);
+  }
+
+  private mapTask(row: StaffTaskRow): StaffTask {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      reservationId: row.reservation_id,
+      type: row.type,
+      title: row.title,
+      details: row.details ?? {},
+      status: row.status,
+      completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
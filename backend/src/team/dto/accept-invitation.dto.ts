@@ -0,0 +1,8 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class AcceptInvitationDto {
+  // Token from the invitation link
+  @IsString()
+  @MaxLength(200)
+  token!: string;
+}
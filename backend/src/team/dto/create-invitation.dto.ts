@@ -0,0 +1,10 @@
+import { IsEmail, IsIn } from 'class-validator';
+import { TENANT_ROLES, TenantRole } from '@saas-automation/shared-types';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email!: string;
+
+  @IsIn(TENANT_ROLES)
+  role!: TenantRole;
+}
@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator';
+import { TENANT_ROLES, TenantRole } from '@saas-automation/shared-types';
+
+export class UpdateMemberRoleDto {
+  @IsIn(TENANT_ROLES)
+  role!: TenantRole;
+}
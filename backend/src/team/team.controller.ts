@@ -0,0 +1,101 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { TenantInvitation, TenantMember, TenantRole } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { RequireEntitlement } from '../entitlements/require-entitlement.decorator';
+import { TenantService } from '../tenant/tenant.service';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
+import { TeamService } from './team.service';
+
+@Controller('team')
+@UseGuards(AuthGuard('supabase'))
+export class TeamController {
+  constructor(
+    private readonly teamService: TeamService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get('me')
+  async getMyRole(@Req() req: AuthenticatedRequest): Promise<{ role: TenantRole }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return { role: await this.teamService.getMemberRole(tenant.id, req.user.userId) };
+  }
+
+  @Get('members')
+  @UseGuards(TenantRolesGuard)
+  async listMembers(@Req() req: AuthenticatedRequest): Promise<TenantMember[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.teamService.listMembers(tenant.id);
+  }
+
+  @Put('members/:userId/role')
+  @UseGuards(TenantRolesGuard)
+  @RequireTenantRole('owner')
+  async updateMemberRole(
+    @Req() req: AuthenticatedRequest,
+    @Param('userId') userId: string,
+    @Body() dto: UpdateMemberRoleDto,
+  ): Promise<TenantMember> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.teamService.updateMemberRole(tenant.id, userId, dto?.role);
+  }
+
+  @Delete('members/:userId')
+  @UseGuards(TenantRolesGuard)
+  @RequireTenantRole('owner')
+  async removeMember(
+    @Req() req: AuthenticatedRequest,
+    @Param('userId') userId: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.teamService.removeMember(tenant.id, userId);
+    return { deleted: true };
+  }
+
+  @Get('invitations')
+  @UseGuards(TenantRolesGuard)
+  @RequireTenantRole('owner')
+  async listInvitations(@Req() req: AuthenticatedRequest): Promise<TenantInvitation[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.teamService.listInvitations(tenant.id);
+  }
+
+  @Post('invitations')
+  @UseGuards(TenantRolesGuard, EntitlementsGuard)
+  @RequireTenantRole('owner')
+  @RequireEntitlement('team_seats')
+  async createInvitation(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateInvitationDto,
+  ): Promise<TenantInvitation> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.teamService.createInvitation(tenant, req.user.userId, dto);
+  }
+
+  @Delete('invitations/:id')
+  @UseGuards(TenantRolesGuard)
+  @RequireTenantRole('owner')
+  async revokeInvitation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.teamService.revokeInvitation(tenant.id, id);
+    return { deleted: true };
+  }
+
+  // Called from the auth callback before the user belongs to a tenant, so no role check
+  @Post('invitations/accept')
+  async acceptInvitation(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: AcceptInvitationDto,
+  ): Promise<{ tenantId: string; role: TenantRole }> {
+    return this.teamService.acceptInvitation(req.user.userId, req.user.email, dto?.token);
+  }
+}
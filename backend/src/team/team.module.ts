@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+
+import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { TeamController } from './team.controller';
+import { TeamService } from './team.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PassportModule,
+    TenantModule,
+    MessagingModule,
+    DatabaseModule,
+    EntitlementsModule,
+  ],
+  controllers: [TeamController],
+  providers: [TeamService],
+})
+export class TeamModule {}
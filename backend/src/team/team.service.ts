@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TENANT_ROLES,
+  TenantInvitation,
+  TenantMember,
+  TenantRole,
+} from '@saas-automation/shared-types';
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+
+import { DatabaseService } from '../database/database.service';
+import { EmailClient } from '../messaging/email.client';
+import { TenantSummary } from '../tenant/tenant.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+
+interface MemberRow {
+  user_id: string;
+  email: string | null;
+  display_name: string | null;
+  tenant_role: TenantRole;
+  created_at: Date;
+}
+
+interface InvitationRow {
+  id: string;
+  tenant_id: string;
+  email: string;
+  role: TenantRole;
+  expires_at: Date;
+  accepted_at: Date | null;
+  created_at: Date;
+}
+
+const INVITATION_COLUMNS = 'id, tenant_id, email, role, expires_at, accepted_at, created_at';
+const INVITATION_TTL_DAYS = 7;
+const DEFAULT_FRONTEND_URL = 'http://localhost:4200';
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class TeamService {
+  private readonly logger = new Logger(TeamService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly emailClient: EmailClient,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async listMembers(tenantId: string): Promise<TenantMember[]> {
+    const { rows } = await this.databaseService.runQuery<MemberRow>(
+      `select up.user_id, u.email, up.display_name, up.tenant_role, up.created_at
+         from public.user_profiles up
+         left join auth.users u on u.id = up.user_id
+        where up.tenant_id = $1
+        order by up.created_at`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapMember(row));
+  }
+
+  async updateMemberRole(
+    tenantId: string,
+    userId: string,
+    role: TenantRole,
+  ): Promise<TenantMember> {
+    if (!TENANT_ROLES.includes(role)) {
+      throw new BadRequestException(`role must be one of: ${TENANT_ROLES.join(', ')}`);
+    }
+
+    const member = await this.findMember(tenantId, userId);
+    if (member.tenant_role === 'owner' && role !== 'owner') {
+      await this.assertAnotherOwner(tenantId, userId);
+    }
+
+    await this.databaseService.runQuery(
+      `update public.user_profiles
+          set tenant_role = $3,
+              updated_at = now()
+        where user_id = $1
+          and tenant_id = $2`,
+      [userId, tenantId, role],
+    );
+
+    return this.mapMember({ ...member, tenant_role: role });
+  }
+
+  async removeMember(tenantId: string, userId: string): Promise<void> {
+    const member = await this.findMember(tenantId, userId);
+    if (member.tenant_role === 'owner') {
+      await this.assertAnotherOwner(tenantId, userId);
+    }
+
+    await this.databaseService.runQuery(
+      `delete from public.user_profiles where user_id = $1 and tenant_id = $2`,
+      [userId, tenantId],
+    );
+  }
+
+  /** Invitations that have not been accepted yet, including expired ones so they can be resent. */
+  async listInvitations(tenantId: string): Promise<TenantInvitation[]> {
+    const { rows } = await this.databaseService.runQuery<InvitationRow>(
+      `select ${INVITATION_COLUMNS}
+         from public.tenant_invitations
+        where tenant_id = $1
+          and accepted_at is null
+        order by created_at desc`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapInvitation(row));
+  }
+
+  /**
+   * Creates an invitation and emails its link. Inviting the same address again replaces the
+   * pending invitation, so it doubles as "resend".
+   */
+  async createInvitation(
+    tenant: TenantSummary,
+    invitedBy: string,
+    dto: CreateInvitationDto,
+  ): Promise<TenantInvitation> {
+    const email = typeof dto?.email === 'string' ? dto.email.trim().toLowerCase() : '';
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new BadRequestException('email must be an email address');
+    }
+    if (!TENANT_ROLES.includes(dto.role)) {
+      throw new BadRequestException(`role must be one of: ${TENANT_ROLES.join(', ')}`);
+    }
+
+    const { rows: existing } = await this.databaseService.runQuery<{ user_id: string }>(
+      `select up.user_id
+         from public.user_profiles up
+         join auth.users u on u.id = up.user_id
+        where up.tenant_id = $1
+          and lower(u.email) = $2
+        limit 1`,
+      [tenant.id, email],
+    );
+    if (existing[0]) {
+      throw new ConflictException('This person is already a team member');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await this.databaseService.runQuery(
+      `delete from public.tenant_invitations
+        where tenant_id = $1
+          and lower(email) = $2
+          and accepted_at is null`,
+      [tenant.id, email],
+    );
+    const { rows } = await this.databaseService.runQuery<InvitationRow>(
+      `insert into public.tenant_invitations (
+         tenant_id, email, role, token_hash, invited_by, expires_at
+       )
+       values ($1, $2, $3, $4, $5, $6)
+       returning ${INVITATION_COLUMNS}`,
+      [tenant.id, email, dto.role, hashToken(token), invitedBy, expiresAt.toISOString()],
+    );
+
+    await this.sendInvitation(tenant, email, dto.role, token);
+    return this.mapInvitation(rows[0]);
+  }
+
+  async revokeInvitation(tenantId: string, invitationId: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.tenant_invitations
+        where id = $1
+          and tenant_id = $2
+          and accepted_at is null`,
+      [invitationId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  /**
+   * Joins the signed-in user to the inviting tenant. The invitation must be addressed to the
+   * user's email, and a user can only belong to one tenant.
+   */
+  async acceptInvitation(
+    userId: string,
+    email: string | undefined,
+    token: string,
+  ): Promise<{ tenantId: string; role: TenantRole }> {
+    if (!token) {
+      throw new BadRequestException('token is required');
+    }
+
+    const { rows } = await this.databaseService.runQuery<InvitationRow>(
+      `select ${INVITATION_COLUMNS}
+         from public.tenant_invitations
+        where token_hash = $1
+          and accepted_at is null
+        limit 1`,
+      [hashToken(token)],
+    );
+    const invitation = rows[0];
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found or already used');
+    }
+    if (new Date(invitation.expires_at) <= new Date()) {
+      throw new BadRequestException('Invitation has expired; ask for a new one');
+    }
+    if (!email || email.toLowerCase() !== invitation.email.toLowerCase()) {
+      throw new ForbiddenException(`This invitation was sent to ${invitation.email}`);
+    }
+
+    const { rows: profiles } = await this.databaseService.runQuery<{ tenant_id: string }>(
+      `select tenant_id from public.user_profiles where user_id = $1`,
+      [userId],
+    );
+    if (profiles[0] && profiles[0].tenant_id !== invitation.tenant_id) {
+      throw new ConflictException('Your account already belongs to another workspace');
+    }
+
+    await this.databaseService.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        await client.query(
+          `insert into public.user_profiles (user_id, tenant_id, role, tenant_role, created_at, updated_at)
+           values ($1, $2, 'client-tenant', $3, now(), now())
+           on conflict (user_id) do update
+             set tenant_role = excluded.tenant_role,
+                 updated_at = now()`,
+          [userId, invitation.tenant_id, invitation.role],
+        );
+        await client.query(
+          `update public.tenant_invitations
+              set accepted_at = now(),
+                  accepted_by = $2
+            where id = $1`,
+          [invitation.id, userId],
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+
+    this.logger.log(`User ${userId} joined tenant ${invitation.tenant_id} as ${invitation.role}`);
+    return { tenantId: invitation.tenant_id, role: invitation.role };
+  }
+
+  async getMemberRole(tenantId: string, userId: string): Promise<TenantRole> {
+    const member = await this.findMember(tenantId, userId);
+    return member.tenant_role;
+  }
+
+  /**
+   * Sends the invitation through Supabase Auth so new users get an account and a sign-in link that
+   * lands on the dashboard's auth callback. People who already have an account get the same link
+   * by email and sign in first.
+   */
+  private async sendInvitation(
+    tenant: TenantSummary,
+    email: string,
+    role: TenantRole,
+    token: string,
+  ): Promise<void> {
+    const frontendUrl = (
+      this.configService.get<string>('FRONTEND_URL') || DEFAULT_FRONTEND_URL
+    ).replace(/\/+$/, '');
+    const link = `${frontendUrl}/auth/callback?invite=${encodeURIComponent(token)}`;
+
+    const supabaseUrl = this.configService.get<string>('SUPABASE_URL');
+    const serviceRoleKey = this.configService.get<string>('SUPABASE_SERVICE_ROLE_KEY');
+    if (supabaseUrl && serviceRoleKey) {
+      try {
+        await axios.post(
+          `${supabaseUrl.replace(/\/+$/, '')}/auth/v1/invite`,
+          { email, data: { invitedTenantId: tenant.id } },
+          {
+            params: { redirect_to: link },
+            headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+            timeout: 15000,
+          },
+        );
+        return;
+      } catch (error) {
+        // 422 means the address already has an account; fall through to a plain email
+        if (!axios.isAxiosError(error) || error.response?.status !== 422) {
+          this.logger.error(`Failed to send Supabase invitation to ${email}`, error as Error);
+          throw error;
+        }
+      }
+    }
+
+    await this.emailClient.sendEmail(
+      email,
+      `You're invited to join ${tenant.name}`,
+      `You have been invited to join ${tenant.name} as ${role.replace('_', '-')}.\n\n` +
+        `Sign in and accept the invitation here (valid for ${INVITATION_TTL_DAYS} days):\n${link}`,
+    );
+  }
+
+  private async findMember(tenantId: string, userId: string): Promise<MemberRow> {
+    const { rows } = await this.databaseService.runQuery<MemberRow>(
+      `select up.user_id, u.email, up.display_name, up.tenant_role, up.created_at
+         from public.user_profiles up
+         left join auth.users u on u.id = up.user_id
+        where up.user_id = $1
+          and up.tenant_id = $2
+        limit 1`,
+      [userId, tenantId],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Team member not found');
+    }
+
+    return rows[0];
+  }
+
+  private async assertAnotherOwner(tenantId: string, userId: string): Promise<void> {
+    const { rows } = await this.databaseService.runQuery<{ count: string }>(
+      `select count(*)::text as count
+         from public.user_profiles
+        where tenant_id = $1
+          and tenant_role = 'owner'
+          and user_id <> $2`,
+      [tenantId, userId],
+    );
+
+    if (Number(rows[0]?.count ?? 0) === 0) {
+      throw new BadRequestException('A workspace needs at least one owner');
+    }
+  }
+
+  private mapMember(row: MemberRow): TenantMember {
+    return {
+      userId: row.user_id,
+      email: row.email,
+      displayName: row.display_name,
+      role: row.tenant_role,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private mapInvitation(row: InvitationRow): TenantInvitation {
+    return {
+      id: row.id,
+      email: row.email,
+      role: row.role,
+      expiresAt: new Date(row.expires_at).toISOString(),
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at).toISOString() : null,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
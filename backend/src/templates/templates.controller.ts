@@ -1,15 +1,22 @@
 import { Controller, Get, Param, Put, Body, UseGuards, Req, Post, Delete } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 
+import { auditActorFromRequest, AuditService } from '../audit/audit.service';
 import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
 import { TemplatesService } from './templates.service';
 import { UpdateTemplateDto } from './dto/update-template.dto';
 import { TemplateResponseDto } from './dto/template-response.dto';
 
 @Controller('templates')
-@UseGuards(AuthGuard('supabase'))
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
 export class TemplatesController {
-  constructor(private readonly templatesService: TemplatesService) {}
+  constructor(
+    private readonly templatesService: TemplatesService,
+    private readonly auditService: AuditService,
+  ) {}
 
   @Get()
   async getTemplates(@Req() req: AuthenticatedRequest): Promise<TemplateResponseDto[]> {
@@ -38,6 +45,7 @@ export class TemplatesController {
   }
 
   @Put(':id')
+  @RequireTenantRole('manager')
   async updateTemplate(
     @Req() req: AuthenticatedRequest,
     @Param('id') id: string,
@@ -47,10 +55,23 @@ export class TemplatesController {
       throw new Error('Tenant ID not found in request');
     }
 
-    return this.templatesService.updateTemplate(req.user.tenantId as string, id, updateDto);
+    const tenantId = req.user.tenantId as string;
+    const before = await this.templatesService.getTemplate(tenantId, id);
+    const updated = await this.templatesService.updateTemplate(tenantId, id, updateDto);
+    await this.auditService.record({
+      tenantId,
+      actor: auditActorFromRequest(req),
+      action: 'template.updated',
+      targetType: 'template',
+      targetId: id,
+      before: auditedTemplateFields(before),
+      after: auditedTemplateFields(updated),
+    });
+    return updated;
   }
 
   @Post('import/hostaway')
+  @RequireTenantRole('manager')
   async importFromHostaway(
     @Req() req: AuthenticatedRequest,
     @Body()
@@ -63,10 +84,18 @@ export class TemplatesController {
     }
     const list = Array.isArray(body?.templates) ? body.templates : [];
     await this.templatesService.importHostawayTemplates(req.user.tenantId as string, list);
+    await this.auditService.record({
+      tenantId: req.user.tenantId as string,
+      actor: auditActorFromRequest(req),
+      action: 'template.imported',
+      targetType: 'template',
+      after: { importedCount: list.length },
+    });
     return { imported: list.length };
   }
 
   @Delete(':id')
+  @RequireTenantRole('manager')
   async deleteTemplate(
     @Req() req: AuthenticatedRequest,
     @Param('id') id: string,
@@ -74,7 +103,24 @@ export class TemplatesController {
     if (!req.user?.tenantId) {
       throw new Error('Tenant ID not found in request');
     }
-    await this.templatesService.deleteTemplate(req.user.tenantId as string, id);
+    const tenantId = req.user.tenantId as string;
+    const before = await this.templatesService.getTemplate(tenantId, id).catch(() => null);
+    await this.templatesService.deleteTemplate(tenantId, id);
+    await this.auditService.record({
+      tenantId,
+      actor: auditActorFromRequest(req),
+      action: 'template.deleted',
+      targetType: 'template',
+      targetId: id,
+      before: before ? auditedTemplateFields(before) : null,
+    });
     return { deleted: true };
   }
 }
+
+const auditedTemplateFields = (template: TemplateResponseDto) => ({
+  name: template.name,
+  triggerType: template.trigger_type,
+  templateBody: template.template_body,
+  enabled: template.enabled,
+});
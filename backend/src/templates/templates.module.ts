@@ -1,13 +1,23 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { PassportModule } from '@nestjs/passport';
+import { AuditModule } from '../audit/audit.module';
 import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { TenantModule } from '../tenant/tenant.module';
 
 import { TemplatesService } from './templates.service';
 import { TemplatesController } from './templates.controller';
 
 @Module({
-  imports: [ConfigModule, PassportModule, DatabaseModule],
+  imports: [
+    ConfigModule,
+    PassportModule,
+    DatabaseModule,
+    TenantModule,
+    AuditModule,
+    EntitlementsModule,
+  ],
   controllers: [TemplatesController],
   providers: [TemplatesService],
   exports: [TemplatesService],
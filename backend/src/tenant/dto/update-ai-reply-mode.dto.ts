@@ -0,0 +1,8 @@
+import { IsIn } from 'class-validator';
+
+import { AI_REPLY_MODES, AiReplyMode } from '../tenant.service';
+
+export class UpdateTenantAiReplyModeDto {
+  @IsIn(AI_REPLY_MODES)
+  mode!: AiReplyMode;
+}
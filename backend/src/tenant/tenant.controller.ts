@@ -1,9 +1,22 @@
-import { Body, Controller, Post, Req, UnauthorizedException, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+  Put,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 
 import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
 import { CreateTenantOnSignupDto } from './dto/create-tenant-on-signup.dto';
-import { TenantService } from './tenant.service';
+import { UpdateTenantAiReplyModeDto } from './dto/update-ai-reply-mode.dto';
+import { AI_REPLY_MODES, AiReplyMode, TenantService } from './tenant.service';
 
 @Controller('tenants')
 export class TenantController {
@@ -40,4 +53,27 @@ export class TenantController {
       throw error;
     }
   }
+
+  @Get('ai-reply-mode')
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  async getAiReplyMode(@Req() req: AuthenticatedRequest): Promise<{ mode: AiReplyMode }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return { mode: tenant.aiReplyMode };
+  }
+
+  @Put('ai-reply-mode')
+  @UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+  @RequireTenantRole('manager')
+  async updateAiReplyMode(
+    @Req() req: AuthenticatedRequest,
+    @Body() body: UpdateTenantAiReplyModeDto,
+  ): Promise<{ mode: AiReplyMode }> {
+    if (!AI_REPLY_MODES.includes(body?.mode)) {
+      throw new BadRequestException(`mode must be one of: ${AI_REPLY_MODES.join(', ')}`);
+    }
+
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.tenantService.updateAiReplyMode(tenant.id, body.mode);
+    return { mode: body.mode };
+  }
 }
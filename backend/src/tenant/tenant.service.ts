@@ -4,11 +4,28 @@ import {
   InternalServerErrorException,
   Logger,
 } from '@nestjs/common';
+import { PmsProviderKind } from '@saas-automation/shared-types';
 import { PoolClient } from 'pg';
 
 import { DatabaseService } from '../database/database.service';
 import { CreateTenantOnSignupDto } from './dto/create-tenant-on-signup.dto';
 
+export type AiReplyMode = 'autonomous' | 'approval_required' | 'off';
+
+export const AI_REPLY_MODES: AiReplyMode[] = ['autonomous', 'approval_required', 'off'];
+
+export type SubscriptionStatus =
+  | 'pending'
+  | 'trialing'
+  | 'active'
+  | 'grace_period'
+  | 'past_due'
+  | 'canceled'
+  | 'inactive';
+
+// Statuses that keep the dashboard and automations available
+export const SUBSCRIPTION_ACCESS_STATUSES: string[] = ['active', 'trialing', 'grace_period'];
+
 interface TenantRecord {
   id: string;
   name: string;
@@ -19,10 +36,18 @@ export interface TenantSummary extends TenantRecord {
   subscriptionStatus: string;
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
+  stripePriceId?: string | null;
+  subscriptionCurrentPeriodEnd?: Date | null;
+  subscriptionTrialEndsAt?: Date | null;
+  subscriptionCancelAtPeriodEnd?: boolean;
+  subscriptionGraceUntil?: Date | null;
+  contactEmail?: string | null;
   hostawayClientId?: string;
   hostawayAccountId?: string;
   encryptedHostawayClientSecret?: string | null;
   encryptedHostawayAccessToken?: string | null;
+  hostawayWebhookLogin?: string | null;
+  encryptedHostawayWebhookPassword?: string | null;
   twilioAccountSid?: string | null;
   encryptedTwilioAuthToken?: string | null;
   twilioMessagingServiceSid?: string | null;
@@ -30,6 +55,8 @@ export interface TenantSummary extends TenantRecord {
   twilioVoiceFrom?: string | null;
   twilioStaffWhatsappNumber?: string | null;
   twilioOnCallNumber?: string | null;
+  aiReplyMode: AiReplyMode;
+  pmsProvider: PmsProviderKind;
 }
 
 @Injectable()
@@ -240,26 +267,97 @@ export class TenantService {
     return result.rowCount > 0 ? result.rows[0] : null;
   }
 
+  async findTenantByTwilioNumber(
+    phoneNumber: string,
+    messagingServiceSid?: string,
+  ): Promise<TenantSummary | null> {
+    // Twilio sends WhatsApp addresses as "whatsapp:+1555..." - compare on the bare number
+    const normalized = phoneNumber.replace(/^whatsapp:/i, '').trim();
+    if (!normalized) {
+      return null;
+    }
+
+    // SMS reaches the tenant through its messaging service or its voice number, not the WhatsApp sender
+    const result = await this.databaseService.runQuery<TenantSummary>(
+      `select ${this.tenantSelectColumns()}
+       from public.tenants t
+       where regexp_replace(t.twilio_whatsapp_from, '^whatsapp:', '', 'i') = $1
+          or t.twilio_voice_from = $1
+          or ($2::text is not null and t.twilio_messaging_service_sid = $2)
+       limit 1`,
+      [normalized, messagingServiceSid?.trim() || null],
+    );
+
+    return result.rowCount > 0 ? result.rows[0] : null;
+  }
+
   async updateTenantSubscription(
     tenantId: string,
     update: {
-      status?: string;
+      status?: SubscriptionStatus;
       stripeCustomerId?: string;
       stripeSubscriptionId?: string;
+      stripePriceId?: string | null;
+      currentPeriodEnd?: Date | null;
+      trialEndsAt?: Date | null;
+      cancelAtPeriodEnd?: boolean;
+      // null ends the grace period
+      graceUntil?: Date | null;
     },
   ): Promise<void> {
-    const { status, stripeCustomerId, stripeSubscriptionId } = update;
+    const columns: Record<string, unknown> = {
+      subscription_status: update.status,
+      stripe_customer_id: update.stripeCustomerId,
+      stripe_subscription_id: update.stripeSubscriptionId,
+      stripe_price_id: update.stripePriceId,
+      subscription_current_period_end: update.currentPeriodEnd,
+      subscription_trial_ends_at: update.trialEndsAt,
+      subscription_cancel_at_period_end: update.cancelAtPeriodEnd,
+      subscription_grace_until: update.graceUntil,
+    };
+
+    const assignments: string[] = [];
+    const values: unknown[] = [tenantId];
+    for (const [column, value] of Object.entries(columns)) {
+      if (value !== undefined) {
+        values.push(value);
+        assignments.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (assignments.length === 0) {
+      return;
+    }
+
     await this.databaseService.runQuery(
       `update public.tenants
-         set subscription_status = coalesce($2, subscription_status),
-             stripe_customer_id = coalesce($3, stripe_customer_id),
-             stripe_subscription_id = coalesce($4, stripe_subscription_id),
-             updated_at = now()
+         set ${assignments.join(', ')}, updated_at = now()
        where id = $1`,
-      [tenantId, status ?? null, stripeCustomerId ?? null, stripeSubscriptionId ?? null],
+      values,
     );
   }
 
+  async findTenantIdByStripeIds(ids: {
+    customerId?: string | null;
+    subscriptionId?: string | null;
+  }): Promise<string | null> {
+    if (!ids.customerId && !ids.subscriptionId) {
+      return null;
+    }
+
+    const { rows } = await this.databaseService.runQuery<{ id: string }>(
+      `select id
+         from public.tenants
+        where ($1::text is not null and stripe_subscription_id = $1)
+           or ($2::text is not null and stripe_customer_id = $2)
+        order by (stripe_subscription_id = $1) desc nulls last
+        limit 1`,
+      [ids.subscriptionId ?? null, ids.customerId ?? null],
+    );
+
+    return rows[0]?.id ?? null;
+  }
+
   async updateHostawayIntegration(
     tenantId: string,
     update: {
@@ -267,6 +365,8 @@ export class TenantService {
       encryptedClientSecret?: string | null;
       encryptedAccessToken?: string | null;
       accountId?: string | null;
+      webhookLogin?: string | null;
+      encryptedWebhookPassword?: string | null;
     },
   ): Promise<void> {
     const assignments: string[] = [];
@@ -293,6 +393,16 @@ export class TenantService {
       values.push(update.accountId);
     }
 
+    if (update.webhookLogin !== undefined) {
+      assignments.push(`hostaway_webhook_login = $${index++}`);
+      values.push(update.webhookLogin);
+    }
+
+    if (update.encryptedWebhookPassword !== undefined) {
+      assignments.push(`encrypted_hostaway_webhook_password = $${index++}`);
+      values.push(update.encryptedWebhookPassword);
+    }
+
     if (assignments.length === 0) {
       await this.databaseService.runQuery(
         `update public.tenants set updated_at = now() where id = $1`,
@@ -374,6 +484,26 @@ export class TenantService {
     await this.databaseService.runQuery(sql, values);
   }
 
+  async updateAiReplyMode(tenantId: string, mode: AiReplyMode): Promise<void> {
+    await this.databaseService.runQuery(
+      `update public.tenants
+          set ai_reply_mode = $2,
+              updated_at = now()
+        where id = $1`,
+      [tenantId, mode],
+    );
+  }
+
+  async updatePmsProvider(tenantId: string, provider: PmsProviderKind): Promise<void> {
+    await this.databaseService.runQuery(
+      `update public.tenants
+          set pms_provider = $2,
+              updated_at = now()
+        where id = $1`,
+      [tenantId, provider],
+    );
+  }
+
   private async fetchTenantById(client: PoolClient, tenantId: string): Promise<TenantRecord> {
     const result = await client.query<TenantRecord>(
       'select id, name, slug from public.tenants where id = $1',
@@ -483,19 +613,41 @@ export class TenantService {
     return `t.id,
          t.name,
          t.slug,
-         t.subscription_status as "subscriptionStatus",
+         -- An unexpired operator override wins over the Stripe-driven status,
+         -- and a lapsed grace period reads as past_due
+         coalesce(
+           case
+             when t.subscription_override_until is null or t.subscription_override_until > now()
+               then t.subscription_override
+           end,
+           case
+             when t.subscription_status = 'grace_period' and t.subscription_grace_until <= now()
+               then 'past_due'
+             else t.subscription_status
+           end
+         ) as "subscriptionStatus",
          t.stripe_customer_id as "stripeCustomerId",
          t.stripe_subscription_id as "stripeSubscriptionId",
+         t.stripe_price_id as "stripePriceId",
+         t.subscription_current_period_end as "subscriptionCurrentPeriodEnd",
+         t.subscription_trial_ends_at as "subscriptionTrialEndsAt",
+         t.subscription_cancel_at_period_end as "subscriptionCancelAtPeriodEnd",
+         t.subscription_grace_until as "subscriptionGraceUntil",
+         t.contact_email as "contactEmail",
          t.hostaway_client_id as "hostawayClientId",
          t.hostaway_account_id as "hostawayAccountId",
          t.encrypted_hostaway_client_secret as "encryptedHostawayClientSecret",
          t.encrypted_hostaway_access_token as "encryptedHostawayAccessToken",
+         t.hostaway_webhook_login as "hostawayWebhookLogin",
+         t.encrypted_hostaway_webhook_password as "encryptedHostawayWebhookPassword",
          t.twilio_account_sid as "twilioAccountSid",
          t.encrypted_twilio_auth_token as "encryptedTwilioAuthToken",
          t.twilio_messaging_service_sid as "twilioMessagingServiceSid",
          t.twilio_whatsapp_from as "twilioWhatsappFrom",
          t.twilio_voice_from as "twilioVoiceFrom",
          t.twilio_staff_whatsapp_number as "twilioStaffWhatsappNumber",
-         t.twilio_on_call_number as "twilioOnCallNumber"`;
+         t.twilio_on_call_number as "twilioOnCallNumber",
+         t.ai_reply_mode as "aiReplyMode",
+         t.pms_provider as "pmsProvider"`;
   }
 }
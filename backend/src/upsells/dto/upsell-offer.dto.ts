@@ -0,0 +1,58 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { UPSELL_OFFER_TYPES, UpsellOfferType } from '@saas-automation/shared-types';
+
+export class UpsellOfferDto {
+  // Omit or null to offer on every listing
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  listingId?: string | null;
+
+  @IsIn(UPSELL_OFFER_TYPES)
+  type!: UpsellOfferType;
+
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string | null;
+
+  @IsInt()
+  @Min(0)
+  priceCents!: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  serviceTime?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minNoticeHours?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  requiresFreeTurnover?: boolean;
+}
@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { UpsellOffer, UpsellOrder } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { RequireTenantRole } from '../auth/tenant-roles.decorator';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { EntitlementsGuard } from '../entitlements/entitlements.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { UpsellOfferDto } from './dto/upsell-offer.dto';
+import { UpsellsService } from './upsells.service';
+
+@Controller('upsells')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard, EntitlementsGuard)
+export class UpsellsController {
+  constructor(
+    private readonly upsellsService: UpsellsService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get('offers')
+  async listOffers(@Req() req: AuthenticatedRequest): Promise<UpsellOffer[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.upsellsService.listOffers(tenant.id);
+  }
+
+  @Post('offers')
+  @RequireTenantRole('manager')
+  async createOffer(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpsellOfferDto,
+  ): Promise<UpsellOffer> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.upsellsService.createOffer(tenant.id, dto);
+  }
+
+  @Put('offers/:id')
+  @RequireTenantRole('manager')
+  async updateOffer(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: UpsellOfferDto,
+  ): Promise<UpsellOffer> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.upsellsService.updateOffer(tenant.id, id, dto);
+  }
+
+  @Delete('offers/:id')
+  @RequireTenantRole('manager')
+  async deleteOffer(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<{ deleted: boolean }> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    await this.upsellsService.deleteOffer(tenant.id, id);
+    return { deleted: true };
+  }
+
+  @Get('orders')
+  async listOrders(
+    @Req() req: AuthenticatedRequest,
+    @Query('reservationId') reservationId?: string,
+  ): Promise<UpsellOrder[]> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.upsellsService.listOrders(tenant.id, reservationId || undefined);
+  }
+
+  @Post('orders/:id/cancel')
+  async cancelOrder(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<UpsellOrder> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.upsellsService.cancelOrder(tenant.id, id);
+  }
+}
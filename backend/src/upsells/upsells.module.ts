@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+
+import { DatabaseModule } from '../database/database.module';
+import { EntitlementsModule } from '../entitlements/entitlements.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { PmsModule } from '../pms/pms.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { UpsellsController } from './upsells.controller';
+import { UpsellsService } from './upsells.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PassportModule,
+    TenantModule,
+    MessagingModule,
+    DatabaseModule,
+    EntitlementsModule,
+    PmsModule,
+  ],
+  controllers: [UpsellsController],
+  providers: [UpsellsService],
+  exports: [UpsellsService],
+})
+export class UpsellsModule {}
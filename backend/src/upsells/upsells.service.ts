@@ -0,0 +1,562 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  UPSELL_OFFER_TYPES,
+  UpsellOffer,
+  UpsellOfferType,
+  UpsellOrder,
+  UpsellOrderStatus,
+} from '@saas-automation/shared-types';
+import { differenceInHours, isValid, parseISO } from 'date-fns';
+
+import { DatabaseService } from '../database/database.service';
+import { EventsService } from '../events/events.service';
+import { TwilioClient } from '../messaging/twilio.client';
+import { PmsProviderService } from '../pms/pms-provider.service';
+import { Reservation } from '../pms/pms.types';
+import { TenantSummary } from '../tenant/tenant.service';
+import { UpsellOfferDto } from './dto/upsell-offer.dto';
+
+// An offer the guest has not answered within this window is no longer accepted by a plain "yes"
+const OPEN_OFFER_WINDOW_HOURS = 48;
+const INACTIVE_RESERVATION_STATUSES = ['cancelled', 'declined', 'expired', 'inquiry'];
+const ACCEPTANCE_PATTERN =
+  /^\s*(yes|yeah|yep|yup|sure|ok|okay|please do|sounds good|deal|book it|i'?ll take it|let'?s do it|we'?ll take it)\b/i;
+const DECLINE_PATTERN = /^\s*(no|nope|no thanks|not needed)\b/i;
+
+interface UpsellOfferRow {
+  id: string;
+  listing_id: string | null;
+  type: UpsellOfferType;
+  name: string;
+  description: string | null;
+  price_cents: number;
+  currency: string;
+  enabled: boolean;
+  service_time: string | null;
+  min_notice_hours: number;
+  requires_free_turnover: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface UpsellOrderRow {
+  id: string;
+  offer_id: string | null;
+  type: UpsellOfferType;
+  name: string;
+  reservation_id: string;
+  listing_id: string | null;
+  conversation_id: string | null;
+  price_cents: number;
+  currency: string;
+  status: UpsellOrderStatus;
+  offered_at: Date;
+  accepted_at: Date | null;
+}
+
+const OFFER_COLUMNS = `id, listing_id, type, name, description, price_cents, currency, enabled,
+  service_time, min_notice_hours, requires_free_turnover, created_at, updated_at`;
+
+const ORDER_COLUMNS = `id, offer_id, type, name, reservation_id, listing_id, conversation_id,
+  price_cents, currency, status, offered_at, accepted_at`;
+
+export const formatUpsellPrice = (offer: Pick<UpsellOffer, 'priceCents' | 'currency'>): string =>
+  new Intl.NumberFormat('en', { style: 'currency', currency: offer.currency }).format(
+    offer.priceCents / 100,
+  );
+
+@Injectable()
+export class UpsellsService {
+  private readonly logger = new Logger(UpsellsService.name);
+  private readonly defaultStaffWhatsapp?: string;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly pmsProviderService: PmsProviderService,
+    private readonly twilioClient: TwilioClient,
+    private readonly eventsService: EventsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultStaffWhatsapp = this.configService.get<string>('STAFF_WHATSAPP_NUMBER');
+  }
+
+  async listOffers(tenantId: string): Promise<UpsellOffer[]> {
+    const { rows } = await this.databaseService.runQuery<UpsellOfferRow>(
+      `select ${OFFER_COLUMNS}
+         from public.upsell_offers
+        where tenant_id = $1
+        order by type, listing_id nulls first, created_at`,
+      [tenantId],
+    );
+
+    return rows.map((row) => this.mapOffer(row));
+  }
+
+  async createOffer(tenantId: string, dto: UpsellOfferDto): Promise<UpsellOffer> {
+    const offer = this.validateOffer(dto);
+
+    const { rows } = await this.databaseService.runQuery<UpsellOfferRow>(
+      `insert into public.upsell_offers (
+         tenant_id, listing_id, type, name, description, price_cents, currency, enabled,
+         service_time, min_notice_hours, requires_free_turnover
+       )
+       values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       returning ${OFFER_COLUMNS}`,
+      [
+        tenantId,
+        offer.listingId,
+        offer.type,
+        offer.name,
+        offer.description,
+        offer.priceCents,
+        offer.currency,
+        offer.enabled,
+        offer.serviceTime,
+        offer.minNoticeHours,
+        offer.requiresFreeTurnover,
+      ],
+    );
+
+    return this.mapOffer(rows[0]);
+  }
+
+  async updateOffer(tenantId: string, offerId: string, dto: UpsellOfferDto): Promise<UpsellOffer> {
+    const offer = this.validateOffer(dto);
+
+    const { rows } = await this.databaseService.runQuery<UpsellOfferRow>(
+      `update public.upsell_offers
+          set listing_id = $3,
+              type = $4,
+              name = $5,
+              description = $6,
+              price_cents = $7,
+              currency = $8,
+              enabled = $9,
+              service_time = $10,
+              min_notice_hours = $11,
+              requires_free_turnover = $12,
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${OFFER_COLUMNS}`,
+      [
+        offerId,
+        tenantId,
+        offer.listingId,
+        offer.type,
+        offer.name,
+        offer.description,
+        offer.priceCents,
+        offer.currency,
+        offer.enabled,
+        offer.serviceTime,
+        offer.minNoticeHours,
+        offer.requiresFreeTurnover,
+      ],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Upsell offer not found');
+    }
+
+    return this.mapOffer(rows[0]);
+  }
+
+  async deleteOffer(tenantId: string, offerId: string): Promise<void> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `delete from public.upsell_offers where id = $1 and tenant_id = $2`,
+      [offerId, tenantId],
+    );
+
+    if (!rowCount) {
+      throw new NotFoundException('Upsell offer not found');
+    }
+  }
+
+  async listOrders(tenantId: string, reservationId?: string): Promise<UpsellOrder[]> {
+    const { rows } = await this.databaseService.runQuery<UpsellOrderRow>(
+      `select ${ORDER_COLUMNS}
+         from public.upsell_orders
+        where tenant_id = $1
+          and ($2::text is null or reservation_id = $2)
+        order by offered_at desc
+        limit 200`,
+      [tenantId, reservationId ?? null],
+    );
+
+    return rows.map((row) => this.mapOrder(row));
+  }
+
+  async cancelOrder(tenantId: string, orderId: string): Promise<UpsellOrder> {
+    const { rows } = await this.databaseService.runQuery<UpsellOrderRow>(
+      `update public.upsell_orders
+          set status = 'cancelled',
+              updated_at = now()
+        where id = $1
+          and tenant_id = $2
+        returning ${ORDER_COLUMNS}`,
+      [orderId, tenantId],
+    );
+
+    if (!rows[0]) {
+      throw new NotFoundException('Upsell order not found');
+    }
+
+    return this.mapOrder(rows[0]);
+  }
+
+  /**
+   * Returns the enabled offers of the given types that can be sold for this reservation right now.
+   * A listing's own offer replaces the tenant-wide offer of the same type.
+   */
+  async findEligibleOffers(
+    tenant: TenantSummary,
+    reservation: Reservation,
+    types: UpsellOfferType[],
+    now = new Date(),
+  ): Promise<UpsellOffer[]> {
+    if (types.length === 0) {
+      return [];
+    }
+
+    const { listingId } = reservation;
+    const { rows } = await this.databaseService.runQuery<UpsellOfferRow>(
+      `select ${OFFER_COLUMNS}
+         from public.upsell_offers
+        where tenant_id = $1
+          and enabled
+          and type = any($2::text[])
+          and (listing_id is null or listing_id = $3)
+        order by listing_id nulls last`,
+      [tenant.id, types, listingId ?? null],
+    );
+
+    const byType = new Map<UpsellOfferType, UpsellOffer>();
+    for (const row of rows) {
+      if (!byType.has(row.type)) {
+        byType.set(row.type, this.mapOffer(row));
+      }
+    }
+
+    const eligible: UpsellOffer[] = [];
+    for (const offer of byType.values()) {
+      if (await this.isAvailable(tenant, reservation, listingId, offer, now)) {
+        eligible.push(offer);
+      }
+    }
+
+    return eligible;
+  }
+
+  /** Records offers made in a conversation so a later "yes" from the guest can accept them. */
+  async recordOffers(
+    tenantId: string,
+    conversationId: string,
+    reservation: Reservation,
+    offers: UpsellOffer[],
+  ): Promise<void> {
+    if (!reservation.id || offers.length === 0) {
+      return;
+    }
+
+    for (const offer of offers) {
+      await this.databaseService.runQuery(
+        `insert into public.upsell_orders (
+           tenant_id, offer_id, type, name, reservation_id, listing_id, conversation_id,
+           price_cents, currency
+         )
+         select $1, $2, $3, $4, $5, $6, $7, $8, $9
+          where not exists (
+            select 1
+              from public.upsell_orders
+             where tenant_id = $1
+               and offer_id = $2
+               and reservation_id = $5
+               and status in ('offered', 'accepted')
+          )`,
+        [
+          tenantId,
+          offer.id,
+          offer.type,
+          offer.name,
+          reservation.id,
+          reservation.listingId,
+          conversationId,
+          offer.priceCents,
+          offer.currency,
+        ],
+      );
+    }
+  }
+
+  /**
+   * Accepts or declines the conversation's open offers when the guest answers one. Returns the
+   * accepted orders; an empty list means the message was not an acceptance. With `deferAcceptance`
+   * the orders the guest accepted are returned still offered, for `acceptOrders` to book once staff
+   * approve the confirmation.
+   */
+  async handleGuestReply(
+    tenant: TenantSummary,
+    conversationId: string,
+    guestName: string | undefined,
+    message: string,
+    options: { deferAcceptance?: boolean } = {},
+  ): Promise<UpsellOrder[]> {
+    const accepting = ACCEPTANCE_PATTERN.test(message);
+    const declining = !accepting && DECLINE_PATTERN.test(message);
+    if (!accepting && !declining) {
+      return [];
+    }
+
+    const { rows } = await this.databaseService.runQuery<UpsellOrderRow>(
+      `select ${ORDER_COLUMNS}
+         from public.upsell_orders
+        where tenant_id = $1
+          and conversation_id = $2
+          and status = 'offered'
+          and offered_at > now() - make_interval(hours => $3)
+        order by offered_at desc`,
+      [tenant.id, conversationId, OPEN_OFFER_WINDOW_HOURS],
+    );
+
+    // With several open offers only the ones the guest names are answered, unless they say "both"
+    const lower = message.toLowerCase();
+    const open = rows.map((row) => this.mapOrder(row));
+    const answered =
+      open.length <= 1 || /\b(both|all)\b/.test(lower)
+        ? open
+        : open.filter(
+            (order) =>
+              lower.includes(order.name.toLowerCase()) ||
+              lower.includes(order.type.replace(/_/g, ' ')),
+          );
+
+    if (answered.length === 0) {
+      return [];
+    }
+
+    if (accepting && options.deferAcceptance) {
+      return answered;
+    }
+
+    const answeredIds = answered.map((order) => order.id);
+    if (!accepting) {
+      await this.answerOrders(tenant.id, answeredIds, 'declined');
+      return [];
+    }
+
+    return this.acceptOrders(tenant, answeredIds, guestName);
+  }
+
+  /**
+   * Books offers the guest accepted. Orders that are no longer offered are skipped, so a second
+   * approval of the same acceptance does not notify staff again.
+   */
+  async acceptOrders(
+    tenant: TenantSummary,
+    orderIds: string[],
+    guestName: string | undefined,
+  ): Promise<UpsellOrder[]> {
+    if (orderIds.length === 0) {
+      return [];
+    }
+
+    const accepted = await this.answerOrders(tenant.id, orderIds, 'accepted');
+    for (const order of accepted) {
+      await this.notifyStaff(tenant, order, guestName);
+      this.eventsService.publish(tenant.id, 'upsell.accepted', {
+        orderId: order.id,
+        reservationId: order.reservationId,
+        conversationId: order.conversationId,
+        type: order.type,
+        name: order.name,
+      });
+    }
+
+    return accepted;
+  }
+
+  private async answerOrders(
+    tenantId: string,
+    orderIds: string[],
+    status: 'accepted' | 'declined',
+  ): Promise<UpsellOrder[]> {
+    const { rows } = await this.databaseService.runQuery<UpsellOrderRow>(
+      `update public.upsell_orders
+          set status = $3,
+              accepted_at = case when $3 = 'accepted' then now() else null end,
+              updated_at = now()
+        where tenant_id = $1
+          and id = any($2::uuid[])
+          and status = 'offered'
+        returning ${ORDER_COLUMNS}`,
+      [tenantId, orderIds, status],
+    );
+
+    return rows.map((row) => this.mapOrder(row));
+  }
+
+  private async isAvailable(
+    tenant: TenantSummary,
+    reservation: Reservation,
+    listingId: string | null,
+    offer: UpsellOffer,
+    now: Date,
+  ): Promise<boolean> {
+    const { arrivalDate, departureDate } = reservation;
+    const referenceDate = offer.type === 'late_checkout' ? departureDate : arrivalDate;
+    const reference = referenceDate ? parseISO(referenceDate) : null;
+
+    if (!referenceDate || !reference || !isValid(reference)) {
+      return false;
+    }
+
+    if (offer.type === 'late_checkout' || offer.type === 'early_check_in') {
+      if (differenceInHours(reference, now) < offer.minNoticeHours) {
+        return false;
+      }
+    } else if (departureDate && parseISO(departureDate) < now) {
+      return false;
+    }
+
+    const turnoverSensitive = offer.type === 'early_check_in' || offer.type === 'late_checkout';
+    if (!turnoverSensitive || !offer.requiresFreeTurnover) {
+      return true;
+    }
+
+    if (!listingId) {
+      return false;
+    }
+
+    // Early check-in needs nobody leaving on arrival day; late checkout nobody arriving on departure
+    try {
+      const sameDay = await this.pmsProviderService
+        .forTenant(tenant)
+        .listReservations(
+          tenant,
+          offer.type === 'early_check_in'
+            ? { listingId, departureFrom: referenceDate, departureTo: referenceDate }
+            : { listingId, arrivalFrom: referenceDate, arrivalTo: referenceDate },
+        );
+
+      return !sameDay.some(
+        (candidate) =>
+          candidate.id !== reservation.id &&
+          !INACTIVE_RESERVATION_STATUSES.includes(candidate.status ?? ''),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not check same-day turnover for listing ${listingId}; not offering ${offer.type}: ${
+          (error as Error).message
+        }`,
+      );
+      return false;
+    }
+  }
+
+  private async notifyStaff(
+    tenant: TenantSummary,
+    order: UpsellOrder,
+    guestName: string | undefined,
+  ): Promise<void> {
+    const staffNumber = tenant.twilioStaffWhatsappNumber || this.defaultStaffWhatsapp;
+    if (!staffNumber) {
+      this.logger.warn('No staff WhatsApp number configured; cannot send upsell notification.');
+      return;
+    }
+
+    const body = `Upsell accepted for tenant ${tenant.name}.
+${order.name}: ${formatUpsellPrice(order)}
+Guest: ${guestName ?? 'Unknown'}
+Reservation: ${order.reservationId}`;
+
+    try {
+      await this.twilioClient.sendWhatsAppMessage(tenant, staffNumber, body);
+    } catch (error) {
+      this.logger.error('Failed to send upsell notification', error as Error);
+    }
+  }
+
+  private validateOffer(dto: UpsellOfferDto) {
+    if (!dto || typeof dto !== 'object') {
+      throw new BadRequestException('Upsell offer payload is required');
+    }
+
+    if (!UPSELL_OFFER_TYPES.includes(dto.type)) {
+      throw new BadRequestException(`type must be one of: ${UPSELL_OFFER_TYPES.join(', ')}`);
+    }
+
+    const name = typeof dto.name === 'string' ? dto.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+
+    if (!Number.isInteger(dto.priceCents) || dto.priceCents < 0) {
+      throw new BadRequestException('priceCents must be a non-negative integer');
+    }
+
+    const currency = (dto.currency ?? 'EUR').trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new BadRequestException('currency must be a three-letter ISO code');
+    }
+
+    const serviceTime = dto.serviceTime?.trim() || null;
+    if (serviceTime && !/^([01]\d|2[0-3]):[0-5]\d$/.test(serviceTime)) {
+      throw new BadRequestException('serviceTime must use HH:MM');
+    }
+
+    const minNoticeHours = dto.minNoticeHours ?? 0;
+    if (!Number.isInteger(minNoticeHours) || minNoticeHours < 0) {
+      throw new BadRequestException('minNoticeHours must be a non-negative integer');
+    }
+
+    return {
+      listingId: dto.listingId?.trim() || null,
+      type: dto.type,
+      name,
+      description: dto.description?.trim() || null,
+      priceCents: dto.priceCents,
+      currency,
+      enabled: dto.enabled ?? true,
+      serviceTime,
+      minNoticeHours,
+      requiresFreeTurnover: dto.requiresFreeTurnover ?? true,
+    };
+  }
+
+  private mapOffer(row: UpsellOfferRow): UpsellOffer {
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      type: row.type,
+      name: row.name,
+      description: row.description,
+      priceCents: row.price_cents,
+      currency: row.currency,
+      enabled: row.enabled,
+      serviceTime: row.service_time,
+      minNoticeHours: row.min_notice_hours,
+      requiresFreeTurnover: row.requires_free_turnover,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private mapOrder(row: UpsellOrderRow): UpsellOrder {
+    return {
+      id: row.id,
+      offerId: row.offer_id,
+      type: row.type,
+      name: row.name,
+      reservationId: row.reservation_id,
+      listingId: row.listing_id,
+      conversationId: row.conversation_id,
+      priceCents: row.price_cents,
+      currency: row.currency,
+      status: row.status,
+      offeredAt: new Date(row.offered_at).toISOString(),
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at).toISOString() : null,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { UsageMetric } from '@saas-automation/shared-types';
+
+export interface PlanOverage {
+  unitPriceCents: number;
+  // Stripe billing meter the overage units are reported to
+  meterEventName: string;
+}
+
+export interface PlanEntitlements {
+  aiAutoReply: boolean;
+  // Without it guests are only messaged through Hostaway
+  whatsappDelivery: boolean;
+  // Documents staff add to the knowledge base; synced conversation history is not counted
+  maxKnowledgeBaseDocuments: number | null;
+  // Members plus outstanding invitations
+  maxTeamSeats: number | null;
+}
+
+export interface PlanDefinition {
+  key: string;
+  name: string;
+  // Config key holding the Stripe price id of the base subscription
+  priceIdConfigKey: string;
+  // Monthly allowance per metric; metrics without a limit are unlimited
+  limits: Partial<Record<UsageMetric, number>>;
+  // Metrics that may exceed their limit and are billed per unit above it
+  overage: Partial<Record<UsageMetric, PlanOverage>>;
+  // Listing allowance is the `active_listings` limit; null entitlement caps are unlimited
+  entitlements: PlanEntitlements;
+}
+
+const OVERAGE: Partial<Record<UsageMetric, PlanOverage>> = {
+  whatsapp_messages: { unitPriceCents: 5, meterEventName: 'whatsapp_messages_overage' },
+  ai_generations: { unitPriceCents: 2, meterEventName: 'ai_generations_overage' },
+};
+
+export const PLANS: PlanDefinition[] = [
+  {
+    key: 'starter',
+    name: 'Starter',
+    priceIdConfigKey: 'STRIPE_PRICE_ID_STARTER',
+    limits: {
+      active_listings: 5,
+      ai_generations: 1000,
+      ai_tokens: 2_000_000,
+      embeddings: 2000,
+    },
+    overage: OVERAGE,
+    entitlements: {
+      aiAutoReply: false,
+      whatsappDelivery: false,
+      maxKnowledgeBaseDocuments: 20,
+      maxTeamSeats: 2,
+    },
+  },
+  {
+    key: 'growth',
+    name: 'Growth',
+    priceIdConfigKey: 'STRIPE_PRICE_ID_GROWTH',
+    limits: {
+      active_listings: 25,
+      whatsapp_messages: 2500,
+      ai_generations: 5000,
+      ai_tokens: 10_000_000,
+      embeddings: 10000,
+    },
+    overage: OVERAGE,
+    entitlements: {
+      aiAutoReply: true,
+      whatsappDelivery: true,
+      maxKnowledgeBaseDocuments: 200,
+      maxTeamSeats: 10,
+    },
+  },
+  {
+    key: 'scale',
+    name: 'Scale',
+    priceIdConfigKey: 'STRIPE_PRICE_ID_SCALE',
+    limits: {
+      active_listings: 100,
+      whatsapp_messages: 10000,
+      ai_generations: 25000,
+      ai_tokens: 50_000_000,
+      embeddings: 50000,
+    },
+    overage: OVERAGE,
+    entitlements: {
+      aiAutoReply: true,
+      whatsappDelivery: true,
+      maxKnowledgeBaseDocuments: null,
+      maxTeamSeats: null,
+    },
+  },
+];
+
+export const DEFAULT_PLAN = PLANS[0];
+
+/**
+ * Tenants subscribed before plans existed: no stored price, or the single price they were sold
+ * (`STRIPE_PRICE_ID`). They keep what they had then, everything unmetered, until they pick a plan.
+ */
+export const LEGACY_PLAN: PlanDefinition = {
+  key: 'legacy',
+  name: 'Legacy',
+  priceIdConfigKey: 'STRIPE_PRICE_ID',
+  limits: {},
+  overage: {},
+  entitlements: {
+    aiAutoReply: true,
+    whatsappDelivery: true,
+    maxKnowledgeBaseDocuments: null,
+    maxTeamSeats: null,
+  },
+};
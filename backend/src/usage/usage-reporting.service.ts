@@ -0,0 +1,78 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import Stripe from 'stripe';
+
+import { UsageService } from './usage.service';
+
+/**
+ * Hourly job that snapshots active listings and reports overage above each tenant's plan limits
+ * to Stripe billing meters. Without STRIPE_SECRET_KEY only the snapshot runs.
+ */
+@Injectable()
+export class UsageReportingService {
+  private readonly logger = new Logger(UsageReportingService.name);
+  private readonly stripe: Stripe | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly usageService: UsageService,
+  ) {
+    const stripeSecretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
+    this.stripe = stripeSecretKey
+      ? new Stripe(stripeSecretKey, { apiVersion: '2024-06-20' as Stripe.LatestApiVersion })
+      : null;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async reportUsage(): Promise<void> {
+    try {
+      await this.usageService.snapshotActiveListings();
+    } catch (error) {
+      this.logger.error('Failed to snapshot active listings', error as Error);
+    }
+
+    if (!this.stripe) {
+      return;
+    }
+
+    const pending = await this.usageService.listUnreportedOverage();
+    for (const entry of pending) {
+      // Claim the units first so a concurrent run cannot report them as well
+      const claimed = await this.usageService.markOverageReported(
+        entry,
+        entry.reportedOverage,
+        entry.overage,
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        await this.stripe.billing.meterEvents.create({
+          event_name: entry.meterEventName,
+          payload: {
+            stripe_customer_id: entry.stripeCustomerId,
+            value: String(entry.overage - entry.reportedOverage),
+          },
+          // Stripe drops a repeated identifier, which covers retries after a lost response
+          identifier: `${entry.tenantId}:${entry.periodStart}:${entry.metric}:${entry.overage}`,
+          timestamp: this.eventTimestamp(entry.periodStart),
+        });
+      } catch (error) {
+        await this.usageService.markOverageReported(entry, entry.overage, entry.reportedOverage);
+        this.logger.error(
+          `Failed to report ${entry.metric} overage for tenant ${entry.tenantId}`,
+          error as Error,
+        );
+      }
+    }
+  }
+
+  // Overage of a month that has ended is dated to its last second, so it bills with that month
+  private eventTimestamp(periodStart: string): number {
+    const start = new Date(`${periodStart}T00:00:00.000Z`);
+    const end = Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1) - 1000;
+    return Math.floor(Math.min(Date.now(), end) / 1000);
+  }
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { TenantUsage } from '@saas-automation/shared-types';
+
+import { AuthenticatedRequest } from '../auth/authenticated-request.interface';
+import { TenantRolesGuard } from '../auth/tenant-roles.guard';
+import { TenantService } from '../tenant/tenant.service';
+import { UsageService } from './usage.service';
+
+@Controller('usage')
+@UseGuards(AuthGuard('supabase'), TenantRolesGuard)
+export class UsageController {
+  constructor(
+    private readonly usageService: UsageService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  @Get()
+  async getUsage(
+    @Req() req: AuthenticatedRequest,
+    @Query('period') period?: string,
+  ): Promise<TenantUsage> {
+    const tenant = await this.tenantService.getTenantForUser(req.user.userId);
+    return this.usageService.getUsage(tenant.id, period || undefined);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PassportModule } from '@nestjs/passport';
+import { ScheduleModule } from '@nestjs/schedule';
+
+import { DatabaseModule } from '../database/database.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { UsageReportingService } from './usage-reporting.service';
+import { UsageController } from './usage.controller';
+import { UsageService } from './usage.service';
+
+@Module({
+  imports: [ConfigModule, PassportModule, ScheduleModule, DatabaseModule, TenantModule],
+  controllers: [UsageController],
+  providers: [UsageService, UsageReportingService],
+  exports: [UsageService],
+})
+export class UsageModule {}
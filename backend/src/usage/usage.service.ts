@@ -0,0 +1,257 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TenantUsage,
+  USAGE_METRICS,
+  UsageMetric,
+  UsageMetricSummary,
+} from '@saas-automation/shared-types';
+
+import { DatabaseService } from '../database/database.service';
+import { LlmUsage } from '../llm/llm.types';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { DEFAULT_PLAN, LEGACY_PLAN, PlanDefinition, PLANS } from './plans';
+
+export interface UnreportedOverage {
+  tenantId: string;
+  stripeCustomerId: string;
+  periodStart: string;
+  metric: UsageMetric;
+  overage: number;
+  reportedOverage: number;
+  meterEventName: string;
+}
+
+interface UsageCounterRow {
+  metric: UsageMetric;
+  quantity: string;
+}
+
+// Bookings that overlap the period make their listing active for that month
+const ACTIVE_LISTINGS_SQL = `select b.tenant_id, count(distinct b.property_id) as active
+   from public.bookings b
+  where b.status not in ('cancelled', 'canceled')
+    and b.check_in_at < $2
+    and b.check_out_at >= $1`;
+
+/**
+ * Monthly (UTC calendar month) usage counters per tenant, and the plan limits they are measured
+ * against. Recording never throws: metering must not break guest messaging.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly tenantService: TenantService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async record(tenantId: string, metric: UsageMetric, quantity = 1): Promise<void> {
+    if (quantity <= 0) {
+      return;
+    }
+
+    try {
+      await this.databaseService.runQuery(
+        `insert into public.usage_counters (tenant_id, period_start, metric, quantity)
+         values ($1, date_trunc('month', now() at time zone 'utc')::date, $2, $3)
+         on conflict (tenant_id, period_start, metric) do update
+           set quantity = public.usage_counters.quantity + excluded.quantity,
+               updated_at = now()`,
+        [tenantId, metric, quantity],
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record ${metric} usage for tenant ${tenantId}`, error as Error);
+    }
+  }
+
+  /** Counts one generation per model completion and adds up their tokens. */
+  async recordAiUsage(tenantId: string, usages: Array<LlmUsage | undefined>): Promise<void> {
+    const completions = usages.filter((usage): usage is LlmUsage => Boolean(usage));
+    if (completions.length === 0) {
+      return;
+    }
+
+    const tokens = completions.reduce(
+      (sum, usage) => sum + usage.promptTokens + usage.completionTokens,
+      0,
+    );
+    await this.record(tenantId, 'ai_generations', completions.length);
+    await this.record(tenantId, 'ai_tokens', tokens);
+  }
+
+  resolvePlan(tenant: Pick<TenantSummary, 'stripePriceId'>): PlanDefinition {
+    if (
+      !tenant.stripePriceId ||
+      this.configService.get<string>(LEGACY_PLAN.priceIdConfigKey) === tenant.stripePriceId
+    ) {
+      return LEGACY_PLAN;
+    }
+
+    return (
+      PLANS.find(
+        (plan) => this.configService.get<string>(plan.priceIdConfigKey) === tenant.stripePriceId,
+      ) ?? DEFAULT_PLAN
+    );
+  }
+
+  /** `period` is a UTC month as YYYY-MM; defaults to the current month. */
+  async getUsage(tenantId: string, period?: string): Promise<TenantUsage> {
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    const plan = this.resolvePlan(tenant);
+    const { start, end } = this.resolvePeriod(period);
+
+    const { rows } = await this.databaseService.runQuery<UsageCounterRow>(
+      `select metric, quantity
+         from public.usage_counters
+        where tenant_id = $1
+          and period_start = $2::date`,
+      [tenantId, start.toISOString().slice(0, 10)],
+    );
+    const quantities = new Map<UsageMetric, number>(
+      rows.map((row) => [row.metric, parseInt(row.quantity, 10)]),
+    );
+
+    // The stored peak can lag the hourly snapshot, so the live count is used when higher
+    const { rows: listingRows } = await this.databaseService.runQuery<{ active: string }>(
+      `${ACTIVE_LISTINGS_SQL} and b.tenant_id = $3 group by b.tenant_id`,
+      [start.toISOString(), end.toISOString(), tenantId],
+    );
+    const activeListings = parseInt(listingRows[0]?.active ?? '0', 10);
+    quantities.set(
+      'active_listings',
+      Math.max(quantities.get('active_listings') ?? 0, activeListings),
+    );
+
+    const metrics: UsageMetricSummary[] = USAGE_METRICS.map((metric) => {
+      const quantity = quantities.get(metric) ?? 0;
+      const limit = plan.limits[metric] ?? null;
+      const overage = plan.overage[metric];
+      return {
+        metric,
+        quantity,
+        limit,
+        overage: overage && limit !== null ? Math.max(0, quantity - limit) : 0,
+        overageUnitPriceCents: overage?.unitPriceCents ?? null,
+      };
+    });
+
+    return {
+      plan: { key: plan.key, name: plan.name },
+      subscriptionStatus: tenant.subscriptionStatus,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      metrics,
+    };
+  }
+
+  /** Stores this month's active listing count for every tenant, keeping the monthly peak. */
+  async snapshotActiveListings(): Promise<void> {
+    const { start, end } = this.resolvePeriod();
+    await this.databaseService.runQuery(
+      `insert into public.usage_counters (tenant_id, period_start, metric, quantity)
+       select active.tenant_id, $3::date, 'active_listings', active.active
+         from (${ACTIVE_LISTINGS_SQL} group by b.tenant_id) active
+       on conflict (tenant_id, period_start, metric) do update
+         set quantity = greatest(public.usage_counters.quantity, excluded.quantity),
+             updated_at = now()`,
+      [start.toISOString(), end.toISOString(), start.toISOString().slice(0, 10)],
+    );
+  }
+
+  /**
+   * Overage not sent to Stripe yet, for tenants with a customer. Last month stays in scope so usage
+   * recorded after the final run before the rollover is still reported.
+   */
+  async listUnreportedOverage(): Promise<UnreportedOverage[]> {
+    const { start } = this.resolvePeriod();
+    const previousStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - 1, 1));
+    const { rows } = await this.databaseService.runQuery<{
+      tenant_id: string;
+      stripe_customer_id: string;
+      stripe_price_id: string | null;
+      period_start: string;
+      metric: UsageMetric;
+      quantity: string;
+      reported_overage: string;
+    }>(
+      `select u.tenant_id, t.stripe_customer_id, t.stripe_price_id,
+              to_char(u.period_start, 'YYYY-MM-DD') as period_start, u.metric, u.quantity,
+              u.reported_overage
+         from public.usage_counters u
+         join public.tenants t on t.id = u.tenant_id
+        where u.period_start >= $1::date
+          and t.stripe_customer_id is not null
+        order by u.period_start`,
+      [previousStart.toISOString().slice(0, 10)],
+    );
+
+    const pending: UnreportedOverage[] = [];
+    for (const row of rows) {
+      const plan = this.resolvePlan({ stripePriceId: row.stripe_price_id });
+      const overage = plan.overage[row.metric];
+      const limit = plan.limits[row.metric];
+      if (!overage || limit === undefined) {
+        continue;
+      }
+
+      const total = Math.max(0, parseInt(row.quantity, 10) - limit);
+      const reported = parseInt(row.reported_overage, 10);
+      if (total > reported) {
+        pending.push({
+          tenantId: row.tenant_id,
+          stripeCustomerId: row.stripe_customer_id,
+          periodStart: row.period_start,
+          metric: row.metric,
+          overage: total,
+          reportedOverage: reported,
+          meterEventName: overage.meterEventName,
+        });
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Moves `reported_overage` from `from` to `to`. Returns false when another worker changed it
+   * first, so each overage unit is reported once.
+   */
+  async markOverageReported(entry: UnreportedOverage, from: number, to: number): Promise<boolean> {
+    const { rowCount } = await this.databaseService.runQuery(
+      `update public.usage_counters
+          set reported_overage = $5, updated_at = now()
+        where tenant_id = $1
+          and period_start = $2::date
+          and metric = $3
+          and reported_overage = $4`,
+      [entry.tenantId, entry.periodStart, entry.metric, from, to],
+    );
+    return Boolean(rowCount);
+  }
+
+  private resolvePeriod(period?: string): { start: Date; end: Date } {
+    let year: number;
+    let month: number;
+
+    if (period) {
+      const match = /^(\d{4})-(\d{2})$/.exec(period);
+      if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        throw new BadRequestException('period must be a month formatted as YYYY-MM');
+      }
+      year = Number(match[1]);
+      month = Number(match[2]) - 1;
+    } else {
+      const now = new Date();
+      year = now.getUTCFullYear();
+      month = now.getUTCMonth();
+    }
+
+    return {
+      start: new Date(Date.UTC(year, month, 1)),
+      end: new Date(Date.UTC(year, month + 1, 1)),
+    };
+  }
+}
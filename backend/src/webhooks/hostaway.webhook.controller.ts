@@ -1,10 +1,23 @@
-import { BadRequestException, Body, Controller, HttpCode, Logger, Post } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  Logger,
+  Post,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
 
 import { LoggingService } from '../logging/logging.service';
+import { PmsProviderService } from '../pms/pms-provider.service';
 import { ConversationsService } from '../conversations/conversations.service';
 import { SchedulingService } from '../scheduling/scheduling.service';
-import { TenantService } from '../tenant/tenant.service';
-import { HostawayClient } from '../integrations/hostaway.client';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { CryptoService } from '../security/crypto.service';
+import { WebhookAuditService } from './webhook-audit.service';
 
 @Controller('webhooks')
 export class HostawayWebhookController {
@@ -15,22 +28,18 @@ export class HostawayWebhookController {
     private readonly tenantService: TenantService,
     private readonly loggingService: LoggingService,
     private readonly conversationsService: ConversationsService,
-    private readonly hostawayClient: HostawayClient,
+    private readonly pmsProviderService: PmsProviderService,
+    private readonly cryptoService: CryptoService,
+    private readonly webhookAuditService: WebhookAuditService,
   ) {}
 
   @Post('hostaway')
   @HttpCode(200)
-  async handleHostawayWebhook(@Body() payload: Record<string, unknown>) {
-    const event = this.readString(payload, 'event') || 'unknown';
-    const clientIdentifier =
-      this.readString(
-        payload,
-        'accountId',
-        'account_id',
-        'clientId',
-        'client_id',
-        'hostawayAccountId',
-      ) || this.readString(payload, 'data.accountId', 'data.account_id');
+  async handleHostawayWebhook(@Req() req: Request, @Body() payload: Record<string, unknown>) {
+    const hostaway = this.pmsProviderService.get('hostaway');
+    const parsed = hostaway.parseWebhook(payload);
+    const event = parsed.event;
+    const clientIdentifier = parsed.accountId;
 
     // Log webhook payload to file
     this.loggingService.logWebhook(payload, event, clientIdentifier);
@@ -57,34 +66,48 @@ export class HostawayWebhookController {
         event,
         clientIdentifier,
       );
+      await this.webhookAuditService.recordRejection('hostaway', 'unknown_account', {
+        event,
+        request: req,
+        payload,
+      });
       throw new BadRequestException('Unknown Hostaway client identifier');
     }
 
+    const credentialError = this.verifyBasicAuth(tenant, req.headers.authorization);
+    if (credentialError) {
+      this.logger.warn(
+        `Rejected Hostaway webhook for tenant ${tenant.id}: ${credentialError} (event ${event})`,
+      );
+      this.loggingService.logWebhookError(new Error(credentialError), payload, event, tenant.id);
+      await this.webhookAuditService.recordRejection('hostaway', credentialError, {
+        tenantId: tenant.id,
+        event,
+        request: req,
+        payload,
+      });
+      throw new UnauthorizedException('Invalid webhook credentials');
+    }
+
     this.loggingService.logWebhook(payload, event, tenant.id);
 
     // Handle incoming conversation messages immediately for logging, then queue for AI processing
-    if (
-      event === 'message.received' ||
-      this.readString(payload, 'object') === 'conversationMessage'
-    ) {
+    if (parsed.message) {
       const data = (this.resolvePath(payload, 'data') as Record<string, unknown>) || {};
-      const reservationId = this.readString(data, 'reservationId', 'reservation_id');
-      const conversationId = this.readString(data, 'conversationId', 'conversation_id');
-      const body = this.readString(data, 'body') ?? '';
+      const { reservationId, conversationId } = parsed;
+      const body = parsed.message.body;
 
       if (reservationId) {
         try {
           const conversation = await this.conversationsService.upsertByReservationExternalId(
             tenant.id,
             String(reservationId),
-            { hostawayConversationId: conversationId ?? null },
+            { hostawayConversationId: conversationId },
           );
 
           // Extract message ID and create hash for idempotency
-          const messageId = this.readString(data, 'id', 'messageId', 'message_id');
-          const timestamp =
-            this.readString(data, 'createdAt', 'created_at', 'timestamp') ||
-            new Date().toISOString();
+          const messageId = parsed.message.id ?? undefined;
+          const timestamp = parsed.message.sentAt || new Date().toISOString();
           const messageHash = messageId
             ? undefined
             : `${body.substring(0, 100)}_${timestamp}`.substring(0, 100);
@@ -93,7 +116,7 @@ export class HostawayWebhookController {
             source: 'hostaway.webhook',
             event,
             reservationId,
-            hostawayConversationId: conversationId ?? null,
+            hostawayConversationId: conversationId,
             hostawayMessageId: messageId,
             messageId: messageId, // Also store in messageId for compatibility
             messageHash,
@@ -106,10 +129,7 @@ export class HostawayWebhookController {
               this.logger.log(
                 `Booking not found for reservation ${reservationId}, attempting to sync from Hostaway for tenant ${tenant.id}`,
               );
-              const reservation = await this.hostawayClient.getReservation(
-                tenant,
-                String(reservationId),
-              );
+              const reservation = await hostaway.getReservation(tenant, String(reservationId));
               await this.schedulingService.scheduleProactiveMessagesFromReservation(
                 tenant,
                 reservation,
@@ -122,14 +142,14 @@ export class HostawayWebhookController {
               const conversation = await this.conversationsService.upsertByReservationExternalId(
                 tenant.id,
                 String(reservationId),
-                { hostawayConversationId: conversationId ?? null },
+                { hostawayConversationId: conversationId },
               );
 
               await this.conversationsService.logGuestMessage(conversation, body, {
                 source: 'hostaway.webhook',
                 event,
                 reservationId,
-                hostawayConversationId: conversationId ?? null,
+                hostawayConversationId: conversationId,
               });
 
               this.logger.log(
@@ -167,18 +187,40 @@ export class HostawayWebhookController {
     return { received: true };
   }
 
-  private readString(source: Record<string, unknown>, ...paths: string[]): string | undefined {
-    for (const path of paths) {
-      const value = this.resolvePath(source, path);
-      if (typeof value === 'string' && value.trim().length > 0) {
-        return value;
-      }
-      if (typeof value === 'number') {
-        return String(value);
-      }
+  /**
+   * Checks the basic-auth header Hostaway sends with each delivery against the credentials that
+   * were registered for the tenant. Returns the rejection reason, or null when valid.
+   */
+  private verifyBasicAuth(tenant: TenantSummary, header: string | undefined): string | null {
+    if (!tenant.hostawayWebhookLogin || !tenant.encryptedHostawayWebhookPassword) {
+      return 'credentials_not_configured';
+    }
+
+    if (!header || !header.toLowerCase().startsWith('basic ')) {
+      return 'missing_credentials';
+    }
+
+    const decoded = Buffer.from(header.slice(6).trim(), 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+    if (separator < 0) {
+      return 'malformed_credentials';
     }
 
-    return undefined;
+    const login = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+    const expectedPassword = this.cryptoService.decrypt(tenant.encryptedHostawayWebhookPassword);
+
+    const loginMatches = this.safeEqual(login, tenant.hostawayWebhookLogin);
+    const passwordMatches = this.safeEqual(password, expectedPassword);
+
+    return loginMatches && passwordMatches ? null : 'invalid_credentials';
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    // Hash first so timingSafeEqual always compares equal-length buffers
+    const left = createHash('sha256').update(a).digest();
+    const right = createHash('sha256').update(b).digest();
+    return timingSafeEqual(left, right);
   }
 
   private resolvePath(source: Record<string, unknown>, path: string): unknown {
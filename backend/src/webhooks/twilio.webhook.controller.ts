@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Header,
+  HttpCode,
+  Logger,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import { EscalationsService, isAcknowledgement } from '../escalations/escalations.service';
+import { LoggingService } from '../logging/logging.service';
+import { TwilioClient } from '../messaging/twilio.client';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { TenantService, TenantSummary } from '../tenant/tenant.service';
+import { WebhookAuditService } from './webhook-audit.service';
+
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+const ACKNOWLEDGED_MESSAGE_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Escalation acknowledged. No further alerts will be sent.</Message></Response>';
+const ACKNOWLEDGED_CALL_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Thank you. The escalation is acknowledged.</Say></Response>';
+const NOT_ACKNOWLEDGED_CALL_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response><Say>The escalation was not acknowledged. Goodbye.</Say></Response>';
+
+@Controller('webhooks')
+export class TwilioWebhookController {
+  private readonly logger = new Logger(TwilioWebhookController.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulingService: SchedulingService,
+    private readonly tenantService: TenantService,
+    private readonly loggingService: LoggingService,
+    private readonly twilioClient: TwilioClient,
+    private readonly webhookAuditService: WebhookAuditService,
+    private readonly escalationsService: EscalationsService,
+  ) {}
+
+  @Post('twilio')
+  @HttpCode(200)
+  @Header('Content-Type', 'text/xml')
+  async handleTwilioWebhook(@Req() req: Request, @Body() payload: Record<string, string>) {
+    const event = 'twilio.message.received';
+    const to = payload?.To ?? '';
+    const from = payload?.From ?? '';
+
+    this.loggingService.logWebhook(payload, event);
+
+    if (!to || !from) {
+      this.loggingService.logWebhookError(
+        new Error('Twilio webhook is missing To/From'),
+        payload,
+        event,
+      );
+      throw new BadRequestException('Twilio webhook is missing To/From');
+    }
+
+    const tenant = await this.tenantService.findTenantByTwilioNumber(
+      to,
+      payload.MessagingServiceSid,
+    );
+    if (!tenant) {
+      this.loggingService.logWebhookError(new Error(`Unknown Twilio number ${to}`), payload, event);
+      throw new BadRequestException('Unknown Twilio number');
+    }
+
+    await this.verifySignature(req, tenant, payload, event, this.resolveWebhookUrl(req));
+
+    this.loggingService.logWebhook(payload, event, tenant.id);
+
+    // Staff replying "ACK" to an escalation alert stops the chain instead of reaching the AI
+    const channel = from.toLowerCase().startsWith('whatsapp:') ? 'whatsapp' : 'sms';
+    if (isAcknowledgement(payload.Body ?? '')) {
+      const escalation = await this.escalationsService.acknowledgeByContact(
+        tenant.id,
+        from,
+        channel,
+      );
+      if (escalation) {
+        return ACKNOWLEDGED_MESSAGE_TWIML;
+      }
+    }
+
+    await this.schedulingService.handleTwilioInboundMessage(tenant, {
+      from,
+      body: payload.Body ?? '',
+      channel,
+      messageSid: payload.MessageSid || payload.SmsSid,
+      profileName: payload.ProfileName,
+      rawPayload: payload,
+    });
+
+    return EMPTY_TWIML;
+  }
+
+  /**
+   * Receives the key pressed on an escalation call. Pressing 1 acknowledges the escalation.
+   */
+  @Post('twilio/escalations/:id/ack')
+  @HttpCode(200)
+  @Header('Content-Type', 'text/xml')
+  async handleEscalationCallback(
+    @Req() req: Request,
+    @Param('id') escalationId: string,
+    @Body() payload: Record<string, string>,
+  ) {
+    const event = 'twilio.escalation.ack';
+    this.loggingService.logWebhook(payload, event);
+
+    const tenantId = await this.escalationsService.findTenantId(escalationId);
+    if (!tenantId) {
+      throw new BadRequestException('Unknown escalation');
+    }
+
+    const tenant = await this.tenantService.getTenantById(tenantId);
+    await this.verifySignature(
+      req,
+      tenant,
+      payload,
+      event,
+      this.escalationsService.buildAcknowledgeUrl(escalationId) ?? this.resolveWebhookUrl(req),
+    );
+
+    if (payload?.Digits !== '1') {
+      return NOT_ACKNOWLEDGED_CALL_TWIML;
+    }
+
+    // On an outbound call "To" is the staff member who answered
+    await this.escalationsService.acknowledge(
+      tenant.id,
+      escalationId,
+      payload.To || payload.Called || 'voice call',
+      'voice',
+    );
+    return ACKNOWLEDGED_CALL_TWIML;
+  }
+
+  private async verifySignature(
+    req: Request,
+    tenant: TenantSummary,
+    payload: Record<string, string>,
+    event: string,
+    url: string,
+  ): Promise<void> {
+    const signature = req.headers['x-twilio-signature'];
+    if (
+      typeof signature === 'string' &&
+      this.twilioClient.validateWebhookSignature(tenant, signature, url, payload)
+    ) {
+      return;
+    }
+
+    this.logger.warn(`Rejected Twilio webhook with invalid signature for tenant ${tenant.id}`);
+    this.loggingService.logWebhookError(
+      new Error('Invalid Twilio signature'),
+      payload,
+      event,
+      tenant.id,
+    );
+    await this.webhookAuditService.recordRejection('twilio', 'invalid_signature', {
+      tenantId: tenant.id,
+      event,
+      request: req,
+      payload,
+    });
+    throw new ForbiddenException('Invalid Twilio signature');
+  }
+
+  /**
+   * Twilio signs the exact public URL it posted to. Behind a proxy the request URL differs,
+   * so TWILIO_WEBHOOK_URL takes precedence when configured.
+   */
+  private resolveWebhookUrl(req: Request): string {
+    const configured = this.configService.get<string>('TWILIO_WEBHOOK_URL');
+    if (configured) {
+      return configured;
+    }
+
+    const forwardedProto = req.headers['x-forwarded-proto'];
+    const protocol =
+      (typeof forwardedProto === 'string' ? forwardedProto.split(',')[0].trim() : null) ||
+      req.protocol;
+    return `${protocol}://${req.get('host')}${req.originalUrl}`;
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Request } from 'express';
+
+import { DatabaseService } from '../database/database.service';
+
+export type WebhookSource = 'hostaway' | 'twilio';
+
+@Injectable()
+export class WebhookAuditService {
+  private readonly logger = new Logger(WebhookAuditService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Records a rejected webhook delivery. Failures are logged and swallowed so auditing never
+   * changes the response returned to the caller.
+   */
+  async recordRejection(
+    source: WebhookSource,
+    reason: string,
+    details: {
+      tenantId?: string | null;
+      event?: string | null;
+      request?: Request;
+      payload?: Record<string, unknown>;
+    } = {},
+  ): Promise<void> {
+    try {
+      await this.databaseService.runQuery(
+        `insert into public.webhook_rejections (tenant_id, source, reason, event, remote_ip, payload)
+         values ($1, $2, $3, $4, $5, $6::jsonb)`,
+        [
+          details.tenantId ?? null,
+          source,
+          reason,
+          details.event ?? null,
+          details.request?.ip ?? null,
+          JSON.stringify(details.payload ?? {}),
+        ],
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record rejected ${source} webhook delivery`, error as Error);
+    }
+  }
+}
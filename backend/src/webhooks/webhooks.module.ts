@@ -1,13 +1,27 @@
 import { Module } from '@nestjs/common';
 
+import { EscalationsModule } from '../escalations/escalations.module';
 import { SchedulingModule } from '../scheduling/scheduling.module';
 import { TenantModule } from '../tenant/tenant.module';
 import { ConversationsModule } from '../conversations/conversations.module';
 import { IntegrationsModule } from '../integrations/integrations.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { PmsModule } from '../pms/pms.module';
 import { HostawayWebhookController } from './hostaway.webhook.controller';
+import { TwilioWebhookController } from './twilio.webhook.controller';
+import { WebhookAuditService } from './webhook-audit.service';
 
 @Module({
-  imports: [SchedulingModule, TenantModule, ConversationsModule, IntegrationsModule],
-  controllers: [HostawayWebhookController],
+  imports: [
+    SchedulingModule,
+    TenantModule,
+    ConversationsModule,
+    IntegrationsModule,
+    MessagingModule,
+    EscalationsModule,
+    PmsModule,
+  ],
+  controllers: [HostawayWebhookController, TwilioWebhookController],
+  providers: [WebhookAuditService],
 })
 export class WebhooksModule {}
@@ -111,6 +111,54 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/dashboard/KnowledgeBase.vue'),
         meta: { requiresAuth: true, title: 'Knowledge Base' },
       },
+      {
+        path: 'ai-settings',
+        name: 'ai-settings',
+        component: () => import('@/views/dashboard/AiSettingsView.vue'),
+        meta: { requiresAuth: true, title: 'AI Assistant' },
+      },
+      {
+        path: 'upsells',
+        name: 'upsells',
+        component: () => import('@/views/dashboard/UpsellsView.vue'),
+        meta: { requiresAuth: true, title: 'Upsells' },
+      },
+      {
+        path: 'automations',
+        name: 'automations',
+        component: () => import('@/views/dashboard/AutomationsView.vue'),
+        meta: { requiresAuth: true, title: 'Automations' },
+      },
+      {
+        path: 'escalations',
+        name: 'escalations',
+        component: () => import('@/views/dashboard/EscalationPoliciesView.vue'),
+        meta: { requiresAuth: true, title: 'Escalations' },
+      },
+      {
+        path: 'rota',
+        name: 'rota',
+        component: () => import('@/views/dashboard/RotaView.vue'),
+        meta: { requiresAuth: true, title: 'On-call rota' },
+      },
+      {
+        path: 'team',
+        name: 'team',
+        component: () => import('@/views/dashboard/TeamView.vue'),
+        meta: { requiresAuth: true, title: 'Team' },
+      },
+      {
+        path: 'audit-log',
+        name: 'audit-log',
+        component: () => import('@/views/dashboard/AuditLogView.vue'),
+        meta: { requiresAuth: true, title: 'Audit log' },
+      },
+      {
+        path: 'billing',
+        name: 'billing',
+        component: () => import('@/views/dashboard/BillingView.vue'),
+        meta: { requiresAuth: true, title: 'Billing' },
+      },
     ],
   },
   {
@@ -163,7 +211,7 @@ router.beforeEach(async (to) => {
   }
 
   // Allow access to login/register pages and public pages even when authenticated
-  const allowAuthPages = ['login', 'register'].includes(to.name as string);
+  const allowAuthPages = ['login', 'register', 'auth-callback'].includes(to.name as string);
   const allowPublicPages = ['landing', 'pricing', 'features', 'terms', 'privacy'].includes(
     to.name as string,
   );
@@ -1,10 +1,39 @@
 import axios, { type AxiosError, type AxiosInstance } from 'axios';
 import type { Session } from '@supabase/supabase-js';
+import type {
+  AuditLogEntry,
+  AutomationRule,
+  EntitlementErrorResponse,
+  Escalation,
+  EscalationPolicy,
+  PlanEntitlementSummary,
+  RotaOverride,
+  RotaShift,
+  StaffMember,
+  StaffTask,
+  StaffTaskStatus,
+  TenantAiSettings,
+  TenantInvitation,
+  TenantMember,
+  TenantRole,
+  TenantUsage,
+  UpsellOffer,
+  UpsellOrder,
+} from '@saas-automation/shared-types';
 import { supabase } from '@/services/supabase.client';
 
 export const UNAUTHORIZED_EVENT = 'unauthorized';
 export const authEvents = new EventTarget();
 
+// Dispatched as a CustomEvent<EntitlementErrorResponse> when the plan or subscription blocks a request
+export const UPGRADE_REQUIRED_EVENT = 'upgrade-required';
+export const planEvents = new EventTarget();
+
+export const isEntitlementError = (data: unknown): data is EntitlementErrorResponse => {
+  const code = (data as Partial<EntitlementErrorResponse> | null)?.code;
+  return code === 'subscription_required' || code === 'plan_upgrade_required';
+};
+
 // Cache session to avoid calling getSession() on every request
 let sessionCache: { session: Session | null; timestamp: number; expiresAt: number } | null = null;
 
@@ -84,6 +113,12 @@ const getCachedSession = async () => {
   }
 };
 
+// Used by non-axios transports (e.g. the SSE stream) that need to attach the bearer token manually
+export const getAccessToken = async (): Promise<string | null> => {
+  const session = await getCachedSession();
+  return session?.access_token ?? null;
+};
+
 const apiClient: AxiosInstance = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL ?? '/api',
   withCredentials: true,
@@ -137,6 +172,16 @@ apiClient.interceptors.response.use(
       }
     }
 
+    // Plan and subscription blocks are turned into an upgrade prompt by the dashboard layout
+    const status = error.response?.status;
+    if ((status === 402 || status === 403) && isEntitlementError(error.response?.data)) {
+      planEvents.dispatchEvent(
+        new CustomEvent<EntitlementErrorResponse>(UPGRADE_REQUIRED_EVENT, {
+          detail: error.response.data,
+        }),
+      );
+    }
+
     // Handle timeout errors
     if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
       console.error('Request timeout:', error.config?.url);
@@ -224,6 +269,291 @@ export const templatesApi = {
   },
 };
 
+export type AiReplyMode = 'autonomous' | 'approval_required' | 'off';
+
+export type UpdateAiSettingsRequest = Omit<TenantAiSettings, 'hasProviderApiKey'> & {
+  // Omit to keep the stored key; null removes it
+  providerApiKey?: string | null;
+};
+
+// AI settings API methods
+export const aiSettingsApi = {
+  async getSettings(): Promise<TenantAiSettings> {
+    const response = await apiClient.get('/ai-settings');
+    return response.data;
+  },
+
+  async updateSettings(data: UpdateAiSettingsRequest): Promise<TenantAiSettings> {
+    const response = await apiClient.put('/ai-settings', data);
+    return response.data;
+  },
+
+  async getReplyMode(): Promise<AiReplyMode> {
+    const response = await apiClient.get<{ mode: AiReplyMode }>('/tenants/ai-reply-mode');
+    return response.data.mode;
+  },
+
+  async updateReplyMode(mode: AiReplyMode): Promise<AiReplyMode> {
+    const response = await apiClient.put<{ mode: AiReplyMode }>('/tenants/ai-reply-mode', {
+      mode,
+    });
+    return response.data.mode;
+  },
+};
+
+export type UpsellOfferRequest = Omit<UpsellOffer, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Upsell API methods
+export const upsellsApi = {
+  async listOffers(): Promise<UpsellOffer[]> {
+    const response = await apiClient.get('/upsells/offers');
+    return response.data;
+  },
+
+  async createOffer(data: UpsellOfferRequest): Promise<UpsellOffer> {
+    const response = await apiClient.post('/upsells/offers', data);
+    return response.data;
+  },
+
+  async updateOffer(id: string, data: UpsellOfferRequest): Promise<UpsellOffer> {
+    const response = await apiClient.put(`/upsells/offers/${id}`, data);
+    return response.data;
+  },
+
+  async deleteOffer(id: string): Promise<void> {
+    await apiClient.delete(`/upsells/offers/${id}`);
+  },
+
+  async listOrders(reservationId?: string): Promise<UpsellOrder[]> {
+    const response = await apiClient.get('/upsells/orders', {
+      params: reservationId ? { reservationId } : undefined,
+    });
+    return response.data;
+  },
+
+  async cancelOrder(id: string): Promise<UpsellOrder> {
+    const response = await apiClient.post(`/upsells/orders/${id}/cancel`);
+    return response.data;
+  },
+};
+
+// Staff task API methods
+export const tasksApi = {
+  async listTasks(status?: StaffTaskStatus): Promise<StaffTask[]> {
+    const response = await apiClient.get('/tasks', { params: status ? { status } : undefined });
+    return response.data;
+  },
+
+  async updateStatus(id: string, status: StaffTaskStatus): Promise<StaffTask> {
+    const response = await apiClient.put(`/tasks/${id}/status`, { status });
+    return response.data;
+  },
+};
+
+export type AutomationRuleRequest = Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Automation rule API methods
+export const automationsApi = {
+  async listRules(): Promise<AutomationRule[]> {
+    const response = await apiClient.get('/automations/rules');
+    return response.data;
+  },
+
+  async createRule(data: AutomationRuleRequest): Promise<AutomationRule> {
+    const response = await apiClient.post('/automations/rules', data);
+    return response.data;
+  },
+
+  async updateRule(id: string, data: AutomationRuleRequest): Promise<AutomationRule> {
+    const response = await apiClient.put(`/automations/rules/${id}`, data);
+    return response.data;
+  },
+
+  async deleteRule(id: string): Promise<void> {
+    await apiClient.delete(`/automations/rules/${id}`);
+  },
+};
+
+export type EscalationPolicyRequest = Omit<EscalationPolicy, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Escalation API methods
+export const escalationsApi = {
+  async listPolicies(): Promise<EscalationPolicy[]> {
+    const response = await apiClient.get('/escalations/policies');
+    return response.data;
+  },
+
+  async createPolicy(data: EscalationPolicyRequest): Promise<EscalationPolicy> {
+    const response = await apiClient.post('/escalations/policies', data);
+    return response.data;
+  },
+
+  async updatePolicy(id: string, data: EscalationPolicyRequest): Promise<EscalationPolicy> {
+    const response = await apiClient.put(`/escalations/policies/${id}`, data);
+    return response.data;
+  },
+
+  async deletePolicy(id: string): Promise<void> {
+    await apiClient.delete(`/escalations/policies/${id}`);
+  },
+
+  async listForConversation(conversationId: string): Promise<Escalation[]> {
+    const response = await apiClient.get('/escalations', { params: { conversationId } });
+    return response.data;
+  },
+
+  async acknowledge(id: string): Promise<Escalation> {
+    const response = await apiClient.post(`/escalations/${id}/acknowledge`);
+    return response.data;
+  },
+};
+
+export type StaffMemberRequest = Omit<StaffMember, 'id' | 'createdAt' | 'updatedAt'>;
+export type RotaShiftRequest = Omit<RotaShift, 'id'>;
+export type RotaOverrideRequest = Omit<RotaOverride, 'id'>;
+
+// On-call rota API methods
+export const rotaApi = {
+  async listStaff(): Promise<StaffMember[]> {
+    const response = await apiClient.get('/rota/staff');
+    return response.data;
+  },
+
+  async createStaffMember(data: StaffMemberRequest): Promise<StaffMember> {
+    const response = await apiClient.post('/rota/staff', data);
+    return response.data;
+  },
+
+  async updateStaffMember(id: string, data: StaffMemberRequest): Promise<StaffMember> {
+    const response = await apiClient.put(`/rota/staff/${id}`, data);
+    return response.data;
+  },
+
+  async deleteStaffMember(id: string): Promise<void> {
+    await apiClient.delete(`/rota/staff/${id}`);
+  },
+
+  async listShifts(): Promise<RotaShift[]> {
+    const response = await apiClient.get('/rota/shifts');
+    return response.data;
+  },
+
+  async createShift(data: RotaShiftRequest): Promise<RotaShift> {
+    const response = await apiClient.post('/rota/shifts', data);
+    return response.data;
+  },
+
+  async updateShift(id: string, data: RotaShiftRequest): Promise<RotaShift> {
+    const response = await apiClient.put(`/rota/shifts/${id}`, data);
+    return response.data;
+  },
+
+  async deleteShift(id: string): Promise<void> {
+    await apiClient.delete(`/rota/shifts/${id}`);
+  },
+
+  async listOverrides(): Promise<RotaOverride[]> {
+    const response = await apiClient.get('/rota/overrides');
+    return response.data;
+  },
+
+  async createOverride(data: RotaOverrideRequest): Promise<RotaOverride> {
+    const response = await apiClient.post('/rota/overrides', data);
+    return response.data;
+  },
+
+  async deleteOverride(id: string): Promise<void> {
+    await apiClient.delete(`/rota/overrides/${id}`);
+  },
+
+  async getOnCall(listingId?: string): Promise<StaffMember[]> {
+    const response = await apiClient.get('/rota/on-call', {
+      params: listingId ? { listingId } : undefined,
+    });
+    return response.data;
+  },
+};
+
+// Team API methods
+export const teamApi = {
+  async getMyRole(): Promise<TenantRole> {
+    const response = await apiClient.get('/team/me');
+    return response.data.role;
+  },
+
+  async listMembers(): Promise<TenantMember[]> {
+    const response = await apiClient.get('/team/members');
+    return response.data;
+  },
+
+  async updateMemberRole(userId: string, role: TenantRole): Promise<TenantMember> {
+    const response = await apiClient.put(`/team/members/${userId}/role`, { role });
+    return response.data;
+  },
+
+  async removeMember(userId: string): Promise<void> {
+    await apiClient.delete(`/team/members/${userId}`);
+  },
+
+  async listInvitations(): Promise<TenantInvitation[]> {
+    const response = await apiClient.get('/team/invitations');
+    return response.data;
+  },
+
+  async invite(email: string, role: TenantRole): Promise<TenantInvitation> {
+    const response = await apiClient.post('/team/invitations', { email, role });
+    return response.data;
+  },
+
+  async revokeInvitation(id: string): Promise<void> {
+    await apiClient.delete(`/team/invitations/${id}`);
+  },
+
+  async acceptInvitation(token: string): Promise<{ tenantId: string; role: TenantRole }> {
+    const response = await apiClient.post('/team/invitations/accept', { token });
+    return response.data;
+  },
+};
+
+export const billingApi = {
+  // period is a month formatted as YYYY-MM; defaults to the current month
+  async getUsage(period?: string): Promise<TenantUsage> {
+    const response = await apiClient.get('/usage', { params: period ? { period } : {} });
+    return response.data;
+  },
+
+  async createPortalSession(returnUrl: string): Promise<{ portalUrl: string }> {
+    const response = await apiClient.post('/billing/portal-session', { returnUrl });
+    return response.data;
+  },
+
+  async getEntitlements(): Promise<PlanEntitlementSummary[]> {
+    const response = await apiClient.get('/entitlements');
+    return response.data;
+  },
+};
+
+export interface AuditLogQuery {
+  // Exact action, or a family such as "template.*"
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const auditApi = {
+  async list(query: AuditLogQuery = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const response = await apiClient.get('/audit', { params: query });
+    return response.data;
+  },
+
+  async exportCsv(query: Omit<AuditLogQuery, 'limit' | 'offset'> = {}): Promise<Blob> {
+    const response = await apiClient.get('/audit/export', { params: query, responseType: 'blob' });
+    return response.data;
+  },
+};
+
 // Integration API methods
 export const integrationsApi = {
   async getHostawayStatus() {
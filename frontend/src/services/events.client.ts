@@ -0,0 +1,156 @@
+import apiClient, { getAccessToken } from '@/services/api.client';
+
+export type RealtimeEventType =
+  | 'conversation.message_logged'
+  | 'conversation.status_changed'
+  | 'conversation.tagged'
+  | 'scheduled_message.sent'
+  | 'scheduled_message.failed'
+  | 'sync.progress'
+  | 'rag.sync.progress'
+  | 'task.created'
+  | 'escalation.updated';
+
+type RealtimeListener = (data: Record<string, unknown>) => void;
+
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+const listeners = new Map<RealtimeEventType, Set<RealtimeListener>>();
+let streamController: AbortController | null = null;
+let reconnectTimer: number | null = null;
+let reconnectDelay = INITIAL_RECONNECT_DELAY;
+
+const listenerCount = () =>
+  Array.from(listeners.values()).reduce((count, set) => count + set.size, 0);
+
+const dispatchFrame = (frame: string) => {
+  let eventType = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      eventType = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  const handlers = listeners.get(eventType as RealtimeEventType);
+  if (!handlers || handlers.size === 0 || dataLines.length === 0) {
+    return;
+  }
+
+  try {
+    const data = JSON.parse(dataLines.join('\n')) as Record<string, unknown>;
+    handlers.forEach((handler) => handler(data));
+  } catch (err) {
+    console.warn(`Failed to parse ${eventType} event:`, err);
+  }
+};
+
+const readStream = async (body: ReadableStream<Uint8Array>) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      dispatchFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+};
+
+const scheduleReconnect = () => {
+  if (listenerCount() === 0 || reconnectTimer !== null) {
+    return;
+  }
+
+  reconnectTimer = window.setTimeout(() => {
+    reconnectTimer = null;
+    void connect();
+  }, reconnectDelay);
+  reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+};
+
+// EventSource cannot send an Authorization header, so the stream is read with fetch instead
+const connect = async () => {
+  if (streamController || typeof window === 'undefined') {
+    return;
+  }
+
+  const controller = new AbortController();
+  streamController = controller;
+
+  try {
+    const token = await getAccessToken();
+    const response = await fetch(`${apiClient.defaults.baseURL ?? '/api'}/events/stream`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      credentials: 'include',
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream request failed with status ${response.status}`);
+    }
+
+    reconnectDelay = INITIAL_RECONNECT_DELAY;
+    await readStream(response.body);
+  } catch (err) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    console.warn('Event stream disconnected:', err);
+  } finally {
+    if (streamController === controller) {
+      streamController = null;
+    }
+  }
+
+  scheduleReconnect();
+};
+
+const disconnect = () => {
+  if (reconnectTimer !== null) {
+    window.clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  streamController?.abort();
+  streamController = null;
+  reconnectDelay = INITIAL_RECONNECT_DELAY;
+};
+
+/**
+ * Subscribes to a tenant event from `GET /events/stream`. The shared connection is opened with the
+ * first subscriber and closed when the last one unsubscribes.
+ */
+export const subscribeToEvent = (
+  type: RealtimeEventType,
+  listener: RealtimeListener,
+): (() => void) => {
+  const handlers = listeners.get(type) ?? new Set<RealtimeListener>();
+  handlers.add(listener);
+  listeners.set(type, handlers);
+
+  void connect();
+
+  return () => {
+    handlers.delete(listener);
+    if (listenerCount() === 0) {
+      disconnect();
+    }
+  };
+};
@@ -2,7 +2,10 @@
 import { defineStore } from 'pinia';
 import { isAxiosError } from 'axios';
 
-import apiClient, { type ApiError } from '@/services/api.client';
+import apiClient, { type AiReplyMode, type ApiError } from '@/services/api.client';
+import { subscribeToEvent, type RealtimeEventType } from '@/services/events.client';
+
+export type { AiReplyMode };
 
 type ConversationStatus = 'automated' | 'paused_by_human';
 
@@ -13,6 +16,8 @@ export interface ConversationSummary {
   bookingExternalId: string | null;
   hostawayConversationId: string | null;
   status: ConversationStatus;
+  aiReplyMode: AiReplyMode | null;
+  tags: string[];
   updatedAt: string;
   lastMessageAt: string | null;
   guestName: string | null;
@@ -25,6 +30,7 @@ export interface ConversationSummary {
   nextPendingLabel: string | null;
   nextPendingTimezone: string | null;
   pendingMessageCount: number;
+  draftCount: number;
 }
 
 export interface ConversationLogEntry {
@@ -32,12 +38,14 @@ export interface ConversationLogEntry {
   senderType: 'guest' | 'human' | 'ai' | 'system';
   direction: 'guest' | 'ai' | 'staff';
   messageBody: string;
-  status: 'pending' | 'processing' | 'sent' | 'failed';
+  status: 'draft' | 'pending' | 'processing' | 'sent' | 'failed' | 'rejected';
   scheduledSendAt: string | null;
   actualSentAt: string | null;
   sentAt: string;
   metadata: Record<string, unknown>;
   errorMessage: string | null;
+  originalMessageBody: string | null;
+  reviewedAt: string | null;
 }
 
 export interface ConversationDetail extends ConversationSummary {
@@ -75,9 +83,13 @@ export const useConversationsStore = defineStore('conversations', () => {
   const cancelMessageError = ref<string | null>(null);
   const cancelAllLoading = ref(false);
   const cancelAllError = ref<string | null>(null);
+  const reviewingDraftIds = ref<Set<string>>(new Set());
+  const draftReviewError = ref<string | null>(null);
   const syncingHistory = ref(false);
   const syncHistoryError = ref<string | null>(null);
 
+  let realtimeUnsubscribers: Array<() => void> = [];
+
   const hasConversations = computed(() => conversations.value.length > 0);
 
   const toSummary = (payload: ConversationDetail | ConversationSummary): ConversationSummary => {
@@ -312,6 +324,67 @@ export const useConversationsStore = defineStore('conversations', () => {
     }
   };
 
+  const reviewDraft = async (
+    conversationId: string,
+    messageId: string,
+    action: 'approve' | 'reject',
+    editedMessage?: string,
+  ) => {
+    if (!conversationId || !messageId) {
+      return;
+    }
+
+    reviewingDraftIds.value = new Set(reviewingDraftIds.value).add(messageId);
+    draftReviewError.value = null;
+
+    try {
+      const { data } = await apiClient.post<ConversationDetail>(
+        `/conversations/${conversationId}/messages/${messageId}/${action}`,
+        action === 'approve' && editedMessage !== undefined ? { message: editedMessage } : {},
+      );
+      detail.value = data;
+      updateConversationSummary(data);
+    } catch (err) {
+      const messageText = extractErrorMessage(err);
+      draftReviewError.value = messageText;
+      throw err;
+    } finally {
+      const next = new Set(reviewingDraftIds.value);
+      next.delete(messageId);
+      reviewingDraftIds.value = next;
+    }
+  };
+
+  const approveDraft = (conversationId: string, messageId: string, editedMessage?: string) =>
+    reviewDraft(conversationId, messageId, 'approve', editedMessage);
+
+  const rejectDraft = (conversationId: string, messageId: string) =>
+    reviewDraft(conversationId, messageId, 'reject');
+
+  const setAiReplyMode = async (conversationId: string, mode: AiReplyMode | null) => {
+    if (!conversationId) {
+      return;
+    }
+
+    automationActionLoading.value = true;
+    automationActionError.value = null;
+
+    try {
+      const { data } = await apiClient.put<ConversationDetail>(
+        `/conversations/${conversationId}/ai-mode`,
+        { mode },
+      );
+      detail.value = data;
+      updateConversationSummary(data);
+    } catch (err) {
+      const messageText = extractErrorMessage(err);
+      automationActionError.value = messageText;
+      throw err;
+    } finally {
+      automationActionLoading.value = false;
+    }
+  };
+
   const syncConversationHistory = async (conversationId: string) => {
     if (!conversationId) {
       return;
@@ -336,6 +409,52 @@ export const useConversationsStore = defineStore('conversations', () => {
     }
   };
 
+  // Refetches a conversation touched by a realtime event without toggling loading state
+  const refreshConversation = async (conversationId: string) => {
+    const isActive = activeConversationId.value === conversationId;
+    const isListed = conversations.value.some((item) => item.id === conversationId);
+    if (!isActive && !isListed) {
+      return;
+    }
+
+    try {
+      const { data } = await apiClient.get<ConversationDetail>(`/conversations/${conversationId}`);
+      if (activeConversationId.value === conversationId) {
+        detail.value = data;
+      }
+      updateConversationSummary(data);
+    } catch (err) {
+      console.warn(`Failed to refresh conversation ${conversationId}:`, err);
+    }
+  };
+
+  const startRealtimeUpdates = () => {
+    if (realtimeUnsubscribers.length > 0) {
+      return;
+    }
+
+    const conversationEvents: RealtimeEventType[] = [
+      'conversation.message_logged',
+      'conversation.status_changed',
+      'conversation.tagged',
+      'scheduled_message.sent',
+      'scheduled_message.failed',
+    ];
+
+    realtimeUnsubscribers = conversationEvents.map((type) =>
+      subscribeToEvent(type, (data) => {
+        if (typeof data.conversationId === 'string') {
+          void refreshConversation(data.conversationId);
+        }
+      }),
+    );
+  };
+
+  const stopRealtimeUpdates = () => {
+    realtimeUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    realtimeUnsubscribers = [];
+  };
+
   return {
     // state
     conversations,
@@ -354,6 +473,8 @@ export const useConversationsStore = defineStore('conversations', () => {
     cancelMessageError,
     cancelAllLoading,
     cancelAllError,
+    reviewingDraftIds,
+    draftReviewError,
     syncingHistory,
     syncHistoryError,
     hasConversations,
@@ -366,6 +487,11 @@ export const useConversationsStore = defineStore('conversations', () => {
     resumeConversation,
     cancelPendingMessage,
     cancelAllPendingMessages,
+    approveDraft,
+    rejectDraft,
+    setAiReplyMode,
     syncConversationHistory,
+    startRealtimeUpdates,
+    stopRealtimeUpdates,
   };
 });
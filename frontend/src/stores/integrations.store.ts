@@ -1,7 +1,13 @@
 import { ref } from 'vue';
 import { defineStore } from 'pinia';
 import { isAxiosError } from 'axios';
+import type {
+  HostawaySyncRun,
+  PmsProviderKind,
+  PmsProviderOption,
+} from '@saas-automation/shared-types';
 import apiClient, { type ApiError } from '@/services/api.client';
+import { subscribeToEvent } from '@/services/events.client';
 
 type IntegrationStatus = 'not_connected' | 'connecting' | 'connected' | 'error';
 type SyncStatus = 'idle' | 'syncing' | 'completed' | 'failed';
@@ -43,6 +49,11 @@ interface TwilioStatusResponse {
   onCallNumber: string | null;
 }
 
+interface PmsProviderResponse {
+  provider: PmsProviderKind;
+  providers: PmsProviderOption[];
+}
+
 const extractErrorMessage = (err: unknown) => {
   if (isAxiosError(err)) {
     const apiError = err as ApiError;
@@ -69,9 +80,13 @@ export const useIntegrationsStore = defineStore('integrations', () => {
   const syncStatus = ref<SyncStatus>('idle');
   const lastSyncAt = ref<string | null>(null);
   const syncError = ref<string | null>(null);
+  const syncRuns = ref<HostawaySyncRun[]>([]);
   const twilioStatus = ref<IntegrationStatus>('not_connected');
   const twilioError = ref<string | null>(null);
-  let syncStatusPollInterval: number | null = null;
+  const pmsProvider = ref<PmsProviderKind>('hostaway');
+  const pmsProviders = ref<PmsProviderOption[]>([]);
+  const pmsProviderError = ref<string | null>(null);
+  let unsubscribeSyncProgress: (() => void) | null = null;
 
   const fetchHostawayStatus = async () => {
     try {
@@ -90,11 +105,15 @@ export const useIntegrationsStore = defineStore('integrations', () => {
       lastSyncAt.value = data?.lastSyncAt ?? null;
       syncError.value = data?.syncError ?? null;
 
-      // If syncing, start polling; otherwise stop polling
+      // If syncing, listen for progress events; otherwise stop listening
       if (data?.syncStatus === 'syncing') {
-        startSyncStatusPolling();
+        startSyncStatusUpdates();
       } else {
-        stopSyncStatusPolling();
+        stopSyncStatusUpdates();
+      }
+
+      if (hostawayStatus.value === 'connected') {
+        void fetchSyncRuns();
       }
     } catch (err) {
       // If the status check fails (e.g., 404 before integration exists), default to not connected
@@ -106,32 +125,46 @@ export const useIntegrationsStore = defineStore('integrations', () => {
     }
   };
 
-  const startSyncStatusPolling = () => {
-    // Clear existing interval if any
-    if (syncStatusPollInterval !== null) {
-      window.clearInterval(syncStatusPollInterval);
+  const fetchSyncRuns = async () => {
+    try {
+      const { data } = await apiClient.get<HostawaySyncRun[]>('/integrations/hostaway/sync-runs', {
+        params: { limit: 5 },
+      });
+      syncRuns.value = data;
+    } catch (err) {
+      console.error('Failed to load Hostaway sync runs', err);
     }
-
-    // Poll every 3 seconds while syncing
-    syncStatusPollInterval = window.setInterval(() => {
-      void fetchHostawayStatus();
-    }, 3000);
   };
 
-  const stopSyncStatusPolling = () => {
-    if (syncStatusPollInterval !== null) {
-      window.clearInterval(syncStatusPollInterval);
-      syncStatusPollInterval = null;
+  const startSyncStatusUpdates = () => {
+    if (unsubscribeSyncProgress) {
+      return;
     }
+
+    unsubscribeSyncProgress = subscribeToEvent('sync.progress', (data) => {
+      const status = data.status as SyncStatus | undefined;
+      if (status === 'completed' || status === 'failed') {
+        // Refresh the full status so lastSyncAt and errors come from the persisted record
+        void fetchHostawayStatus();
+      } else if (status) {
+        syncStatus.value = status;
+      }
+    });
+  };
+
+  const stopSyncStatusUpdates = () => {
+    unsubscribeSyncProgress?.();
+    unsubscribeSyncProgress = null;
   };
 
   const triggerResync = async () => {
     try {
       syncStatus.value = 'syncing';
       syncError.value = null;
+      startSyncStatusUpdates();
       await apiClient.post('/integrations/hostaway/resync');
-      startSyncStatusPolling();
     } catch (err) {
+      stopSyncStatusUpdates();
       syncStatus.value = 'failed';
       syncError.value = extractErrorMessage(err);
     }
@@ -194,19 +227,51 @@ export const useIntegrationsStore = defineStore('integrations', () => {
     }
   };
 
+  const fetchPmsProvider = async () => {
+    try {
+      const { data } = await apiClient.get<PmsProviderResponse>('/integrations/pms-provider');
+      pmsProvider.value = data.provider;
+      pmsProviders.value = data.providers;
+    } catch (err) {
+      pmsProviderError.value = extractErrorMessage(err);
+    }
+  };
+
+  const selectPmsProvider = async (provider: PmsProviderKind) => {
+    pmsProviderError.value = null;
+
+    try {
+      const { data } = await apiClient.put<PmsProviderResponse>('/integrations/pms-provider', {
+        provider,
+      });
+      pmsProvider.value = data.provider;
+      pmsProviders.value = data.providers;
+    } catch (err) {
+      pmsProviderError.value = extractErrorMessage(err);
+      throw err;
+    }
+  };
+
   return {
     hostawayStatus,
     hostawayError,
     syncStatus,
     lastSyncAt,
     syncError,
+    syncRuns,
     twilioStatus,
     twilioError,
     fetchHostawayStatus,
+    fetchSyncRuns,
     connectHostaway,
     triggerResync,
-    stopSyncStatusPolling,
+    stopSyncStatusUpdates,
     fetchTwilioStatus,
     connectTwilio,
+    pmsProvider,
+    pmsProviders,
+    pmsProviderError,
+    fetchPmsProvider,
+    selectPmsProvider,
   };
 });
@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia';
 import { ref } from 'vue';
 import apiClient from '@/services/api.client';
+import { subscribeToEvent } from '@/services/events.client';
 
 export interface KnowledgeBaseDocument {
   id: string;
@@ -28,7 +29,8 @@ export const useRagStore = defineStore('rag', () => {
   const uploading = ref(false);
   const syncing = ref(false);
   const syncProgress = ref<SyncProgress | null>(null);
-  let progressPollInterval: ReturnType<typeof setInterval> | null = null;
+  let unsubscribeProgress: (() => void) | null = null;
+  let progressTimeout: number | null = null;
 
   const fetchDocuments = async () => {
     loading.value = true;
@@ -115,35 +117,40 @@ export const useRagStore = defineStore('rag', () => {
     }
   };
 
-  const startProgressPolling = () => {
-    // Clear any existing interval
-    if (progressPollInterval) {
-      clearInterval(progressPollInterval);
+  const stopProgressUpdates = () => {
+    unsubscribeProgress?.();
+    unsubscribeProgress = null;
+    if (progressTimeout !== null) {
+      window.clearTimeout(progressTimeout);
+      progressTimeout = null;
     }
+    syncProgress.value = null;
+  };
+
+  // Resolves once the background sync job reports completion over the event stream
+  const waitForSyncCompletion = (
+    timeoutMs = 600000, // 10 minutes for large syncs
+  ): Promise<SyncProgress> =>
+    new Promise((resolve, reject) => {
+      stopProgressUpdates();
+
+      progressTimeout = window.setTimeout(() => {
+        reject(new Error('Conversation sync is still running in the background'));
+      }, timeoutMs);
+
+      unsubscribeProgress = subscribeToEvent('rag.sync.progress', (data) => {
+        if (typeof data.error === 'string') {
+          reject(new Error(data.error));
+          return;
+        }
 
-    // Poll every 500ms for progress updates
-    progressPollInterval = setInterval(async () => {
-      const progress = await fetchSyncProgress();
-      if (progress) {
+        const progress = data as unknown as SyncProgress;
         syncProgress.value = progress;
-        // Stop polling if completed
         if (progress.completed) {
-          if (progressPollInterval) {
-            clearInterval(progressPollInterval);
-            progressPollInterval = null;
-          }
+          resolve(progress);
         }
-      }
-    }, 500);
-  };
-
-  const stopProgressPolling = () => {
-    if (progressPollInterval) {
-      clearInterval(progressPollInterval);
-      progressPollInterval = null;
-    }
-    syncProgress.value = null;
-  };
+      });
+    });
 
   const syncConversations = async (
     limit?: number,
@@ -153,30 +160,36 @@ export const useRagStore = defineStore('rag', () => {
     syncProgress.value = null;
 
     try {
-      // Start polling for progress
-      startProgressPolling();
+      // Subscribe before queueing the sync so no progress events are missed
+      const completion = waitForSyncCompletion();
+      // Errors are surfaced when the completion is awaited below
+      completion.catch(() => undefined);
 
       const params = limit ? { limit } : undefined;
       const response = await apiClient.post<{
         success: boolean;
-        documentsCreated: number;
+        jobId: string | null;
         message: string;
-      }>('/rag/sync-conversations', params, {
-        timeout: 600000, // 10 minutes timeout for large syncs
-      });
+      }>('/rag/sync-conversations', params);
 
-      // Wait a bit for final progress update
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      // The stream may connect after the job already made progress, so seed from the snapshot
+      const snapshot = await fetchSyncProgress();
+      if (snapshot) {
+        syncProgress.value = snapshot;
+      }
+      const finalProgress = snapshot?.completed ? snapshot : await completion;
 
       // Refresh documents list after sync
       await fetchDocuments();
 
-      // Stop polling
-      stopProgressPolling();
+      stopProgressUpdates();
 
-      return response.data;
+      return {
+        documentsCreated: finalProgress.documentsCreated,
+        message: finalProgress.message ?? response.data.message,
+      };
     } catch (err: unknown) {
-      stopProgressPolling();
+      stopProgressUpdates();
       const errorMessage = err instanceof Error ? err.message : 'Failed to sync conversations';
       error.value = errorMessage;
       console.error('Failed to sync conversations:', err);
@@ -198,6 +211,6 @@ export const useRagStore = defineStore('rag', () => {
     deleteDocument,
     deleteAllDocuments,
     syncConversations,
-    stopProgressPolling,
+    stopProgressUpdates,
   };
 });
@@ -1,5 +1,27 @@
 export type UserRole = 'super-admin' | 'client-tenant';
 
+// Ordered from most to least privileged
+export const TENANT_ROLES = ['owner', 'manager', 'agent', 'read_only'] as const;
+
+export type TenantRole = (typeof TENANT_ROLES)[number];
+
+export interface TenantMember {
+  userId: string;
+  email: string | null;
+  displayName: string | null;
+  role: TenantRole;
+  createdAt: string;
+}
+
+export interface TenantInvitation {
+  id: string;
+  email: string;
+  role: TenantRole;
+  expiresAt: string;
+  acceptedAt: string | null;
+  createdAt: string;
+}
+
 export interface TenantContext {
   tenantId: string;
   accountId: string;
@@ -24,6 +46,406 @@ export interface OpenAiConfig {
   temperature?: number;
 }
 
+export const LLM_PROVIDER_KINDS = ['openai', 'openai_compatible', 'fake'] as const;
+
+export type LlmProviderKind = (typeof LLM_PROVIDER_KINDS)[number];
+
+// The fake provider is only selectable through LLM_PROVIDER, for tests and local development
+export const TENANT_LLM_PROVIDER_KINDS = ['openai', 'openai_compatible'] as const;
+
+export type TenantLlmProviderKind = (typeof TENANT_LLM_PROVIDER_KINDS)[number];
+
+export const PMS_PROVIDER_KINDS = ['hostaway', 'guesty', 'lodgify', 'smoobu'] as const;
+
+export type PmsProviderKind = (typeof PMS_PROVIDER_KINDS)[number];
+
+export interface PmsProviderOption {
+  kind: PmsProviderKind;
+  name: string;
+  // False until an adapter for the property management system ships
+  available: boolean;
+}
+
+export const AI_LANGUAGE_POLICIES = ['match_guest', 'fixed'] as const;
+
+export type AiLanguagePolicy = (typeof AI_LANGUAGE_POLICIES)[number];
+
+/**
+ * Tenant-level AI behaviour. The API key stays server-side, so it is the only part of
+ * `OpenAiConfig` not exposed here; `defaultModel` is the model used to write guest replies.
+ */
+export interface TenantAiSettings extends Omit<OpenAiConfig, 'apiKey'> {
+  intentModel: string;
+  temperature: number;
+  persona: string | null;
+  signature: string | null;
+  forbiddenTopics: string[];
+  languagePolicy: AiLanguagePolicy;
+  // Language used when languagePolicy is 'fixed', e.g. "English"
+  defaultLanguage: string | null;
+  // Replies classified below this confidence are handed to staff instead
+  lowConfidenceThreshold: number;
+  // null uses the platform's provider
+  provider: TenantLlmProviderKind | null;
+  providerBaseUrl: string | null;
+  // The key itself is write-only
+  hasProviderApiKey: boolean;
+}
+
+export const DEFAULT_AI_TEMPERATURE = 0.7;
+export const DEFAULT_LOW_CONFIDENCE_THRESHOLD = 0.45;
+
+export const UPSELL_OFFER_TYPES = [
+  'early_check_in',
+  'late_checkout',
+  'extra_cleaning',
+  'parking',
+] as const;
+
+export type UpsellOfferType = (typeof UPSELL_OFFER_TYPES)[number];
+
+export const UPSELL_ORDER_STATUSES = ['offered', 'accepted', 'declined', 'cancelled'] as const;
+
+export type UpsellOrderStatus = (typeof UPSELL_ORDER_STATUSES)[number];
+
+/**
+ * Paid extra the AI can offer guests. Offers without a listing apply to every listing unless a
+ * listing has its own offer of the same type.
+ */
+export interface UpsellOffer {
+  id: string;
+  listingId: string | null;
+  type: UpsellOfferType;
+  name: string;
+  description: string | null;
+  priceCents: number;
+  currency: string;
+  enabled: boolean;
+  // Check-in time for early check-in or checkout time for late checkout, e.g. "12:00"
+  serviceTime: string | null;
+  // Offers stop being available this many hours before arrival (or departure for late checkout)
+  minNoticeHours: number;
+  // Early check-in and late checkout are only offered when no other guest leaves or arrives that day
+  requiresFreeTurnover: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpsellOrder {
+  id: string;
+  offerId: string | null;
+  type: UpsellOfferType;
+  name: string;
+  reservationId: string;
+  listingId: string | null;
+  conversationId: string | null;
+  priceCents: number;
+  currency: string;
+  status: UpsellOrderStatus;
+  offeredAt: string;
+  acceptedAt: string | null;
+}
+
+export const STAFF_TASK_STATUSES = ['open', 'done', 'dismissed'] as const;
+
+export type StaffTaskStatus = (typeof STAFF_TASK_STATUSES)[number];
+
+export interface StaffTask {
+  id: string;
+  conversationId: string | null;
+  reservationId: string | null;
+  type: string;
+  title: string;
+  details: Record<string, unknown>;
+  status: StaffTaskStatus;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export const ESCALATION_TRIGGERS = [
+  'emergency',
+  'low_confidence',
+  'complaint',
+  'staff_follow_up',
+] as const;
+
+export type EscalationTrigger = (typeof ESCALATION_TRIGGERS)[number];
+
+export const ESCALATION_CHANNELS = ['whatsapp', 'sms', 'voice', 'email'] as const;
+
+export type EscalationChannel = (typeof ESCALATION_CHANNELS)[number];
+
+export type EscalationStatus = 'active' | 'acknowledged' | 'exhausted';
+
+export type EscalationEventType = 'notified' | 'failed' | 'deferred' | 'acknowledged' | 'exhausted';
+
+export interface EscalationStep {
+  channel: EscalationChannel;
+  // Alerts whoever is on call when the step runs instead of a fixed contact
+  onCall: boolean;
+  contactName: string | null;
+  // Phone number for WhatsApp, SMS and voice; email address for email. Null for on-call steps
+  destination: string | null;
+  // How long to wait for an acknowledgement before moving to the next step
+  waitMinutes: number;
+}
+
+/**
+ * Ordered on-call chain for one trigger. Policies without a listing apply to every listing unless
+ * a listing has its own policy for the same trigger.
+ */
+export interface EscalationPolicy {
+  id: string;
+  listingId: string | null;
+  trigger: EscalationTrigger;
+  name: string;
+  steps: EscalationStep[];
+  // Local "HH:MM" window in which non-emergency steps wait until quiet hours end
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EscalationEvent {
+  id: string;
+  stepIndex: number | null;
+  channel: EscalationChannel | null;
+  destination: string | null;
+  type: EscalationEventType;
+  details: string | null;
+  createdAt: string;
+}
+
+export interface Escalation {
+  id: string;
+  policyId: string | null;
+  policyName: string;
+  conversationId: string | null;
+  reservationId: string | null;
+  trigger: EscalationTrigger;
+  title: string;
+  // Alert text sent to each contact
+  summary: string;
+  status: EscalationStatus;
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null;
+  createdAt: string;
+  events: EscalationEvent[];
+}
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Weekly on-call shift in the property's local time. Shifts without a listing cover every listing
+ * that has no shifts of its own.
+ */
+export interface RotaShift {
+  id: string;
+  staffMemberId: string;
+  listingId: string | null;
+  // 0 = Sunday ... 6 = Saturday, the day the shift starts
+  dayOfWeek: number;
+  // "HH:MM"; an end at or before the start runs past midnight
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Changes the weekly rota for a period: takes `staffMemberId` off call (holiday), puts
+ * `coverStaffMemberId` on call, or both for a swap.
+ */
+export interface RotaOverride {
+  id: string;
+  staffMemberId: string | null;
+  coverStaffMemberId: string | null;
+  listingId: string | null;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/** One row of the tenant audit log. `actorUserId` is null for system actions. */
+export interface AuditLogEntry {
+  id: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  changes: Record<string, AuditFieldChange>;
+  remoteIp: string | null;
+  createdAt: string;
+}
+
+export const USAGE_METRICS = [
+  'whatsapp_messages',
+  'hostaway_messages',
+  'ai_generations',
+  'ai_tokens',
+  'embeddings',
+  'active_listings',
+] as const;
+
+export type UsageMetric = (typeof USAGE_METRICS)[number];
+
+export interface UsageMetricSummary {
+  metric: UsageMetric;
+  quantity: number;
+  // null when the plan does not cap this metric
+  limit: number | null;
+  // Units above the limit billed as overage; 0 when the plan has no overage for the metric
+  overage: number;
+  overageUnitPriceCents: number | null;
+}
+
+export interface TenantUsage {
+  plan: { key: string; name: string };
+  subscriptionStatus: string;
+  periodStart: string;
+  periodEnd: string;
+  metrics: UsageMetricSummary[];
+}
+
+export const PLAN_ENTITLEMENTS = [
+  'ai_auto_reply',
+  'whatsapp_delivery',
+  'listings',
+  'knowledge_base_documents',
+  'team_seats',
+] as const;
+
+export type PlanEntitlement = (typeof PLAN_ENTITLEMENTS)[number];
+
+export interface PlanEntitlementSummary {
+  entitlement: PlanEntitlement;
+  // False when the plan lacks the feature or its allowance is used up
+  allowed: boolean;
+  // Allowance for counted entitlements; null for on/off features and unlimited allowances
+  limit: number | null;
+  used: number | null;
+}
+
+export type EntitlementErrorCode = 'subscription_required' | 'plan_upgrade_required';
+
+/** Body of the 402 (no active subscription) and 403 (plan too small) responses. */
+export interface EntitlementErrorResponse {
+  statusCode: 402 | 403;
+  message: string;
+  code: EntitlementErrorCode;
+  entitlement: PlanEntitlement | null;
+  plan: string;
+  limit: number | null;
+}
+
+export type HostawaySyncMode = 'full' | 'incremental';
+
+export type HostawaySyncRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * One reservation sync with Hostaway. Incremental runs only fetch reservations with activity since
+ * `cursorFrom`; full runs refetch every current reservation and detect ones removed in Hostaway.
+ */
+export interface HostawaySyncRun {
+  id: string;
+  // What queued the run, e.g. "daily", "manual_resync", "initial_connect"
+  reason: string;
+  mode: HostawaySyncMode;
+  status: HostawaySyncRunStatus;
+  cursorFrom: string | null;
+  // Next run's cursor; null when the run failed or had errors, so the next run retries them
+  cursorTo: string | null;
+  fetched: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  errors: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export const AUTOMATION_TRIGGER_TYPES = [
+  'booking_created',
+  'check_in',
+  'check_out',
+  'guest_message',
+  'status_changed',
+] as const;
+
+export type AutomationTriggerType = (typeof AUTOMATION_TRIGGER_TYPES)[number];
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  // check_in and check_out: hours from the event, negative for before (e.g. -24)
+  offsetHours: number | null;
+  // guest_message: case-insensitive regular expression matched against the message
+  pattern: string | null;
+  // status_changed: statuses the reservation changes to; empty matches any change
+  statuses: string[];
+}
+
+/** Every condition that is set must hold; empty lists and null bounds match everything. */
+export interface AutomationConditions {
+  listingIds: string[];
+  // Booking channels, e.g. "airbnbOfficial", "direct"
+  channels: string[];
+  minNights: number | null;
+  maxNights: number | null;
+  minGuests: number | null;
+  maxGuests: number | null;
+  // Days between booking and arrival
+  minLeadTimeDays: number | null;
+  maxLeadTimeDays: number | null;
+}
+
+export const AUTOMATION_ACTION_TYPES = [
+  'send_template',
+  'notify_staff',
+  'pause_ai',
+  'tag_conversation',
+] as const;
+
+export type AutomationActionType = (typeof AUTOMATION_ACTION_TYPES)[number];
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  // send_template
+  templateId: string | null;
+  // notify_staff; supports the same {{variables}} as templates
+  message: string | null;
+  // tag_conversation
+  tag: string | null;
+}
+
+/** A tenant-defined automation: when `trigger` fires and `conditions` hold, run `actions`. */
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationConditions;
+  actions: AutomationAction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface IntegrationSettings {
   hostaway?: HostawayCredentials;
   twilio?: TwilioCredentials;
@@ -0,0 +1,28 @@
+-- Migration: Per-tenant basic-auth credentials for Hostaway unified webhooks
+
+alter table public.tenants
+  add column if not exists hostaway_webhook_login text,
+  add column if not exists encrypted_hostaway_webhook_password text;
+
+create table if not exists public.webhook_rejections (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid references public.tenants (id) on delete set null,
+  source text not null check (source in ('hostaway', 'twilio')),
+  reason text not null,
+  event text,
+  remote_ip text,
+  payload jsonb default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhook_rejections_tenant on public.webhook_rejections (tenant_id, created_at desc);
+create index if not exists idx_webhook_rejections_created_at on public.webhook_rejections (created_at desc);
+
+alter table public.webhook_rejections enable row level security;
+
+create policy webhook_rejections_access on public.webhook_rejections
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on column public.tenants.hostaway_webhook_login is 'Basic-auth login Hostaway sends with unified webhook deliveries.';
+comment on column public.tenants.encrypted_hostaway_webhook_password is 'Encrypted basic-auth password for Hostaway unified webhook deliveries.';
+comment on table public.webhook_rejections is 'Audit trail of inbound webhook deliveries rejected by authentication checks.';
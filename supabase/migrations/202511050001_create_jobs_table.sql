@@ -0,0 +1,36 @@
+-- Migration: Durable background job queue (webhook events, tenant syncs, RAG syncs)
+
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid references public.tenants (id) on delete cascade,
+  kind text not null check (kind in ('hostaway_webhook_event', 'tenant_sync', 'rag_sync')),
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'processing', 'completed', 'dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_at timestamptz not null default now(),
+  locked_at timestamptz,
+  last_error text,
+  dedupe_key text,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_jobs_claim on public.jobs (status, run_at);
+create index if not exists idx_jobs_tenant on public.jobs (tenant_id, created_at desc);
+create index if not exists idx_jobs_kind_status on public.jobs (kind, status);
+
+-- Only one queued/running job per dedupe key (e.g. one tenant sync at a time)
+create unique index if not exists idx_jobs_dedupe_active on public.jobs (dedupe_key)
+  where dedupe_key is not null and status in ('pending', 'processing');
+
+alter table public.jobs enable row level security;
+
+create policy jobs_access on public.jobs
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.jobs is 'Postgres-backed job queue claimed with SKIP LOCKED by the backend workers.';
+comment on column public.jobs.status is 'pending (queued or awaiting retry), processing, completed, or dead (retries exhausted).';
+comment on column public.jobs.run_at is 'Earliest time the job may be claimed; pushed out with exponential backoff on failure.';
+comment on column public.jobs.dedupe_key is 'Optional key preventing duplicate active jobs for the same work.';
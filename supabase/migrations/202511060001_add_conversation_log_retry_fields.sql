@@ -0,0 +1,14 @@
+-- Migration: track delivery attempts so transient send failures can be retried with backoff
+
+alter table if exists public.conversation_logs
+  add column if not exists attempts integer not null default 0;
+
+alter table if exists public.conversation_logs
+  add column if not exists next_attempt_at timestamptz;
+
+create index if not exists idx_conversation_logs_status_next_attempt
+  on public.conversation_logs (status, next_attempt_at)
+  where status = 'pending';
+
+comment on column public.conversation_logs.attempts is 'Number of delivery attempts made for an outbound message.';
+comment on column public.conversation_logs.next_attempt_at is 'Earliest time a pending message may be retried after a transient delivery failure.';
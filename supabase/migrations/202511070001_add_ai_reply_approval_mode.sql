@@ -0,0 +1,58 @@
+-- Migration: AI reply modes (autonomous, approval_required, off) with draft review on conversation logs
+
+alter table if exists public.tenants
+  add column if not exists ai_reply_mode text not null default 'autonomous';
+
+alter table if exists public.conversations
+  add column if not exists ai_reply_mode text;
+
+do $$
+begin
+  if not exists (
+    select 1
+      from pg_constraint
+     where conname = 'tenants_ai_reply_mode_check'
+  ) then
+    alter table public.tenants
+      add constraint tenants_ai_reply_mode_check
+        check (ai_reply_mode in ('autonomous', 'approval_required', 'off'));
+  end if;
+
+  if not exists (
+    select 1
+      from pg_constraint
+     where conname = 'conversations_ai_reply_mode_check'
+  ) then
+    alter table public.conversations
+      add constraint conversations_ai_reply_mode_check
+        check (ai_reply_mode is null or ai_reply_mode in ('autonomous', 'approval_required', 'off'));
+  end if;
+end
+$$;
+
+-- Drafts wait for staff review; rejected drafts are kept for quality tracking
+alter table public.conversation_logs
+  drop constraint if exists conversation_logs_status_check;
+
+alter table public.conversation_logs
+  add constraint conversation_logs_status_check
+    check (status in ('draft', 'pending', 'processing', 'sent', 'failed', 'rejected'));
+
+alter table if exists public.conversation_logs
+  add column if not exists original_message_body text;
+
+alter table if exists public.conversation_logs
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null;
+
+alter table if exists public.conversation_logs
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists idx_conversation_logs_drafts
+  on public.conversation_logs (tenant_id, conversation_id)
+  where status = 'draft';
+
+comment on column public.tenants.ai_reply_mode is 'Default handling of AI replies: autonomous (send), approval_required (draft for review) or off.';
+comment on column public.conversations.ai_reply_mode is 'Per-conversation override of the tenant AI reply mode; null inherits the tenant setting.';
+comment on column public.conversation_logs.original_message_body is 'AI-generated text of a draft that staff edited before approving.';
+comment on column public.conversation_logs.reviewed_by is 'Staff member who approved or rejected an AI draft.';
+comment on column public.conversation_logs.reviewed_at is 'When an AI draft was approved or rejected.';
@@ -0,0 +1,31 @@
+-- Migration: Per-tenant AI configuration (models, temperature, persona and house rules)
+
+create table if not exists public.tenant_ai_settings (
+  tenant_id uuid primary key references public.tenants (id) on delete cascade,
+  response_model text,
+  intent_model text,
+  temperature numeric(3, 2) check (temperature is null or (temperature >= 0 and temperature <= 2)),
+  persona text,
+  signature text,
+  forbidden_topics text[] not null default '{}',
+  language_policy text not null default 'match_guest' check (language_policy in ('match_guest', 'fixed')),
+  default_language text,
+  low_confidence_threshold numeric(3, 2)
+    check (low_confidence_threshold is null or (low_confidence_threshold >= 0 and low_confidence_threshold <= 1)),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.tenant_ai_settings enable row level security;
+
+create policy tenant_ai_settings_access on public.tenant_ai_settings
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.tenant_ai_settings is 'AI behaviour per tenant. Null columns fall back to the platform defaults.';
+comment on column public.tenant_ai_settings.response_model is 'OpenAI model used to write guest replies; null uses OPENAI_RESPONSE_MODEL.';
+comment on column public.tenant_ai_settings.intent_model is 'OpenAI model used for intent classification; null uses OPENAI_INTENT_MODEL.';
+comment on column public.tenant_ai_settings.persona is 'Tone and persona instructions added to the reply prompt.';
+comment on column public.tenant_ai_settings.signature is 'Sign-off appended to every AI reply.';
+comment on column public.tenant_ai_settings.forbidden_topics is 'Topics the assistant must not discuss; guests are referred to staff instead.';
+comment on column public.tenant_ai_settings.language_policy is 'match_guest replies in the guest''s language; fixed always uses default_language.';
+comment on column public.tenant_ai_settings.low_confidence_threshold is 'Classifier confidence below which the message is escalated to staff.';
@@ -0,0 +1,28 @@
+-- Migration: Per-tenant LLM provider override (OpenAI, OpenAI-compatible endpoint or fake)
+
+alter table if exists public.tenant_ai_settings
+  add column if not exists llm_provider text;
+
+alter table if exists public.tenant_ai_settings
+  add column if not exists llm_base_url text;
+
+alter table if exists public.tenant_ai_settings
+  add column if not exists encrypted_llm_api_key text;
+
+do $$
+begin
+  if not exists (
+    select 1
+      from pg_constraint
+     where conname = 'tenant_ai_settings_llm_provider_check'
+  ) then
+    alter table public.tenant_ai_settings
+      add constraint tenant_ai_settings_llm_provider_check
+        check (llm_provider is null or llm_provider in ('openai', 'openai_compatible', 'fake'));
+  end if;
+end
+$$;
+
+comment on column public.tenant_ai_settings.llm_provider is 'Chat completion provider for this tenant; null uses the platform LLM_PROVIDER.';
+comment on column public.tenant_ai_settings.llm_base_url is 'Base URL of an OpenAI-compatible endpoint (Azure OpenAI, vLLM, Ollama...).';
+comment on column public.tenant_ai_settings.encrypted_llm_api_key is 'Tenant API key for the provider, encrypted with ENCRYPTION_KEY.';
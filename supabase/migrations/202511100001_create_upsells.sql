@@ -0,0 +1,61 @@
+-- Migration: Upsell offers (early check-in, late checkout, extra cleaning, parking) and orders per booking
+
+create table if not exists public.upsell_offers (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  listing_id text,
+  type text not null check (type in ('early_check_in', 'late_checkout', 'extra_cleaning', 'parking')),
+  name text not null,
+  description text,
+  price_cents integer not null check (price_cents >= 0),
+  currency text not null default 'EUR',
+  enabled boolean not null default true,
+  service_time text check (service_time is null or service_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  min_notice_hours integer not null default 0 check (min_notice_hours >= 0),
+  requires_free_turnover boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_upsell_offers_tenant
+  on public.upsell_offers (tenant_id, type);
+
+create table if not exists public.upsell_orders (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  offer_id uuid references public.upsell_offers (id) on delete set null,
+  type text not null,
+  name text not null,
+  reservation_id text not null,
+  listing_id text,
+  conversation_id uuid references public.conversations (id) on delete set null,
+  price_cents integer not null,
+  currency text not null,
+  status text not null default 'offered' check (status in ('offered', 'accepted', 'declined', 'cancelled')),
+  offered_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_upsell_orders_reservation
+  on public.upsell_orders (tenant_id, reservation_id);
+
+create index if not exists idx_upsell_orders_open
+  on public.upsell_orders (conversation_id, offered_at desc)
+  where status = 'offered';
+
+alter table public.upsell_offers enable row level security;
+alter table public.upsell_orders enable row level security;
+
+create policy upsell_offers_access on public.upsell_offers
+  for select using (tenant_id = public.current_user_tenant_id());
+
+create policy upsell_orders_access on public.upsell_orders
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.upsell_offers is 'Paid extras the AI can offer guests; listing_id null applies to all listings.';
+comment on column public.upsell_offers.service_time is 'Early check-in time or late checkout time (HH:MM) sold by the offer.';
+comment on column public.upsell_offers.min_notice_hours is 'Hours before arrival (departure for late checkout) after which the offer is no longer made.';
+comment on column public.upsell_offers.requires_free_turnover is 'Only offer when no other booking departs on the arrival day or arrives on the departure day.';
+comment on table public.upsell_orders is 'Upsells offered to and accepted by guests, recorded against the Hostaway reservation.';
+comment on column public.upsell_orders.name is 'Offer name and price are copied so later offer edits do not change past orders.';
@@ -0,0 +1,29 @@
+-- Migration: Staff tasks raised by the AI for requests only a human can confirm (e.g. stay extensions)
+
+create table if not exists public.staff_tasks (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  conversation_id uuid references public.conversations (id) on delete set null,
+  reservation_id text,
+  type text not null,
+  title text not null,
+  details jsonb not null default '{}'::jsonb,
+  status text not null default 'open' check (status in ('open', 'done', 'dismissed')),
+  completed_by uuid references auth.users (id) on delete set null,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_staff_tasks_open
+  on public.staff_tasks (tenant_id, created_at desc)
+  where status = 'open';
+
+alter table public.staff_tasks enable row level security;
+
+create policy staff_tasks_access on public.staff_tasks
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.staff_tasks is 'Follow-ups for the team, such as confirming a stay extension the AI quoted to a guest.';
+comment on column public.staff_tasks.type is 'What the task is about, e.g. stay_extension.';
+comment on column public.staff_tasks.details is 'Data the team needs to act, e.g. requested dates, availability and quoted price.';
@@ -0,0 +1,94 @@
+-- Migration: Escalation policies with multi-step on-call chains and acknowledgement tracking
+
+create table if not exists public.escalation_policies (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  listing_id text,
+  trigger text not null check (trigger in ('emergency', 'low_confidence', 'complaint', 'staff_follow_up')),
+  name text not null,
+  steps jsonb not null default '[]'::jsonb,
+  quiet_hours_start text,
+  quiet_hours_end text,
+  timezone text,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_escalation_policies_scope
+  on public.escalation_policies (tenant_id, trigger, coalesce(listing_id, ''));
+
+alter table public.escalation_policies enable row level security;
+
+create policy escalation_policies_access on public.escalation_policies
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.escalation_policies is 'Ordered on-call chains used when the AI escalates a conversation to staff.';
+comment on column public.escalation_policies.listing_id is 'Hostaway listing the policy applies to; null applies to every listing without its own policy.';
+comment on column public.escalation_policies.steps is 'Ordered steps: [{ channel, contactName, destination, waitMinutes }].';
+comment on column public.escalation_policies.quiet_hours_start is 'Local HH:MM from which non-emergency steps are held until quiet hours end.';
+
+create table if not exists public.escalations (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  policy_id uuid references public.escalation_policies (id) on delete set null,
+  policy jsonb not null,
+  conversation_id uuid references public.conversations (id) on delete set null,
+  reservation_id text,
+  trigger text not null,
+  title text not null,
+  summary text not null,
+  status text not null default 'active' check (status in ('active', 'acknowledged', 'exhausted')),
+  next_step integer not null default 0,
+  acknowledged_by text,
+  acknowledged_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_escalations_conversation
+  on public.escalations (conversation_id, created_at desc);
+
+create index if not exists idx_escalations_active
+  on public.escalations (tenant_id, created_at desc)
+  where status = 'active';
+
+alter table public.escalations enable row level security;
+
+create policy escalations_access on public.escalations
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.escalations is 'One run of an escalation policy for a guest message.';
+comment on column public.escalations.policy is 'Snapshot of the policy at trigger time so edits do not change a running chain.';
+comment on column public.escalations.next_step is 'Index of the step the next escalation_step job will notify.';
+
+create table if not exists public.escalation_events (
+  id uuid primary key default gen_random_uuid(),
+  escalation_id uuid not null references public.escalations (id) on delete cascade,
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  step_index integer,
+  channel text,
+  destination text,
+  type text not null check (type in ('notified', 'failed', 'deferred', 'acknowledged', 'exhausted')),
+  details text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_escalation_events_escalation
+  on public.escalation_events (escalation_id, created_at);
+
+create index if not exists idx_escalation_events_destination
+  on public.escalation_events (tenant_id, destination, created_at desc)
+  where type = 'notified';
+
+alter table public.escalation_events enable row level security;
+
+create policy escalation_events_access on public.escalation_events
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.escalation_events is 'Timeline of notifications and acknowledgements for an escalation.';
+
+alter table public.jobs drop constraint if exists jobs_kind_check;
+alter table public.jobs
+  add constraint jobs_kind_check
+  check (kind in ('hostaway_webhook_event', 'tenant_sync', 'rag_sync', 'escalation_step'));
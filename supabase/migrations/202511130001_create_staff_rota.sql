@@ -0,0 +1,77 @@
+-- Migration: Staff directory, weekly on-call rota and rota overrides used to route escalations
+
+create table if not exists public.staff_members (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  name text not null,
+  phone text,
+  email text,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_staff_members_tenant on public.staff_members (tenant_id, name);
+
+alter table public.staff_members enable row level security;
+
+create policy staff_members_access on public.staff_members
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.staff_members is 'People who can be alerted when a conversation needs a human.';
+
+create table if not exists public.rota_shifts (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  staff_member_id uuid not null references public.staff_members (id) on delete cascade,
+  listing_id text,
+  day_of_week smallint not null check (day_of_week between 0 and 6),
+  start_time text not null,
+  end_time text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_rota_shifts_tenant on public.rota_shifts (tenant_id, day_of_week);
+
+alter table public.rota_shifts enable row level security;
+
+create policy rota_shifts_access on public.rota_shifts
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.rota_shifts is 'Weekly recurring on-call shifts, in the local time of the property.';
+comment on column public.rota_shifts.listing_id is 'Hostaway listing the shift covers; null covers every listing without shifts of its own.';
+comment on column public.rota_shifts.day_of_week is '0 = Sunday ... 6 = Saturday, the day the shift starts.';
+comment on column public.rota_shifts.end_time is 'HH:MM; an end at or before start_time runs past midnight.';
+
+create table if not exists public.rota_overrides (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  staff_member_id uuid references public.staff_members (id) on delete cascade,
+  cover_staff_member_id uuid references public.staff_members (id) on delete cascade,
+  listing_id text,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  reason text,
+  created_at timestamptz not null default now(),
+  constraint rota_overrides_person check (
+    staff_member_id is not null or cover_staff_member_id is not null
+  ),
+  constraint rota_overrides_period check (ends_at > starts_at)
+);
+
+create index if not exists idx_rota_overrides_period
+  on public.rota_overrides (tenant_id, ends_at);
+
+alter table public.rota_overrides enable row level security;
+
+create policy rota_overrides_access on public.rota_overrides
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.rota_overrides is 'Holidays, swaps and extra cover that change the weekly rota for a period.';
+comment on column public.rota_overrides.staff_member_id is 'Person taken off call for the period (e.g. on holiday).';
+comment on column public.rota_overrides.cover_staff_member_id is 'Person on call for the period, replacing staff_member_id when set.';
+
+alter table public.escalations add column if not exists listing_id text;
+
+comment on column public.escalations.listing_id is 'Hostaway listing of the guest, used to find who is on call for on-call steps.';
@@ -0,0 +1,32 @@
+-- Migration: Per-tenant team roles and email invitations
+
+alter table public.user_profiles
+  add column if not exists tenant_role text not null default 'owner'
+    check (tenant_role in ('owner', 'manager', 'agent', 'read_only'));
+
+comment on column public.user_profiles.tenant_role is 'Role within the tenant: owner, manager, agent or read_only. Existing users created their tenant and become owners.';
+
+create table if not exists public.tenant_invitations (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'manager', 'agent', 'read_only')),
+  token_hash text not null unique,
+  invited_by uuid references auth.users (id) on delete set null,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_tenant_invitations_pending
+  on public.tenant_invitations (tenant_id, lower(email))
+  where accepted_at is null;
+
+alter table public.tenant_invitations enable row level security;
+
+create policy tenant_invitations_access on public.tenant_invitations
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.tenant_invitations is 'Email invitations to join a tenant with a role; only a hash of the token is stored.';
+comment on column public.tenant_invitations.token_hash is 'SHA-256 of the invitation token sent in the email link.';
@@ -0,0 +1,44 @@
+-- Migration: Super-admin console: subscription overrides, impersonation sessions and admin audit log
+
+alter table public.tenants
+  add column if not exists subscription_override text
+    check (subscription_override in ('active', 'inactive')),
+  add column if not exists subscription_override_reason text,
+  add column if not exists subscription_override_until timestamptz;
+
+comment on column public.tenants.subscription_override is 'Operator-set status used instead of subscription_status (e.g. comped or suspended accounts).';
+comment on column public.tenants.subscription_override_until is 'When the override lapses; null keeps it until cleared.';
+
+create table if not exists public.admin_impersonations (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid not null references auth.users (id) on delete cascade,
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  reason text not null,
+  started_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  ended_at timestamptz
+);
+
+create index if not exists idx_admin_impersonations_admin
+  on public.admin_impersonations (admin_user_id, started_at desc);
+
+alter table public.admin_impersonations enable row level security;
+
+comment on table public.admin_impersonations is 'Time-limited, read-only sessions in which a super-admin views a tenant''s inbox.';
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid references auth.users (id) on delete set null,
+  tenant_id uuid references public.tenants (id) on delete set null,
+  action text not null,
+  details jsonb not null default '{}'::jsonb,
+  remote_ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_admin_audit_log_tenant on public.admin_audit_log (tenant_id, created_at desc);
+create index if not exists idx_admin_audit_log_created_at on public.admin_audit_log (created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+comment on table public.admin_audit_log is 'Append-only record of super-admin actions, including every impersonated read.';
@@ -0,0 +1,48 @@
+-- Migration: Append-only tenant audit log
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  actor_user_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  action text not null,
+  target_type text not null,
+  target_id text,
+  changes jsonb not null default '{}'::jsonb,
+  remote_ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_audit_log_tenant_created
+  on public.audit_log (tenant_id, created_at desc);
+
+create index if not exists idx_audit_log_tenant_action
+  on public.audit_log (tenant_id, action, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+create policy audit_log_access on public.audit_log
+  for select using (tenant_id = public.current_user_tenant_id());
+
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Rows only go away through the cascade when their tenant is deleted
+  if tg_op = 'DELETE'
+    and not exists (select 1 from public.tenants where id = old.tenant_id) then
+    return old;
+  end if;
+
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.prevent_audit_log_changes();
+
+comment on table public.audit_log is 'Append-only record of configuration and conversation actions per tenant. Rows are removed only when the tenant is deleted.';
+comment on column public.audit_log.actor_user_id is 'User who performed the action; null for system actions such as Stripe webhooks.';
+comment on column public.audit_log.changes is 'Changed fields as {"field": {"before": ..., "after": ...}}; secrets are redacted.';
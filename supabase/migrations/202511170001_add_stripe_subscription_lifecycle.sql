@@ -0,0 +1,28 @@
+-- Migration: Stripe subscription lifecycle (plan, period, trial, grace period) and webhook idempotency
+
+alter table public.tenants
+  add column if not exists stripe_price_id text,
+  add column if not exists subscription_current_period_end timestamptz,
+  add column if not exists subscription_trial_ends_at timestamptz,
+  add column if not exists subscription_cancel_at_period_end boolean not null default false,
+  add column if not exists subscription_grace_until timestamptz;
+
+create index if not exists idx_tenants_stripe_customer on public.tenants (stripe_customer_id);
+
+comment on column public.tenants.subscription_status is 'Stripe-driven status: pending, trialing, active, grace_period, past_due, canceled or inactive.';
+comment on column public.tenants.subscription_grace_until is 'Set when a payment fails; the tenant keeps access as grace_period until then, and is treated as past_due afterwards.';
+comment on column public.tenants.stripe_price_id is 'Price of the current Stripe subscription item, updated on plan changes.';
+
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  tenant_id uuid references public.tenants (id) on delete set null,
+  attempts integer not null default 1,
+  last_error text,
+  processed_at timestamptz,
+  received_at timestamptz not null default now()
+);
+
+alter table public.stripe_events enable row level security;
+
+comment on table public.stripe_events is 'Stripe webhook events keyed by event id; an event with processed_at set is never applied twice.';
@@ -0,0 +1,28 @@
+-- Migration: Monthly per-tenant usage counters for metered billing
+
+create table if not exists public.usage_counters (
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  period_start date not null,
+  metric text not null check (
+    metric in (
+      'whatsapp_messages',
+      'hostaway_messages',
+      'ai_generations',
+      'ai_tokens',
+      'embeddings',
+      'active_listings'
+    )
+  ),
+  quantity bigint not null default 0,
+  reported_overage bigint not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (tenant_id, period_start, metric)
+);
+
+alter table public.usage_counters enable row level security;
+
+create policy usage_counters_access on public.usage_counters
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.usage_counters is 'Usage per tenant, calendar month (UTC) and metric. active_listings holds the peak seen in the month.';
+comment on column public.usage_counters.reported_overage is 'Overage units already sent to Stripe metered billing for this month.';
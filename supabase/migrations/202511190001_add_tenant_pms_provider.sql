@@ -0,0 +1,8 @@
+-- Migration: Property management system each tenant syncs reservations and guest messages with
+
+alter table public.tenants
+  add column if not exists pms_provider text not null default 'hostaway' check (
+    pms_provider in ('hostaway', 'guesty', 'lodgify', 'smoobu')
+  );
+
+comment on column public.tenants.pms_provider is 'Property management system adapter used for reservations, listings and guest conversations. Only hostaway has an adapter today.';
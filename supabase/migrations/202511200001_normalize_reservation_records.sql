@@ -0,0 +1,42 @@
+-- Migration: Typed listing, guest and reservation fields synced from the property management system
+
+alter table public.properties
+  add column if not exists public_name text,
+  add column if not exists address text,
+  add column if not exists city text,
+  add column if not exists country text,
+  add column if not exists check_in_time text,
+  add column if not exists check_out_time text,
+  add column if not exists door_code text,
+  add column if not exists wifi_name text,
+  add column if not exists wifi_password text,
+  add column if not exists amenities text[] not null default '{}',
+  add column if not exists house_rules text,
+  add column if not exists synced_at timestamptz;
+
+alter table public.guests
+  add column if not exists first_name text,
+  add column if not exists last_name text;
+
+alter table public.bookings
+  add column if not exists arrival_date date,
+  add column if not exists departure_date date,
+  add column if not exists check_in_time text,
+  add column if not exists check_out_time text,
+  add column if not exists timezone text,
+  add column if not exists guest_count integer,
+  add column if not exists total_price numeric(12, 2),
+  add column if not exists door_code text,
+  add column if not exists guest_portal_url text,
+  add column if not exists reserved_at timestamptz,
+  add column if not exists synced_at timestamptz;
+
+create index if not exists idx_bookings_tenant_arrival on public.bookings (tenant_id, arrival_date);
+
+comment on column public.properties.name is 'Internal listing name staff recognise.';
+comment on column public.properties.public_name is 'Listing name guests see on booking channels.';
+comment on column public.properties.door_code is 'Listing-wide door code; reservations with their own code override it.';
+comment on column public.properties.synced_at is 'When the listing was last read from the property management system.';
+comment on column public.bookings.arrival_date is 'Arrival day in the listing timezone; check_in_at is the matching instant.';
+comment on column public.bookings.door_code is 'Access code issued for this stay, when the property management system issues one.';
+comment on column public.bookings.synced_at is 'When the reservation was last read from the property management system.';
@@ -0,0 +1,30 @@
+-- Migration: Incremental Hostaway reservation sync with per-run statistics
+
+create table if not exists public.hostaway_sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  reason text not null,
+  mode text not null check (mode in ('full', 'incremental')),
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  cursor_from timestamptz,
+  cursor_to timestamptz,
+  fetched integer not null default 0,
+  created integer not null default 0,
+  updated integer not null default 0,
+  unchanged integer not null default 0,
+  cancelled integer not null default 0,
+  errors integer not null default 0,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists idx_hostaway_sync_runs_tenant_started
+  on public.hostaway_sync_runs (tenant_id, started_at desc);
+
+alter table public.bookings
+  add column if not exists pms_updated_at timestamptz;
+
+comment on table public.hostaway_sync_runs is 'One Hostaway reservation sync per row. The latest cursor_to of a completed run is where the next incremental run starts.';
+comment on column public.hostaway_sync_runs.cursor_to is 'Start time of the run, set only when every reservation synced so failed ones are fetched again next time.';
+comment on column public.bookings.pms_updated_at is 'Last activity time the property management system reported for the reservation; unchanged reservations are skipped on sync.';
@@ -0,0 +1,31 @@
+-- Migration: Tenant-defined automation rules (trigger -> conditions -> actions) and conversation tags
+
+create table if not exists public.automation_rules (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id uuid not null references public.tenants (id) on delete cascade,
+  name text not null,
+  enabled boolean not null default true,
+  trigger jsonb not null,
+  conditions jsonb not null default '{}'::jsonb,
+  actions jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_automation_rules_tenant
+  on public.automation_rules (tenant_id, created_at);
+
+alter table public.automation_rules enable row level security;
+
+create policy automation_rules_access on public.automation_rules
+  for select using (tenant_id = public.current_user_tenant_id());
+
+comment on table public.automation_rules is 'Tenant-defined automations evaluated by the scheduler alongside the built-in proactive messages.';
+comment on column public.automation_rules.trigger is 'When the rule fires: { type, offsetHours, pattern, statuses }.';
+comment on column public.automation_rules.conditions is 'Reservation filters that must all hold: listings, channels, stay length, guest count, lead time.';
+comment on column public.automation_rules.actions is 'Ordered actions: [{ type, templateId, message, tag }].';
+
+alter table public.conversations
+  add column if not exists tags text[] not null default '{}';
+
+comment on column public.conversations.tags is 'Labels added by staff or automation rules.';
@@ -0,0 +1,4 @@
+-- Migration: Queue AI replies to inbound Twilio messages instead of answering inside the webhook
+
+alter table public.jobs drop constraint if exists jobs_kind_check;
+alter table public.jobs add constraint jobs_kind_check check (kind in ('hostaway_webhook_event', 'twilio_inbound_message', 'tenant_sync', 'rag_sync', 'escalation_step'));
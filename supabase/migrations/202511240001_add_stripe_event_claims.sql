@@ -0,0 +1,5 @@
+-- Migration: Claim Stripe events with a lease instead of holding a transaction open while applying them
+
+alter table public.stripe_events add column if not exists claimed_at timestamptz;
+
+comment on column public.stripe_events.claimed_at is 'Set while a webhook delivery applies the event; concurrent deliveries skip it until the claim is released or goes stale.';
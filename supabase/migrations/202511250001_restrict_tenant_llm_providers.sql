@@ -0,0 +1,10 @@
+-- Migration: The fake LLM provider is platform configuration only; tenants can no longer select it
+
+update public.tenant_ai_settings
+   set llm_provider = null
+ where llm_provider = 'fake';
+
+alter table public.tenant_ai_settings drop constraint if exists tenant_ai_settings_llm_provider_check;
+alter table public.tenant_ai_settings
+  add constraint tenant_ai_settings_llm_provider_check
+    check (llm_provider is null or llm_provider in ('openai', 'openai_compatible'));
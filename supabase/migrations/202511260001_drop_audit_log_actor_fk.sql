@@ -0,0 +1,7 @@
+-- Migration: Keep audit_log actors as snapshots; the "on delete set null" foreign key made deleting a
+-- user fail against the append-only trigger
+
+alter table public.audit_log drop constraint if exists audit_log_actor_user_id_fkey;
+
+comment on column public.audit_log.actor_user_id is 'Id of the user who performed the action, kept after the user is deleted; null for system actions such as Stripe webhooks.';
+comment on column public.audit_log.actor_email is 'Email of the acting user at the time of the action.';
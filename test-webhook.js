@@ -5,7 +5,9 @@
  *
  * Usage:
  * 1. Set your ngrok URL: export NGROK_URL="https://your-ngrok-id.ngrok-free.app"
- * 2. Run: node test-webhook.js
+ * 2. Optionally set the tenant's webhook credentials (deliveries without them are rejected with 401):
+ *    export HOSTAWAY_WEBHOOK_LOGIN=... HOSTAWAY_WEBHOOK_PASSWORD=...
+ * 3. Run: node test-webhook.js
  */
 
 const https = require('https');
@@ -13,6 +15,12 @@ const http = require('http');
 
 const NGROK_URL = process.env.NGROK_URL || 'https://e98acebf4994.ngrok-free.app';
 const WEBHOOK_URL = `${NGROK_URL}/api/webhooks/hostaway`;
+const WEBHOOK_AUTH =
+  process.env.HOSTAWAY_WEBHOOK_LOGIN && process.env.HOSTAWAY_WEBHOOK_PASSWORD
+    ? `Basic ${Buffer.from(
+        `${process.env.HOSTAWAY_WEBHOOK_LOGIN}:${process.env.HOSTAWAY_WEBHOOK_PASSWORD}`,
+      ).toString('base64')}`
+    : null;
 
 console.log('🧪 Testing Hostaway Webhook Integration');
 console.log('=====================================');
@@ -137,6 +145,7 @@ async function testHostawayWebhookPayload() {
       headers: {
         'Content-Type': 'application/json',
         'User-Agent': 'Hostaway-Webhook/1.0',
+        ...(WEBHOOK_AUTH && { Authorization: WEBHOOK_AUTH }),
       },
     };
 